@@ -5,7 +5,10 @@ import { Text } from 'react-native';
 import { SafeAreaProvider, useSafeAreaInsets } from 'react-native-safe-area-context';
 import MainScreen from './src/screens/MainScreen';
 import SpeedDashboard from './src/screens/SpeedDashboard';
+import TripsScreen from './src/screens/TripsScreen';
+import SettingsScreen from './src/screens/SettingsScreen';
 import { ThemeProvider, useTheme } from './src/contexts/ThemeContext';
+import { PreferencesProvider } from './src/contexts/PreferencesContext';
 
 const Tab = createBottomTabNavigator();
 
@@ -56,6 +59,24 @@ function AppNavigator() {
           ),
         }}
       />
+      <Tab.Screen 
+        name="Trips" 
+        component={TripsScreen}
+        options={{
+          tabBarIcon: ({ color, size }) => (
+            <Text style={{ fontSize: size, color }}>🗺️</Text>
+          ),
+        }}
+      />
+      <Tab.Screen 
+        name="Settings" 
+        component={SettingsScreen}
+        options={{
+          tabBarIcon: ({ color, size }) => (
+            <Text style={{ fontSize: size, color }}>⚙️</Text>
+          ),
+        }}
+      />
     </Tab.Navigator>
   );
 }
@@ -63,11 +84,13 @@ function AppNavigator() {
 export default function App() {
   return (
     <SafeAreaProvider>
-      <ThemeProvider>
-        <NavigationContainer>
-          <AppNavigator />
-        </NavigationContainer>
-      </ThemeProvider>
+      <PreferencesProvider>
+        <ThemeProvider>
+          <NavigationContainer>
+            <AppNavigator />
+          </NavigationContainer>
+        </ThemeProvider>
+      </PreferencesProvider>
     </SafeAreaProvider>
   );
 }
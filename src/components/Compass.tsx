@@ -1,14 +1,56 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { View, Text, StyleSheet, ViewStyle } from 'react-native';
-import { Magnetometer, Accelerometer } from 'expo-sensors';
+import { View, Text, StyleSheet, ViewStyle, TouchableOpacity } from 'react-native';
+import { Magnetometer, Accelerometer, Gyroscope } from 'expo-sensors';
 import Svg, { Circle, Line, Text as SvgText, G, Polygon } from 'react-native-svg';
 import { useTheme } from '../contexts/ThemeContext';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { LocationService, LocationData } from '../services/locationService';
+import { CompassSettingsService, HEADING_REFERENCES, HeadingReference } from '../services/compassSettingsService';
+import { getGridConvergence, getMagneticField } from '../utils/magnetic';
+import { assessHeadingAccuracy, DEFAULT_FIELD_STRENGTH, HeadingAccuracy, magnitude, subtract, Vector3 } from '../utils/compassCalibration';
+import { normalizeDegrees } from '../utils/geo';
+import { HeadingFusion, HeadingSource, yawRateFromGyro } from '../utils/headingFusion';
+import CompassCalibrationOverlay from './CompassCalibrationOverlay';
+
+export interface CompassHeading {
+  heading: number; // In `reference`, the one to display
+  reference: HeadingReference; // Falls back to 'magnetic' until a position is known
+  magneticHeading: number;
+  trueHeading: number | null; // null until a position gives the declination
+  gridHeading: number | null; // UTM grid north
+  declination: number | null; // Degrees, positive east
+  gridConvergence: number | null;
+  accuracy: HeadingAccuracy;
+  fieldStrength: number | null; // µT after calibration, smoothed
+  expectedFieldStrength: number; // µT from the WMM at the current position
+  source: HeadingSource; // What is steering the fused heading
+  headingAccuracy: number; // Estimated 1σ heading error in degrees
+}
+
+const MIN_DECLINATION_CHANGE = 0.05; // Degrees, skip re-renders for smaller changes
+const FIELD_SMOOTHING = 0.05; // Magnitude EMA factor per sample, about 0.6 s at 30 ms
+const MIN_HEADING_CHANGE = 0.08; // Degrees, skip re-renders for smaller changes
 
 // Shared compass hook that can be used by multiple components
-export const useCompass = () => {
+export const useCompass = (): CompassHeading => {
   const [heading, setHeading] = useState(0);
-  const smoothedHeadingRef = useRef(0);
+  const [declination, setDeclination] = useState<number | null>(null);
+  const [gridConvergence, setGridConvergence] = useState<number | null>(null);
+  const [headingReference, setHeadingReference] = useState<HeadingReference>(
+    () => CompassSettingsService.getInstance().getHeadingReference()
+  );
+  const [accuracy, setAccuracy] = useState<HeadingAccuracy>('unreliable');
+  const [fieldStrength, setFieldStrength] = useState<number | null>(null);
+  const [expectedFieldStrength, setExpectedFieldStrength] = useState(DEFAULT_FIELD_STRENGTH);
+  const [source, setSource] = useState<HeadingSource>('magnetometer');
+  const [headingAccuracy, setHeadingAccuracy] = useState(180);
+  const fusionRef = useRef(new HeadingFusion());
+  const gyroAvailableRef = useRef(false);
+  const publishedHeadingRef = useRef(0);
   const accelRef = useRef({ x: 0, y: 0, z: 0 });
+  const hardIronOffsetRef = useRef<Vector3>(CompassSettingsService.getInstance().getHardIronOffset());
+  const expectedFieldRef = useRef(DEFAULT_FIELD_STRENGTH);
+  const fieldStrengthRef = useRef<number | null>(null);
 
   // Calculate tilt-compensated compass heading
   const calculateTiltCompensatedHeading = (magnet: { x: number; y: number; z: number }, accel: { x: number; y: number; z: number }): number => {
@@ -37,9 +79,25 @@ export const useCompass = () => {
     return (degrees + 360) % 360;
   };
 
+  // Push the fused state to React, skipping changes too small to see
+  const publishFusedHeading = (now: number) => {
+    const fused = fusionRef.current.getState(now);
+    let diff = fused.heading - publishedHeadingRef.current;
+    if (diff > 180) diff -= 360;
+    if (diff < -180) diff += 360;
+    if (Math.abs(diff) > MIN_HEADING_CHANGE) {
+      publishedHeadingRef.current = fused.heading;
+      setHeading(fused.heading);
+    }
+    setSource(fused.source);
+    setHeadingAccuracy(Math.round(fused.accuracy));
+  };
+
   useEffect(() => {
     let magSub: any;
     let accSub: any;
+    let gyroSub: any;
+    let active = true;
 
     const startCompass = async () => {
       Magnetometer.setUpdateInterval(30); // Ultra-responsive updates
@@ -50,9 +108,31 @@ export const useCompass = () => {
         accelRef.current = data;
       });
 
+      // The gyro carries the heading through turns and magnetic disturbances
+      gyroAvailableRef.current = await Gyroscope.isAvailableAsync().catch(() => false);
+      if (!active) return;
+      if (gyroAvailableRef.current) {
+        Gyroscope.setUpdateInterval(30);
+        gyroSub = Gyroscope.addListener((data) => {
+          const now = Date.now();
+          fusionRef.current.predict(now, yawRateFromGyro(data, accelRef.current));
+          publishFusedHeading(now);
+        });
+      }
+
       // Listen to magnetometer with tilt compensation
-      magSub = Magnetometer.addListener((data) => {
+      magSub = Magnetometer.addListener((raw) => {
         const accel = accelRef.current;
+        const data = subtract(raw, hardIronOffsetRef.current);
+
+        // A field much stronger or weaker than the Earth's here means metal nearby or a bad calibration
+        const measured = magnitude(data);
+        const previousField = fieldStrengthRef.current;
+        const field = previousField === null ? measured : previousField + (measured - previousField) * FIELD_SMOOTHING;
+        fieldStrengthRef.current = field;
+        setFieldStrength(current => (current !== null && Math.round(current) === Math.round(field) ? current : field));
+        const fieldAccuracy = assessHeadingAccuracy(field, expectedFieldRef.current);
+        setAccuracy(fieldAccuracy);
 
         // Calculate tilt-compensated heading (fallback to basic if no accel data)
         let degrees: number;
@@ -64,43 +144,107 @@ export const useCompass = () => {
           degrees = (radians * 180 / Math.PI + 360) % 360;
         }
 
-        // Smooth the transition to avoid jerky movements
-        const current = smoothedHeadingRef.current;
-        let diff = degrees - current;
-
-        // Handle 360/0 boundary crossing
-        if (diff > 180) diff -= 360;
-        if (diff < -180) diff += 360;
-
-        // Optimized responsive smoothing
-        const smoothingFactor = 0.12; // More responsive than before
-
-        // Smart noise filtering - only update for meaningful changes
-        const minChangeThreshold = 0.2; // Lower threshold for faster updates
-        const smoothed = Math.abs(diff) > minChangeThreshold
-          ? current + diff * smoothingFactor
-          : current;
-
-        // Keep in 0-360 range
-        const finalHeading = ((smoothed % 360) + 360) % 360;
-
-        // Only update state if there's a meaningful change to prevent unnecessary re-renders
-        if (Math.abs(finalHeading - smoothedHeadingRef.current) > 0.08) {
-          smoothedHeadingRef.current = finalHeading;
-          setHeading(finalHeading);
+        const now = Date.now();
+        if (!gyroAvailableRef.current) {
+          fusionRef.current.predict(now, null);
         }
+        fusionRef.current.correctMagnetometer(degrees, fieldAccuracy, now);
+        publishFusedHeading(now);
       });
     };
 
     startCompass();
 
     return () => {
+      active = false;
       if (magSub) magSub.remove();
       if (accSub) accSub.remove();
+      if (gyroSub) gyroSub.remove();
+    };
+  }, []);
+
+  // Declination and grid convergence follow the position and date
+  useEffect(() => {
+    const locationService = LocationService.getInstance();
+    const locationListener = (location: LocationData) => {
+      const altitude = location.ellipsoidalAltitude ?? location.altitude ?? 0;
+      const field = getMagneticField(location.latitude, location.longitude, altitude, new Date(location.timestamp));
+      const nextDeclination = field.declination;
+      expectedFieldRef.current = field.totalIntensity / 1000; // nT to µT, the magnetometer's unit
+      setExpectedFieldStrength(expectedFieldRef.current);
+      setDeclination(current =>
+        current !== null && Math.abs(current - nextDeclination) < MIN_DECLINATION_CHANGE ? current : nextDeclination
+      );
+      setGridConvergence(getGridConvergence(location.latitude, location.longitude));
+
+      // GPS course is true; the filter works in magnetic
+      const now = Date.now();
+      const course = location.course !== null && location.course !== undefined ? normalizeDegrees(location.course - nextDeclination) : null;
+      if (fusionRef.current.correctCourse(course, location.speed, now)) {
+        publishFusedHeading(now);
+      }
+    };
+
+    locationService.addLocationListener(locationListener);
+    const currentLocation = locationService.getCurrentLocation();
+    if (currentLocation) {
+      locationListener(currentLocation);
+    }
+
+    const calibrationListener = (offset: Vector3) => {
+      hardIronOffsetRef.current = offset;
+      fieldStrengthRef.current = null; // Don't let the old magnitude linger in the average
+    };
+
+    const compassSettings = CompassSettingsService.getInstance();
+    compassSettings.addHeadingReferenceListener(setHeadingReference);
+    compassSettings.addCalibrationListener(calibrationListener);
+    compassSettings.initialize();
+
+    return () => {
+      locationService.removeLocationListener(locationListener);
+      compassSettings.removeHeadingReferenceListener(setHeadingReference);
+      compassSettings.removeCalibrationListener(calibrationListener);
     };
   }, []);
 
-  return heading;
+  const trueHeading = declination !== null ? normalizeDegrees(heading + declination) : null;
+  const gridHeading = trueHeading !== null && gridConvergence !== null ? normalizeDegrees(trueHeading - gridConvergence) : null;
+  const selected = headingReference === 'true' ? trueHeading : headingReference === 'grid' ? gridHeading : heading;
+
+  return {
+    heading: selected ?? heading,
+    reference: selected !== null ? headingReference : 'magnetic',
+    magneticHeading: heading,
+    trueHeading,
+    gridHeading,
+    declination,
+    gridConvergence,
+    accuracy,
+    fieldStrength,
+    expectedFieldStrength,
+    source,
+    headingAccuracy,
+  };
+};
+
+const REFERENCE_LABELS: { [reference in HeadingReference]: string } = {
+  true: 'TRUE',
+  magnetic: 'MAG',
+  grid: 'GRID',
+};
+
+const SOURCE_LABELS: { [source in HeadingSource]: string } = {
+  magnetometer: 'Magnetometer',
+  gps: 'GPS course',
+  gyro: 'Gyro',
+};
+
+const ACCURACY_LABELS: { [accuracy in HeadingAccuracy]: string } = {
+  high: 'High accuracy',
+  medium: 'Medium accuracy',
+  low: 'Low accuracy',
+  unreliable: 'Unreliable',
 };
 
 interface CompassProps {
@@ -108,8 +252,18 @@ interface CompassProps {
 }
 
 export default function Compass({ style }: CompassProps) {
-  const heading = useCompass(); // Use the shared compass hook
+  const { heading, reference, declination, accuracy, fieldStrength, expectedFieldStrength, source, headingAccuracy } = useCompass(); // Use the shared compass hook
   const { theme, isDark } = useTheme();
+  const preferences = usePreferences();
+  const [showCalibration, setShowCalibration] = useState(false);
+  const needsCalibration = fieldStrength !== null && (accuracy === 'low' || accuracy === 'unreliable');
+
+  // Tapping the readout cycles true → magnetic → grid
+  const cycleReference = () => {
+    const compassSettings = CompassSettingsService.getInstance();
+    const index = HEADING_REFERENCES.indexOf(compassSettings.getHeadingReference());
+    compassSettings.setHeadingReference(HEADING_REFERENCES[(index + 1) % HEADING_REFERENCES.length]);
+  };
 
   // Additional smoothing for visual rotation with throttling
   const [visualHeading, setVisualHeading] = useState(0);
@@ -123,7 +277,7 @@ export default function Compass({ style }: CompassProps) {
     }
 
     animationFrameRef.current = requestAnimationFrame(() => {
-      const visualSmoothingFactor = 0.08; // More responsive visuals
+      const visualSmoothingFactor = preferences.display.compassSmoothing;
       let diff = heading - visualRef.current;
 
       // Handle 360° boundary
@@ -258,6 +412,47 @@ export default function Compass({ style }: CompassProps) {
       textAlign: 'center',
       marginTop: 2,
     },
+    referenceText: {
+      fontSize: 11,
+      fontWeight: '600',
+      color: theme.colors.primary,
+      textAlign: 'center',
+      marginTop: 2,
+    },
+    sourceText: {
+      fontSize: 11,
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+      marginTop: 2,
+    },
+    calibrationBanner: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: theme.colors.warning + '20',
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: theme.colors.warning,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      marginTop: 10,
+    },
+    calibrationText: {
+      flex: 1,
+      fontSize: 12,
+      color: theme.colors.text,
+    },
+    calibrationButton: {
+      backgroundColor: theme.colors.warning,
+      borderRadius: 6,
+      paddingHorizontal: 10,
+      paddingVertical: 5,
+      marginLeft: 8,
+    },
+    calibrationButtonText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: '#ffffff',
+    },
   });
 
   const getCardinalDirection = (deg: number): string => {
@@ -326,10 +521,35 @@ export default function Compass({ style }: CompassProps) {
         </Svg>
       </View>
 
-      <View style={styles.infoContainer}>
+      <TouchableOpacity style={styles.infoContainer} onPress={cycleReference}>
         <Text style={styles.headingText}>{Math.round(visualHeading)}°</Text>
         <Text style={styles.directionText}>{getCardinalDirection(visualHeading)}</Text>
-      </View>
+        <Text style={styles.referenceText}>
+          {REFERENCE_LABELS[reference]}
+          {declination !== null ? ` · decl ${Math.abs(declination).toFixed(1)}°${declination >= 0 ? 'E' : 'W'}` : ''}
+        </Text>
+        <Text style={styles.sourceText}>
+          {SOURCE_LABELS[source]} · ±{headingAccuracy}°
+        </Text>
+      </TouchableOpacity>
+
+      {needsCalibration && (
+        <View style={styles.calibrationBanner}>
+          <Text style={styles.calibrationText}>
+            ⚠️ {ACCURACY_LABELS[accuracy]}
+            {fieldStrength !== null ? ` · field ${Math.round(fieldStrength)} µT, expected ${Math.round(expectedFieldStrength)} µT` : ''}
+          </Text>
+          <TouchableOpacity style={styles.calibrationButton} onPress={() => setShowCalibration(true)}>
+            <Text style={styles.calibrationButtonText}>Calibrate</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <CompassCalibrationOverlay
+        visible={showCalibration}
+        expectedFieldStrength={expectedFieldStrength}
+        onClose={() => setShowCalibration(false)}
+      />
     </View>
   );
 }
\ No newline at end of file
@@ -0,0 +1,252 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity } from 'react-native';
+import { Magnetometer } from 'expo-sensors';
+import Svg, { Path, Circle } from 'react-native-svg';
+import { useTheme } from '../contexts/ThemeContext';
+import { CompassSettingsService } from '../services/compassSettingsService';
+import { HardIronCalibrator, Vector3 } from '../utils/compassCalibration';
+
+interface CompassCalibrationOverlayProps {
+  visible: boolean;
+  expectedFieldStrength: number; // µT
+  onClose: () => void;
+}
+
+type CalibrationStatus = 'collecting' | 'done' | 'failed';
+
+const FIGURE_SIZE = { width: 220, height: 110 };
+const GUIDE_PERIOD = 3000; // ms for the guide dot to trace the figure eight once
+
+/**
+ * Point on a figure eight (lemniscate of Gerono) for phase 0-1
+ */
+const figureEightPoint = (phase: number) => {
+  const t = phase * 2 * Math.PI;
+  return {
+    x: FIGURE_SIZE.width / 2 + Math.sin(t) * (FIGURE_SIZE.width / 2 - 12),
+    y: FIGURE_SIZE.height / 2 + Math.sin(t) * Math.cos(t) * (FIGURE_SIZE.height - 24),
+  };
+};
+
+const FIGURE_EIGHT_PATH = Array.from({ length: 65 }, (_, index) => {
+  const point = figureEightPoint(index / 64);
+  return `${index === 0 ? 'M' : 'L'}${point.x.toFixed(1)},${point.y.toFixed(1)}`;
+}).join(' ');
+
+/**
+ * Guided figure-eight calibration. Tracks how much of each axis' range the
+ * user has swept and saves the hard-iron offset once all three are covered.
+ */
+export default function CompassCalibrationOverlay({ visible, expectedFieldStrength, onClose }: CompassCalibrationOverlayProps) {
+  const { theme } = useTheme();
+  const [status, setStatus] = useState<CalibrationStatus>('collecting');
+  const [coverage, setCoverage] = useState<Vector3>({ x: 0, y: 0, z: 0 });
+  const [progress, setProgress] = useState(0);
+  const [guidePhase, setGuidePhase] = useState(0);
+  const [attempt, setAttempt] = useState(0);
+  const calibratorRef = useRef<HardIronCalibrator | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const calibrator = new HardIronCalibrator(expectedFieldStrength);
+    calibratorRef.current = calibrator;
+    setStatus('collecting');
+    setCoverage({ x: 0, y: 0, z: 0 });
+    setProgress(0);
+
+    Magnetometer.setUpdateInterval(30);
+    const subscription = Magnetometer.addListener((data) => {
+      if (calibratorRef.current !== calibrator) return;
+
+      calibrator.addSample(data);
+      setCoverage(calibrator.getCoverage());
+      setProgress(calibrator.getProgress());
+
+      if (calibrator.isComplete()) {
+        calibratorRef.current = null;
+        if (calibrator.isFitGood()) {
+          CompassSettingsService.getInstance().setHardIronOffset(calibrator.getOffset());
+          setStatus('done');
+        } else {
+          setStatus('failed');
+        }
+      }
+    });
+
+    const startTime = Date.now();
+    const guideTimer = setInterval(() => {
+      setGuidePhase(((Date.now() - startTime) % GUIDE_PERIOD) / GUIDE_PERIOD);
+    }, 50);
+
+    return () => {
+      subscription.remove();
+      clearInterval(guideTimer);
+      calibratorRef.current = null;
+    };
+  }, [visible, attempt]);
+
+  const handleResetCalibration = async () => {
+    await CompassSettingsService.getInstance().resetCalibration();
+    setAttempt(current => current + 1);
+  };
+
+  const dynamicStyles = StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 24,
+    },
+    card: {
+      width: '100%',
+      maxWidth: 360,
+      backgroundColor: theme.colors.surface,
+      borderRadius: 16,
+      padding: 20,
+      alignItems: 'center',
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: theme.colors.text,
+      marginBottom: 6,
+    },
+    instructions: {
+      fontSize: 14,
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+      marginBottom: 16,
+    },
+    axisRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      width: '100%',
+      marginTop: 8,
+    },
+    axisLabel: {
+      width: 20,
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.colors.text,
+    },
+    axisTrack: {
+      flex: 1,
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: theme.colors.border,
+      overflow: 'hidden',
+    },
+    axisFill: {
+      height: '100%',
+      borderRadius: 4,
+    },
+    progressText: {
+      fontSize: 13,
+      color: theme.colors.textSecondary,
+      marginTop: 12,
+    },
+    resultText: {
+      fontSize: 15,
+      fontWeight: '600',
+      textAlign: 'center',
+      marginTop: 16,
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      marginTop: 20,
+    },
+    button: {
+      backgroundColor: theme.colors.primary,
+      borderRadius: 8,
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      marginHorizontal: 6,
+    },
+    secondaryButton: {
+      backgroundColor: theme.colors.cardBackground,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    buttonText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: '#ffffff',
+    },
+    secondaryButtonText: {
+      color: theme.colors.text,
+    },
+  });
+
+  const guide = figureEightPoint(guidePhase);
+
+  const renderAxis = (label: string, value: number) => (
+    <View style={dynamicStyles.axisRow} key={label}>
+      <Text style={dynamicStyles.axisLabel}>{label}</Text>
+      <View style={dynamicStyles.axisTrack}>
+        <View
+          style={[
+            dynamicStyles.axisFill,
+            { width: `${Math.round(value * 100)}%`, backgroundColor: value >= 0.8 ? theme.colors.success : theme.colors.warning },
+          ]}
+        />
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={dynamicStyles.backdrop}>
+        <View style={dynamicStyles.card}>
+          <Text style={dynamicStyles.title}>🧭 Calibrate Compass</Text>
+          <Text style={dynamicStyles.instructions}>
+            Move away from metal and electronics, then slowly wave the phone in a figure eight, tilting and turning it as you go.
+          </Text>
+
+          <Svg width={FIGURE_SIZE.width} height={FIGURE_SIZE.height}>
+            <Path d={FIGURE_EIGHT_PATH} fill="none" stroke={theme.colors.border} strokeWidth={6} strokeLinecap="round" />
+            {status === 'collecting' && <Circle cx={guide.x} cy={guide.y} r={9} fill={theme.colors.primary} />}
+          </Svg>
+
+          {renderAxis('X', coverage.x)}
+          {renderAxis('Y', coverage.y)}
+          {renderAxis('Z', coverage.z)}
+
+          {status === 'collecting' && (
+            <Text style={dynamicStyles.progressText}>{Math.round(progress * 100)}% covered</Text>
+          )}
+          {status === 'done' && (
+            <Text style={[dynamicStyles.resultText, { color: theme.colors.success }]}>✅ Compass calibrated</Text>
+          )}
+          {status === 'failed' && (
+            <Text style={[dynamicStyles.resultText, { color: theme.colors.error }]}>
+              ❌ Readings were inconsistent. Move further from metal and try again.
+            </Text>
+          )}
+
+          <View style={dynamicStyles.buttonRow}>
+            {status === 'failed' && (
+              <TouchableOpacity style={dynamicStyles.button} onPress={() => setAttempt(current => current + 1)}>
+                <Text style={dynamicStyles.buttonText}>Try Again</Text>
+              </TouchableOpacity>
+            )}
+            {status === 'collecting' && (
+              <TouchableOpacity style={[dynamicStyles.button, dynamicStyles.secondaryButton]} onPress={handleResetCalibration}>
+                <Text style={[dynamicStyles.buttonText, dynamicStyles.secondaryButtonText]}>Reset</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[dynamicStyles.button, status !== 'done' && dynamicStyles.secondaryButton]}
+              onPress={onClose}
+            >
+              <Text style={[dynamicStyles.buttonText, status !== 'done' && dynamicStyles.secondaryButtonText]}>
+                {status === 'done' ? 'Done' : 'Cancel'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ViewStyle, LayoutChangeEvent } from 'react-native';
+import Svg, { Path, Line, Text as SvgText, Defs, LinearGradient, Stop } from 'react-native-svg';
+import { useTheme } from '../contexts/ThemeContext';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { buildElevationProfile } from '../utils/elevation';
+import { formatAltitude, formatDistance } from '../utils/units';
+
+interface ElevationChartProps {
+  points: { latitude: number; longitude: number; altitude: number | null }[];
+  height?: number;
+  style?: ViewStyle;
+}
+
+const PADDING = { top: 12, right: 8, bottom: 20, left: 40 };
+const MIN_ALTITUDE_RANGE = 20; // m, so a flat road doesn't look like a mountain range
+
+/**
+ * Altitude against distance travelled as a filled area chart
+ */
+export default function ElevationChart({ points, height = 140, style }: ElevationChartProps) {
+  const [width, setWidth] = useState(0);
+  const { theme } = useTheme();
+  const { unitSystem } = usePreferences().display;
+
+  // The active trip's points array grows in place, so watch its length too
+  const profile = useMemo(() => buildElevationProfile(points), [points, points.length]);
+
+  const dynamicStyles = StyleSheet.create({
+    container: {
+      height,
+    },
+    emptyText: {
+      fontSize: 13,
+      color: theme.colors.textSecondary,
+      fontStyle: 'italic',
+      textAlign: 'center',
+      lineHeight: height,
+    },
+  });
+
+  const handleLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+  if (profile.length < 2 || profile[profile.length - 1].distance <= 0) {
+    return (
+      <View style={[dynamicStyles.container, style]} onLayout={handleLayout}>
+        <Text style={dynamicStyles.emptyText}>Not enough altitude data yet</Text>
+      </View>
+    );
+  }
+
+  const totalDistance = profile[profile.length - 1].distance;
+  const altitudes = profile.map(point => point.altitude);
+  let minAltitude = Math.min(...altitudes);
+  let maxAltitude = Math.max(...altitudes);
+  if (maxAltitude - minAltitude < MIN_ALTITUDE_RANGE) {
+    const middle = (maxAltitude + minAltitude) / 2;
+    minAltitude = middle - MIN_ALTITUDE_RANGE / 2;
+    maxAltitude = middle + MIN_ALTITUDE_RANGE / 2;
+  }
+
+  const plotWidth = Math.max(0, width - PADDING.left - PADDING.right);
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const x = (distance: number) => PADDING.left + (distance / totalDistance) * plotWidth;
+  const y = (altitude: number) => PADDING.top + (1 - (altitude - minAltitude) / (maxAltitude - minAltitude)) * plotHeight;
+
+  const line = profile.map((point, index) => `${index === 0 ? 'M' : 'L'}${x(point.distance).toFixed(1)},${y(point.altitude).toFixed(1)}`).join(' ');
+  const baseline = PADDING.top + plotHeight;
+  const area = `${line} L${x(totalDistance).toFixed(1)},${baseline} L${PADDING.left},${baseline} Z`;
+
+  return (
+    <View style={[dynamicStyles.container, style]} onLayout={handleLayout}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          <Defs>
+            <LinearGradient id="elevationFill" x1="0" y1="0" x2="0" y2="1">
+              <Stop offset="0" stopColor={theme.colors.primary} stopOpacity="0.5" />
+              <Stop offset="1" stopColor={theme.colors.primary} stopOpacity="0.05" />
+            </LinearGradient>
+          </Defs>
+
+          {/* Min/max gridlines */}
+          <Line x1={PADDING.left} y1={PADDING.top} x2={width - PADDING.right} y2={PADDING.top} stroke={theme.colors.border} strokeDasharray="4,4" />
+          <Line x1={PADDING.left} y1={baseline} x2={width - PADDING.right} y2={baseline} stroke={theme.colors.border} />
+
+          <Path d={area} fill="url(#elevationFill)" />
+          <Path d={line} fill="none" stroke={theme.colors.primary} strokeWidth={2} />
+
+          <SvgText x={PADDING.left - 4} y={PADDING.top + 4} fontSize="10" fill={theme.colors.textSecondary} textAnchor="end">
+            {formatAltitude(maxAltitude, unitSystem)}
+          </SvgText>
+          <SvgText x={PADDING.left - 4} y={baseline} fontSize="10" fill={theme.colors.textSecondary} textAnchor="end">
+            {formatAltitude(minAltitude, unitSystem)}
+          </SvgText>
+          <SvgText x={PADDING.left} y={height - 4} fontSize="10" fill={theme.colors.textSecondary}>
+            0
+          </SvgText>
+          <SvgText x={width - PADDING.right} y={height - 4} fontSize="10" fill={theme.colors.textSecondary} textAnchor="end">
+            {formatDistance(totalDistance, unitSystem)}
+          </SvgText>
+        </Svg>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,204 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Animated,
+  TouchableOpacity,
+  useWindowDimensions,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { useKeepAwake } from 'expo-keep-awake';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { HUD_PALETTES, HudPalette, PreferencesService } from '../services/preferencesService';
+import { SpeedLimitData } from '../services/speedLimitService';
+import { convertSpeed, displaySpeedLimit, speedUnitFor } from '../utils/units';
+
+interface HeadUpDisplayProps {
+  speed: number | null; // km/h
+  speedLimit: SpeedLimitData | null;
+  isSpeeding: boolean;
+  onClose: () => void;
+}
+
+interface HudColors {
+  label: string;
+  digits: string; // Speed
+  dim: string; // Limit, unit and controls
+  pulse: string; // Full-screen flash while speeding
+}
+
+// Saturated single colours reflect cleanly in the glass without lighting up the cabin
+const HUD_COLORS: { [palette in HudPalette]: HudColors } = {
+  white: { label: 'White (day)', digits: '#ffffff', dim: '#9e9e9e', pulse: '#ff1744' },
+  green: { label: 'Green', digits: '#00e676', dim: '#00883f', pulse: '#ff1744' },
+  amber: { label: 'Amber', digits: '#ffb300', dim: '#a87600', pulse: '#ff1744' },
+  red: { label: 'Red (night)', digits: '#d50000', dim: '#7a0000', pulse: '#ff9100' },
+};
+
+const PULSE_OPACITY = 0.45;
+const PULSE_DURATION = 350; // ms per half cycle
+
+/**
+ * Full-screen speed readout meant to be read as a reflection in the
+ * windshield: mirrored, black, with only the speed and limit. Keeps the screen
+ * awake while shown.
+ */
+export default function HeadUpDisplay({ speed, speedLimit, isSpeeding, onClose }: HeadUpDisplayProps) {
+  useKeepAwake('head-up-display');
+  const { unitSystem, hudPalette } = usePreferences().display;
+  const { width, height } = useWindowDimensions();
+  const insets = useSafeAreaInsets();
+  const pulse = useRef(new Animated.Value(0)).current;
+
+  const colors = HUD_COLORS[hudPalette];
+  const unit = speedUnitFor(unitSystem);
+  const limit = speedLimit ? displaySpeedLimit(speedLimit, unitSystem) : null;
+  const digitSize = Math.min(width, height) * 0.42;
+
+  useEffect(() => {
+    if (!isSpeeding) {
+      pulse.setValue(0);
+      return;
+    }
+
+    const animation = Animated.loop(
+      Animated.sequence([
+        Animated.timing(pulse, { toValue: PULSE_OPACITY, duration: PULSE_DURATION, useNativeDriver: true }),
+        Animated.timing(pulse, { toValue: 0, duration: PULSE_DURATION, useNativeDriver: true }),
+      ])
+    );
+    animation.start();
+
+    return () => {
+      animation.stop();
+      pulse.setValue(0);
+    };
+  }, [isSpeeding]);
+
+  const cyclePalette = () => {
+    const index = HUD_PALETTES.indexOf(hudPalette);
+    PreferencesService.getInstance().update('display', {
+      hudPalette: HUD_PALETTES[(index + 1) % HUD_PALETTES.length],
+    });
+  };
+
+  const dynamicStyles = StyleSheet.create({
+    speed: {
+      fontSize: digitSize,
+      lineHeight: digitSize * 1.1,
+      color: isSpeeding ? colors.pulse : colors.digits,
+    },
+    unit: {
+      fontSize: digitSize * 0.16,
+      color: colors.dim,
+    },
+    limitSign: {
+      width: digitSize * 0.6,
+      height: digitSize * 0.6,
+      borderRadius: digitSize * 0.3,
+      borderWidth: digitSize * 0.05,
+      borderColor: isSpeeding ? colors.pulse : colors.dim,
+    },
+    limitValue: {
+      fontSize: digitSize * (limit && limit.unit !== unit ? 0.14 : 0.24),
+      color: colors.digits,
+    },
+    controls: {
+      bottom: insets.bottom + 16,
+    },
+    controlButton: {
+      borderColor: colors.dim,
+    },
+    controlText: {
+      color: colors.dim,
+    },
+  });
+
+  return (
+    <Modal visible animationType="fade" statusBarTranslucent onRequestClose={onClose}>
+      <StatusBar hidden />
+      <View style={styles.container}>
+        <Animated.View
+          pointerEvents="none"
+          style={[StyleSheet.absoluteFill, { backgroundColor: colors.pulse, opacity: pulse }]}
+        />
+
+        {/* Mirrored so it reads the right way round in the windshield */}
+        <View style={styles.mirrored}>
+          <Text style={[styles.speed, dynamicStyles.speed]} adjustsFontSizeToFit numberOfLines={1}>
+            {speed !== null ? Math.round(convertSpeed(speed, unitSystem)) : '--'}
+          </Text>
+          <Text style={[styles.unit, dynamicStyles.unit]}>{unit}</Text>
+          {limit && (
+            <View style={[styles.limitSign, dynamicStyles.limitSign]}>
+              <Text style={[styles.limitValue, dynamicStyles.limitValue]}>
+                {limit.unit === unit ? limit.value : `${limit.value} ${limit.unit}`}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {/* Controls stay readable on the phone itself */}
+        <View style={[styles.controls, dynamicStyles.controls]}>
+          <TouchableOpacity style={[styles.controlButton, dynamicStyles.controlButton]} onPress={cyclePalette}>
+            <Text style={[styles.controlText, dynamicStyles.controlText]}>🎨 {colors.label}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.controlButton, dynamicStyles.controlButton]} onPress={onClose}>
+            <Text style={[styles.controlText, dynamicStyles.controlText]}>✕ Exit HUD</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  mirrored: {
+    alignItems: 'center',
+    transform: [{ scaleX: -1 }],
+  },
+  speed: {
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+    textAlign: 'center',
+  },
+  unit: {
+    fontWeight: '600',
+    marginTop: -8,
+  },
+  limitSign: {
+    marginTop: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  limitValue: {
+    fontWeight: '900',
+  },
+  controls: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  controlButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  controlText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  GestureResponderEvent,
+  LayoutChangeEvent,
+  ViewStyle,
+} from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { REPLAY_SPEED_MULTIPLIERS, ReplayState, TrackReplayService } from '../services/trackReplayService';
+
+interface ReplayControlsProps {
+  style?: ViewStyle;
+}
+
+const SEEK_STEP = 30000; // 30 seconds of track time
+
+const formatPosition = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+};
+
+/**
+ * Play/pause, seek and speed controls for a track replay. Renders nothing while no track is loaded.
+ */
+export default function ReplayControls({ style }: ReplayControlsProps) {
+  const replayService = TrackReplayService.getInstance();
+  const [state, setState] = useState<ReplayState>(() => replayService.getState());
+  const [barWidth, setBarWidth] = useState(0);
+  const { theme, isDark } = useTheme();
+
+  useEffect(() => {
+    replayService.addReplayListener(setState);
+    setState(replayService.getState());
+
+    return () => {
+      replayService.removeReplayListener(setState);
+    };
+  }, []);
+
+  if (state.status === 'idle') {
+    return null;
+  }
+
+  const progress = state.duration > 0 ? state.position / state.duration : 0;
+
+  const handleBarPress = (event: GestureResponderEvent) => {
+    if (barWidth <= 0) return;
+    replayService.seek((event.nativeEvent.locationX / barWidth) * state.duration);
+  };
+
+  const cycleSpeed = () => {
+    const index = REPLAY_SPEED_MULTIPLIERS.indexOf(state.speedMultiplier);
+    replayService.setSpeedMultiplier(REPLAY_SPEED_MULTIPLIERS[(index + 1) % REPLAY_SPEED_MULTIPLIERS.length]);
+  };
+
+  const dynamicStyles = StyleSheet.create({
+    container: {
+      backgroundColor: theme.colors.cardBackground,
+      borderRadius: 16,
+      padding: 16,
+      borderWidth: 2,
+      borderColor: theme.colors.primary,
+      shadowColor: theme.colors.shadow,
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: isDark ? 0.3 : 0.1,
+      shadowRadius: 8,
+      elevation: 4,
+    },
+    title: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: theme.colors.text,
+      marginBottom: 8,
+    },
+    progressBar: {
+      height: 24,
+      justifyContent: 'center',
+    },
+    progressTrack: {
+      height: 6,
+      borderRadius: 3,
+      backgroundColor: theme.colors.border,
+      overflow: 'hidden',
+    },
+    progressFill: {
+      height: 6,
+      width: `${Math.round(progress * 100)}%`,
+      backgroundColor: theme.colors.primary,
+    },
+    timeRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: 8,
+    },
+    timeText: {
+      fontSize: 11,
+      color: theme.colors.textSecondary,
+      fontFamily: 'monospace',
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    button: {
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 20,
+      backgroundColor: theme.colors.surface,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      minWidth: 48,
+      alignItems: 'center',
+    },
+    buttonText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: theme.colors.text,
+    },
+  });
+
+  return (
+    <View style={[dynamicStyles.container, style]}>
+      <Text style={dynamicStyles.title} numberOfLines={1}>
+        ▶️ Replay: {state.trackName}{state.status === 'finished' ? ' (finished)' : ''}
+      </Text>
+
+      <TouchableOpacity
+        style={dynamicStyles.progressBar}
+        activeOpacity={0.8}
+        onPress={handleBarPress}
+        onLayout={(event: LayoutChangeEvent) => setBarWidth(event.nativeEvent.layout.width)}
+      >
+        <View style={dynamicStyles.progressTrack}>
+          <View style={dynamicStyles.progressFill} />
+        </View>
+      </TouchableOpacity>
+
+      <View style={dynamicStyles.timeRow}>
+        <Text style={dynamicStyles.timeText}>{formatPosition(state.position)}</Text>
+        <Text style={dynamicStyles.timeText}>{formatPosition(state.duration)}</Text>
+      </View>
+
+      <View style={dynamicStyles.buttonRow}>
+        <TouchableOpacity style={dynamicStyles.button} onPress={() => replayService.seekBy(-SEEK_STEP)}>
+          <Text style={dynamicStyles.buttonText}>⏪</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={dynamicStyles.button}
+          onPress={() => (state.status === 'playing' ? replayService.pause() : replayService.play())}
+        >
+          <Text style={dynamicStyles.buttonText}>{state.status === 'playing' ? '⏸️' : '▶️'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={dynamicStyles.button} onPress={() => replayService.seekBy(SEEK_STEP)}>
+          <Text style={dynamicStyles.buttonText}>⏩</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={dynamicStyles.button} onPress={cycleSpeed}>
+          <Text style={dynamicStyles.buttonText}>{state.speedMultiplier}×</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={dynamicStyles.button} onPress={() => replayService.stop()}>
+          <Text style={dynamicStyles.buttonText}>⏹️</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
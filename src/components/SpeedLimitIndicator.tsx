@@ -7,6 +7,8 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import { useTheme } from '../contexts/ThemeContext';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { displaySpeedLimit, formatSpeed } from '../utils/units';
 import { SpeedLimitService, SpeedLimitData } from '../services/speedLimitService';
 import { LocationData, LocationService } from '../services/locationService';
 
@@ -21,6 +23,7 @@ export default function SpeedLimitIndicator({ location, style }: SpeedLimitIndic
   const [currentSpeed, setCurrentSpeed] = useState<number | null>(null);
   const [isOverSpeeding, setIsOverSpeeding] = useState(false);
   const { theme, isDark } = useTheme();
+  const { unitSystem } = usePreferences().display;
   
   const speedLimitService = SpeedLimitService.getInstance();
   const warningAnimation = new Animated.Value(1);
@@ -95,6 +98,9 @@ export default function SpeedLimitIndicator({ location, style }: SpeedLimitIndic
     return theme.colors.text;
   };
 
+  // Country default for the road class rather than a mapped limit
+  const isEstimate = speedLimitData?.source === 'default';
+
   const dynamicStyles = StyleSheet.create({
     container: {
       backgroundColor: isOverSpeeding 
@@ -127,6 +133,7 @@ export default function SpeedLimitIndicator({ location, style }: SpeedLimitIndic
       backgroundColor: '#ffffff',
       borderWidth: 2.5,
       borderColor: '#dc2626',
+      borderStyle: isEstimate ? 'dashed' : 'solid',
       justifyContent: 'center',
       alignItems: 'center',
       marginBottom: 4,
@@ -235,6 +242,9 @@ export default function SpeedLimitIndicator({ location, style }: SpeedLimitIndic
     );
   }
 
+  // As signed on the road (e.g. mph in the UK) when the provider knows
+  const shownLimit = displaySpeedLimit(speedLimitData, unitSystem);
+
   return (
     <Animated.View
       style={[
@@ -247,17 +257,19 @@ export default function SpeedLimitIndicator({ location, style }: SpeedLimitIndic
       <View style={dynamicStyles.leftSection}>
         <View style={dynamicStyles.speedLimitSign}>
           <Text style={dynamicStyles.speedLimitText}>
-            {speedLimitData.speedLimit || '--'}
+            {shownLimit ? shownLimit.value : '--'}
           </Text>
         </View>
-        <Text style={dynamicStyles.speedLimitUnit}>km/h</Text>
+        <Text style={dynamicStyles.speedLimitUnit}>
+          {shownLimit ? shownLimit.unit : ''}{isEstimate ? ' est.' : ''}
+        </Text>
       </View>
 
       {/* Middle Section - Current Speed */}
       <View style={dynamicStyles.middleSection}>
         <Text style={dynamicStyles.currentSpeedLabel}>YOUR SPEED</Text>
         <Text style={dynamicStyles.currentSpeedText}>
-          {currentSpeed !== null ? `${Math.round(currentSpeed)} km/h` : 'N/A'}
+          {currentSpeed !== null ? formatSpeed(currentSpeed, unitSystem) : 'N/A'}
         </Text>
         {isOverSpeeding && (
           <Text style={dynamicStyles.warningText}>⚠️ OVER LIMIT</Text>
@@ -284,8 +296,12 @@ export default function SpeedLimitIndicator({ location, style }: SpeedLimitIndic
         </View>
         {speedLimitData.source && (
           <Text style={dynamicStyles.sourceText}>
-            {speedLimitData.source === 'here' ? 'HERE' : 
-             speedLimitData.source === 'osm' ? 'OSM' : 'Default'}
+            {isEstimate ? 'ESTIMATE' : speedLimitData.source.toUpperCase()}
+          </Text>
+        )}
+        {speedLimitData.condition && (
+          <Text style={dynamicStyles.sourceText} numberOfLines={1}>
+            @ {speedLimitData.condition}
           </Text>
         )}
       </View>
@@ -1,18 +1,49 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, ViewStyle, Animated } from 'react-native';
 import Svg, { Circle, Path, Line, Text as SvgText, G, Defs, LinearGradient, Stop, RadialGradient, Polygon } from 'react-native-svg';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { convertLength, fromKmh, lengthUnitFor, METERS_PER_FOOT, speedometerScale, SpeedUnit, speedUnitFor } from '../utils/units';
 
 interface SpeedometerProps {
   speed: number | null; // Speed in km/h
   altitude: number | null; // Altitude in meters
+  verticalSpeed?: number | null; // Climb rate in m/s, negative when descending
   accuracy: number | null; // GPS accuracy in meters
   heading: number | null; // Compass heading in degrees
   speedLimit: number | null; // Speed limit in km/h
-  maxSpeed?: number;
+  nativeSpeedLimit?: number | null; // The limit as signed, shown on the sign when known
+  speedLimitUnit?: SpeedUnit; // Unit of nativeSpeedLimit
+  maxSpeed?: number; // km/h at the end of the dial, defaults to the Settings value
   style?: ViewStyle;
 }
 
-export default function Speedometer({ speed, altitude, accuracy, heading, speedLimit, maxSpeed = 250, style }: SpeedometerProps) {
+export default function Speedometer({
+  speed: speedKmh,
+  altitude,
+  verticalSpeed = null,
+  accuracy,
+  heading,
+  speedLimit,
+  nativeSpeedLimit = null,
+  speedLimitUnit,
+  maxSpeed: maxSpeedProp,
+  style,
+}: SpeedometerProps) {
+  const preferences = usePreferences();
+  const { theme } = useTheme();
+  const { colors } = theme;
+  const { unitSystem } = preferences.display;
+
+  // The dial, needle and digits all work in the chosen unit; only the props are km/h
+  const unit = speedUnitFor(unitSystem);
+  const lengthUnit = lengthUnitFor(unitSystem);
+  const scale = speedometerScale(maxSpeedProp ?? preferences.display.speedometerMaxSpeed, unit);
+  const maxSpeed = scale.max;
+  const speed = speedKmh !== null ? fromKmh(speedKmh, unit) : null;
+  const signSpeedLimit = nativeSpeedLimit !== null && speedLimitUnit
+    ? (speedLimitUnit === unit ? `${nativeSpeedLimit}` : `${nativeSpeedLimit} ${speedLimitUnit}`)
+    : speedLimit ? `${Math.round(fromKmh(speedLimit, unit))}` : null;
   const [animatedSpeed] = useState(new Animated.Value(0));
   const [animatedNeedleAngle] = useState(new Animated.Value(150)); // Start at 0 speed position
   const [animatedChargingCircle] = useState(new Animated.Value(0)); // Charging circle animation
@@ -57,7 +88,7 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
     return () => {
       animatedSpeed.removeListener(listener);
     };
-  }, [speed]);
+  }, [speed, maxSpeed]);
 
   const size = 320;
   const center = size / 2;
@@ -100,7 +131,7 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
   // Generate speed tick marks and numbers
   const generateSpeedometer = () => {
     const elements = [];
-    const majorTickCount = 10; // 0, 25, 50, 75, 100, 125, 150, 175, 200, 225, 250 (25 km/h increments)
+    const { majorTickCount } = scale; // e.g. 0-250 km/h by 25 or 0-160 mph by 20
     const minorTicksPerMajor = 4; // 4 minor ticks between each major
     
     // Background circles for depth
@@ -111,7 +142,7 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
         cy={center}
         r={outerRadius}
         fill="none"
-        stroke="#1a1a1a"
+        stroke={colors.gaugeRing}
         strokeWidth="3"
       />
     );
@@ -123,7 +154,7 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
         cy={center}
         r={innerRadius}
         fill="none"
-        stroke="#333"
+        stroke={colors.gaugeBorder}
         strokeWidth="2"
       />
     );
@@ -149,7 +180,7 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
           y1={y1}
           x2={x2}
           y2={y2}
-          stroke="#ffffff"
+          stroke={colors.gaugeTick}
           strokeWidth="3"
           strokeLinecap="round"
         />
@@ -167,7 +198,7 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
           y={numberY + 6}
           fontSize="16"
           fontWeight="bold"
-          fill="#ffffff"
+          fill={colors.gaugeTick}
           textAnchor="middle"
         >
           {Math.round(tickSpeed)}
@@ -194,7 +225,7 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
               y1={my1}
               x2={mx2}
               y2={my2}
-              stroke="#cccccc"
+              stroke={colors.gaugeMinorTick}
               strokeWidth="1.5"
               strokeLinecap="round"
             />
@@ -211,9 +242,9 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
     const zones = [];
     const zoneWidth = 8;
     
-    // Green zone (0-120)
+    // Green zone (0-120 km/h)
     const greenStart = startAngle;
-    const greenEnd = startAngle + (120 / maxSpeed) * totalAngle;
+    const greenEnd = startAngle + Math.min(fromKmh(120, unit) / maxSpeed, 1) * totalAngle;
     const greenStartRad = (greenStart * Math.PI) / 180;
     const greenEndRad = (greenEnd * Math.PI) / 180;
     
@@ -224,13 +255,13 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
             A ${outerRadius - 30} ${outerRadius - 30} 0 0 1 ${center + Math.cos(greenEndRad) * (outerRadius - 30)} ${center + Math.sin(greenEndRad) * (outerRadius - 30)}
             L ${center + Math.cos(greenEndRad) * (outerRadius - 38)} ${center + Math.sin(greenEndRad) * (outerRadius - 38)}
             A ${outerRadius - 38} ${outerRadius - 38} 0 0 0 ${center + Math.cos(greenStartRad) * (outerRadius - 38)} ${center + Math.sin(greenStartRad) * (outerRadius - 38)} Z`}
-        fill="#10B981"
+        fill={colors.gaugeZoneLow}
       />
     );
 
-    // Yellow zone (120-180)
+    // Yellow zone (120-180 km/h)
     const yellowStart = greenEnd;
-    const yellowEnd = startAngle + (180 / maxSpeed) * totalAngle;
+    const yellowEnd = startAngle + Math.min(fromKmh(180, unit) / maxSpeed, 1) * totalAngle;
     const yellowStartRad = (yellowStart * Math.PI) / 180;
     const yellowEndRad = (yellowEnd * Math.PI) / 180;
     
@@ -241,11 +272,11 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
             A ${outerRadius - 30} ${outerRadius - 30} 0 0 1 ${center + Math.cos(yellowEndRad) * (outerRadius - 30)} ${center + Math.sin(yellowEndRad) * (outerRadius - 30)}
             L ${center + Math.cos(yellowEndRad) * (outerRadius - 38)} ${center + Math.sin(yellowEndRad) * (outerRadius - 38)}
             A ${outerRadius - 38} ${outerRadius - 38} 0 0 0 ${center + Math.cos(yellowStartRad) * (outerRadius - 38)} ${center + Math.sin(yellowStartRad) * (outerRadius - 38)} Z`}
-        fill="#F59E0B"
+        fill={colors.gaugeZoneMid}
       />
     );
 
-    // Red zone (180+)
+    // Red zone (180+ km/h)
     const redStart = yellowEnd;
     const redEnd = startAngle + totalAngle;
     const redStartRad = (redStart * Math.PI) / 180;
@@ -258,7 +289,7 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
             A ${outerRadius - 30} ${outerRadius - 30} 0 0 1 ${center + Math.cos(redEndRad) * (outerRadius - 30)} ${center + Math.sin(redEndRad) * (outerRadius - 30)}
             L ${center + Math.cos(redEndRad) * (outerRadius - 38)} ${center + Math.sin(redEndRad) * (outerRadius - 38)}
             A ${outerRadius - 38} ${outerRadius - 38} 0 0 0 ${center + Math.cos(redStartRad) * (outerRadius - 38)} ${center + Math.sin(redStartRad) * (outerRadius - 38)} Z`}
-        fill="#EF4444"
+        fill={colors.gaugeZoneHigh}
       />
     );
 
@@ -357,7 +388,7 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
 
   // Generate authentic European speed limit sign
   const generateSpeedLimitIndicator = () => {
-    if (!speedLimit) return null;
+    if (!signSpeedLimit) return null;
 
     // Positioning in bottom right corner
     const signX = size - 40; // 40px from right edge
@@ -396,13 +427,13 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
         <SvgText
           x={signX}
           y={signY + 7}
-          fontSize="20"
+          fontSize={signSpeedLimit.length > 3 ? '11' : '20'}
           fontWeight="900"
           fill="#000000"
           textAnchor="middle"
           fontFamily="Arial, Helvetica, sans-serif"
         >
-          {speedLimit}
+          {signSpeedLimit}
         </SvgText>
         
         {/* Subtle highlight for 3D effect */}
@@ -435,36 +466,79 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
     return directions[index];
   };
 
+  const panelColors = {
+    backgroundColor: colors.gaugePanel,
+    borderColor: colors.gaugePanelBorder,
+  };
+
+  const dynamicStyles = StyleSheet.create({
+    speedometerContainer: {
+      backgroundColor: colors.speedometerBackground,
+      borderColor: colors.gaugeBorder,
+    },
+    digitalDisplay: panelColors,
+    digitalSpeed: {
+      color: colors.readoutSpeed,
+      textShadowColor: colors.readoutSpeed,
+    },
+    altitudeDisplay: panelColors,
+    altitudeLabel: {
+      color: colors.gaugeLabel,
+    },
+    altitudeValue: {
+      color: colors.readoutAltitude,
+      textShadowColor: colors.readoutAltitude,
+    },
+    verticalSpeedValue: {
+      color: colors.readoutAltitude,
+    },
+    accuracyDisplay: panelColors,
+    accuracyLabel: {
+      color: colors.gaugeLabel,
+    },
+    accuracyValue: {
+      color: colors.readoutAccuracy,
+    },
+    compassDisplay: panelColors,
+    compassLabel: {
+      color: colors.gaugeLabel,
+    },
+    compassDirection: {
+      color: colors.readoutHeading,
+      textShadowColor: colors.readoutHeading,
+    },
+    compassDegrees: {
+      color: colors.readoutHeading,
+    },
+  });
+
   return (
     <View style={[styles.container, style]}>
-      <View style={styles.speedometerContainer}>
+      <View style={[styles.speedometerContainer, dynamicStyles.speedometerContainer]}>
         <Svg width={size} height={size} viewBox="0 0 320 360">
           <Defs>
             <RadialGradient id="gaugeGradient" cx="50%" cy="50%" r="50%">
-              <Stop offset="0%" stopColor="#2a2a2a" />
-              <Stop offset="70%" stopColor="#1a1a1a" />
-              <Stop offset="100%" stopColor="#000000" />
+              <Stop offset="0%" stopColor={colors.gaugeFace} />
+              <Stop offset="70%" stopColor={colors.gaugeRing} />
+              <Stop offset="100%" stopColor={colors.gaugeFaceEdge} />
             </RadialGradient>
             <RadialGradient id="centerGradient" cx="50%" cy="50%" r="50%">
-              <Stop offset="0%" stopColor="#4a4a4a" />
-              <Stop offset="100%" stopColor="#2a2a2a" />
+              <Stop offset="0%" stopColor={colors.needleCap} />
+              <Stop offset="100%" stopColor={colors.gaugeFace} />
             </RadialGradient>
             
             {/* Charging circle gradients */}
             <LinearGradient id="chargingGradientLow" x1="0%" y1="0%" x2="100%" y2="0%">
-              <Stop offset="0%" stopColor="#00ff00" />
-              <Stop offset="50%" stopColor="#9acd32" />
-              <Stop offset="100%" stopColor="#90EE90" />
+              <Stop offset="0%" stopColor={colors.gaugeProgressLow} stopOpacity={0.8} />
+              <Stop offset="100%" stopColor={colors.gaugeProgressLow} />
             </LinearGradient>
             <LinearGradient id="chargingGradientMed" x1="0%" y1="0%" x2="100%" y2="0%">
-              <Stop offset="0%" stopColor="#ffff00" />
-              <Stop offset="50%" stopColor="#ffa500" />
-              <Stop offset="100%" stopColor="#ff8c00" />
+              <Stop offset="0%" stopColor={colors.gaugeProgressMid} stopOpacity={0.8} />
+              <Stop offset="100%" stopColor={colors.gaugeProgressMid} />
             </LinearGradient>
             <LinearGradient id="chargingGradientHigh" x1="0%" y1="0%" x2="100%" y2="0%">
-              <Stop offset="0%" stopColor="#ff4500" />
-              <Stop offset="50%" stopColor="#ff0000" />
-              <Stop offset="100%" stopColor="#dc143c" />
+              <Stop offset="0%" stopColor={colors.gaugeProgressHigh} stopOpacity={0.8} />
+              <Stop offset="100%" stopColor={colors.gaugeProgressHigh} />
             </LinearGradient>
           </Defs>
 
@@ -474,7 +548,7 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
             cy={center}
             r={outerRadius}
             fill="url(#gaugeGradient)"
-            stroke="#444"
+            stroke={colors.gaugePanelBorder}
             strokeWidth="2"
           />
 
@@ -498,8 +572,8 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
             {/* Main needle */}
             <Polygon
               points={`${center},${center - 8} ${needleEndX},${needleEndY} ${center},${center + 8} ${center - 15},${center}`}
-              fill="#ff0000"
-              stroke="#cc0000"
+              fill={colors.needle}
+              stroke={colors.needleStroke}
               strokeWidth="1"
             />
             
@@ -509,7 +583,7 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
               cy={center}
               r="12"
               fill="url(#centerGradient)"
-              stroke="#666"
+              stroke={colors.needleCapStroke}
               strokeWidth="2"
             />
             
@@ -518,7 +592,7 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
               cx={center}
               cy={center}
               r="4"
-              fill="#ff0000"
+              fill={colors.needle}
             />
           </G>
 
@@ -528,37 +602,43 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
             y={center + 35}
             fontSize="16"
             fontWeight="bold"
-            fill="#ffffff"
+            fill={colors.gaugeTick}
             textAnchor="middle"
-            stroke="#000000"
+            stroke={colors.gaugeFaceEdge}
             strokeWidth="0.5"
           >
-            km/h
+            {unit}
           </SvgText>
           {/* Speed limit indicator - rendered last for highest z-index */}
           {generateSpeedLimitIndicator()}
         </Svg>
 
         {/* Digital speed display */}
-        <View style={styles.digitalDisplay}>
-          <Text style={styles.digitalSpeed}>
+        <View style={[styles.digitalDisplay, dynamicStyles.digitalDisplay]}>
+          <Text style={[styles.digitalSpeed, dynamicStyles.digitalSpeed]}>
             {Math.round(((currentNeedleAngle - 150) / 240) * maxSpeed)}
           </Text>
         </View>
 
         {/* Altitude Display - Top Left */}
-        <View style={styles.altitudeDisplay}>
-          <Text style={styles.altitudeLabel}>ALT</Text>
-          <Text style={styles.altitudeValue}>
-            {altitude !== null ? `${Math.round(altitude)}m` : '---'}
+        <View style={[styles.altitudeDisplay, dynamicStyles.altitudeDisplay]}>
+          <Text style={[styles.altitudeLabel, dynamicStyles.altitudeLabel]}>ALT</Text>
+          <Text style={[styles.altitudeValue, dynamicStyles.altitudeValue]}>
+            {altitude !== null ? `${Math.round(convertLength(altitude, unitSystem))}${lengthUnit}` : '---'}
           </Text>
+          {verticalSpeed !== null && (
+            <Text style={[styles.verticalSpeedValue, dynamicStyles.verticalSpeedValue]}>
+              {verticalSpeed > 0.1 ? '▲' : verticalSpeed < -0.1 ? '▼' : '•'}
+              {unitSystem === 'metric' ? Math.abs(verticalSpeed).toFixed(1) : Math.round(Math.abs(verticalSpeed) / METERS_PER_FOOT * 60)}
+            </Text>
+          )}
         </View>
 
         {/* GPS Accuracy Display - Top Right */}
-        <View style={styles.accuracyDisplay}>
-          <Text style={styles.accuracyLabel}>GPS</Text>
-          <Text style={styles.accuracyValue}>
-            {accuracy !== null ? `±${Math.round(accuracy)}m` : '---'}
+        <View style={[styles.accuracyDisplay, dynamicStyles.accuracyDisplay]}>
+          <Text style={[styles.accuracyLabel, dynamicStyles.accuracyLabel]}>GPS</Text>
+          <Text style={[styles.accuracyValue, dynamicStyles.accuracyValue]}>
+            {accuracy !== null ? `±${Math.round(convertLength(accuracy, unitSystem))}${lengthUnit}` : '---'}
           </Text>
           {/* GPS Signal Bars */}
           <View style={styles.signalBars}>
@@ -575,11 +655,10 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
 
               const getSignalColor = (level: number): string => {
                 switch (level) {
-                  case 4: return '#10b981'; // green
-                  case 3: return '#84cc16'; // lime
-                  case 2: return '#f59e0b'; // amber
-                  case 1: return '#f97316'; // orange
-                  default: return '#ef4444'; // red
+                  case 4:
+                  case 3: return colors.success;
+                  case 2: return colors.warning;
+                  default: return colors.error;
                 }
               };
 
@@ -593,7 +672,7 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
                     styles.signalBar,
                     {
                       height: bar * 3 + 6,
-                      backgroundColor: bar <= signalLevel ? signalColor : '#333',
+                      backgroundColor: bar <= signalLevel ? signalColor : colors.gaugeBorder,
                     },
                   ]}
                 />
@@ -603,12 +682,12 @@ export default function Speedometer({ speed, altitude, accuracy, heading, speedL
         </View>
 
         {/* Compass Direction - Bottom Left */}
-        <View style={styles.compassDisplay}>
-          <Text style={styles.compassLabel}>DIR</Text>
-          <Text style={styles.compassDirection}>
+        <View style={[styles.compassDisplay, dynamicStyles.compassDisplay]}>
+          <Text style={[styles.compassLabel, dynamicStyles.compassLabel]}>DIR</Text>
+          <Text style={[styles.compassDirection, dynamicStyles.compassDirection]}>
             {getCardinalDirection(heading)}
           </Text>
-          <Text style={styles.compassDegrees}>
+          <Text style={[styles.compassDegrees, dynamicStyles.compassDegrees]}>
             {heading !== null ? `${Math.round(heading)}°` : '---°'}
           </Text>
         </View>
@@ -623,7 +702,6 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   speedometerContainer: {
-    backgroundColor: '#0a0a0a',
     borderRadius: 25,
     shadowColor: '#000',
     shadowOffset: {
@@ -637,18 +715,15 @@ const styles = StyleSheet.create({
     marginBottom: 25,
     position: 'relative',
     borderWidth: 3,
-    borderColor: '#333',
     alignItems: 'center', // Center child elements horizontally
   },
   digitalDisplay: {
     position: 'absolute',
     bottom: 70,
-    backgroundColor: '#000',
     borderRadius: 8,
     paddingHorizontal: 12,
     paddingVertical: 6,
     borderWidth: 1,
-    borderColor: '#444',
     alignItems: 'center',
     justifyContent: 'center',
     marginBottom: 20,
@@ -656,10 +731,8 @@ const styles = StyleSheet.create({
   digitalSpeed: {
     fontSize: 24,
     fontWeight: 'bold',
-    color: '#00ff00',
     fontFamily: 'monospace',
     textAlign: 'center',
-    textShadowColor: '#00ff00',
     textShadowOffset: { width: 0, height: 0 },
     textShadowRadius: 8,
   },
@@ -667,52 +740,48 @@ const styles = StyleSheet.create({
     position: 'absolute',
     top: 10,
     left: 20,
-    backgroundColor: '#000',
     borderRadius: 6,
     paddingHorizontal: 8,
     paddingVertical: 4,
     borderWidth: 1,
-    borderColor: '#444',
     minWidth: 60,
   },
   altitudeLabel: {
     fontSize: 10,
-    color: '#888',
     textAlign: 'center',
     fontWeight: '600',
   },
   altitudeValue: {
     fontSize: 14,
-    color: '#00aaff',
     fontFamily: 'monospace',
     textAlign: 'center',
     fontWeight: 'bold',
-    textShadowColor: '#00aaff',
     textShadowOffset: { width: 0, height: 0 },
     textShadowRadius: 4,
   },
+  verticalSpeedValue: {
+    fontSize: 10,
+    fontFamily: 'monospace',
+    textAlign: 'center',
+  },
   accuracyDisplay: {
     position: 'absolute',
     top: 10,
     right: 20,
-    backgroundColor: '#000',
     borderRadius: 6,
     paddingHorizontal: 8,
     paddingVertical: 4,
     borderWidth: 1,
-    borderColor: '#444',
     minWidth: 60,
     alignItems: 'center',
   },
   accuracyLabel: {
     fontSize: 10,
-    color: '#888',
     textAlign: 'center',
     fontWeight: '600',
   },
   accuracyValue: {
     fontSize: 12,
-    color: '#ffaa00',
     fontFamily: 'monospace',
     textAlign: 'center',
     fontWeight: 'bold',
@@ -761,34 +830,28 @@ const styles = StyleSheet.create({
     position: 'absolute',
     bottom: 10,
     left: 20,
-    backgroundColor: '#000',
     borderRadius: 6,
     paddingHorizontal: 8,
     paddingVertical: 4,
     borderWidth: 1,
-    borderColor: '#444',
     minWidth: 60,
     alignItems: 'center',
   },
   compassLabel: {
     fontSize: 10,
-    color: '#888',
     textAlign: 'center',
     fontWeight: '600',
   },
   compassDirection: {
     fontSize: 16,
-    color: '#ff6b00',
     fontFamily: 'monospace',
     textAlign: 'center',
     fontWeight: 'bold',
-    textShadowColor: '#ff6b00',
     textShadowOffset: { width: 0, height: 0 },
     textShadowRadius: 4,
   },
   compassDegrees: {
     fontSize: 10,
-    color: '#ff6b00',
     fontFamily: 'monospace',
     textAlign: 'center',
     marginTop: 1,
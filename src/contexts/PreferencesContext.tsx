@@ -0,0 +1,34 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { Preferences, PreferencesService } from '../services/preferencesService';
+
+const PreferencesContext = createContext<Preferences | undefined>(undefined);
+
+interface PreferencesProviderProps {
+  children: ReactNode;
+}
+
+export const PreferencesProvider = ({ children }: PreferencesProviderProps) => {
+  const [preferences, setPreferences] = useState<Preferences>(() => PreferencesService.getInstance().getPreferences());
+
+  useEffect(() => {
+    const preferencesService = PreferencesService.getInstance();
+    preferencesService.addPreferencesListener(setPreferences);
+    preferencesService.initialize();
+
+    return () => preferencesService.removePreferencesListener(setPreferences);
+  }, []);
+
+  return (
+    <PreferencesContext.Provider value={preferences}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+};
+
+export const usePreferences = (): Preferences => {
+  const context = useContext(PreferencesContext);
+  if (!context) {
+    throw new Error('usePreferences must be used within a PreferencesProvider');
+  }
+  return context;
+};
@@ -1,5 +1,11 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { Appearance, ColorSchemeName } from 'react-native';
+import { usePreferences } from './PreferencesContext';
+import { PreferencesService, ThemeMode } from '../services/preferencesService';
+import { LocationData, LocationService } from '../services/locationService';
+import { isDaylight } from '../utils/sun';
+
+export type ThemeName = 'light' | 'dark' | 'night';
 
 export interface Theme {
   colors: {
@@ -18,10 +24,63 @@ export interface Theme {
     compassBackground: string;
     speedometerBackground: string;
     cardBackground: string;
+    // Speedometer gauge
+    gaugeFace: string;
+    gaugeFaceEdge: string;
+    gaugeRing: string;
+    gaugeBorder: string;
+    gaugePanel: string;
+    gaugePanelBorder: string;
+    gaugeLabel: string;
+    gaugeTick: string;
+    gaugeMinorTick: string;
+    gaugeZoneLow: string;
+    gaugeZoneMid: string;
+    gaugeZoneHigh: string;
+    gaugeProgressLow: string;
+    gaugeProgressMid: string;
+    gaugeProgressHigh: string;
+    needle: string;
+    needleStroke: string;
+    needleCap: string;
+    needleCapStroke: string;
+    // Digital readouts around the gauge
+    readoutSpeed: string;
+    readoutAltitude: string;
+    readoutAccuracy: string;
+    readoutHeading: string;
   };
+  name: ThemeName;
   isDark: boolean;
 }
 
+// The speedometer is a dark instrument in both the light and dark themes
+const instrumentColors = {
+  gaugeFace: '#2a2a2a',
+  gaugeFaceEdge: '#000000',
+  gaugeRing: '#1a1a1a',
+  gaugeBorder: '#333333',
+  gaugePanel: '#000000',
+  gaugePanelBorder: '#444444',
+  gaugeLabel: '#888888',
+  gaugeTick: '#ffffff',
+  gaugeMinorTick: '#cccccc',
+  gaugeZoneLow: '#10B981',
+  gaugeZoneMid: '#F59E0B',
+  gaugeZoneHigh: '#EF4444',
+  gaugeProgressLow: '#9acd32',
+  gaugeProgressMid: '#ffa500',
+  gaugeProgressHigh: '#ff0000',
+  needle: '#ff0000',
+  needleStroke: '#cc0000',
+  needleCap: '#4a4a4a',
+  needleCapStroke: '#666666',
+  readoutSpeed: '#00ff00',
+  readoutAltitude: '#00aaff',
+  readoutAccuracy: '#ffaa00',
+  readoutHeading: '#ff6b00',
+};
+
 const lightTheme: Theme = {
   colors: {
     background: '#f8fafc',
@@ -39,7 +98,9 @@ const lightTheme: Theme = {
     compassBackground: '#ffffff',
     speedometerBackground: '#0a0a0a',
     cardBackground: '#ffffff',
+    ...instrumentColors,
   },
+  name: 'light',
   isDark: false,
 };
 
@@ -60,13 +121,75 @@ const darkTheme: Theme = {
     compassBackground: '#1e293b',
     speedometerBackground: '#0a0a0a',
     cardBackground: '#1e293b',
+    ...instrumentColors,
+  },
+  name: 'dark',
+  isDark: true,
+};
+
+/**
+ * Dim red on black for driving in the dark: red light barely affects
+ * night vision and the low luminance keeps the screen from dazzling
+ */
+const nightTheme: Theme = {
+  colors: {
+    background: '#000000',
+    surface: '#0f0202',
+    primary: '#b91c1c',
+    secondary: '#7f1d1d',
+    text: '#c53030',
+    textSecondary: '#8b1e1e',
+    border: '#2a0606',
+    shadow: '#000000',
+    accent: '#991b1b',
+    success: '#9b2c2c',
+    warning: '#c53030',
+    error: '#e53e3e',
+    compassBackground: '#0f0202',
+    speedometerBackground: '#000000',
+    cardBackground: '#0f0202',
+    gaugeFace: '#140303',
+    gaugeFaceEdge: '#000000',
+    gaugeRing: '#1f0404',
+    gaugeBorder: '#2a0606',
+    gaugePanel: '#000000',
+    gaugePanelBorder: '#3b0a0a',
+    gaugeLabel: '#6b1414',
+    gaugeTick: '#b91c1c',
+    gaugeMinorTick: '#7f1d1d',
+    gaugeZoneLow: '#3b0a0a',
+    gaugeZoneMid: '#5c1010',
+    gaugeZoneHigh: '#8b1e1e',
+    gaugeProgressLow: '#5c1010',
+    gaugeProgressMid: '#8b1e1e',
+    gaugeProgressHigh: '#c53030',
+    needle: '#e53e3e',
+    needleStroke: '#9b2c2c',
+    needleCap: '#2a0606',
+    needleCapStroke: '#5c1010',
+    readoutSpeed: '#e53e3e',
+    readoutAltitude: '#b91c1c',
+    readoutAccuracy: '#b91c1c',
+    readoutHeading: '#b91c1c',
   },
+  name: 'night',
   isDark: true,
 };
 
+const themes: { [name in ThemeName]: Theme } = {
+  light: lightTheme,
+  dark: darkTheme,
+  night: nightTheme,
+};
+
+const SUN_CHECK_INTERVAL = 60 * 1000; // ms, catches sunset while parked with no new fixes
+
 interface ThemeContextType {
   theme: Theme;
   isDark: boolean;
+  isNight: boolean;
+  themeMode: ThemeMode;
+  setThemeMode: (mode: ThemeMode) => void;
 }
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
@@ -76,7 +199,9 @@ interface ThemeProviderProps {
 }
 
 export const ThemeProvider = ({ children }: ThemeProviderProps) => {
+  const { themeMode } = usePreferences().display;
   const [isDark, setIsDark] = useState(false);
+  const [isSunDown, setIsSunDown] = useState(false);
 
   useEffect(() => {
     // Get initial theme from system
@@ -91,10 +216,46 @@ export const ThemeProvider = ({ children }: ThemeProviderProps) => {
     return () => subscription?.remove();
   }, []);
 
-  const theme = isDark ? darkTheme : lightTheme;
+  // In auto mode, follow the sun at the last known position
+  useEffect(() => {
+    if (themeMode !== 'auto') return;
+
+    const locationService = LocationService.getInstance();
+    let lastPosition: LocationData | null = locationService.getCurrentLocation();
+
+    const checkSun = () => {
+      if (!lastPosition) return;
+      setIsSunDown(!isDaylight(new Date(), lastPosition.latitude, lastPosition.longitude));
+    };
+    const handleLocation = (location: LocationData) => {
+      const firstFix = !lastPosition;
+      lastPosition = location;
+      if (firstFix) checkSun();
+    };
+
+    checkSun();
+    locationService.addLocationListener(handleLocation);
+    const interval = setInterval(checkSun, SUN_CHECK_INTERVAL);
+
+    return () => {
+      locationService.removeLocationListener(handleLocation);
+      clearInterval(interval);
+    };
+  }, [themeMode]);
+
+  const themeName: ThemeName = themeMode === 'auto'
+    ? (isSunDown ? 'night' : isDark ? 'dark' : 'light')
+    : themeMode;
+  const theme = themes[themeName];
+
+  const setThemeMode = (mode: ThemeMode) => {
+    PreferencesService.getInstance().update('display', { themeMode: mode });
+  };
 
   return (
-    <ThemeContext.Provider value={{ theme, isDark }}>
+    <ThemeContext.Provider
+      value={{ theme, isDark: theme.isDark, isNight: themeName === 'night', themeMode, setThemeMode }}
+    >
       {children}
     </ThemeContext.Provider>
   );
@@ -11,11 +11,24 @@ import {
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { LocationService, LocationData, PlaceInfo } from '../services/locationService';
+import { LocationService, LocationData, PlaceInfo, TrackingState } from '../services/locationService';
 import { SpeedLimitService } from '../services/speedLimitService';
+import { NotificationService } from '../services/notificationService';
+import { SpeedAlertService } from '../services/speedAlertService';
+import { VehicleProfileService } from '../services/vehicleProfileService';
+import { SpeedSource } from '../services/speedEstimator';
+import { AltitudeData, AltitudeService } from '../services/altitudeService';
 import Compass from '../components/Compass';
 import SpeedLimitIndicator from '../components/SpeedLimitIndicator';
 import { useTheme } from '../contexts/ThemeContext';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { convertLength, convertSpeed, formatVerticalSpeed as formatClimbRate, lengthUnitFor, speedUnitFor } from '../utils/units';
+
+const TRACKING_STATUS: { [state in TrackingState]: { label: string; action: string } } = {
+  tracking: { label: '● Tracking', action: '■ Stop' },
+  paused: { label: '❚❚ Tracking paused', action: '▶ Resume' },
+  stopped: { label: '○ Tracking stopped', action: '▶ Start' },
+};
 
 // Simple Signal Strength Component
 const SignalStrength = ({ accuracy }: { accuracy: number | null }) => {
@@ -107,19 +120,45 @@ const SignalStrength = ({ accuracy }: { accuracy: number | null }) => {
 export default function MainScreen() {
   const [location, setLocation] = useState<LocationData | null>(null);
   const [placeInfo, setPlaceInfo] = useState<PlaceInfo | null>(null);
+  const [altitudeData, setAltitudeData] = useState<AltitudeData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [trackingState, setTrackingState] = useState<TrackingState>(() => LocationService.getInstance().getTrackingState());
   const insets = useSafeAreaInsets();
   const { theme, isDark } = useTheme();
+  const { unitSystem } = usePreferences().display;
 
   const locationService = LocationService.getInstance();
   const speedLimitService = SpeedLimitService.getInstance();
 
   useEffect(() => {
-    initializeLocationTracking();
-    
-    // HERE API disabled - OpenStreetMap provides 100% coverage for Serbian roads
-    // speedLimitService.initializeHereAPI('YTmXMKsTPWORW5lNK8rIRwjWTd9xhBCRgZIjBfGiGpY');
+    const locationListener = (locationData: LocationData) => {
+      setLocation(locationData);
+
+      // Update place info when location changes significantly
+      if (locationData.latitude && locationData.longitude) {
+        updatePlaceInfo(locationData.latitude, locationData.longitude);
+      }
+    };
+
+    // Stopped from here or from the notification; don't keep showing the last fix
+    const trackingStateListener = (state: TrackingState) => {
+      setTrackingState(state);
+      if (state === 'stopped') {
+        setLocation(null);
+        setPlaceInfo(null);
+      }
+    };
+
+    locationService.addLocationListener(locationListener);
+    locationService.addTrackingStateListener(trackingStateListener);
+    startTracking();
+    VehicleProfileService.getInstance().initialize();
+
+    // Barometer-assisted altitude and climb rate
+    const altitudeService = AltitudeService.getInstance();
+    altitudeService.addAltitudeListener(setAltitudeData);
+    altitudeService.start();
     
     // Handle app state changes
     const handleAppStateChange = (nextAppState: AppStateStatus) => {
@@ -133,31 +172,38 @@ export default function MainScreen() {
 
     return () => {
       subscription?.remove();
+      locationService.removeLocationListener(locationListener);
+      locationService.removeTrackingStateListener(trackingStateListener);
+      altitudeService.removeAltitudeListener(setAltitudeData);
+      altitudeService.stop();
       locationService.stopLocationTracking();
     };
   }, []);
 
-  const initializeLocationTracking = async () => {
+  /**
+   * Start foreground and background tracking with the notification and speed
+   * alerts. Runs on mount and again from the Start button after a stop.
+   */
+  const startTracking = async () => {
     try {
-      setIsLoading(true);
       setError(null);
 
-      // Add location listener
-      const locationListener = (locationData: LocationData) => {
-        setLocation(locationData);
-        
-        // Update place info when location changes significantly
-        if (locationData.latitude && locationData.longitude) {
-          updatePlaceInfo(locationData.latitude, locationData.longitude);
-        }
-      };
-
-      locationService.addLocationListener(locationListener);
-
       // Start location tracking
       await locationService.startLocationTracking();
-      
+
       setIsLoading(false);
+
+      // Keep recording while the screen is off; fixes are replayed to listeners on resume
+      const backgroundStarted = await locationService.startBackgroundTracking();
+      if (!backgroundStarted) {
+        console.log('Background tracking unavailable - continuing in foreground only');
+      }
+
+      // Ongoing Android notification with altitude, speed and speed limit
+      await NotificationService.getInstance().start();
+
+      // Chime and vibrate when over the limit, also with the screen off
+      SpeedAlertService.getInstance().start();
     } catch (err) {
       console.error('Failed to initialize location tracking:', err);
       setError('Failed to start location tracking. Please check permissions.');
@@ -171,6 +217,19 @@ export default function MainScreen() {
     }
   };
 
+  const toggleTracking = () => {
+    switch (trackingState) {
+      case 'stopped':
+        startTracking();
+        break;
+      case 'paused':
+        locationService.resumeTracking();
+        break;
+      default:
+        locationService.stopTracking();
+    }
+  };
+
   const updatePlaceInfo = async (latitude: number, longitude: number) => {
     try {
       const place = await locationService.reverseGeocode(latitude, longitude);
@@ -189,25 +248,26 @@ export default function MainScreen() {
 
   const formatAltitude = (altitude: number | null): string => {
     if (altitude === null) return 'N/A';
-    return `${Math.round(altitude)} m`;
-  };
-
-  const formatGPSAltitude = (altitude: number | null): string => {
-    if (altitude === null) return 'N/A';
-    // GPS altitude is typically lower than corrected altitude
-    const gpsAltitude = altitude ? altitude - 44 : null; // Approximate geoid separation
-    return gpsAltitude ? `${Math.round(gpsAltitude)} m` : 'N/A';
+    return `${Math.round(convertLength(altitude, unitSystem))} ${lengthUnitFor(unitSystem)}`;
   };
 
-  const formatSpeed = (speed: number | null): string => {
+  const formatSpeed = (speed: number | null, source?: SpeedSource): string => {
     const speedKmh = LocationService.convertSpeedToKmh(speed);
     if (speedKmh === null) return 'N/A';
-    return `${speedKmh.toFixed(1)} km/h`;
+    // Flag speeds that are not a straight Doppler measurement
+    const text = `${convertSpeed(speedKmh, unitSystem).toFixed(1)} ${speedUnitFor(unitSystem)}`;
+    return source && source !== 'doppler' ? `${text} (${source})` : text;
+  };
+
+  const formatVerticalSpeed = (verticalSpeed: number | null): string => {
+    if (verticalSpeed === null) return 'N/A';
+    const arrow = verticalSpeed > 0.1 ? '▲' : verticalSpeed < -0.1 ? '▼' : '•';
+    return `${arrow} ${formatClimbRate(verticalSpeed, unitSystem)}`;
   };
 
   const formatAccuracy = (accuracy: number | null): string => {
     if (accuracy === null) return 'N/A';
-    return `±${Math.round(accuracy)} m`;
+    return `±${Math.round(convertLength(accuracy, unitSystem))} ${lengthUnitFor(unitSystem)}`;
   };
 
   if (isLoading) {
@@ -265,6 +325,24 @@ export default function MainScreen() {
       color: theme.colors.textSecondary,
       textAlign: 'center',
     },
+    trackingRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      marginTop: 8,
+    },
+    trackingButton: {
+      paddingHorizontal: 16,
+      paddingVertical: 6,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: trackingState === 'tracking' ? theme.colors.error : theme.colors.primary,
+    },
+    trackingButtonText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: trackingState === 'tracking' ? theme.colors.error : theme.colors.primary,
+    },
     themeToggle: {
       position: 'absolute',
       top: insets.top + 10,
@@ -367,7 +445,12 @@ export default function MainScreen() {
           <Text style={dynamicStyles.title}>
             GPS Info
           </Text>
-
+          <View style={dynamicStyles.trackingRow}>
+            <Text style={dynamicStyles.subtitle}>{TRACKING_STATUS[trackingState].label}</Text>
+            <TouchableOpacity style={dynamicStyles.trackingButton} onPress={toggleTracking}>
+              <Text style={dynamicStyles.trackingButtonText}>{TRACKING_STATUS[trackingState].action}</Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
         {/* Compass */}
@@ -420,21 +503,39 @@ export default function MainScreen() {
             </Text>
             <View style={dynamicStyles.cardContent}>
               <View style={dynamicStyles.dataRow}>
-                <Text style={dynamicStyles.dataLabel}>API Altitude:</Text>
+                <Text style={dynamicStyles.dataLabel}>
+                  Altitude (MSL){location?.altitudeReference === 'msl' ? ' ·GPS' : ''}:
+                </Text>
+                <Text style={dynamicStyles.dataValue}>
+                  {location ? formatAltitude(location.altitudeMsl ?? null) : 'N/A'}
+                </Text>
+              </View>
+              <View style={dynamicStyles.dataRow}>
+                <Text style={dynamicStyles.dataLabel}>
+                  Ellipsoid Height{location?.altitudeReference === 'ellipsoid' ? ' ·GPS' : ''}:
+                </Text>
                 <Text style={dynamicStyles.dataValue}>
-                  {location ? formatAltitude(location.altitude) : 'N/A'}
+                  {location ? formatAltitude(location.ellipsoidalAltitude ?? null) : 'N/A'}
                 </Text>
               </View>
+              {altitudeData?.source === 'fused' && (
+                <View style={dynamicStyles.dataRow}>
+                  <Text style={dynamicStyles.dataLabel}>Fused Altitude:</Text>
+                  <Text style={dynamicStyles.dataValue}>
+                    {formatAltitude(altitudeData.altitude)}
+                  </Text>
+                </View>
+              )}
               <View style={dynamicStyles.dataRow}>
-                <Text style={dynamicStyles.dataLabel}>GPS Altitude:</Text>
+                <Text style={dynamicStyles.dataLabel}>Vertical Speed:</Text>
                 <Text style={dynamicStyles.dataValue}>
-                  {location ? formatGPSAltitude(location.altitude) : 'N/A'}
+                  {formatVerticalSpeed(altitudeData?.verticalSpeed ?? null)}
                 </Text>
               </View>
               <View style={dynamicStyles.dataRow}>
                 <Text style={dynamicStyles.dataLabel}>Speed:</Text>
                 <Text style={dynamicStyles.dataValue}>
-                  {location ? formatSpeed(location.speed) : 'N/A'}
+                  {location ? formatSpeed(location.speed, location.speedSource) : 'N/A'}
                 </Text>
               </View>
             </View>
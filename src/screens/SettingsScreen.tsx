@@ -0,0 +1,453 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  Alert,
+  Platform,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { PreferencesService, PreferenceSection, Preferences, THEME_MODES, ThemeMode } from '../services/preferencesService';
+import { CompassSettingsService, HEADING_REFERENCES, HeadingReference } from '../services/compassSettingsService';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { SpeedAlertService } from '../services/speedAlertService';
+import { formatSpeed, speedometerScale, speedUnitFor, UNIT_SYSTEMS, UnitSystem } from '../utils/units';
+
+interface StepperOptions {
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const HEADING_REFERENCE_LABELS: { [reference in HeadingReference]: string } = {
+  true: 'True north',
+  magnetic: 'Magnetic',
+  grid: 'UTM grid',
+};
+
+const UNIT_SYSTEM_LABELS: { [system in UnitSystem]: string } = {
+  metric: 'Metric (km/h, m)',
+  imperial: 'Imperial (mph, ft)',
+  nautical: 'Nautical (kn, NM)',
+};
+
+const THEME_MODE_LABELS: { [mode in ThemeMode]: string } = {
+  auto: 'Auto (night after sunset)',
+  light: 'Light',
+  dark: 'Dark',
+  night: 'Night (red)',
+};
+
+const TOLERANCE_CHOICES: (number | null)[] = [null, 0, 3, 5, 10, 15];
+
+const formatSeconds = (ms: number): string => `${ms / 1000} s`;
+const formatMinutes = (ms: number): string => `${ms / 60000} min`;
+const formatMeters = (meters: number): string => `${meters} m`;
+
+export default function SettingsScreen() {
+  const preferences = usePreferences();
+  const [headingReference, setHeadingReference] = useState<HeadingReference>(
+    () => CompassSettingsService.getInstance().getHeadingReference()
+  );
+  const [hereApiKey, setHereApiKey] = useState(preferences.speedLimits.hereApiKey);
+  const insets = useSafeAreaInsets();
+  const { theme, isDark, themeMode, setThemeMode } = useTheme();
+
+  const preferencesService = PreferencesService.getInstance();
+  const compassSettings = CompassSettingsService.getInstance();
+
+  useEffect(() => {
+    compassSettings.addHeadingReferenceListener(setHeadingReference);
+    compassSettings.initialize();
+
+    return () => {
+      compassSettings.removeHeadingReferenceListener(setHeadingReference);
+    };
+  }, []);
+
+  // Keep the text field in step with resets and the initial load
+  useEffect(() => {
+    setHereApiKey(preferences.speedLimits.hereApiKey);
+  }, [preferences.speedLimits.hereApiKey]);
+
+  const update = <K extends PreferenceSection>(section: K, values: Partial<Preferences[K]>) => {
+    preferencesService.update(section, values).catch(error => {
+      console.error('Failed to save preferences:', error.message);
+    });
+  };
+
+  const saveHereApiKey = () => {
+    const key = hereApiKey.trim();
+    if (key !== preferences.speedLimits.hereApiKey) {
+      update('speedLimits', { hereApiKey: key });
+    }
+  };
+
+  const confirmResetCalibration = () => {
+    Alert.alert('Reset Compass Calibration', 'Discard the saved hard-iron calibration?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Reset', style: 'destructive', onPress: () => compassSettings.resetCalibration() },
+    ]);
+  };
+
+  const confirmResetDefaults = () => {
+    Alert.alert('Reset Settings', 'Restore every setting on this screen to its default?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Reset', style: 'destructive', onPress: () => preferencesService.resetToDefaults() },
+    ]);
+  };
+
+  const dynamicStyles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    content: {
+      padding: 16,
+    },
+    header: {
+      marginBottom: 20,
+      alignItems: 'center',
+    },
+    title: {
+      fontSize: 28,
+      fontWeight: 'bold',
+      color: theme.colors.text,
+      marginTop: 25,
+    },
+    card: {
+      backgroundColor: theme.colors.cardBackground,
+      borderRadius: 16,
+      padding: 16,
+      marginBottom: 12,
+      shadowColor: theme.colors.shadow,
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: isDark ? 0.3 : 0.1,
+      shadowRadius: 8,
+      elevation: 4,
+      borderWidth: isDark ? 1 : 0,
+      borderColor: theme.colors.border,
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontWeight: 'bold',
+      color: theme.colors.text,
+      marginBottom: 8,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingVertical: 8,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+    },
+    lastRow: {
+      borderBottomWidth: 0,
+    },
+    label: {
+      flex: 1,
+      fontSize: 15,
+      color: theme.colors.text,
+    },
+    stepper: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    stepperButton: {
+      width: 32,
+      height: 32,
+      borderRadius: 16,
+      backgroundColor: theme.colors.primary + '20',
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    stepperButtonText: {
+      fontSize: 18,
+      fontWeight: 'bold',
+      color: theme.colors.primary,
+    },
+    stepperValue: {
+      minWidth: 72,
+      textAlign: 'center',
+      fontSize: 15,
+      fontWeight: '600',
+      color: theme.colors.text,
+    },
+    choices: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      paddingVertical: 8,
+    },
+    choice: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      marginRight: 8,
+      marginBottom: 8,
+    },
+    choiceActive: {
+      backgroundColor: theme.colors.primary,
+      borderColor: theme.colors.primary,
+    },
+    choiceText: {
+      fontSize: 13,
+      color: theme.colors.text,
+    },
+    choiceTextActive: {
+      color: '#ffffff',
+      fontWeight: '600',
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      fontSize: 14,
+      color: theme.colors.text,
+      marginTop: 4,
+      marginBottom: 8,
+    },
+    hint: {
+      fontSize: 12,
+      color: theme.colors.textSecondary,
+      marginBottom: 4,
+    },
+    button: {
+      paddingVertical: 12,
+      borderRadius: 25,
+      alignItems: 'center',
+      backgroundColor: theme.colors.error,
+      marginTop: 4,
+      marginBottom: 12,
+    },
+    secondaryButton: {
+      paddingVertical: 10,
+      borderRadius: 8,
+      alignItems: 'center',
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      marginTop: 8,
+    },
+    buttonText: {
+      color: '#ffffff',
+      fontSize: 16,
+      fontWeight: '600',
+    },
+    secondaryButtonText: {
+      color: theme.colors.text,
+      fontSize: 14,
+      fontWeight: '600',
+    },
+  });
+
+  const renderStepper = (label: string, value: number, options: StepperOptions, onChange: (value: number) => void, last = false) => {
+    // Round away float error from fractional steps
+    const stepTo = (next: number) => Math.round(Math.min(options.max, Math.max(options.min, next)) * 1000) / 1000;
+    return (
+      <View style={[dynamicStyles.row, last && dynamicStyles.lastRow]}>
+        <Text style={dynamicStyles.label}>{label}</Text>
+        <View style={dynamicStyles.stepper}>
+          <TouchableOpacity style={dynamicStyles.stepperButton} onPress={() => onChange(stepTo(value - options.step))}>
+            <Text style={dynamicStyles.stepperButtonText}>−</Text>
+          </TouchableOpacity>
+          <Text style={dynamicStyles.stepperValue}>{options.format(value)}</Text>
+          <TouchableOpacity style={dynamicStyles.stepperButton} onPress={() => onChange(stepTo(value + options.step))}>
+            <Text style={dynamicStyles.stepperButtonText}>+</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderChoices = <T,>(choices: T[], selected: T, label: (choice: T) => string, onSelect: (choice: T) => void) => (
+    <View style={dynamicStyles.choices}>
+      {choices.map(choice => {
+        const isActive = choice === selected;
+        return (
+          <TouchableOpacity
+            key={label(choice)}
+            style={[dynamicStyles.choice, isActive && dynamicStyles.choiceActive]}
+            onPress={() => onSelect(choice)}
+          >
+            <Text style={[dynamicStyles.choiceText, isActive && dynamicStyles.choiceTextActive]}>{label(choice)}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const { speedLimits, tracking, display, locationFilter, speedAlerts } = preferences;
+
+  // The dial rounds its top to whole ticks in the chosen unit, so show what it will actually read
+  const formatDialRange = (maxSpeedKmh: number): string => {
+    const unit = speedUnitFor(display.unitSystem);
+    return `${speedometerScale(maxSpeedKmh, unit).max} ${unit}`;
+  };
+
+  return (
+    <View style={dynamicStyles.container}>
+      <StatusBar style={isDark ? "light" : "dark"} />
+      <ScrollView
+        contentContainerStyle={[dynamicStyles.content, { paddingBottom: insets.bottom + 80 }]}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={dynamicStyles.header}>
+          <Text style={dynamicStyles.title}>Settings</Text>
+        </View>
+
+        {/* Speed Limits */}
+        <View style={dynamicStyles.card}>
+          <Text style={dynamicStyles.sectionTitle}>🚦 Speed Limits</Text>
+          <Text style={dynamicStyles.hint}>Speeding alert tolerance</Text>
+          {renderChoices(
+            TOLERANCE_CHOICES,
+            speedLimits.speedingTolerance,
+            choice => (choice === null ? 'Vehicle profile' : `+${choice}%`),
+            choice => update('speedLimits', { speedingTolerance: choice })
+          )}
+          {renderStepper('Lookup interval', speedLimits.minRequestInterval, { min: 5000, max: 120000, step: 5000, format: formatSeconds },
+            value => update('speedLimits', { minRequestInterval: value }))}
+          {renderStepper('Cache duration', speedLimits.cacheDuration, { min: 60000, max: 30 * 60000, step: 60000, format: formatMinutes },
+            value => update('speedLimits', { cacheDuration: value }), true)}
+          <Text style={dynamicStyles.hint}>HERE API key (optional, adds HERE as a speed limit source)</Text>
+          <TextInput
+            style={dynamicStyles.input}
+            value={hereApiKey}
+            onChangeText={setHereApiKey}
+            onEndEditing={saveHereApiKey}
+            onSubmitEditing={saveHereApiKey}
+            placeholder="Not set"
+            placeholderTextColor={theme.colors.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+          />
+        </View>
+
+        {/* Speed Alerts */}
+        <View style={dynamicStyles.card}>
+          <Text style={dynamicStyles.sectionTitle}>🔔 Speed Alerts</Text>
+          <View style={dynamicStyles.row}>
+            <Text style={dynamicStyles.label}>Alert when speeding</Text>
+            <Switch
+              value={speedAlerts.enabled}
+              onValueChange={enabled => update('speedAlerts', { enabled })}
+              trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+            />
+          </View>
+          <View style={dynamicStyles.row}>
+            <Text style={dynamicStyles.label}>Chime</Text>
+            <Switch
+              value={speedAlerts.sound}
+              onValueChange={sound => update('speedAlerts', { sound })}
+              trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+            />
+          </View>
+          <View style={dynamicStyles.row}>
+            <Text style={dynamicStyles.label}>Vibrate</Text>
+            <Switch
+              value={speedAlerts.vibration}
+              onValueChange={vibration => update('speedAlerts', { vibration })}
+              trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+            />
+          </View>
+          {renderStepper('Clears below threshold by', speedAlerts.hysteresis,
+            { min: 0, max: 15, step: 1, format: value => formatSpeed(value, display.unitSystem, display.unitSystem === 'metric' ? 0 : 1) },
+            value => update('speedAlerts', { hysteresis: value }))}
+          {renderStepper('Repeat after', speedAlerts.cooldown, { min: 10000, max: 5 * 60000, step: 10000, format: formatSeconds },
+            value => update('speedAlerts', { cooldown: value }))}
+          {renderStepper('Escalate every', speedAlerts.escalationStep, { min: 5, max: 30, step: 5, format: value => `+${value}%` },
+            value => update('speedAlerts', { escalationStep: value }))}
+          {renderStepper('…or every', speedAlerts.escalationDelay, { min: 5000, max: 120000, step: 5000, format: formatSeconds },
+            value => update('speedAlerts', { escalationDelay: value }), true)}
+          <Text style={dynamicStyles.hint}>Alerts stay silent where the limit is only a country default for the road type</Text>
+          {Platform.OS === 'ios' && (
+            <Text style={dynamicStyles.hint}>With the app in the background, iPhone only vibrates along with the chime</Text>
+          )}
+          <TouchableOpacity style={dynamicStyles.secondaryButton} onPress={() => SpeedAlertService.getInstance().preview(1)}>
+            <Text style={dynamicStyles.secondaryButtonText}>Test Alert</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Display */}
+        <View style={dynamicStyles.card}>
+          <Text style={dynamicStyles.sectionTitle}>🎛️ Display</Text>
+          <Text style={dynamicStyles.hint}>Units</Text>
+          {renderChoices(
+            UNIT_SYSTEMS,
+            display.unitSystem,
+            system => UNIT_SYSTEM_LABELS[system],
+            system => update('display', { unitSystem: system })
+          )}
+          <Text style={dynamicStyles.hint}>Theme</Text>
+          {renderChoices(THEME_MODES, themeMode, mode => THEME_MODE_LABELS[mode], setThemeMode)}
+          {renderStepper('Speedometer range', display.speedometerMaxSpeed, { min: 100, max: 400, step: 20, format: formatDialRange },
+            value => update('display', { speedometerMaxSpeed: value }))}
+          {renderStepper('Compass smoothing', display.compassSmoothing, { min: 0.02, max: 0.5, step: 0.02, format: value => value.toFixed(2) },
+            value => update('display', { compassSmoothing: value }), true)}
+        </View>
+
+        {/* Compass */}
+        <View style={dynamicStyles.card}>
+          <Text style={dynamicStyles.sectionTitle}>🧭 Compass</Text>
+          <Text style={dynamicStyles.hint}>Heading reference</Text>
+          {renderChoices(
+            HEADING_REFERENCES,
+            headingReference,
+            reference => HEADING_REFERENCE_LABELS[reference],
+            reference => compassSettings.setHeadingReference(reference)
+          )}
+          <TouchableOpacity style={dynamicStyles.secondaryButton} onPress={confirmResetCalibration}>
+            <Text style={dynamicStyles.secondaryButtonText}>Reset Compass Calibration</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* GPS */}
+        <View style={dynamicStyles.card}>
+          <Text style={dynamicStyles.sectionTitle}>📡 GPS Updates</Text>
+          {renderStepper('Interval', tracking.timeInterval, { min: 500, max: 10000, step: 500, format: formatSeconds },
+            value => update('tracking', { timeInterval: value }))}
+          {renderStepper('Distance', tracking.distanceInterval, { min: 0, max: 50, step: 1, format: formatMeters },
+            value => update('tracking', { distanceInterval: value }))}
+          {renderStepper('Background interval', tracking.backgroundTimeInterval, { min: 1000, max: 30000, step: 1000, format: formatSeconds },
+            value => update('tracking', { backgroundTimeInterval: value }))}
+          {renderStepper('Background distance', tracking.backgroundDistanceInterval, { min: 0, max: 100, step: 5, format: formatMeters },
+            value => update('tracking', { backgroundDistanceInterval: value }), true)}
+        </View>
+
+        {/* Location Filter */}
+        <View style={dynamicStyles.card}>
+          <Text style={dynamicStyles.sectionTitle}>🎯 Position Smoothing</Text>
+          <View style={dynamicStyles.row}>
+            <Text style={dynamicStyles.label}>Smooth and reject outliers</Text>
+            <Switch
+              value={locationFilter.enabled}
+              onValueChange={enabled => update('locationFilter', { enabled })}
+              trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+            />
+          </View>
+          {renderStepper('Responsiveness', locationFilter.processNoise, { min: 0.5, max: 10, step: 0.5, format: value => value.toFixed(1) },
+            value => update('locationFilter', { processNoise: value }))}
+          {renderStepper('Max acceleration', locationFilter.maxAcceleration, { min: 2, max: 30, step: 1, format: value => `${value} m/s²` },
+            value => update('locationFilter', { maxAcceleration: value }), true)}
+        </View>
+
+        <TouchableOpacity style={dynamicStyles.button} onPress={confirmResetDefaults}>
+          <Text style={dynamicStyles.buttonText}>Reset to Defaults</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
@@ -9,12 +9,20 @@ import {
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { LocationService, LocationData, PlaceInfo } from '../services/locationService';
+import { LocationService, LocationData, PlaceInfo, TrackingState } from '../services/locationService';
 import { SpeedLimitService, SpeedLimitData } from '../services/speedLimitService';
+import { VehicleProfile, VehicleProfileService } from '../services/vehicleProfileService';
+import { Trip, TripPoint, TripRecorder, TripSummary } from '../services/tripRecorder';
+import { AltitudeData, AltitudeService } from '../services/altitudeService';
 import Speedometer from '../components/Speedometer';
+import ReplayControls from '../components/ReplayControls';
+import ElevationChart from '../components/ElevationChart';
+import HeadUpDisplay from '../components/HeadUpDisplay';
 
 import { useCompass } from '../components/Compass';
 import { useTheme } from '../contexts/ThemeContext';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { convertLength, convertSpeed, formatAltitude, formatDistance, formatSpeed as formatSpeedWithUnit, speedUnitFor } from '../utils/units';
 
 const { width } = Dimensions.get('window');
 
@@ -24,17 +32,26 @@ export default function SpeedDashboard() {
   const [speedLimitData, setSpeedLimitData] = useState<SpeedLimitData | null>(null);
   const [maxSpeed, setMaxSpeed] = useState(0);
   const [avgSpeed, setAvgSpeed] = useState(0);
-  const [tripDistance, setTripDistance] = useState(0);
+  const [tripSummary, setTripSummary] = useState<TripSummary | null>(null);
+  const [tripPoints, setTripPoints] = useState<TripPoint[]>([]);
   const [speedHistory, setSpeedHistory] = useState<number[]>([]);
-  const heading = useCompass(); // Use shared compass hook for Speedometer display
+  const { heading } = useCompass(); // Shared compass hook, in the heading reference chosen on the Compass
+  const [isHudActive, setIsHudActive] = useState(false);
   const [isTestMode, setIsTestMode] = useState(false);
   const [testSpeed, setTestSpeed] = useState(0);
   const [testInterval, setTestInterval] = useState<NodeJS.Timeout | null>(null);
+  const [altitudeData, setAltitudeData] = useState<AltitudeData | null>(null);
+  const [trackingState, setTrackingState] = useState<TrackingState>(() => LocationService.getInstance().getTrackingState());
+  const [vehicleProfile, setVehicleProfile] = useState<VehicleProfile>(() => VehicleProfileService.getInstance().getActiveProfile());
   const insets = useSafeAreaInsets();
   const { theme, isDark } = useTheme();
+  const preferences = usePreferences();
+  const { unitSystem } = preferences.display;
+  const speedUnit = speedUnitFor(unitSystem);
 
   const locationService = LocationService.getInstance();
   const speedLimitService = SpeedLimitService.getInstance();
+  const vehicleProfileService = VehicleProfileService.getInstance();
 
   useEffect(() => {
     // Add location listener
@@ -73,7 +90,7 @@ export default function SpeedDashboard() {
     
     // Get current location if available
     const currentLocation = locationService.getCurrentLocation();
-    if (currentLocation) {
+    if (currentLocation && locationService.getTrackingState() !== 'stopped') {
       locationListener(currentLocation);
     }
 
@@ -84,6 +101,82 @@ export default function SpeedDashboard() {
     };
   }, [maxSpeed]);
 
+  useEffect(() => {
+    const trackingStateListener = (state: TrackingState) => {
+      setTrackingState(state);
+      if (state === 'stopped') {
+        setLocation(null);
+        setPlaceInfo(null);
+        setSpeedLimitData(null);
+      }
+    };
+
+    locationService.addTrackingStateListener(trackingStateListener);
+    setTrackingState(locationService.getTrackingState());
+
+    return () => {
+      locationService.removeTrackingStateListener(trackingStateListener);
+    };
+  }, []);
+
+  useEffect(() => {
+    // While a trip is recording, show its stats instead of this screen's short-lived ones
+    const tripRecorder = TripRecorder.getInstance();
+    const tripListener = (trip: Trip | null) => {
+      setTripSummary(trip ? { ...trip.summary } : null);
+      setTripPoints(trip ? trip.points : []);
+    };
+
+    tripRecorder.addTripListener(tripListener);
+    tripListener(tripRecorder.getActiveTrip());
+
+    return () => {
+      tripRecorder.removeTripListener(tripListener);
+    };
+  }, []);
+
+  useEffect(() => {
+    const altitudeService = AltitudeService.getInstance();
+    altitudeService.addAltitudeListener(setAltitudeData);
+    setAltitudeData(altitudeService.getAltitudeData());
+
+    return () => {
+      altitudeService.removeAltitudeListener(setAltitudeData);
+    };
+  }, []);
+
+  useEffect(() => {
+    vehicleProfileService.addProfileListener(setVehicleProfile);
+    setVehicleProfile(vehicleProfileService.getActiveProfile());
+
+    return () => {
+      vehicleProfileService.removeProfileListener(setVehicleProfile);
+    };
+  }, []);
+
+  const selectVehicleProfile = async (profile: VehicleProfile) => {
+    try {
+      await vehicleProfileService.setActiveProfile(profile.id);
+      // Limits depend on the vehicle, so look the current one up again right away
+      const currentLocation = locationService.getCurrentLocation();
+      if (currentLocation) {
+        setSpeedLimitData(await speedLimitService.getSpeedLimit(currentLocation));
+      }
+    } catch (error) {
+      console.error('Failed to switch vehicle profile:', error.message);
+    }
+  };
+
+  const getVehicleIcon = (profile: VehicleProfile): string => {
+    switch (profile.type) {
+      case 'motorcycle': return '🏍️';
+      case 'van': return '🚐';
+      case 'truck': return '🚚';
+      case 'bus': return '🚌';
+      default: return profile.trailer ? '🚙' : '🚗';
+    }
+  };
+
   // Cleanup test interval on unmount
   useEffect(() => {
     return () => {
@@ -197,11 +290,12 @@ export default function SpeedDashboard() {
     }
   };
 
-  const formatSpeed = (speed: number): string => {
-    return speed.toFixed(1);
+  const formatSpeed = (speedKmh: number): string => {
+    return convertSpeed(speedKmh, unitSystem).toFixed(1);
   };
 
   const currentSpeed = isTestMode ? testSpeed : (LocationService.convertSpeedToKmh(location?.speed) || 0);
+  const isSpeeding = speedLimitService.isSpeedingAlert(currentSpeed, speedLimitData?.speedLimit ?? null);
 
   const dynamicStyles = StyleSheet.create({
     container: {
@@ -323,6 +417,23 @@ export default function SpeedDashboard() {
       fontStyle: 'italic',
       textAlign: 'center',
     },
+    hudButton: {
+      alignSelf: 'center',
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 18,
+      paddingVertical: 10,
+      borderRadius: 20,
+      marginBottom: 16,
+      backgroundColor: theme.colors.surface,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    hudButtonText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: theme.colors.text,
+    },
     testControls: {
       alignItems: 'center',
       marginVertical: 15,
@@ -357,6 +468,79 @@ export default function SpeedDashboard() {
       color: theme.colors.primary,
       fontWeight: '500',
     },
+    tripDistance: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+      marginBottom: 4,
+    },
+    elevationCard: {
+      backgroundColor: theme.colors.cardBackground,
+      borderRadius: 16,
+      padding: 16,
+      marginTop: 12,
+      shadowColor: theme.colors.shadow,
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: isDark ? 0.3 : 0.1,
+      shadowRadius: 8,
+      elevation: 4,
+      borderWidth: isDark ? 1 : 0,
+      borderColor: theme.colors.border,
+    },
+    elevationStats: {
+      fontSize: 13,
+      color: theme.colors.textSecondary,
+      fontWeight: '500',
+      marginBottom: 8,
+    },
+    vehicleCard: {
+      backgroundColor: theme.colors.cardBackground,
+      borderRadius: 16,
+      padding: 16,
+      marginTop: 12,
+      shadowColor: theme.colors.shadow,
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: isDark ? 0.3 : 0.1,
+      shadowRadius: 8,
+      elevation: 4,
+      borderWidth: isDark ? 1 : 0,
+      borderColor: theme.colors.border,
+    },
+    vehicleTitle: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: theme.colors.text,
+      marginBottom: 12,
+    },
+    vehicleOptions: {
+      gap: 8,
+    },
+    vehicleChip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.surface,
+    },
+    vehicleChipActive: {
+      borderColor: theme.colors.primary,
+      backgroundColor: theme.colors.primary,
+    },
+    vehicleChipText: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: theme.colors.text,
+    },
+    vehicleChipTextActive: {
+      color: '#ffffff',
+    },
+    vehicleDetails: {
+      fontSize: 12,
+      color: theme.colors.textSecondary,
+      marginTop: 10,
+    },
 
   });
 
@@ -373,8 +557,21 @@ export default function SpeedDashboard() {
         {/* Header */}
         <View style={dynamicStyles.header}>
           <Text style={dynamicStyles.title}>Speed Dashboard</Text>
+          {trackingState !== 'tracking' && (
+            <Text style={dynamicStyles.subtitle}>
+              {trackingState === 'paused' ? 'Tracking paused' : 'Tracking stopped - start it on the GPS Info tab'}
+            </Text>
+          )}
         </View>
 
+        {/* Head-up display */}
+        <TouchableOpacity style={dynamicStyles.hudButton} onPress={() => setIsHudActive(true)}>
+          <Text style={dynamicStyles.hudButtonText}>🪞 HUD Mode</Text>
+        </TouchableOpacity>
+
+        {/* Track Replay */}
+        <ReplayControls style={{ marginBottom: 20 }} />
+
         {/* Speedometer Test Controls - Hidden but functionality preserved */}
         {false && (
           <View style={dynamicStyles.testControls}>
@@ -395,7 +592,7 @@ export default function SpeedDashboard() {
             )}
             {isTestMode && (
               <Text style={dynamicStyles.testStatus}>
-                Testing: {Math.round(testSpeed)} km/h
+                Testing: {formatSpeedWithUnit(testSpeed, unitSystem)}
               </Text>
             )}
           </View>
@@ -404,11 +601,13 @@ export default function SpeedDashboard() {
         {/* Speedometer */}
         <Speedometer
           speed={currentSpeed}
-          altitude={location?.altitude ? location.altitude - 44 : null}
+          altitude={altitudeData?.altitude ?? location?.altitudeMsl ?? null}
+          verticalSpeed={altitudeData?.verticalSpeed ?? null}
           accuracy={location?.accuracy}
           heading={heading}
           speedLimit={speedLimitData?.speedLimit}
-          maxSpeed={250}
+          nativeSpeedLimit={speedLimitData?.nativeSpeedLimit}
+          speedLimitUnit={speedLimitData?.unit}
           style={styles.speedometer}
         />
 
@@ -417,20 +616,68 @@ export default function SpeedDashboard() {
           <View style={dynamicStyles.statCard}>
             <Text style={dynamicStyles.statLabel}>Current</Text>
             <Text style={dynamicStyles.statValue}>{formatSpeed(currentSpeed)}</Text>
-            <Text style={dynamicStyles.statLabel}>km/h</Text>
+            <Text style={dynamicStyles.statLabel}>{speedUnit}</Text>
           </View>
           
           <View style={dynamicStyles.statCard}>
-            <Text style={dynamicStyles.statLabel}>Max Speed</Text>
-            <Text style={dynamicStyles.statValue}>{formatSpeed(maxSpeed)}</Text>
-            <Text style={dynamicStyles.statLabel}>km/h</Text>
+            <Text style={dynamicStyles.statLabel}>{tripSummary ? 'Trip Max' : 'Max Speed'}</Text>
+            <Text style={dynamicStyles.statValue}>{formatSpeed(tripSummary ? tripSummary.maxSpeed : maxSpeed)}</Text>
+            <Text style={dynamicStyles.statLabel}>{speedUnit}</Text>
           </View>
           
           <View style={dynamicStyles.statCard}>
-            <Text style={dynamicStyles.statLabel}>Average</Text>
-            <Text style={dynamicStyles.statValue}>{formatSpeed(avgSpeed)}</Text>
-            <Text style={dynamicStyles.statLabel}>km/h</Text>
+            <Text style={dynamicStyles.statLabel}>{tripSummary ? 'Trip Avg' : 'Average'}</Text>
+            <Text style={dynamicStyles.statValue}>{formatSpeed(tripSummary ? tripSummary.averageSpeed : avgSpeed)}</Text>
+            <Text style={dynamicStyles.statLabel}>{speedUnit}</Text>
+          </View>
+        </View>
+        {tripSummary && (
+          <Text style={dynamicStyles.tripDistance}>
+            🔴 Trip: {formatDistance(tripSummary.distance, unitSystem)}
+          </Text>
+        )}
+
+        {/* Elevation Profile */}
+        {tripSummary && (
+          <View style={dynamicStyles.elevationCard}>
+            <Text style={dynamicStyles.vehicleTitle}>⛰️ Elevation</Text>
+            <Text style={dynamicStyles.elevationStats}>
+              ↗ {formatAltitude(tripSummary.elevationGain, unitSystem)} · ↘ {formatAltitude(tripSummary.elevationLoss, unitSystem)}
+              {tripSummary.minAltitude !== null && tripSummary.maxAltitude !== null
+                ? ` · ${Math.round(convertLength(tripSummary.minAltitude, unitSystem))}–${formatAltitude(tripSummary.maxAltitude, unitSystem)}`
+                : ''}
+            </Text>
+            <ElevationChart points={tripPoints} />
           </View>
+        )}
+
+        {/* Vehicle Profile */}
+        <View style={dynamicStyles.vehicleCard}>
+          <Text style={dynamicStyles.vehicleTitle}>{getVehicleIcon(vehicleProfile)} Vehicle</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={dynamicStyles.vehicleOptions}>
+            {vehicleProfileService.getProfiles().map(profile => {
+              const isActive = profile.id === vehicleProfile.id;
+              return (
+                <TouchableOpacity
+                  key={profile.id}
+                  style={[dynamicStyles.vehicleChip, isActive && dynamicStyles.vehicleChipActive]}
+                  onPress={() => selectVehicleProfile(profile)}
+                >
+                  <Text style={[dynamicStyles.vehicleChipText, isActive && dynamicStyles.vehicleChipTextActive]}>
+                    {getVehicleIcon(profile)} {profile.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+          <Text style={dynamicStyles.vehicleDetails}>
+            {[
+              vehicleProfile.maxWeight !== null ? `${vehicleProfile.maxWeight} t` : null,
+              vehicleProfile.trailer ? 'trailer' : null,
+              vehicleProfile.speedCap !== null ? `max ${formatSpeedWithUnit(vehicleProfile.speedCap, unitSystem)}` : null,
+              `alert +${preferences.speedLimits.speedingTolerance ?? vehicleProfile.alertTolerance}%`,
+            ].filter(Boolean).join(' · ')}
+          </Text>
         </View>
 
         {/* Location Info Card */}
@@ -479,6 +726,15 @@ export default function SpeedDashboard() {
         </View>
 
       </ScrollView>
+
+      {isHudActive && (
+        <HeadUpDisplay
+          speed={location || isTestMode ? currentSpeed : null}
+          speedLimit={speedLimitData}
+          isSpeeding={isSpeeding}
+          onClose={() => setIsHudActive(false)}
+        />
+      )}
     </View>
   );
 }
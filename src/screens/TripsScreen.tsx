@@ -0,0 +1,454 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useFocusEffect } from '@react-navigation/native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { Trip, TripListItem, TripPoint, TripRecorder, TripSummary } from '../services/tripRecorder';
+import { shareTripAsGpx } from '../services/gpxExport';
+import { parseTrack } from '../services/trackImport';
+import { TrackReplayService } from '../services/trackReplayService';
+import ReplayControls from '../components/ReplayControls';
+import ElevationChart from '../components/ElevationChart';
+import { useTheme } from '../contexts/ThemeContext';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { convertSpeed, formatAltitude, formatDistance, speedUnitFor } from '../utils/units';
+
+const formatDuration = (ms: number): string => {
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const formatDate = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleString(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export default function TripsScreen() {
+  const [trips, setTrips] = useState<TripListItem[]>([]);
+  const [activeTrip, setActiveTrip] = useState<Trip | null>(null);
+  const [activeSummary, setActiveSummary] = useState<TripSummary | null>(null);
+  const [expandedTripId, setExpandedTripId] = useState<string | null>(null);
+  const [expandedPoints, setExpandedPoints] = useState<TripPoint[]>([]);
+  const insets = useSafeAreaInsets();
+  const { theme, isDark } = useTheme();
+  const { unitSystem } = usePreferences().display;
+
+  const tripRecorder = TripRecorder.getInstance();
+
+  const loadTrips = async () => {
+    const savedTrips = await tripRecorder.getTrips();
+    const activeId = tripRecorder.getActiveTrip()?.id;
+    setTrips(savedTrips.filter(trip => trip.id !== activeId));
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTrips();
+    }, [])
+  );
+
+  useEffect(() => {
+    const tripListener = (trip: Trip | null) => {
+      setActiveTrip(trip);
+      setActiveSummary(trip ? { ...trip.summary } : null);
+      if (!trip) {
+        loadTrips();
+      }
+    };
+
+    tripRecorder.addTripListener(tripListener);
+    tripListener(tripRecorder.getActiveTrip());
+
+    return () => {
+      tripRecorder.removeTripListener(tripListener);
+    };
+  }, []);
+
+  const toggleRecording = async () => {
+    try {
+      if (tripRecorder.isRecording()) {
+        await tripRecorder.stopTrip();
+      } else {
+        await tripRecorder.startTrip();
+      }
+    } catch (error) {
+      console.error('Failed to toggle trip recording:', error.message);
+    }
+  };
+
+  const shareTrip = async (item: TripListItem) => {
+    try {
+      const trip = await tripRecorder.getTrip(item.id);
+      if (!trip) {
+        throw new Error('Trip data not found');
+      }
+      await shareTripAsGpx(trip);
+    } catch (error) {
+      console.error('Failed to export trip:', error.message);
+      Alert.alert('Export Failed', error.message);
+    }
+  };
+
+  const toggleExpanded = async (item: TripListItem) => {
+    if (expandedTripId === item.id) {
+      setExpandedTripId(null);
+      setExpandedPoints([]);
+      return;
+    }
+
+    const trip = await tripRecorder.getTrip(item.id);
+    setExpandedTripId(item.id);
+    setExpandedPoints(trip ? trip.points : []);
+  };
+
+  const replayTrip = async (item: TripListItem) => {
+    try {
+      const trip = await tripRecorder.getTrip(item.id);
+      if (!trip) {
+        throw new Error('Trip data not found');
+      }
+      const replayService = TrackReplayService.getInstance();
+      replayService.load({ name: trip.name, points: trip.points });
+      replayService.play();
+    } catch (error) {
+      console.error('Failed to replay trip:', error.message);
+      Alert.alert('Replay Failed', error.message);
+    }
+  };
+
+  const importTrack = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.length) return;
+
+      const file = result.assets[0];
+      const content = await FileSystem.readAsStringAsync(file.uri);
+      const track = parseTrack(content, file.name);
+
+      const replayService = TrackReplayService.getInstance();
+      replayService.load(track);
+      replayService.play();
+    } catch (error) {
+      console.error('Failed to import track:', error.message);
+      Alert.alert('Import Failed', error.message);
+    }
+  };
+
+  const confirmDelete = (trip: TripListItem) => {
+    Alert.alert(
+      'Delete Trip',
+      `Delete "${trip.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await tripRecorder.deleteTrip(trip.id);
+            loadTrips();
+          },
+        },
+      ]
+    );
+  };
+
+  const dynamicStyles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    listContent: {
+      padding: 16,
+    },
+    header: {
+      marginBottom: 20,
+      alignItems: 'center',
+    },
+    title: {
+      fontSize: 28,
+      fontWeight: 'bold',
+      color: theme.colors.text,
+      marginTop: 25,
+    },
+    card: {
+      backgroundColor: theme.colors.cardBackground,
+      borderRadius: 16,
+      padding: 16,
+      marginBottom: 12,
+      shadowColor: theme.colors.shadow,
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: isDark ? 0.3 : 0.1,
+      shadowRadius: 8,
+      elevation: 4,
+      borderWidth: isDark ? 1 : 0,
+      borderColor: theme.colors.border,
+    },
+    recordingCard: {
+      borderWidth: 2,
+      borderColor: '#ef4444',
+    },
+    recordButton: {
+      paddingHorizontal: 24,
+      paddingVertical: 12,
+      borderRadius: 25,
+      alignItems: 'center',
+      marginTop: 12,
+    },
+    startButton: {
+      backgroundColor: '#22c55e',
+    },
+    stopButton: {
+      backgroundColor: '#ef4444',
+    },
+    recordButtonText: {
+      color: '#ffffff',
+      fontSize: 16,
+      fontWeight: '600',
+    },
+    tripHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'flex-start',
+    },
+    tripTitle: {
+      flex: 1,
+    },
+    shareButton: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 14,
+      backgroundColor: theme.colors.surface,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    shareButtonText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: theme.colors.primary,
+    },
+    tripActions: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    importButton: {
+      paddingHorizontal: 24,
+      paddingVertical: 12,
+      borderRadius: 25,
+      alignItems: 'center',
+      marginBottom: 12,
+      backgroundColor: theme.colors.surface,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    importButtonText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: theme.colors.primary,
+    },
+    replayControls: {
+      marginBottom: 12,
+    },
+    tripName: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: theme.colors.text,
+      marginBottom: 2,
+    },
+    tripDate: {
+      fontSize: 12,
+      color: theme.colors.textSecondary,
+      marginBottom: 12,
+    },
+    statsRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+    },
+    stat: {
+      alignItems: 'center',
+      flex: 1,
+    },
+    statValue: {
+      fontSize: 16,
+      fontWeight: 'bold',
+      color: theme.colors.text,
+    },
+    statLabel: {
+      fontSize: 11,
+      color: theme.colors.textSecondary,
+      fontWeight: '500',
+      marginTop: 2,
+    },
+    elevationRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginTop: 12,
+    },
+    elevationChart: {
+      marginTop: 8,
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: theme.colors.text,
+      marginTop: 8,
+      marginBottom: 12,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: theme.colors.textSecondary,
+      fontStyle: 'italic',
+      textAlign: 'center',
+      paddingVertical: 24,
+    },
+  });
+
+  const renderStats = (summary: TripSummary) => (
+    <View style={dynamicStyles.statsRow}>
+      <View style={dynamicStyles.stat}>
+        <Text style={dynamicStyles.statValue}>{formatDistance(summary.distance, unitSystem)}</Text>
+        <Text style={dynamicStyles.statLabel}>Distance</Text>
+      </View>
+      <View style={dynamicStyles.stat}>
+        <Text style={dynamicStyles.statValue}>{formatDuration(summary.movingTime)}</Text>
+        <Text style={dynamicStyles.statLabel}>Moving</Text>
+      </View>
+      <View style={dynamicStyles.stat}>
+        <Text style={dynamicStyles.statValue}>{formatDuration(summary.stoppedTime)}</Text>
+        <Text style={dynamicStyles.statLabel}>Stopped</Text>
+      </View>
+      <View style={dynamicStyles.stat}>
+        <Text style={dynamicStyles.statValue}>{Math.round(convertSpeed(summary.averageSpeed, unitSystem))}</Text>
+        <Text style={dynamicStyles.statLabel}>Avg {speedUnitFor(unitSystem)}</Text>
+      </View>
+      <View style={dynamicStyles.stat}>
+        <Text style={dynamicStyles.statValue}>{Math.round(convertSpeed(summary.maxSpeed, unitSystem))}</Text>
+        <Text style={dynamicStyles.statLabel}>Max {speedUnitFor(unitSystem)}</Text>
+      </View>
+    </View>
+  );
+
+  const renderElevationStats = (summary: TripSummary) => (
+    <View style={dynamicStyles.elevationRow}>
+      <View style={dynamicStyles.stat}>
+        <Text style={dynamicStyles.statValue}>{formatAltitude(summary.elevationGain, unitSystem)}</Text>
+        <Text style={dynamicStyles.statLabel}>Ascent</Text>
+      </View>
+      <View style={dynamicStyles.stat}>
+        <Text style={dynamicStyles.statValue}>{formatAltitude(summary.elevationLoss, unitSystem)}</Text>
+        <Text style={dynamicStyles.statLabel}>Descent</Text>
+      </View>
+      <View style={dynamicStyles.stat}>
+        <Text style={dynamicStyles.statValue}>
+          {summary.minAltitude !== null ? formatAltitude(summary.minAltitude, unitSystem) : '--'}
+        </Text>
+        <Text style={dynamicStyles.statLabel}>Min Alt</Text>
+      </View>
+      <View style={dynamicStyles.stat}>
+        <Text style={dynamicStyles.statValue}>
+          {summary.maxAltitude !== null ? formatAltitude(summary.maxAltitude, unitSystem) : '--'}
+        </Text>
+        <Text style={dynamicStyles.statLabel}>Max Alt</Text>
+      </View>
+    </View>
+  );
+
+  const renderHeader = () => (
+    <View>
+      <View style={dynamicStyles.header}>
+        <Text style={dynamicStyles.title}>Trips</Text>
+      </View>
+
+      {/* Current Recording */}
+      <View style={[dynamicStyles.card, activeTrip && dynamicStyles.recordingCard]}>
+        {activeTrip && activeSummary ? (
+          <>
+            <Text style={dynamicStyles.tripName}>🔴 Recording</Text>
+            <Text style={dynamicStyles.tripDate}>Started {formatDate(activeTrip.startTime)}</Text>
+            {renderStats(activeSummary)}
+            {renderElevationStats(activeSummary)}
+          </>
+        ) : (
+          <Text style={dynamicStyles.tripName}>Not recording</Text>
+        )}
+        <TouchableOpacity
+          style={[dynamicStyles.recordButton, activeTrip ? dynamicStyles.stopButton : dynamicStyles.startButton]}
+          onPress={toggleRecording}
+        >
+          <Text style={dynamicStyles.recordButtonText}>
+            {activeTrip ? '⏹️ Stop Trip' : '⏺️ Start Trip'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Track Replay */}
+      <ReplayControls style={dynamicStyles.replayControls} />
+      <TouchableOpacity style={dynamicStyles.importButton} onPress={importTrack}>
+        <Text style={dynamicStyles.importButtonText}>📂 Import Track (GPX/KML/GeoJSON)</Text>
+      </TouchableOpacity>
+
+      <Text style={dynamicStyles.sectionTitle}>History</Text>
+    </View>
+  );
+
+  return (
+    <View style={dynamicStyles.container}>
+      <StatusBar style={isDark ? "light" : "dark"} />
+      <FlatList
+        data={trips}
+        keyExtractor={trip => trip.id}
+        ListHeaderComponent={renderHeader}
+        ListEmptyComponent={<Text style={dynamicStyles.emptyText}>No recorded trips yet</Text>}
+        contentContainerStyle={[dynamicStyles.listContent, { paddingBottom: insets.bottom + 80 }]}
+        showsVerticalScrollIndicator={false}
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            style={dynamicStyles.card}
+            onPress={() => toggleExpanded(item)}
+            onLongPress={() => confirmDelete(item)}
+          >
+            <View style={dynamicStyles.tripHeader}>
+              <View style={dynamicStyles.tripTitle}>
+                <Text style={dynamicStyles.tripName}>{item.name}</Text>
+                <Text style={dynamicStyles.tripDate}>
+                  {formatDate(item.startTime)} · {formatDuration(item.summary.duration)}
+                </Text>
+              </View>
+              <View style={dynamicStyles.tripActions}>
+                <TouchableOpacity style={dynamicStyles.shareButton} onPress={() => replayTrip(item)}>
+                  <Text style={dynamicStyles.shareButtonText}>▶️ Replay</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={dynamicStyles.shareButton} onPress={() => shareTrip(item)}>
+                  <Text style={dynamicStyles.shareButtonText}>📤 GPX</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+            {renderStats(item.summary)}
+            {renderElevationStats(item.summary)}
+            {expandedTripId === item.id && (
+              <ElevationChart points={expandedPoints} style={dynamicStyles.elevationChart} />
+            )}
+          </TouchableOpacity>
+        )}
+      />
+    </View>
+  );
+}
@@ -0,0 +1,215 @@
+import { Barometer, BarometerMeasurement } from 'expo-sensors';
+import { LocationService, LocationData } from './locationService';
+
+export type AltitudeSource = 'fused' | 'gps';
+
+export interface AltitudeData {
+  altitude: number | null; // Best estimate above mean sea level, m
+  source: AltitudeSource; // 'gps' until the barometer has been calibrated
+  gpsAltitude: number | null; // Latest GPS altitude above mean sea level, m
+  barometricAltitude: number | null; // From pressure and the calibrated sea-level pressure, m
+  pressure: number | null; // hPa
+  seaLevelPressure: number; // hPa, calibrated from GPS
+  verticalSpeed: number | null; // m/s, positive when climbing
+  timestamp: number;
+}
+
+const STANDARD_SEA_LEVEL_PRESSURE = 1013.25; // hPa
+const MAX_GPS_ACCURACY = 30; // m, worse fixes are too vague to calibrate or correct with
+
+/**
+ * International barometric formula, altitude in meters for a pressure in hPa
+ */
+export const pressureToAltitude = (pressure: number, seaLevelPressure: number): number =>
+  44330 * (1 - Math.pow(pressure / seaLevelPressure, 1 / 5.255));
+
+/**
+ * Sea-level pressure that makes `pressure` correspond to `altitude`
+ */
+export const seaLevelPressureFor = (pressure: number, altitude: number): number =>
+  pressure / Math.pow(1 - altitude / 44330, 5.255);
+
+/**
+ * Fuses barometric and GPS altitude with a complementary filter: the
+ * barometer supplies short-term changes, GPS the long-term level. The sea-level
+ * pressure is slowly calibrated against GPS so the barometric altitude stays
+ * absolute as the weather changes. Without a barometer, GPS altitude is passed through.
+ */
+export class AltitudeService {
+  private static instance: AltitudeService;
+  private isActive: boolean = false;
+  private barometerAvailable: boolean = false;
+  private barometerSubscription: { remove: () => void } | null = null;
+  private listeners: ((data: AltitudeData) => void)[] = [];
+  private seaLevelPressure: number = STANDARD_SEA_LEVEL_PRESSURE;
+  private isCalibrated: boolean = false;
+  private pressure: number | null = null;
+  private barometricAltitude: number | null = null;
+  private gpsAltitude: number | null = null;
+  private lastGpsTimestamp: number = 0;
+  private fusedAltitude: number | null = null;
+  private verticalSpeed: number | null = null;
+  private lastRateAltitude: number | null = null;
+  private lastRateTimestamp: number = 0;
+  private locationService = LocationService.getInstance();
+  private readonly BAROMETER_INTERVAL = 500; // ms
+  private readonly FUSION_TIME_CONSTANT = 20; // s, how long GPS takes to pull the fused value
+  private readonly CALIBRATION_TIME_CONSTANT = 600; // s, weather changes slowly
+  private readonly VERTICAL_SPEED_TIME_CONSTANT = 2; // s
+
+  static getInstance(): AltitudeService {
+    if (!AltitudeService.instance) {
+      AltitudeService.instance = new AltitudeService();
+    }
+    return AltitudeService.instance;
+  }
+
+  async start(): Promise<void> {
+    if (this.isActive) return;
+    this.isActive = true;
+
+    try {
+      this.barometerAvailable = await Barometer.isAvailableAsync();
+    } catch (error) {
+      console.error('Error checking barometer availability:', error.message);
+      this.barometerAvailable = false;
+    }
+
+    if (this.barometerAvailable) {
+      Barometer.setUpdateInterval(this.BAROMETER_INTERVAL);
+      this.barometerSubscription = Barometer.addListener(this.handleBarometer);
+      console.log('Altitude service started with barometer');
+    } else {
+      console.log('Altitude service started - no barometer, using GPS altitude only');
+    }
+
+    this.locationService.addLocationListener(this.handleLocation);
+    const currentLocation = this.locationService.getCurrentLocation();
+    if (currentLocation) {
+      this.handleLocation(currentLocation);
+    }
+  }
+
+  stop(): void {
+    if (!this.isActive) return;
+    this.isActive = false;
+
+    this.barometerSubscription?.remove();
+    this.barometerSubscription = null;
+    this.locationService.removeLocationListener(this.handleLocation);
+    console.log('Altitude service stopped');
+  }
+
+  hasBarometer(): boolean {
+    return this.barometerAvailable;
+  }
+
+  getAltitudeData(): AltitudeData {
+    return {
+      altitude: this.fusedAltitude ?? this.gpsAltitude,
+      source: this.isCalibrated && this.fusedAltitude !== null ? 'fused' : 'gps',
+      gpsAltitude: this.gpsAltitude,
+      barometricAltitude: this.barometricAltitude,
+      pressure: this.pressure,
+      seaLevelPressure: this.seaLevelPressure,
+      verticalSpeed: this.verticalSpeed,
+      timestamp: Math.max(this.lastRateTimestamp, this.lastGpsTimestamp),
+    };
+  }
+
+  addAltitudeListener(listener: (data: AltitudeData) => void): void {
+    this.listeners.push(listener);
+  }
+
+  removeAltitudeListener(listener: (data: AltitudeData) => void): void {
+    const index = this.listeners.indexOf(listener);
+    if (index > -1) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  private handleBarometer = (measurement: BarometerMeasurement): void => {
+    this.pressure = measurement.pressure;
+    const barometricAltitude = pressureToAltitude(measurement.pressure, this.seaLevelPressure);
+    const previousBarometric = this.barometricAltitude;
+    this.barometricAltitude = barometricAltitude;
+
+    if (!this.isCalibrated) return;
+
+    // High-pass: carry the fused value along with the barometer's change
+    this.fusedAltitude = this.fusedAltitude === null || previousBarometric === null
+      ? barometricAltitude
+      : this.fusedAltitude + (barometricAltitude - previousBarometric);
+    this.updateVerticalSpeed(barometricAltitude, Date.now());
+    this.notifyListeners();
+  };
+
+  private handleLocation = (location: LocationData): void => {
+    const gpsAltitude = location.altitudeMsl ?? null;
+    if (gpsAltitude === null || location.accuracy === null || location.accuracy > MAX_GPS_ACCURACY) {
+      return;
+    }
+
+    const dt = this.lastGpsTimestamp > 0 ? Math.max(0, (location.timestamp - this.lastGpsTimestamp) / 1000) : 0;
+    this.gpsAltitude = gpsAltitude;
+    this.lastGpsTimestamp = location.timestamp;
+
+    if (!this.barometerAvailable || this.pressure === null) {
+      // GPS only: the fused value is just GPS, vertical speed comes from its changes
+      this.fusedAltitude = gpsAltitude;
+      this.updateVerticalSpeed(gpsAltitude, location.timestamp);
+      this.notifyListeners();
+      return;
+    }
+
+    this.calibrate(gpsAltitude, dt);
+
+    // Low-pass: pull the fused value towards GPS
+    const fused = this.fusedAltitude ?? gpsAltitude;
+    const gain = dt > 0 ? dt / (this.FUSION_TIME_CONSTANT + dt) : 1;
+    this.fusedAltitude = fused + gain * (gpsAltitude - fused);
+    this.notifyListeners();
+  };
+
+  /**
+   * Move the sea-level pressure towards the one implied by the GPS altitude.
+   * The first good fix sets it outright so the barometer is usable immediately.
+   */
+  private calibrate(gpsAltitude: number, dt: number): void {
+    const impliedPressure = seaLevelPressureFor(this.pressure!, gpsAltitude);
+
+    if (!this.isCalibrated) {
+      this.seaLevelPressure = impliedPressure;
+      this.isCalibrated = true;
+      console.log(`Barometer calibrated: sea-level pressure ${impliedPressure.toFixed(1)} hPa`);
+    } else {
+      const gain = dt / (this.CALIBRATION_TIME_CONSTANT + dt);
+      this.seaLevelPressure += gain * (impliedPressure - this.seaLevelPressure);
+    }
+
+    this.barometricAltitude = pressureToAltitude(this.pressure!, this.seaLevelPressure);
+  }
+
+  /**
+   * Smoothed rate of change of the barometric altitude, or of GPS altitude
+   * without a barometer. GPS corrections to the fused value are left out so
+   * they don't show up as climb or descent.
+   */
+  private updateVerticalSpeed(altitude: number, timestamp: number): void {
+    const dt = (timestamp - this.lastRateTimestamp) / 1000;
+
+    if (this.lastRateAltitude !== null && this.lastRateTimestamp > 0 && dt > 0) {
+      const rate = (altitude - this.lastRateAltitude) / dt;
+      const alpha = dt / (this.VERTICAL_SPEED_TIME_CONSTANT + dt);
+      this.verticalSpeed = this.verticalSpeed === null ? rate : this.verticalSpeed + alpha * (rate - this.verticalSpeed);
+    }
+
+    this.lastRateAltitude = altitude;
+    this.lastRateTimestamp = timestamp;
+  }
+
+  private notifyListeners(): void {
+    const data = this.getAltitudeData();
+    this.listeners.forEach(listener => listener(data));
+  }
+}
@@ -0,0 +1,128 @@
+import * as FileSystem from 'expo-file-system';
+import { Vector3, ZERO_OFFSET } from '../utils/compassCalibration';
+
+/**
+ * Which north the compass and speedometer heading is measured from
+ */
+export type HeadingReference = 'magnetic' | 'true' | 'grid';
+
+export const HEADING_REFERENCES: HeadingReference[] = ['true', 'magnetic', 'grid'];
+
+interface StoredCompassSettings {
+  headingReference: HeadingReference;
+  hardIronOffset?: Vector3;
+}
+
+const DEFAULT_HEADING_REFERENCE: HeadingReference = 'true'; // Matches GPS course and maps
+
+/**
+ * Persisted compass display settings and magnetometer calibration
+ */
+export class CompassSettingsService {
+  private static instance: CompassSettingsService;
+  private headingReference: HeadingReference = DEFAULT_HEADING_REFERENCE;
+  private hardIronOffset: Vector3 = ZERO_OFFSET;
+  private listeners: ((reference: HeadingReference) => void)[] = [];
+  private calibrationListeners: ((offset: Vector3) => void)[] = [];
+  private loaded: boolean = false;
+  private readonly storagePath = `${FileSystem.documentDirectory}compass-settings.json`;
+
+  static getInstance(): CompassSettingsService {
+    if (!CompassSettingsService.instance) {
+      CompassSettingsService.instance = new CompassSettingsService();
+    }
+    return CompassSettingsService.instance;
+  }
+
+  /**
+   * Load the persisted settings. Safe to call more than once.
+   */
+  async initialize(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    try {
+      const info = await FileSystem.getInfoAsync(this.storagePath);
+      if (!info.exists) return;
+
+      const stored: StoredCompassSettings = JSON.parse(await FileSystem.readAsStringAsync(this.storagePath));
+      if (HEADING_REFERENCES.includes(stored.headingReference)) {
+        this.headingReference = stored.headingReference;
+        this.notifyListeners();
+      }
+      if (stored.hardIronOffset) {
+        this.hardIronOffset = stored.hardIronOffset;
+        this.notifyCalibrationListeners();
+      }
+    } catch (error) {
+      console.error('Error loading compass settings:', error);
+    }
+  }
+
+  getHeadingReference(): HeadingReference {
+    return this.headingReference;
+  }
+
+  async setHeadingReference(reference: HeadingReference): Promise<void> {
+    if (reference === this.headingReference) return;
+
+    this.headingReference = reference;
+    console.log(`Compass heading reference set to ${reference}`);
+    this.notifyListeners();
+    await this.persist();
+  }
+
+  addHeadingReferenceListener(callback: (reference: HeadingReference) => void): void {
+    this.listeners.push(callback);
+  }
+
+  removeHeadingReferenceListener(callback: (reference: HeadingReference) => void): void {
+    this.listeners = this.listeners.filter(listener => listener !== callback);
+  }
+
+  /**
+   * Hard-iron offset in µT, subtracted from raw magnetometer readings
+   */
+  getHardIronOffset(): Vector3 {
+    return this.hardIronOffset;
+  }
+
+  async setHardIronOffset(offset: Vector3): Promise<void> {
+    this.hardIronOffset = offset;
+    console.log(`Compass hard-iron offset set to ${offset.x.toFixed(1)}, ${offset.y.toFixed(1)}, ${offset.z.toFixed(1)} µT`);
+    this.notifyCalibrationListeners();
+    await this.persist();
+  }
+
+  async resetCalibration(): Promise<void> {
+    await this.setHardIronOffset(ZERO_OFFSET);
+  }
+
+  addCalibrationListener(callback: (offset: Vector3) => void): void {
+    this.calibrationListeners.push(callback);
+  }
+
+  removeCalibrationListener(callback: (offset: Vector3) => void): void {
+    this.calibrationListeners = this.calibrationListeners.filter(listener => listener !== callback);
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener(this.headingReference));
+  }
+
+  private notifyCalibrationListeners(): void {
+    this.calibrationListeners.forEach(listener => listener(this.hardIronOffset));
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      const stored: StoredCompassSettings = {
+        headingReference: this.headingReference,
+        hardIronOffset: this.hardIronOffset,
+      };
+      await FileSystem.writeAsStringAsync(this.storagePath, JSON.stringify(stored));
+    } catch (error) {
+      console.error('Error saving compass settings:', error);
+    }
+  }
+}
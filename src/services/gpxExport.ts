@@ -0,0 +1,109 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Trip, TripPoint } from './tripRecorder';
+
+// Namespace for the per-point extensions GPX 1.1 has no elements for
+export const GPX_EXTENSION_NAMESPACE = 'https://gps-info.app/xmlschemas/TrackPointExtension/v1';
+const GPX_EXTENSION_PREFIX = 'gpsinfo';
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const isoTime = (timestamp: number): string => new Date(timestamp).toISOString();
+
+const extensionElement = (name: string, value: string, attributes: { [key: string]: string | undefined } = {}): string => {
+  const attributeText = Object.entries(attributes)
+    .filter(([, attributeValue]) => attributeValue !== undefined)
+    .map(([key, attributeValue]) => ` ${key}="${escapeXml(attributeValue!)}"`)
+    .join('');
+  return `<${GPX_EXTENSION_PREFIX}:${name}${attributeText}>${escapeXml(value)}</${GPX_EXTENSION_PREFIX}:${name}>`;
+};
+
+/**
+ * One trkpt: elevation and time as standard GPX, accuracy (m), speed (m/s) and
+ * the matched speed limit (km/h, with road and source) as namespaced extensions
+ */
+const trackPointToGpx = (point: TripPoint): string => {
+  const lines = [`      <trkpt lat="${point.latitude.toFixed(7)}" lon="${point.longitude.toFixed(7)}">`];
+
+  if (point.altitude !== null) {
+    lines.push(`        <ele>${point.altitude.toFixed(1)}</ele>`);
+  }
+  lines.push(`        <time>${isoTime(point.timestamp)}</time>`);
+
+  const extensions: string[] = [];
+  if (point.accuracy !== null) {
+    extensions.push(extensionElement('accuracy', point.accuracy.toFixed(1)));
+  }
+  if (point.speed !== null) {
+    extensions.push(extensionElement('speed', point.speed.toFixed(2)));
+  }
+  if (point.speedLimit !== null) {
+    extensions.push(extensionElement('speedLimit', String(point.speedLimit), {
+      unit: 'km/h',
+      road: point.road || undefined,
+      source: point.speedLimitSource,
+    }));
+  }
+
+  if (extensions.length > 0) {
+    lines.push('        <extensions>');
+    extensions.forEach(extension => lines.push(`          ${extension}`));
+    lines.push('        </extensions>');
+  }
+
+  lines.push('      </trkpt>');
+  return lines.join('\n');
+};
+
+/**
+ * Serialize a trip as a GPX 1.1 document with a single track segment
+ */
+export const tripToGpx = (trip: Trip): string => {
+  const name = escapeXml(trip.name);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="GPS Info"',
+    '  xmlns="http://www.topografix.com/GPX/1/1"',
+    `  xmlns:${GPX_EXTENSION_PREFIX}="${GPX_EXTENSION_NAMESPACE}"`,
+    '  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '  xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">',
+    '  <metadata>',
+    `    <name>${name}</name>`,
+    `    <time>${isoTime(trip.startTime)}</time>`,
+    '  </metadata>',
+    '  <trk>',
+    `    <name>${name}</name>`,
+    '    <trkseg>',
+    ...trip.points.map(trackPointToGpx),
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Write the trip as a .gpx file to the cache directory and open the system share sheet
+ */
+export const shareTripAsGpx = async (trip: Trip): Promise<void> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const fileName = `${trip.name.replace(/[^a-zA-Z0-9_-]+/g, '_').replace(/^_+|_+$/g, '') || trip.id}.gpx`;
+  const path = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(path, tripToGpx(trip));
+
+  await Sharing.shareAsync(path, {
+    mimeType: 'application/gpx+xml',
+    dialogTitle: `Share ${trip.name}`,
+    UTI: 'com.topografix.gpx',
+  });
+};
@@ -1,5 +1,8 @@
 import { LocationData } from './locationService';
 import { SpeedLimitData } from './speedLimitService';
+import { SpeedLimitProvider, SpeedLimitQueryContext } from './speedLimitProvider';
+import { VehicleProfile } from './vehicleProfileService';
+import { RoadClass, getDefaultSpeedLimit, normalizeCountryCode } from './speedLimitDefaults';
 
 export interface HereSpeedLimitConfig {
   apiKey: string;
@@ -7,7 +10,9 @@ export interface HereSpeedLimitConfig {
   maxRetries: number;
 }
 
-export class HereSpeedLimitService {
+export class HereSpeedLimitService implements SpeedLimitProvider {
+  readonly id = 'here';
+  readonly name = 'HERE';
   private static instance: HereSpeedLimitService;
   private config: HereSpeedLimitConfig;
   private requestCount: number = 0;
@@ -35,10 +40,17 @@ export class HereSpeedLimitService {
     return HereSpeedLimitService.instance;
   }
 
+  /**
+   * Switch to a different API key, e.g. after it is changed in Settings
+   */
+  setApiKey(apiKey: string): void {
+    this.config = { ...this.config, apiKey };
+  }
+
   /**
    * Get speed limit using HERE Routing API (more reliable than Fleet API)
    */
-  async getSpeedLimit(location: LocationData): Promise<SpeedLimitData | null> {
+  async getSpeedLimit(location: LocationData, context?: SpeedLimitQueryContext): Promise<SpeedLimitData | null> {
     try {
       // Check rate limits
       if (!this.checkRateLimit()) {
@@ -48,7 +60,7 @@ export class HereSpeedLimitService {
       const { latitude, longitude } = location;
       
       // Use basic routing API instead of Fleet API (more reliable)
-      const speedLimitData = await this.getSpeedLimitFromRouting(latitude, longitude);
+      const speedLimitData = await this.getSpeedLimitFromRouting(latitude, longitude, context?.vehicle);
       
       if (speedLimitData) {
         this.incrementRequestCount();
@@ -65,7 +77,7 @@ export class HereSpeedLimitService {
   /**
    * Get speed limit using basic HERE Routing API (works with free tier)
    */
-  private async getSpeedLimitFromRouting(lat: number, lon: number): Promise<SpeedLimitData | null> {
+  private async getSpeedLimitFromRouting(lat: number, lon: number, vehicle?: VehicleProfile): Promise<SpeedLimitData | null> {
     try {
       // Create a very small route to get road information
       const offset = 0.001; // ~100 meter offset
@@ -74,28 +86,29 @@ export class HereSpeedLimitService {
       const endLat = lat + offset;
       const endLon = lon + offset;
 
-      const url = `https://router.hereapi.com/v8/routes?transportMode=car&origin=${startLat},${startLon}&destination=${endLat},${endLon}&return=summary,polyline&apiKey=${this.config.apiKey}`;
+      const url = `https://router.hereapi.com/v8/routes?${this.vehicleParams(vehicle)}&origin=${startLat},${startLon}&destination=${endLat},${endLon}&return=summary,polyline&apiKey=${this.config.apiKey}`;
       
       const response = await this.makeRequest(url, 'routing');
       
       if (response.routes && response.routes.length > 0) {
         // For now, we can't get speed limits from basic routing API
-        // But we can get road information and apply Serbian defaults
+        // But we can get road information and apply country defaults
         const route = response.routes[0];
         
         // Get road info via geocoding for more details
         const roadInfo = await this.reverseGeocode(lat, lon);
         
         if (roadInfo && roadInfo.roadName) {
-          // Apply Serbian speed limit defaults based on road type
-          const speedLimit = this.getDefaultSpeedLimit(roadInfo.roadName);
+          const estimate = getDefaultSpeedLimit(roadInfo.countryCode, this.estimateRoadClass(roadInfo.roadName));
           
           return {
-            speedLimit,
-            unit: 'km/h',
+            speedLimit: estimate.speedLimit,
+            nativeSpeedLimit: estimate.nativeSpeedLimit,
+            unit: estimate.unit,
             road: roadInfo.roadName,
-            accuracy: 'medium', // Default values, not exact speed limits
-            timestamp: Date.now()
+            accuracy: 'low', // Default values, not exact speed limits
+            timestamp: Date.now(),
+            source: 'default'
           };
         }
       }
@@ -108,31 +121,52 @@ export class HereSpeedLimitService {
   }
 
   /**
-   * Get default Serbian speed limits based on road type
+   * HERE routing parameters for the vehicle: transportMode plus weight and trailers for trucks
+   */
+  private vehicleParams(vehicle?: VehicleProfile): string {
+    if (!vehicle) return 'transportMode=car';
+
+    switch (vehicle.type) {
+      case 'truck': {
+        const params = ['transportMode=truck'];
+        if (vehicle.maxWeight !== null) {
+          params.push(`vehicle[grossWeight]=${Math.round(vehicle.maxWeight * 1000)}`); // kg
+        }
+        if (vehicle.trailer) {
+          params.push('vehicle[trailerCount]=1');
+        }
+        return params.join('&');
+      }
+      case 'bus':
+        return 'transportMode=bus';
+      default:
+        // HERE has no motorcycle or van mode; they follow car rules
+        return 'transportMode=car';
+    }
+  }
+
+  /**
+   * Rough road class from the road name, for the country defaults table.
+   * Refs must be a letter followed by digits, so ordinary street names stay urban/rural.
    */
-  private getDefaultSpeedLimit(roadName: string): number {
+  private estimateRoadClass(roadName: string): RoadClass {
     const name = roadName.toLowerCase();
-    
-    // Highway patterns
-    if (name.includes('a1') || name.includes('a2') || name.includes('a3') || 
-        name.includes('автопут') || name.includes('autoput')) {
-      return 130; // Motorways
+
+    // Motorway refs (A1, Latin or Cyrillic A) and the local words for motorway
+    if (/(^|[\s(])[aа]\d{1,3}\b/.test(name) || /autoput|автопут|autocesta|avtocesta|autobahn|motorway/.test(name)) {
+      return 'motorway';
     }
-    
-    // Trunk roads
-    if (name.includes('е70') || name.includes('е75') || name.includes('м') ||
-        name.includes('магистрал') || name.includes('magistral')) {
-      return 100; // Trunk roads
+
+    // E-roads and old M-road "magistrala" refs, Latin or Cyrillic
+    if (/(^|[\s(])[eеmм]-?\d{1,3}\b/.test(name) || /магистрал|magistral/.test(name)) {
+      return 'trunk';
     }
-    
-    // Urban areas (detect by Cyrillic city indicators)
-    if (name.includes('булевар') || name.includes('улица') || name.includes('трг') ||
-        name.includes('bulevar') || name.includes('ulica') || name.includes('trg')) {
-      return 50; // Urban roads
+
+    if (/булевар|улица|трг|bulevar|ulica|trg|straße|strasse|street|avenue/.test(name)) {
+      return 'urban';
     }
-    
-    // Default rural roads
-    return 80;
+
+    return 'rural';
   }
 
   /**
@@ -170,7 +204,7 @@ export class HereSpeedLimitService {
   /**
    * Reverse geocode using HERE API to get road information
    */
-  private async reverseGeocode(lat: number, lon: number): Promise<{ roadName?: string; city?: string } | null> {
+  private async reverseGeocode(lat: number, lon: number): Promise<{ roadName?: string; city?: string; countryCode?: string } | null> {
     try {
       const url = `https://revgeocode.search.hereapi.com/v1/revgeocode?at=${lat},${lon}&apiKey=${this.config.apiKey}`;
       
@@ -180,7 +214,9 @@ export class HereSpeedLimitService {
         const item = response.items[0];
         return {
           roadName: item.address?.street || item.title,
-          city: item.address?.city
+          city: item.address?.city,
+          // HERE returns ISO alpha-3 codes
+          countryCode: normalizeCountryCode(item.address?.countryCode) || undefined
         };
       }
       
@@ -0,0 +1,237 @@
+import { LocationData } from './locationService';
+import { EARTH_RADIUS_METERS, toDegrees, toRadians } from '../utils/geo';
+
+export interface LocationFilterConfig {
+  enabled: boolean;
+  processNoise: number; // Acceleration noise density (m/s²)² per second - higher follows manoeuvres faster
+  maxAcceleration: number; // m/s², fixes implying more than this are rejected
+  maxConsecutiveRejections: number; // After this many, assume the filter is lost and restart from the fix
+  resetAfterGap: number; // ms without fixes after which the filter restarts
+}
+
+export const DEFAULT_LOCATION_FILTER_CONFIG: LocationFilterConfig = {
+  enabled: true,
+  processNoise: 2,
+  maxAcceleration: 10, // About 1 g, beyond what a road vehicle can brake or accelerate
+  maxConsecutiveRejections: 5,
+  resetAfterGap: 30000,
+};
+
+const DEFAULT_ACCURACY = 20; // m, assumed when the platform reports none
+const SPEED_NOISE = 0.5; // m/s, standard deviation of Doppler speed
+const SPEED_JUMP_MARGIN = 2; // m/s tolerated on top of maxAcceleration for reported speed jumps
+
+/**
+ * Position and velocity along one local axis with its 2x2 covariance
+ */
+interface AxisState {
+  position: number;
+  velocity: number;
+  pp: number;
+  pv: number;
+  vv: number;
+}
+
+const createAxis = (position: number, variance: number): AxisState => ({
+  position,
+  velocity: 0,
+  pp: variance,
+  pv: 0,
+  vv: 100, // Unknown velocity, (10 m/s)²
+});
+
+const predictAxis = (axis: AxisState, dt: number, q: number): void => {
+  axis.position += axis.velocity * dt;
+  // P = F P Fᵀ + Q for F = [[1, dt], [0, 1]] and white-noise acceleration
+  axis.pp += dt * (2 * axis.pv + dt * axis.vv) + (q * dt * dt * dt) / 3;
+  axis.pv += dt * axis.vv + (q * dt * dt) / 2;
+  axis.vv += q * dt;
+};
+
+const updateAxisPosition = (axis: AxisState, measurement: number, variance: number): void => {
+  const s = axis.pp + variance;
+  const kp = axis.pp / s;
+  const kv = axis.pv / s;
+  const innovation = measurement - axis.position;
+
+  axis.position += kp * innovation;
+  axis.velocity += kv * innovation;
+  axis.vv -= kv * axis.pv;
+  axis.pv -= kv * axis.pp;
+  axis.pp -= kp * axis.pp;
+};
+
+const updateAxisVelocity = (axis: AxisState, measurement: number, variance: number): void => {
+  const s = axis.vv + variance;
+  const kp = axis.pv / s;
+  const kv = axis.vv / s;
+  const innovation = measurement - axis.velocity;
+
+  axis.position += kp * innovation;
+  axis.velocity += kv * innovation;
+  axis.pp -= kp * axis.pv;
+  axis.pv -= kp * axis.vv;
+  axis.vv -= kv * axis.vv;
+};
+
+/**
+ * Constant-velocity Kalman filter over GPS fixes in a local east/north plane.
+ * Position updates are weighted by the reported accuracy; reported speed and
+ * course, when present, also update the velocity. Fixes that would require an
+ * impossible acceleration are rejected instead of being smoothed in.
+ */
+export class LocationFilter {
+  private config: LocationFilterConfig;
+  private east: AxisState | null = null;
+  private north: AxisState | null = null;
+  private originLatitude: number = 0;
+  private originLongitude: number = 0;
+  private lastTimestamp: number = 0;
+  private consecutiveRejections: number = 0;
+  private rejectedCount: number = 0;
+
+  constructor(config: Partial<LocationFilterConfig> = {}) {
+    this.config = { ...DEFAULT_LOCATION_FILTER_CONFIG, ...config };
+  }
+
+  setConfig(config: Partial<LocationFilterConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.reset();
+  }
+
+  getConfig(): LocationFilterConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Forget the current state; the next fix starts a new track
+   */
+  reset(): void {
+    this.east = null;
+    this.north = null;
+    this.consecutiveRejections = 0;
+  }
+
+  /**
+   * Total number of fixes rejected as outliers since the filter was created
+   */
+  getRejectedCount(): number {
+    return this.rejectedCount;
+  }
+
+  /**
+   * Feed a raw fix. Returns the smoothed fix, or null if the fix was rejected.
+   */
+  process(location: LocationData): LocationData | null {
+    if (!this.config.enabled) {
+      return location;
+    }
+
+    const dt = (location.timestamp - this.lastTimestamp) / 1000;
+    if (!this.east || !this.north || dt <= 0 || dt * 1000 > this.config.resetAfterGap) {
+      return this.start(location);
+    }
+
+    const accuracy = location.accuracy ?? DEFAULT_ACCURACY;
+    const { x, y } = this.project(location.latitude, location.longitude);
+    predictAxis(this.east, dt, this.config.processNoise);
+    predictAxis(this.north, dt, this.config.processNoise);
+
+    if (this.isOutlier(location, x, y, accuracy, dt)) {
+      this.rejectedCount++;
+      this.consecutiveRejections++;
+      if (this.consecutiveRejections >= this.config.maxConsecutiveRejections) {
+        console.log(`Location filter: ${this.consecutiveRejections} fixes rejected in a row, restarting`);
+        return this.start(location);
+      }
+
+      // Keep the prediction so the next fix is compared against where we should be by then
+      this.lastTimestamp = location.timestamp;
+      console.log(`Location filter: rejected outlier fix (accuracy ${Math.round(accuracy)} m)`);
+      return null;
+    }
+
+    this.consecutiveRejections = 0;
+    this.lastTimestamp = location.timestamp;
+
+    const variance = accuracy * accuracy;
+    updateAxisPosition(this.east, x, variance);
+    updateAxisPosition(this.north, y, variance);
+
+    if (location.speed !== null && location.course !== null && location.course !== undefined) {
+      const course = toRadians(location.course);
+      const speedVariance = SPEED_NOISE * SPEED_NOISE;
+      updateAxisVelocity(this.east, location.speed * Math.sin(course), speedVariance);
+      updateAxisVelocity(this.north, location.speed * Math.cos(course), speedVariance);
+    }
+
+    return this.toLocationData(location);
+  }
+
+  private start(location: LocationData): LocationData {
+    const accuracy = location.accuracy ?? DEFAULT_ACCURACY;
+    this.originLatitude = location.latitude;
+    this.originLongitude = location.longitude;
+    this.east = createAxis(0, accuracy * accuracy);
+    this.north = createAxis(0, accuracy * accuracy);
+
+    if (location.speed !== null && location.course !== null && location.course !== undefined) {
+      const course = toRadians(location.course);
+      this.east.velocity = location.speed * Math.sin(course);
+      this.north.velocity = location.speed * Math.cos(course);
+      this.east.vv = SPEED_NOISE * SPEED_NOISE;
+      this.north.vv = SPEED_NOISE * SPEED_NOISE;
+    }
+
+    this.lastTimestamp = location.timestamp;
+    this.consecutiveRejections = 0;
+    return location;
+  }
+
+  /**
+   * A fix is an outlier when reaching it from the predicted state, or changing
+   * to its reported speed, would take more than maxAcceleration. Distance
+   * within the combined uncertainty of prediction and fix is never counted.
+   */
+  private isOutlier(location: LocationData, x: number, y: number, accuracy: number, dt: number): boolean {
+    const east = this.east!;
+    const north = this.north!;
+
+    const deviation = Math.hypot(x - east.position, y - north.position);
+    const margin = 2 * (accuracy + Math.sqrt(Math.max(east.pp, north.pp)));
+    const impliedAcceleration = (2 * Math.max(0, deviation - margin)) / (dt * dt);
+    if (impliedAcceleration > this.config.maxAcceleration) {
+      return true;
+    }
+
+    if (location.speed !== null) {
+      const speedChange = Math.abs(location.speed - Math.hypot(east.velocity, north.velocity));
+      if (speedChange > this.config.maxAcceleration * dt + SPEED_JUMP_MARGIN + 2 * Math.sqrt(Math.max(east.vv, north.vv))) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private project(latitude: number, longitude: number): { x: number; y: number } {
+    return {
+      x: toRadians(longitude - this.originLongitude) * Math.cos(toRadians(this.originLatitude)) * EARTH_RADIUS_METERS,
+      y: toRadians(latitude - this.originLatitude) * EARTH_RADIUS_METERS,
+    };
+  }
+
+  private toLocationData(raw: LocationData): LocationData {
+    const east = this.east!;
+    const north = this.north!;
+
+    return {
+      ...raw,
+      latitude: this.originLatitude + toDegrees(north.position / EARTH_RADIUS_METERS),
+      longitude: this.originLongitude + toDegrees(east.position / (EARTH_RADIUS_METERS * Math.cos(toRadians(this.originLatitude)))),
+      // Only smooth speed the platform measured; deriving missing speed is a separate concern
+      speed: raw.speed !== null ? Math.hypot(east.velocity, north.velocity) : null,
+      accuracy: Math.sqrt(Math.max(east.pp, north.pp)),
+    };
+  }
+}
@@ -1,12 +1,36 @@
 import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import { AppState, AppStateStatus, NativeEventSubscription, Platform } from 'react-native';
+import { LocationFilter, LocationFilterConfig } from './locationFilter';
+import { SpeedEstimator, SpeedSource } from './speedEstimator';
+import { Preferences, PreferencesService, TrackingPreferences } from './preferencesService';
+import { ellipsoidToMsl, mslToEllipsoid } from '../utils/geoid';
+
+export const BACKGROUND_LOCATION_TASK = 'gps-info-background-location';
+
+/**
+ * What `LocationData.altitude` is measured from: the WGS84 ellipsoid (Android)
+ * or mean sea level (iOS, imported tracks)
+ */
+export type AltitudeReference = 'ellipsoid' | 'msl';
+
+/**
+ * 'stopped' until tracking is first started, and again after stopTracking()
+ */
+export type TrackingState = 'tracking' | 'paused' | 'stopped';
 
 export interface LocationData {
   latitude: number;
   longitude: number;
-  altitude: number | null;
+  altitude: number | null; // As reported by the source, see altitudeReference
+  altitudeReference?: AltitudeReference;
+  altitudeMsl?: number | null; // Above mean sea level (EGM96 geoid)
+  ellipsoidalAltitude?: number | null; // Above the WGS84 ellipsoid
   speed: number | null;
   accuracy: number | null;
   timestamp: number;
+  course?: number | null; // Direction of travel in degrees from true north, when moving
+  speedSource?: SpeedSource; // Set on delivered fixes; absent when speed is null
 }
 
 export interface PlaceInfo {
@@ -14,14 +38,40 @@ export interface PlaceInfo {
   street?: string;
   region?: string;
   country?: string;
+  countryCode?: string; // ISO 3166-1 alpha-2
   formattedAddress?: string;
 }
 
 export class LocationService {
   private static instance: LocationService;
   private currentLocation: LocationData | null = null;
+  private currentRawLocation: LocationData | null = null;
   private locationSubscription: Location.LocationSubscription | null = null;
   private listeners: ((location: LocationData) => void)[] = [];
+  private rawListeners: ((location: LocationData) => void)[] = [];
+  private backgroundListeners: ((location: LocationData) => void)[] = [];
+  private pendingBackgroundLocations: LocationData[] = [];
+  private lastNotifiedTimestamp: number = 0;
+  private lastRawTimestamp: number = 0;
+  private lastBackgroundNotifiedTimestamp: number = 0;
+  private appState: AppStateStatus = AppState.currentState;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private isPaused: boolean = false;
+  private isStopped: boolean = true;
+  private resumeWithBackground: boolean = false;
+  private trackingStateListeners: ((state: TrackingState) => void)[] = [];
+  private lastPlaceInfo: PlaceInfo | null = null;
+  private simulationActive: boolean = false;
+  private filter: LocationFilter = new LocationFilter();
+  private speedEstimator: SpeedEstimator = new SpeedEstimator();
+  private trackingPreferences: TrackingPreferences;
+
+  constructor() {
+    const preferencesService = PreferencesService.getInstance();
+    this.trackingPreferences = preferencesService.get('tracking');
+    this.filter.setConfig(preferencesService.get('locationFilter'));
+    preferencesService.addPreferencesListener(preferences => this.applyPreferences(preferences));
+  }
 
   static getInstance(): LocationService {
     if (!LocationService.instance) {
@@ -54,6 +104,37 @@ export class LocationService {
     }
   }
 
+  /**
+   * Request "Allow all the time" access on top of the foreground permission
+   */
+  async requestBackgroundPermissions(): Promise<boolean> {
+    try {
+      const hasForeground = await this.requestPermissions();
+      if (!hasForeground) {
+        return false;
+      }
+
+      const { status: existingStatus } = await Location.getBackgroundPermissionsAsync();
+      if (existingStatus === 'granted') {
+        console.log('Background location permission already granted');
+        return true;
+      }
+
+      // On Android 11+ this sends the user to the system settings page
+      const { status: backgroundStatus } = await Location.requestBackgroundPermissionsAsync();
+      if (backgroundStatus !== 'granted') {
+        console.error('Background location permission not granted:', backgroundStatus);
+        return false;
+      }
+
+      console.log('Background location permission granted');
+      return true;
+    } catch (error) {
+      console.error('Error requesting background permissions:', error);
+      return false;
+    }
+  }
+
   async startLocationTracking(): Promise<void> {
     try {
       const hasPermissions = await this.requestPermissions();
@@ -68,8 +149,8 @@ export class LocationService {
         this.locationSubscription = await Location.watchPositionAsync(
           {
             accuracy: Location.Accuracy.Highest,
-            timeInterval: 1000, // Update every 1 second
-            distanceInterval: 1, // Update every meter
+            timeInterval: this.trackingPreferences.timeInterval,
+            distanceInterval: this.trackingPreferences.distanceInterval,
           },
           (location) => {
             console.log('Location update received:', {
@@ -78,17 +159,7 @@ export class LocationService {
               accuracy: location.coords.accuracy
             });
 
-            const locationData: LocationData = {
-              latitude: location.coords.latitude,
-              longitude: location.coords.longitude,
-              altitude: location.coords.altitude,
-              speed: location.coords.speed,
-              accuracy: location.coords.accuracy,
-              timestamp: location.timestamp,
-            };
-
-            this.currentLocation = locationData;
-            this.notifyListeners(locationData);
+            this.handleDeviceLocation(location);
           }
         );
       } catch (watchError) {
@@ -98,26 +169,21 @@ export class LocationService {
         this.locationSubscription = await Location.watchPositionAsync(
           {
             accuracy: Location.Accuracy.Balanced,
-            timeInterval: 1000,
-            distanceInterval: 5,
+            timeInterval: this.trackingPreferences.timeInterval,
+            distanceInterval: Math.max(this.trackingPreferences.distanceInterval, 5),
           },
           (location) => {
-            const locationData: LocationData = {
-              latitude: location.coords.latitude,
-              longitude: location.coords.longitude,
-              altitude: location.coords.altitude,
-              speed: location.coords.speed,
-              accuracy: location.coords.accuracy,
-              timestamp: location.timestamp,
-            };
-
-            this.currentLocation = locationData;
-            this.notifyListeners(locationData);
+            this.handleDeviceLocation(location);
           }
         );
       }
 
       console.log('Location tracking started successfully');
+
+      if (this.isStopped) {
+        this.isStopped = false;
+        this.notifyTrackingStateListeners();
+      }
     } catch (error) {
       console.error('Error starting location tracking:', error);
       throw error;
@@ -137,6 +203,183 @@ export class LocationService {
     }
   }
 
+  /**
+   * Start background updates through the TaskManager task. Android keeps them
+   * alive with a foreground-service notification while the screen is off.
+   */
+  async startBackgroundTracking(): Promise<boolean> {
+    try {
+      const isAvailable = await Location.isBackgroundLocationAvailableAsync();
+      if (!isAvailable) {
+        console.log('Background location is not available (Expo Go or unsupported platform)');
+        return false;
+      }
+
+      const hasPermissions = await this.requestBackgroundPermissions();
+      if (!hasPermissions) {
+        return false;
+      }
+
+      this.subscribeToAppState();
+
+      const alreadyStarted = await Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+      if (alreadyStarted) {
+        console.log('Background location tracking already running');
+        return true;
+      }
+
+      await Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK, {
+        accuracy: Location.Accuracy.Highest,
+        timeInterval: this.trackingPreferences.backgroundTimeInterval,
+        distanceInterval: this.trackingPreferences.backgroundDistanceInterval,
+        activityType: Location.ActivityType.AutomotiveNavigation,
+        pausesUpdatesAutomatically: false,
+        showsBackgroundLocationIndicator: true,
+        foregroundService: {
+          notificationTitle: 'GPS Info',
+          notificationBody: 'Tracking your location in the background',
+          notificationColor: '#2c3e50',
+          killServiceOnDestroy: false,
+        },
+      });
+
+      console.log('Background location tracking started');
+      return true;
+    } catch (error) {
+      console.error('Error starting background location tracking:', error);
+      return false;
+    }
+  }
+
+  async stopBackgroundTracking(): Promise<void> {
+    try {
+      const isStarted = await Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+      if (isStarted) {
+        await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+      }
+
+      this.flushPendingBackgroundLocations();
+      console.log('Background location tracking stopped');
+    } catch (error) {
+      console.error('Error stopping background location tracking:', error);
+    }
+  }
+
+  async isBackgroundTrackingActive(): Promise<boolean> {
+    try {
+      return await Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Entry point for fixes delivered by the background task. While the app is
+   * not active they are queued and replayed to listeners on return to the foreground.
+   */
+  handleBackgroundLocations(locations: Location.LocationObject[]): void {
+    if (this.simulationActive) return;
+
+    const fixes = locations
+      .map(location => LocationService.toLocationData(location))
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    if (fixes.length === 0) return;
+
+    if (this.appState === 'active') {
+      fixes.forEach(fix => this.handleLocationUpdate(fix));
+      return;
+    }
+
+    // Filter on arrival so background listeners and the later replay see the same fixes
+    const filtered = fixes
+      .map(fix => this.processRawLocation(fix))
+      .filter((fix): fix is LocationData => fix !== null);
+    if (filtered.length === 0) return;
+
+    filtered.forEach(fix => this.notifyBackgroundListeners(fix));
+    this.currentLocation = filtered[filtered.length - 1];
+    this.pendingBackgroundLocations.push(...filtered);
+    console.log(`Queued ${filtered.length} background location(s), ${this.pendingBackgroundLocations.length} pending`);
+  }
+
+  getPendingBackgroundLocationCount(): number {
+    return this.pendingBackgroundLocations.length;
+  }
+
+  /**
+   * Suspend foreground and background updates without dropping listeners
+   */
+  async pauseTracking(): Promise<void> {
+    if (this.isPaused || this.isStopped) return;
+
+    this.resumeWithBackground = await this.isBackgroundTrackingActive();
+    await this.stopLocationTracking();
+    if (this.resumeWithBackground) {
+      await this.stopBackgroundTracking();
+    }
+
+    this.isPaused = true;
+    this.notifyTrackingStateListeners();
+    console.log('Location tracking paused');
+  }
+
+  async resumeTracking(): Promise<void> {
+    if (!this.isPaused) return;
+
+    await this.startLocationTracking();
+    if (this.resumeWithBackground) {
+      await this.startBackgroundTracking();
+    }
+
+    this.isPaused = false;
+    this.notifyTrackingStateListeners();
+    console.log('Location tracking resumed');
+  }
+
+  /**
+   * Stop foreground and background updates until startLocationTracking() is
+   * called again
+   */
+  async stopTracking(): Promise<void> {
+    if (this.isStopped) return;
+
+    await this.stopLocationTracking();
+    await this.stopBackgroundTracking();
+
+    this.isPaused = false;
+    this.resumeWithBackground = false;
+    this.isStopped = true;
+    this.notifyTrackingStateListeners();
+    console.log('Location tracking stopped by the user');
+  }
+
+  isTrackingPaused(): boolean {
+    return this.isPaused;
+  }
+
+  getTrackingState(): TrackingState {
+    if (this.isStopped) return 'stopped';
+    return this.isPaused ? 'paused' : 'tracking';
+  }
+
+  addTrackingStateListener(listener: (state: TrackingState) => void): void {
+    this.trackingStateListeners.push(listener);
+  }
+
+  removeTrackingStateListener(listener: (state: TrackingState) => void): void {
+    const index = this.trackingStateListeners.indexOf(listener);
+    if (index > -1) {
+      this.trackingStateListeners.splice(index, 1);
+    }
+  }
+
+  private notifyTrackingStateListeners(): void {
+    const state = this.getTrackingState();
+    // Copied, since a listener may remove itself (the notification does on stop)
+    [...this.trackingStateListeners].forEach(listener => listener(state));
+  }
+
   addLocationListener(listener: (location: LocationData) => void): void {
     this.listeners.push(listener);
   }
@@ -148,14 +391,255 @@ export class LocationService {
     }
   }
 
+  /**
+   * Raw listeners receive every fix exactly as the platform reported it, before
+   * smoothing and outlier rejection. Regular location listeners get the filtered stream.
+   */
+  addRawLocationListener(listener: (location: LocationData) => void): void {
+    this.rawListeners.push(listener);
+  }
+
+  removeRawLocationListener(listener: (location: LocationData) => void): void {
+    const index = this.rawListeners.indexOf(listener);
+    if (index > -1) {
+      this.rawListeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Background listeners receive every fix as it arrives, including while the
+   * app is not active, instead of waiting for the foreground replay
+   */
+  addBackgroundLocationListener(listener: (location: LocationData) => void): void {
+    this.backgroundListeners.push(listener);
+  }
+
+  removeBackgroundLocationListener(listener: (location: LocationData) => void): void {
+    const index = this.backgroundListeners.indexOf(listener);
+    if (index > -1) {
+      this.backgroundListeners.splice(index, 1);
+    }
+  }
+
   private notifyListeners(location: LocationData): void {
     this.listeners.forEach(listener => listener(location));
   }
 
+  private notifyBackgroundListeners(location: LocationData): void {
+    if (location.timestamp <= this.lastBackgroundNotifiedTimestamp) {
+      return;
+    }
+
+    this.lastBackgroundNotifiedTimestamp = location.timestamp;
+    this.backgroundListeners.forEach(listener => listener(location));
+  }
+
+  /**
+   * Single path for foreground and background fixes. Skips fixes that are not
+   * newer than the last one seen, since both sources can run at once.
+   */
+  private handleLocationUpdate(locationData: LocationData): void {
+    const filtered = this.processRawLocation(locationData);
+    if (filtered) {
+      this.deliverLocation(filtered);
+    }
+  }
+
+  /**
+   * Publish a raw fix to raw listeners, run it through the filter and fill in
+   * speed and course. Returns the smoothed fix, or null for duplicates and rejected outliers.
+   */
+  private processRawLocation(locationData: LocationData): LocationData | null {
+    if (locationData.timestamp <= this.lastRawTimestamp) {
+      return null;
+    }
+
+    const raw = LocationService.withAltitudes(locationData);
+    this.lastRawTimestamp = raw.timestamp;
+    this.currentRawLocation = raw;
+    this.rawListeners.forEach(listener => listener(raw));
+    const filtered = this.filter.process(raw);
+    return filtered ? this.speedEstimator.process(raw, filtered) : null;
+  }
+
+  private deliverLocation(locationData: LocationData): void {
+    // The foreground watch can resume before AppState reports 'active'; queued
+    // background fixes are older than this one and would fail the check below
+    this.flushPendingBackgroundLocations();
+
+    if (locationData.timestamp <= this.lastNotifiedTimestamp) {
+      return;
+    }
+
+    this.lastNotifiedTimestamp = locationData.timestamp;
+    this.currentLocation = locationData;
+    this.notifyListeners(locationData);
+    this.notifyBackgroundListeners(locationData);
+  }
+
+  private handleDeviceLocation(location: Location.LocationObject): void {
+    // A simulated source (track replay) owns the listeners while it runs
+    if (this.simulationActive) return;
+    this.handleLocationUpdate(LocationService.toLocationData(location));
+  }
+
+  /**
+   * Hand the listeners over to a simulated source such as track replay.
+   * Device fixes are ignored until stopSimulation().
+   */
+  startSimulation(): void {
+    this.simulationActive = true;
+    this.pendingBackgroundLocations = [];
+    this.filter.reset();
+    this.speedEstimator.reset();
+    console.log('Location simulation started - device fixes paused');
+  }
+
+  stopSimulation(): void {
+    if (!this.simulationActive) return;
+    this.simulationActive = false;
+    // Simulated timestamps may run ahead of the clock; let device fixes through again
+    this.lastNotifiedTimestamp = 0;
+    this.lastRawTimestamp = 0;
+    this.lastBackgroundNotifiedTimestamp = 0;
+    this.filter.reset();
+    this.speedEstimator.reset();
+    console.log('Location simulation stopped - device fixes resumed');
+  }
+
+  isSimulating(): boolean {
+    return this.simulationActive;
+  }
+
+  /**
+   * Deliver a simulated fix through the same path as device fixes
+   */
+  pushSimulatedLocation(location: LocationData): void {
+    if (!this.simulationActive) return;
+    this.handleLocationUpdate(location);
+  }
+
+  private flushPendingBackgroundLocations(): void {
+    if (this.pendingBackgroundLocations.length === 0) return;
+
+    const pending = this.pendingBackgroundLocations;
+    this.pendingBackgroundLocations = [];
+
+    console.log(`Delivering ${pending.length} background location(s) to listeners`);
+    pending.forEach(fix => this.deliverLocation(fix));
+  }
+
+  /**
+   * Follow changed preferences: restart the filter and any running location
+   * updates whose intervals changed
+   */
+  private async applyPreferences(preferences: Preferences): Promise<void> {
+    if (JSON.stringify(preferences.locationFilter) !== JSON.stringify(this.filter.getConfig())) {
+      this.setFilterConfig(preferences.locationFilter);
+    }
+
+    const previous = this.trackingPreferences;
+    const tracking = preferences.tracking;
+    this.trackingPreferences = tracking;
+
+    try {
+      if (this.locationSubscription &&
+          (tracking.timeInterval !== previous.timeInterval || tracking.distanceInterval !== previous.distanceInterval)) {
+        console.log('Restarting location tracking with new intervals');
+        await this.stopLocationTracking();
+        await this.startLocationTracking();
+      }
+
+      if ((tracking.backgroundTimeInterval !== previous.backgroundTimeInterval ||
+           tracking.backgroundDistanceInterval !== previous.backgroundDistanceInterval) &&
+          await this.isBackgroundTrackingActive()) {
+        console.log('Restarting background location tracking with new intervals');
+        await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+        await this.startBackgroundTracking();
+      }
+    } catch (error) {
+      console.error('Error applying tracking preferences:', error);
+    }
+  }
+
+  private subscribeToAppState(): void {
+    if (this.appStateSubscription) return;
+
+    this.appStateSubscription = AppState.addEventListener('change', (nextAppState) => {
+      this.appState = nextAppState;
+      if (nextAppState === 'active') {
+        this.flushPendingBackgroundLocations();
+      }
+    });
+  }
+
+  /**
+   * Fill in both mean-sea-level and ellipsoidal altitude from whichever one the
+   * source reported. Fixes without a reference (simulated, imported) are taken as MSL.
+   */
+  private static withAltitudes(location: LocationData): LocationData {
+    const altitudeReference = location.altitudeReference ?? 'msl';
+    if (location.altitude === null) {
+      return { ...location, altitudeReference, altitudeMsl: null, ellipsoidalAltitude: null };
+    }
+
+    return {
+      ...location,
+      altitudeReference,
+      altitudeMsl: altitudeReference === 'msl'
+        ? location.altitude
+        : ellipsoidToMsl(location.altitude, location.latitude, location.longitude),
+      ellipsoidalAltitude: altitudeReference === 'ellipsoid'
+        ? location.altitude
+        : mslToEllipsoid(location.altitude, location.latitude, location.longitude),
+    };
+  }
+
+  private static toLocationData(location: Location.LocationObject): LocationData {
+    return {
+      latitude: location.coords.latitude,
+      longitude: location.coords.longitude,
+      altitude: location.coords.altitude,
+      // Core Location reports altitude above sea level, Android above the ellipsoid
+      altitudeReference: Platform.OS === 'ios' ? 'msl' : 'ellipsoid',
+      // iOS reports -1 when it has no Doppler speed
+      speed: location.coords.speed !== null && location.coords.speed >= 0 ? location.coords.speed : null,
+      accuracy: location.coords.accuracy,
+      timestamp: location.timestamp,
+      // Platforms report -1 (or a stale value) when there is no valid course
+      course: location.coords.heading !== null && location.coords.heading >= 0 && (location.coords.speed ?? 0) > 0
+        ? location.coords.heading
+        : null,
+    };
+  }
+
   getCurrentLocation(): LocationData | null {
     return this.currentLocation;
   }
 
+  /**
+   * Latest fix as reported by the platform, which may have been rejected by the filter
+   */
+  getCurrentRawLocation(): LocationData | null {
+    return this.currentRawLocation;
+  }
+
+  /**
+   * Change smoothing and outlier rejection settings. The filter restarts from the next fix.
+   */
+  setFilterConfig(config: Partial<LocationFilterConfig>): void {
+    this.filter.setConfig(config);
+    console.log('Location filter config updated:', this.filter.getConfig());
+  }
+
+  getFilterConfig(): LocationFilterConfig {
+    return this.filter.getConfig();
+  }
+
+  getRejectedFixCount(): number {
+    return this.filter.getRejectedCount();
+  }
+
   async reverseGeocode(latitude: number, longitude: number): Promise<PlaceInfo | null> {
     try {
       const results = await Location.reverseGeocodeAsync({
@@ -165,11 +649,12 @@ export class LocationService {
 
       if (results.length > 0) {
         const result = results[0];
-        return {
+        this.lastPlaceInfo = {
           city: result.city || undefined,
           street: result.street || undefined,
           region: result.region || undefined,
           country: result.country || undefined,
+          countryCode: result.isoCountryCode || undefined,
           formattedAddress: [
             result.street,
             result.city,
@@ -177,6 +662,7 @@ export class LocationService {
             result.country
           ].filter(Boolean).join(', '),
         };
+        return this.lastPlaceInfo;
       }
       return null;
     } catch (error) {
@@ -185,9 +671,32 @@ export class LocationService {
     }
   }
 
+  /**
+   * Most recent successful reverse geocode result, used for country-specific defaults
+   */
+  getLastPlaceInfo(): PlaceInfo | null {
+    return this.lastPlaceInfo;
+  }
+
   // Convert speed from m/s to km/h
   static convertSpeedToKmh(speedMs: number | null): number | null {
     if (speedMs === null) return null;
     return speedMs * 3.6;
   }
 }
+
+// Background task must be defined in the global scope so it is registered
+// before the OS wakes the JS runtime to deliver queued locations
+TaskManager.defineTask<{ locations: Location.LocationObject[] }>(BACKGROUND_LOCATION_TASK, async ({ data, error }) => {
+  if (error) {
+    console.error('Background location task error:', error.message);
+    return;
+  }
+
+  if (data?.locations?.length) {
+    // The OS may start the JS runtime for this task alone, without the UI that
+    // otherwise loads the preferences
+    await PreferencesService.getInstance().initialize();
+    LocationService.getInstance().handleBackgroundLocations(data.locations);
+  }
+});
@@ -0,0 +1,385 @@
+/**
+ * Conditional and vehicle/direction-specific speed limits:
+ *   maxspeed:conditional   30 @ (Mo-Fr 07:00-17:00); 80 @ wet
+ *   maxspeed:wet, maxspeed:hgv, maxspeed:trailer
+ *   maxspeed:forward, maxspeed:backward (and their :conditional variants)
+ * Conditions use the opening_hours subset commonly found on speed limits plus
+ * weather and vehicle terms joined with AND.
+ * See https://wiki.openstreetmap.org/wiki/Conditional_restrictions
+ */
+
+import { ParsedMaxspeed, parseMaxspeed } from './maxspeedParser';
+import { getSunTimes } from '../utils/sun';
+
+export type TravelDirection = 'forward' | 'backward';
+
+/** User-supplied circumstances that decide which conditional limits apply */
+export interface SpeedLimitConditions {
+  wet: boolean; // Wet road surface (rain)
+  trailer: boolean; // Towing a trailer or caravan
+  hgv: boolean; // Heavy goods vehicle
+  weight: number | null; // Vehicle weight in tonnes
+}
+
+export const DEFAULT_SPEED_LIMIT_CONDITIONS: SpeedLimitConditions = {
+  wet: false,
+  trailer: false,
+  hgv: false,
+  weight: null,
+};
+
+export interface ConditionEnvironment {
+  date: Date;
+  latitude: number;
+  longitude: number;
+  conditions: SpeedLimitConditions;
+}
+
+export interface ConditionalMaxspeed {
+  maxspeed: ParsedMaxspeed;
+  condition: string;
+}
+
+export interface ResolvedMaxspeed {
+  maxspeed: ParsedMaxspeed;
+  condition: string | null; // Condition behind the limit in effect, null for the plain limit
+  timeDependent: boolean; // Some limit on the way depends on the time of day or week
+}
+
+const WEEKDAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const MINUTES_PER_DAY = 24 * 60;
+// Stand-ins when the sun does not rise or set (polar regions)
+const FALLBACK_SUNRISE = 6 * 60;
+const FALLBACK_SUNSET = 18 * 60;
+
+/**
+ * Split on a separator, ignoring separators inside parentheses
+ */
+const splitTopLevel = (value: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth = Math.max(0, depth - 1);
+    if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+};
+
+const stripParentheses = (value: string): string => {
+  const trimmed = value.trim();
+  return trimmed.startsWith('(') && trimmed.endsWith(')') ? trimmed.slice(1, -1).trim() : trimmed;
+};
+
+/**
+ * Parse a `maxspeed:conditional` value into its `<limit> @ <condition>` entries
+ */
+export const parseConditionalMaxspeed = (raw: string | undefined | null): ConditionalMaxspeed[] => {
+  if (!raw) return [];
+
+  return splitTopLevel(raw, ';')
+    .map(entry => {
+      const at = entry.indexOf('@');
+      if (at < 0) return null;
+      const maxspeed = parseMaxspeed(entry.slice(0, at));
+      const condition = stripParentheses(entry.slice(at + 1));
+      if (maxspeed.value === null && maxspeed.kind !== 'none') return null;
+      return condition ? { maxspeed, condition } : null;
+    })
+    .filter((entry): entry is ConditionalMaxspeed => entry !== null);
+};
+
+/**
+ * Evaluate a restriction condition. Unknown terms never apply, so an
+ * unsupported condition falls back to the plain limit instead of guessing.
+ */
+export const evaluateCondition = (condition: string, env: ConditionEnvironment): boolean => {
+  const terms = stripParentheses(condition).split(/\s+AND\s+/i);
+  return terms.every(term => evaluateTerm(term.trim(), env));
+};
+
+/**
+ * Whether a condition depends on the clock (as opposed to weather or the vehicle)
+ */
+export const isTimeCondition = (condition: string): boolean => {
+  const terms = stripParentheses(condition).split(/\s+AND\s+/i);
+  return terms.some(term => parseVehicleOrWeatherTerm(term.trim()) === undefined);
+};
+
+const evaluateTerm = (term: string, env: ConditionEnvironment): boolean => {
+  const vehicleOrWeather = parseVehicleOrWeatherTerm(term);
+  if (vehicleOrWeather !== undefined) {
+    return vehicleOrWeather(env.conditions);
+  }
+  return evaluateOpeningHours(term, env);
+};
+
+/**
+ * Returns a predicate for weather/vehicle terms, or undefined for anything else (treated as time)
+ */
+const parseVehicleOrWeatherTerm = (term: string): ((conditions: SpeedLimitConditions) => boolean) | undefined => {
+  const lower = term.toLowerCase();
+
+  switch (lower) {
+    case 'wet':
+      return conditions => conditions.wet;
+    case 'snow':
+    case 'ice':
+    case 'fog':
+      return () => false;
+    case 'trailer':
+    case 'caravan':
+      return conditions => conditions.trailer;
+    case 'hgv':
+      return conditions => conditions.hgv;
+  }
+
+  const weightMatch = lower.match(/^(?:weight|weightrating|maxweight)\s*(>=|>|<=|<)\s*(\d+(?:\.\d+)?)\s*(?:t)?$/);
+  if (weightMatch) {
+    const limit = parseFloat(weightMatch[2]);
+    return conditions => {
+      if (conditions.weight === null) return false;
+      switch (weightMatch[1]) {
+        case '>': return conditions.weight > limit;
+        case '>=': return conditions.weight >= limit;
+        case '<': return conditions.weight < limit;
+        default: return conditions.weight <= limit;
+      }
+    };
+  }
+
+  // Other vehicle dimensions we don't track
+  if (/^(length|width|height|axles|occupants)\s*[<>]/.test(lower)) {
+    return () => false;
+  }
+
+  return undefined;
+};
+
+/**
+ * Evaluate the opening_hours subset used on speed limits: month and weekday
+ * selectors, time ranges (incl. overnight and sunrise/sunset) and `off` rules.
+ * Later rules override earlier ones; rules mentioning holidays are skipped.
+ */
+const evaluateOpeningHours = (value: string, env: ConditionEnvironment): boolean => {
+  let result = false;
+
+  for (const rule of splitTopLevel(value, ';')) {
+    const tokens = rule.split(/\s+/);
+    let off = false;
+    let months: number[] | null = null;
+    let weekdays: number[] | null = null;
+    let times: Array<{ start: number; end: number }> | null = null;
+    let valid = true;
+
+    for (const token of tokens) {
+      if (token === 'off' || token === 'closed') {
+        off = true;
+        continue;
+      }
+      // We don't know public or school holidays
+      if (/^(PH|SH)/.test(token)) {
+        valid = false;
+        break;
+      }
+
+      const monthSelector = months ? null : parseSelector(token, MONTHS);
+      if (monthSelector) {
+        months = monthSelector;
+        continue;
+      }
+      const weekdaySelector = weekdays ? null : parseSelector(token, WEEKDAYS);
+      if (weekdaySelector) {
+        weekdays = weekdaySelector;
+        continue;
+      }
+      const timeRanges = times ? null : parseTimes(token, env);
+      if (timeRanges) {
+        times = timeRanges;
+        continue;
+      }
+
+      valid = false;
+      break;
+    }
+
+    if (!valid) continue;
+    if (ruleMatches(env.date, months, weekdays, times)) {
+      result = !off;
+    }
+  }
+
+  return result;
+};
+
+const ruleMatches = (
+  date: Date,
+  months: number[] | null,
+  weekdays: number[] | null,
+  times: Array<{ start: number; end: number }> | null
+): boolean => {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const day = date.getDay();
+  const previousDay = (day + 6) % 7;
+
+  if (months && !months.includes(date.getMonth())) return false;
+  if (!times) return !weekdays || weekdays.includes(day);
+
+  return times.some(({ start, end }) => {
+    if (start <= end) {
+      return (!weekdays || weekdays.includes(day)) && minutes >= start && minutes < end;
+    }
+    // Overnight range: the part after midnight belongs to the previous day's selector
+    return ((!weekdays || weekdays.includes(day)) && minutes >= start) ||
+      ((!weekdays || weekdays.includes(previousDay)) && minutes < end);
+  });
+};
+
+/**
+ * Parse "Mo-Fr,Su" / "Oct-Mar" style selectors into indexes of `names`
+ */
+const parseSelector = (token: string, names: string[]): number[] | null => {
+  const indexes: number[] = [];
+  for (const part of token.split(',')) {
+    const [from, to] = part.split('-');
+    const start = names.indexOf(from);
+    const end = to === undefined ? start : names.indexOf(to);
+    if (start < 0 || end < 0) return null;
+
+    // Ranges may wrap around (Sa-Mo, Nov-Feb)
+    for (let i = start; ; i = (i + 1) % names.length) {
+      indexes.push(i);
+      if (i === end) break;
+    }
+  }
+  return indexes;
+};
+
+/**
+ * Parse "07:00-09:00,15:00-17:00" or "sunset-sunrise" into minutes of the day
+ */
+const parseTimes = (token: string, env: ConditionEnvironment): Array<{ start: number; end: number }> | null => {
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const part of token.split(',')) {
+    const [from, to] = part.split('-');
+    const start = parseTimeOfDay(from, env);
+    const end = to === undefined ? null : parseTimeOfDay(to, env);
+    if (start === null || end === null) return null;
+    ranges.push({ start, end });
+  }
+  return ranges;
+};
+
+const parseTimeOfDay = (value: string, env: ConditionEnvironment): number | null => {
+  const clock = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (clock) {
+    return Math.min(parseInt(clock[1], 10) * 60 + parseInt(clock[2], 10), MINUTES_PER_DAY);
+  }
+
+  if (value === 'sunrise' || value === 'dawn' || value === 'sunset' || value === 'dusk') {
+    const sun = getSunTimes(env.date, env.latitude, env.longitude);
+    const isMorning = value === 'sunrise' || value === 'dawn';
+    const event = isMorning ? sun.sunrise : sun.sunset;
+    if (!event) return isMorning ? FALLBACK_SUNRISE : FALLBACK_SUNSET;
+    return event.getHours() * 60 + event.getMinutes();
+  }
+
+  return null;
+};
+
+/**
+ * Work out the limit that applies to us on a way from its tags: the plain or
+ * directional limit (vehicle-specific ones when they are lower), overridden by
+ * any wet-road or conditional limit whose condition currently holds.
+ * When several overrides hold, the lowest wins.
+ */
+export const resolveMaxspeed = (
+  tags: { [key: string]: string },
+  direction: TravelDirection | null,
+  env: ConditionEnvironment
+): ResolvedMaxspeed | null => {
+  const zoneTag = tags['source:maxspeed'] || tags['maxspeed:type'];
+  const vehicles: string[] = [];
+  if (env.conditions.hgv) vehicles.push('hgv');
+  if (env.conditions.trailer) vehicles.push('trailer');
+
+  // Base limit: general first, then any lower vehicle-specific limit
+  let base: ParsedMaxspeed | null = directionalMaxspeed(tags, 'maxspeed', direction, zoneTag);
+  let baseCondition: string | null = null;
+  if (!base && zoneTag) {
+    const implicit = parseMaxspeed(zoneTag);
+    if (implicit.kind === 'implicit' || implicit.kind === 'none') base = implicit;
+  }
+  for (const vehicle of vehicles) {
+    const vehicleLimit = directionalMaxspeed(tags, `maxspeed:${vehicle}`, direction);
+    if (vehicleLimit && isLower(vehicleLimit, base)) {
+      base = vehicleLimit;
+      baseCondition = vehicle;
+    }
+  }
+
+  // Overrides whose condition holds right now
+  const overrides: ConditionalMaxspeed[] = [];
+  if (env.conditions.wet && tags['maxspeed:wet']) {
+    const wet = parseMaxspeed(tags['maxspeed:wet']);
+    if (wet.value !== null) overrides.push({ maxspeed: wet, condition: 'wet' });
+  }
+
+  let timeDependent = false;
+  for (const prefix of ['maxspeed', ...vehicles.map(vehicle => `maxspeed:${vehicle}`)]) {
+    const keys = direction ? [`${prefix}:${direction}:conditional`, `${prefix}:conditional`] : [`${prefix}:conditional`];
+    for (const key of keys) {
+      for (const entry of parseConditionalMaxspeed(tags[key])) {
+        if (isTimeCondition(entry.condition)) timeDependent = true;
+        if (evaluateCondition(entry.condition, env)) overrides.push(entry);
+      }
+    }
+  }
+
+  if (overrides.length > 0) {
+    const lowest = overrides.reduce((best, entry) => (isLower(entry.maxspeed, best.maxspeed) ? entry : best));
+    return { maxspeed: lowest.maxspeed, condition: lowest.condition, timeDependent };
+  }
+
+  return base ? { maxspeed: base, condition: baseCondition, timeDependent } : null;
+};
+
+/**
+ * `<prefix>:forward`/`:backward` for our direction, else `<prefix>`. With an
+ * unknown direction and only directional values, the lower one is used.
+ */
+const directionalMaxspeed = (
+  tags: { [key: string]: string },
+  prefix: string,
+  direction: TravelDirection | null,
+  zoneTag?: string
+): ParsedMaxspeed | null => {
+  if (direction && tags[`${prefix}:${direction}`]) {
+    return parseMaxspeed(tags[`${prefix}:${direction}`], zoneTag);
+  }
+  if (tags[prefix]) {
+    return parseMaxspeed(tags[prefix], zoneTag);
+  }
+  if (!direction) {
+    const forward = tags[`${prefix}:forward`] ? parseMaxspeed(tags[`${prefix}:forward`], zoneTag) : null;
+    const backward = tags[`${prefix}:backward`] ? parseMaxspeed(tags[`${prefix}:backward`], zoneTag) : null;
+    if (forward && backward) return isLower(backward, forward) ? backward : forward;
+    return forward || backward;
+  }
+  return null;
+};
+
+// Unknown or unlimited values never count as lower than a real limit
+const isLower = (candidate: ParsedMaxspeed, current: ParsedMaxspeed | null): boolean => {
+  if (!current) return true;
+  if (candidate.value === null) return false;
+  return current.value === null || candidate.value < current.value;
+};
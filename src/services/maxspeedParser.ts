@@ -0,0 +1,168 @@
+/**
+ * Parser for the OpenStreetMap `maxspeed` value grammar:
+ *   <number>[ <unit>]           50, 50 mph, 60 knots, 30 km/h
+ *   <country>:<zone>            RS:urban, DE:rural, GB:nsl_single, FR:zone30
+ *   <value>;<value>             50;30 (multiple values, the lowest applies)
+ *   none | walk | signals | variable
+ * See https://wiki.openstreetmap.org/wiki/Key:maxspeed
+ */
+
+import { getCountryUnit, getImplicitZoneLimit } from './speedLimitDefaults';
+import { SpeedUnit, toKmh } from '../utils/units';
+
+export type MaxspeedUnit = SpeedUnit;
+
+export type MaxspeedKind =
+  | 'numeric'   // Signed numeric limit
+  | 'implicit'  // Country/zone code resolved through the defaults table
+  | 'none'      // No limit (e.g. German Autobahn)
+  | 'walk'      // Walking pace
+  | 'variable'  // Variable message signs ("signals"/"variable")
+  | 'unknown';  // Unrecognized value
+
+export interface ParsedMaxspeed {
+  raw: string;
+  kind: MaxspeedKind;
+  value: number | null; // Effective limit in km/h (lowest of multiple values)
+  values: number[]; // Every parsed value in km/h
+  nativeValue: number | null; // Effective limit in `unit`
+  unit: MaxspeedUnit; // Unit the limit is signed in
+  explicit: boolean; // true for a signed number, false when implied by a zone or keyword
+  country?: string;
+  zone?: string;
+}
+
+const WALKING_PACE_KMH = 5;
+
+/**
+ * Parse a raw `maxspeed` value. `source` is the optional `source:maxspeed` or
+ * `maxspeed:type` tag, which marks a plain number as implied by a zone.
+ */
+export const parseMaxspeed = (raw: string | undefined | null, source?: string): ParsedMaxspeed => {
+  const value = (raw || '').trim();
+  const parts = value.split(';').map(part => part.trim()).filter(Boolean);
+
+  if (parts.length === 0) {
+    return emptyResult(value, 'unknown');
+  }
+
+  const parsedParts = parts.map(parseSingleValue);
+  const numeric = parsedParts.filter(part => part.value !== null);
+
+  // Multiple values: the lowest applies; keywords only win when nothing numeric is present
+  const effective = numeric.length > 0
+    ? numeric.reduce((lowest, part) => (part.value! < lowest.value! ? part : lowest))
+    : parsedParts[0];
+
+  const result: ParsedMaxspeed = {
+    ...effective,
+    raw: value,
+    values: numeric.map(part => part.value!),
+  };
+
+  // A signed-looking number whose source is a zone code is still an implied limit
+  if (result.kind === 'numeric' && source && /^[A-Z]{2}(-[A-Z0-9]+)?:/i.test(source.trim())) {
+    const [country, zone] = source.trim().split(':');
+    result.explicit = false;
+    result.country = country.toUpperCase().split('-')[0];
+    result.zone = zone.toLowerCase();
+  }
+
+  return result;
+};
+
+const parseSingleValue = (part: string): ParsedMaxspeed => {
+  const lower = part.toLowerCase();
+
+  switch (lower) {
+    case 'none':
+      return { ...emptyResult(part, 'none'), explicit: true };
+    case 'walk':
+      return {
+        ...emptyResult(part, 'walk'),
+        value: WALKING_PACE_KMH,
+        values: [WALKING_PACE_KMH],
+        nativeValue: WALKING_PACE_KMH,
+        explicit: true,
+      };
+    case 'signals':
+    case 'variable':
+      return emptyResult(part, 'variable');
+  }
+
+  const implicitMatch = part.match(/^([A-Za-z]{2})(?:-[A-Za-z0-9]+)?:([A-Za-z_]+?)(\d+)?$/);
+  if (implicitMatch) {
+    return parseImplicit(part, implicitMatch[1].toUpperCase(), implicitMatch[2].toLowerCase(), implicitMatch[3]);
+  }
+
+  const numericMatch = lower.match(/^(\d+(?:\.\d+)?)\s*(km\/h|kmh|kph|mph|knots|knot|kn)?$/);
+  if (numericMatch) {
+    const unit = parseUnit(numericMatch[2]);
+    const nativeValue = parseFloat(numericMatch[1]);
+    const kmh = toKmh(nativeValue, unit);
+    return {
+      raw: part,
+      kind: 'numeric',
+      value: kmh,
+      values: [kmh],
+      nativeValue,
+      unit,
+      explicit: true,
+    };
+  }
+
+  return emptyResult(part, 'unknown');
+};
+
+const parseImplicit = (raw: string, country: string, zone: string, zoneNumber?: string): ParsedMaxspeed => {
+  // Zone codes with the number embedded: FR:zone30, DE:zone20
+  if (zoneNumber) {
+    const nativeValue = parseInt(zoneNumber, 10);
+    const unit = getCountryUnit(country);
+    const kmh = toKmh(nativeValue, unit);
+    return { raw, kind: 'implicit', value: kmh, values: [kmh], nativeValue, unit, explicit: false, country, zone: `${zone}${zoneNumber}` };
+  }
+
+  if (zone === 'walk') {
+    return {
+      raw,
+      kind: 'walk',
+      value: WALKING_PACE_KMH,
+      values: [WALKING_PACE_KMH],
+      nativeValue: WALKING_PACE_KMH,
+      unit: 'km/h',
+      explicit: false,
+      country,
+      zone,
+    };
+  }
+
+  const implicit = getImplicitZoneLimit(country, zone);
+  if (!implicit) {
+    return { ...emptyResult(raw, 'unknown'), unit: getCountryUnit(country), country, zone };
+  }
+
+  const { nativeSpeedLimit, unit } = implicit;
+  if (nativeSpeedLimit === null) {
+    return { ...emptyResult(raw, 'none'), unit, country, zone };
+  }
+
+  const kmh = toKmh(nativeSpeedLimit, unit);
+  return { raw, kind: 'implicit', value: kmh, values: [kmh], nativeValue: nativeSpeedLimit, unit, explicit: false, country, zone };
+};
+
+const parseUnit = (unit?: string): MaxspeedUnit => {
+  if (unit === 'mph') return 'mph';
+  if (unit === 'knots' || unit === 'knot' || unit === 'kn') return 'knots';
+  return 'km/h';
+};
+
+const emptyResult = (raw: string, kind: MaxspeedKind): ParsedMaxspeed => ({
+  raw,
+  kind,
+  value: null,
+  values: [],
+  nativeValue: null,
+  unit: 'km/h',
+  explicit: false,
+});
@@ -0,0 +1,261 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { LocationService, LocationData, TrackingState } from './locationService';
+import { SpeedLimitService } from './speedLimitService';
+import { PreferencesService } from './preferencesService';
+import { displaySpeedLimit, formatAltitude, formatSpeed } from '../utils/units';
+
+const STATUS_NOTIFICATION_ID = 'gps-info-status';
+const STATUS_CHANNEL_ID = 'gps-status';
+const SPEED_ALERT_NOTIFICATION_ID = 'speed-alert';
+const SPEED_ALERT_CHANNEL_ID = 'speed-alerts';
+const TRACKING_CATEGORY = 'gps-tracking';
+const PAUSED_CATEGORY = 'gps-tracking-paused';
+
+export const NOTIFICATION_ACTIONS = {
+  PAUSE: 'pause-tracking',
+  RESUME: 'resume-tracking',
+  STOP: 'stop-tracking',
+} as const;
+
+export class NotificationService {
+  private static instance: NotificationService;
+  private isInitialized: boolean = false;
+  private isActive: boolean = false;
+  private lastUpdateTime: number = 0;
+  private lastContent: string | null = null;
+  private responseSubscription: Notifications.EventSubscription | null = null;
+  private readonly MIN_UPDATE_INTERVAL = 5000; // 5 seconds between notification updates
+  private locationService = LocationService.getInstance();
+  private speedLimitService = SpeedLimitService.getInstance();
+
+  static getInstance(): NotificationService {
+    if (!NotificationService.instance) {
+      NotificationService.instance = new NotificationService();
+    }
+    return NotificationService.instance;
+  }
+
+  /**
+   * Set up the channels, action categories and permission. Speed alerts work
+   * on every platform; only Android gets the ongoing status notification.
+   */
+  async initialize(): Promise<boolean> {
+    if (this.isInitialized) return true;
+
+    try {
+      const { status: existingStatus } = await Notifications.getPermissionsAsync();
+      let finalStatus = existingStatus;
+      if (existingStatus !== 'granted') {
+        const { status } = await Notifications.requestPermissionsAsync();
+        finalStatus = status;
+      }
+      if (finalStatus !== 'granted') {
+        console.error('Notification permission not granted:', finalStatus);
+        return false;
+      }
+
+      Notifications.setNotificationHandler({
+        handleNotification: async notification => ({
+          shouldShowBanner: false,
+          shouldShowList: true,
+          // Speed alerts chime in the foreground too
+          shouldPlaySound: notification.request.identifier === SPEED_ALERT_NOTIFICATION_ID,
+          shouldSetBadge: false,
+        }),
+      });
+
+      if (Platform.OS === 'android') {
+        // Low importance keeps the status updates silent and out of the heads-up area
+        await Notifications.setNotificationChannelAsync(STATUS_CHANNEL_ID, {
+          name: 'GPS Status',
+          importance: Notifications.AndroidImportance.LOW,
+          showBadge: false,
+          enableVibrate: false,
+          sound: null,
+          lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+        });
+
+        // High importance so the chime plays over other audio while driving; the app vibrates itself
+        await Notifications.setNotificationChannelAsync(SPEED_ALERT_CHANNEL_ID, {
+          name: 'Speed Alerts',
+          importance: Notifications.AndroidImportance.HIGH,
+          showBadge: false,
+          enableVibrate: false,
+          sound: 'default',
+          lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+        });
+      }
+
+      await Notifications.setNotificationCategoryAsync(TRACKING_CATEGORY, [
+        { identifier: NOTIFICATION_ACTIONS.PAUSE, buttonTitle: 'Pause', options: { opensAppToForeground: false } },
+        { identifier: NOTIFICATION_ACTIONS.STOP, buttonTitle: 'Stop', options: { opensAppToForeground: false } },
+      ]);
+      await Notifications.setNotificationCategoryAsync(PAUSED_CATEGORY, [
+        { identifier: NOTIFICATION_ACTIONS.RESUME, buttonTitle: 'Resume', options: { opensAppToForeground: false } },
+        { identifier: NOTIFICATION_ACTIONS.STOP, buttonTitle: 'Stop', options: { opensAppToForeground: false } },
+      ]);
+
+      this.responseSubscription = Notifications.addNotificationResponseReceivedListener(this.handleResponse);
+
+      this.isInitialized = true;
+      console.log('Notification service initialized');
+      return true;
+    } catch (error) {
+      console.error('Error initializing notification service:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Start feeding the ongoing notification from LocationService updates
+   */
+  async start(): Promise<void> {
+    if (Platform.OS !== 'android') {
+      console.log('Persistent notification is Android-only');
+      return;
+    }
+
+    const ready = await this.initialize();
+    if (!ready || this.isActive) return;
+
+    this.isActive = true;
+    this.locationService.addBackgroundLocationListener(this.handleLocationUpdate);
+    this.locationService.addTrackingStateListener(this.handleTrackingStateChange);
+
+    const currentLocation = this.locationService.getCurrentLocation();
+    if (currentLocation) {
+      this.handleLocationUpdate(currentLocation);
+    }
+    console.log('Persistent notification started');
+  }
+
+  async stop(): Promise<void> {
+    if (!this.isActive) return;
+
+    this.isActive = false;
+    this.locationService.removeBackgroundLocationListener(this.handleLocationUpdate);
+    this.locationService.removeTrackingStateListener(this.handleTrackingStateChange);
+    this.lastContent = null;
+    this.lastUpdateTime = 0;
+
+    try {
+      await Notifications.dismissNotificationAsync(STATUS_NOTIFICATION_ID);
+    } catch (error) {
+      console.error('Error dismissing status notification:', error);
+    }
+    console.log('Persistent notification stopped');
+  }
+
+  isRunning(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Chime with a short message through the speed alert channel. Each alert
+   * replaces the previous one so the shade holds at most one. On iOS the
+   * notification sound also vibrates, which the app can't do in the background.
+   */
+  async showSpeedAlert(title: string, body: string): Promise<void> {
+    const ready = await this.initialize();
+    if (!ready) return;
+
+    try {
+      await Notifications.scheduleNotificationAsync({
+        identifier: SPEED_ALERT_NOTIFICATION_ID,
+        content: {
+          title,
+          body,
+          sound: 'default',
+          priority: Notifications.AndroidNotificationPriority.HIGH,
+          interruptionLevel: 'timeSensitive',
+        },
+        trigger: Platform.OS === 'android' ? { channelId: SPEED_ALERT_CHANNEL_ID } : null,
+      });
+    } catch (error) {
+      console.error('Error showing speed alert:', error);
+    }
+  }
+
+  private handleLocationUpdate = (location: LocationData): void => {
+    const now = Date.now();
+    // Throttle: the notification shade does not need 1 Hz updates
+    if (now - this.lastUpdateTime < this.MIN_UPDATE_INTERVAL) {
+      return;
+    }
+    this.lastUpdateTime = now;
+
+    this.showStatus(this.formatStatus(location), this.locationService.isTrackingPaused());
+  };
+
+  private handleTrackingStateChange = (state: TrackingState): void => {
+    if (state === 'stopped') {
+      this.stop();
+      return;
+    }
+
+    const isPaused = state === 'paused';
+    const location = this.locationService.getCurrentLocation();
+    const body = isPaused
+      ? 'Tracking paused'
+      : location ? this.formatStatus(location) : 'Waiting for GPS fix...';
+
+    this.lastUpdateTime = Date.now();
+    this.showStatus(body, isPaused);
+  };
+
+  private handleResponse = async (response: Notifications.NotificationResponse): Promise<void> => {
+    switch (response.actionIdentifier) {
+      case NOTIFICATION_ACTIONS.PAUSE:
+        await this.locationService.pauseTracking();
+        break;
+      case NOTIFICATION_ACTIONS.RESUME:
+        await this.locationService.resumeTracking();
+        break;
+      case NOTIFICATION_ACTIONS.STOP:
+        // The notification goes away through the tracking state listener
+        await this.locationService.stopTracking();
+        break;
+    }
+  };
+
+  /**
+   * Build the single-line status: altitude, speed and the last known speed limit
+   */
+  private formatStatus(location: LocationData): string {
+    const { unitSystem } = PreferencesService.getInstance().get('display');
+    const altitudeMsl = location.altitudeMsl ?? location.altitude;
+    const altitude = altitudeMsl !== null ? formatAltitude(altitudeMsl, unitSystem) : '---';
+    const speedKmh = LocationService.convertSpeedToKmh(location.speed);
+    const speed = speedKmh !== null ? formatSpeed(speedKmh, unitSystem) : '---';
+    const lastKnown = this.speedLimitService.getLastKnownSpeedLimit();
+    const speedLimit = lastKnown ? displaySpeedLimit(lastKnown, unitSystem) : null;
+    const limit = speedLimit ? ` · Limit: ${speedLimit.value} ${speedLimit.unit}` : '';
+
+    return `Alt: ${altitude} · Speed: ${speed}${limit}`;
+  }
+
+  private async showStatus(body: string, isPaused: boolean): Promise<void> {
+    const contentKey = `${body}|${isPaused}`;
+    if (contentKey === this.lastContent) return;
+    this.lastContent = contentKey;
+
+    try {
+      // Re-using the identifier replaces the existing notification in place
+      await Notifications.scheduleNotificationAsync({
+        identifier: STATUS_NOTIFICATION_ID,
+        content: {
+          title: 'GPS Info',
+          body,
+          sticky: true,
+          autoDismiss: false,
+          priority: Notifications.AndroidNotificationPriority.LOW,
+          categoryIdentifier: isPaused ? PAUSED_CATEGORY : TRACKING_CATEGORY,
+        },
+        trigger: { channelId: STATUS_CHANNEL_ID },
+      });
+    } catch (error) {
+      console.error('Error updating status notification:', error);
+    }
+  }
+}
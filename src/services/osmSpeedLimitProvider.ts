@@ -0,0 +1,261 @@
+import { LocationData } from './locationService';
+import { SpeedLimitData } from './speedLimitService';
+import { SpeedLimitProvider, SpeedLimitQueryContext } from './speedLimitProvider';
+import { OverpassWay, SpeedLimitTile, SpeedLimitTileStore } from './speedLimitTileStore';
+import { DEFAULT_SPEED_LIMIT_CONDITIONS, TravelDirection, resolveMaxspeed } from './maxspeedConditional';
+import { getDefaultSpeedLimit, roadClassFromHighway } from './speedLimitDefaults';
+import { angleDifference, distanceToSegment, haversineDistance, initialBearing } from '../utils/geo';
+
+interface MatchCandidate {
+  way: OverpassWay;
+  distance: number;
+  bearing: number;
+  score: number;
+}
+
+export class OsmSpeedLimitProvider implements SpeedLimitProvider {
+  readonly id: string = 'osm';
+  readonly name: string = 'OpenStreetMap';
+  protected tileStore = SpeedLimitTileStore.getInstance();
+  protected readonly MAX_MATCH_DISTANCE = 200; // meters
+  private readonly DEFAULT_POSITION_SIGMA = 10; // meters
+  private readonly HEADING_SIGMA = 30; // degrees
+  private readonly MIN_HEADING_SCORE = 0.05;
+  private readonly CONNECTED_WAY_SCORE = 0.8;
+  private readonly UNRELATED_WAY_SCORE = 0.5;
+
+  /**
+   * Get speed limit from OpenStreetMap. Uses the stored tile when it is fresh,
+   * otherwise downloads the tile from Overpass (which also persists it).
+   */
+  async getSpeedLimit(location: LocationData, context?: SpeedLimitQueryContext): Promise<SpeedLimitData | null> {
+    const { latitude, longitude } = location;
+
+    let tile = await this.tileStore.getTileForLocation(latitude, longitude);
+    if (!tile) {
+      try {
+        tile = await this.tileStore.fetchTileForLocation(latitude, longitude);
+      } catch (error) {
+        // Network failed - an expired tile is still better than nothing
+        tile = await this.tileStore.getTileForLocation(latitude, longitude, true);
+        if (!tile) throw error;
+        console.log('Overpass unavailable, using expired speed limit tile');
+      }
+    }
+
+    return this.matchFromTile(tile, location, context);
+  }
+
+  protected matchFromTile(tile: SpeedLimitTile, location: LocationData, context?: SpeedLimitQueryContext): SpeedLimitData | null {
+    const speedLimitData = this.parseOverpassResponse({ elements: tile.ways }, location, context);
+    if (speedLimitData && !speedLimitData.source) {
+      speedLimitData.source = 'osm';
+    }
+    return speedLimitData;
+  }
+
+  /**
+   * Parse Overpass API response and find the most relevant speed limit.
+   * Candidates are scored on perpendicular distance, agreement between the
+   * segment bearing and the GPS course, and continuity with the previous match.
+   * The limit is resolved for our travel direction and current conditions;
+   * roads without a maxspeed tag get the country default for their class.
+   */
+  protected parseOverpassResponse(data: { elements?: OverpassWay[] }, location: LocationData, context?: SpeedLimitQueryContext): SpeedLimitData | null {
+    if (!data.elements || data.elements.length === 0) {
+      return null;
+    }
+
+    const ways = data.elements.filter(element =>
+      element.tags && element.geometry && (
+        element.tags.maxspeed ||
+        element.tags['maxspeed:forward'] ||
+        element.tags['maxspeed:backward'] ||
+        roadClassFromHighway(element.tags.highway)
+      )
+    );
+    const previousWay = this.findPreviousWay(ways, context?.previousMatch?.roadId);
+    const course = context?.course ?? null;
+    // Position spread: never trust the fix tighter than typical lane-level error
+    const sigma = Math.max(location.accuracy ?? this.DEFAULT_POSITION_SIGMA, this.DEFAULT_POSITION_SIGMA);
+
+    const candidates: MatchCandidate[] = [];
+    for (const way of ways) {
+      const segment = this.closestSegment(location.latitude, location.longitude, way);
+      if (!segment || segment.distance > this.MAX_MATCH_DISTANCE) continue;
+
+      const distanceScore = Math.exp(-0.5 * Math.pow(segment.distance / sigma, 2));
+      const headingScore = course === null ? 1 : this.headingScore(course, segment.bearing, way.tags.oneway);
+      const continuityScore = this.continuityScore(way, previousWay);
+
+      candidates.push({
+        way,
+        distance: segment.distance,
+        bearing: segment.bearing,
+        score: distanceScore * headingScore * continuityScore,
+      });
+    }
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    candidates.sort((a, b) => b.score - a.score);
+    const best = candidates[0];
+    const confidence = this.matchConfidence(best, candidates);
+
+    const roadName = best.way.tags.name || best.way.tags.ref || 'Unknown Road';
+    // Travelling with or against the way's digitized direction, for :forward/:backward tags
+    const direction: TravelDirection | null = course === null
+      ? null
+      : angleDifference(course, best.bearing) <= 90 ? 'forward' : 'backward';
+    const resolved = resolveMaxspeed(best.way.tags, direction, {
+      date: new Date(location.timestamp),
+      latitude: location.latitude,
+      longitude: location.longitude,
+      conditions: context?.conditions ?? DEFAULT_SPEED_LIMIT_CONDITIONS,
+    });
+
+    let accuracy: 'high' | 'medium' | 'low' = 'low';
+    if (confidence >= 0.6) accuracy = 'high';
+    else if (confidence >= 0.3) accuracy = 'medium';
+
+    if (!resolved) {
+      // Unusable tag on a road without a general limit (e.g. a track): nothing to report
+      const roadClass = roadClassFromHighway(best.way.tags.highway);
+      if (!roadClass) return null;
+
+      // Untagged road: estimate from the country's general limit for its class
+      const estimate = getDefaultSpeedLimit(context?.countryCode, roadClass);
+      return {
+        speedLimit: estimate.speedLimit,
+        nativeSpeedLimit: estimate.nativeSpeedLimit,
+        unit: estimate.unit,
+        road: roadName,
+        roadId: `osm:way/${best.way.id}`,
+        accuracy: 'low',
+        matchConfidence: confidence,
+        timestamp: Date.now(),
+        source: 'default',
+      };
+    }
+
+    const { maxspeed, condition, timeDependent } = resolved;
+    return {
+      speedLimit: maxspeed.value,
+      nativeSpeedLimit: maxspeed.nativeValue,
+      unit: maxspeed.unit,
+      maxspeed,
+      road: roadName,
+      roadId: `osm:way/${best.way.id}`,
+      accuracy,
+      matchConfidence: confidence,
+      timestamp: Date.now(),
+      condition,
+      timeDependent,
+      direction: direction ?? undefined,
+    };
+  }
+
+  /**
+   * Closest segment of a way to the point: perpendicular distance and segment bearing
+   */
+  private closestSegment(lat: number, lon: number, way: OverpassWay): { distance: number; bearing: number } | null {
+    const geometry = way.geometry;
+    if (geometry.length === 0) return null;
+    if (geometry.length === 1) {
+      return { distance: haversineDistance(lat, lon, geometry[0].lat, geometry[0].lon), bearing: 0 };
+    }
+
+    let best: { distance: number; bearing: number } | null = null;
+    for (let i = 0; i < geometry.length - 1; i++) {
+      const a = geometry[i];
+      const b = geometry[i + 1];
+      const { distance } = distanceToSegment(lat, lon, a.lat, a.lon, b.lat, b.lon);
+      if (!best || distance < best.distance) {
+        best = { distance, bearing: initialBearing(a.lat, a.lon, b.lat, b.lon) };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * How well the travel direction fits the segment. Two-way roads match either
+   * direction; one-way roads only match in their digitized (or reversed) direction.
+   */
+  private headingScore(course: number, segmentBearing: number, oneway?: string): number {
+    let diff: number;
+    if (oneway === 'yes' || oneway === 'true' || oneway === '1') {
+      diff = angleDifference(course, segmentBearing);
+    } else if (oneway === '-1' || oneway === 'reverse') {
+      diff = angleDifference(course, segmentBearing + 180);
+    } else {
+      const forward = angleDifference(course, segmentBearing);
+      diff = Math.min(forward, 180 - forward);
+    }
+
+    // Gaussian on heading error, with a floor so a bad course alone never rules a road out
+    return Math.max(Math.exp(-0.5 * Math.pow(diff / this.HEADING_SIGMA, 2)), this.MIN_HEADING_SCORE);
+  }
+
+  private continuityScore(way: OverpassWay, previousWay: OverpassWay | null): number {
+    if (!previousWay) return 1;
+    if (way.id === previousWay.id) return 1;
+    if (this.areConnected(way, previousWay)) return this.CONNECTED_WAY_SCORE;
+    return this.UNRELATED_WAY_SCORE;
+  }
+
+  /**
+   * Ways are connected when an endpoint of one coincides with a vertex of the other
+   */
+  private areConnected(a: OverpassWay, b: OverpassWay): boolean {
+    const endpoints = [a.geometry[0], a.geometry[a.geometry.length - 1]];
+    const otherEndpoints = [b.geometry[0], b.geometry[b.geometry.length - 1]];
+    const sameNode = (p: { lat: number; lon: number }, q: { lat: number; lon: number }) =>
+      Math.abs(p.lat - q.lat) < 1e-7 && Math.abs(p.lon - q.lon) < 1e-7;
+
+    return endpoints.some(endpoint => b.geometry.some(node => sameNode(endpoint, node))) ||
+      otherEndpoints.some(endpoint => a.geometry.some(node => sameNode(endpoint, node)));
+  }
+
+  private findPreviousWay(ways: OverpassWay[], roadId?: string): OverpassWay | null {
+    if (!roadId || !roadId.startsWith('osm:way/')) return null;
+    const id = Number(roadId.slice('osm:way/'.length));
+    return ways.find(way => way.id === id) || null;
+  }
+
+  /**
+   * Confidence 0-1: the best score, reduced when a road with a different
+   * limit scores almost as well (a wrong pick there would matter)
+   */
+  private matchConfidence(best: MatchCandidate, candidates: MatchCandidate[]): number {
+    const rival = candidates.find(candidate =>
+      candidate !== best && candidate.way.tags.maxspeed !== best.way.tags.maxspeed
+    );
+    if (!rival || best.score === 0) return best.score;
+    return best.score * (1 - 0.5 * (rival.score / best.score));
+  }
+}
+
+/**
+ * Answers only from tiles already on the device, so SpeedLimitService can
+ * consult it before any network provider. Expired tiles are used only when
+ * the query allows stale data, so they still get refreshed from the network.
+ */
+export class OfflineSpeedLimitProvider extends OsmSpeedLimitProvider {
+  readonly id: string = 'osm-offline';
+  readonly name: string = 'OpenStreetMap (offline)';
+  readonly isLocal = true;
+
+  async getSpeedLimit(location: LocationData, context?: SpeedLimitQueryContext): Promise<SpeedLimitData | null> {
+    const { latitude, longitude } = location;
+    const tile = await this.tileStore.getTileForLocation(latitude, longitude, !!context?.allowStale);
+    if (!tile) return null;
+
+    const speedLimitData = this.matchFromTile(tile, location, context);
+    if (speedLimitData && Date.now() > tile.expiresAt) {
+      speedLimitData.accuracy = 'low';
+    }
+    return speedLimitData;
+  }
+}
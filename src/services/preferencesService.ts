@@ -0,0 +1,289 @@
+import * as FileSystem from 'expo-file-system';
+import { DEFAULT_LOCATION_FILTER_CONFIG, LocationFilterConfig } from './locationFilter';
+import { DEFAULT_SPEED_ALERT_CONFIG, SpeedAlertConfig } from './speedAlertEvaluator';
+import { UNIT_SYSTEMS, UnitSystem } from '../utils/units';
+
+export interface SpeedLimitPreferences {
+  minRequestInterval: number; // ms between speed limit lookups
+  cacheDuration: number; // ms a looked-up limit stays valid
+  speedingTolerance: number | null; // Percent over the limit before alerting; null uses the vehicle profile's
+  hereApiKey: string; // Empty disables the HERE provider
+}
+
+export interface TrackingPreferences {
+  timeInterval: number; // ms between foreground fixes
+  distanceInterval: number; // m between foreground fixes
+  backgroundTimeInterval: number; // ms
+  backgroundDistanceInterval: number; // m
+}
+
+/**
+ * Colour scheme choice: 'auto' follows the system by day and turns to the
+ * night theme between local sunset and sunrise
+ */
+export type ThemeMode = 'auto' | 'light' | 'dark' | 'night';
+
+export const THEME_MODES: ThemeMode[] = ['auto', 'light', 'dark', 'night'];
+
+/**
+ * Digit colour of the windshield head-up display
+ */
+export type HudPalette = 'white' | 'green' | 'amber' | 'red';
+
+export const HUD_PALETTES: HudPalette[] = ['white', 'green', 'amber', 'red'];
+
+export interface DisplayPreferences {
+  unitSystem: UnitSystem;
+  themeMode: ThemeMode;
+  hudPalette: HudPalette;
+  speedometerMaxSpeed: number; // km/h at the end of the dial
+  compassSmoothing: number; // 0-1 per frame, lower is steadier but slower
+}
+
+/**
+ * Every user-tunable setting, grouped by the service that reads it
+ */
+export interface Preferences {
+  speedLimits: SpeedLimitPreferences;
+  tracking: TrackingPreferences;
+  display: DisplayPreferences;
+  locationFilter: LocationFilterConfig;
+  speedAlerts: SpeedAlertConfig;
+}
+
+export type PreferenceSection = keyof Preferences;
+
+interface StoredPreferences {
+  version: number;
+  preferences: Preferences;
+}
+
+// Preferences as read from disk, before validation
+type RawPreferences = Record<string, unknown>;
+
+export const PREFERENCES_VERSION = 1;
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  speedLimits: {
+    minRequestInterval: 15000,
+    cacheDuration: 5 * 60 * 1000,
+    speedingTolerance: null,
+    hereApiKey: '',
+  },
+  tracking: {
+    timeInterval: 1000,
+    distanceInterval: 1,
+    backgroundTimeInterval: 2000,
+    backgroundDistanceInterval: 5,
+  },
+  display: {
+    unitSystem: 'metric',
+    themeMode: 'auto',
+    hudPalette: 'green',
+    speedometerMaxSpeed: 250,
+    compassSmoothing: 0.08,
+  },
+  locationFilter: { ...DEFAULT_LOCATION_FILTER_CONFIG },
+  speedAlerts: { ...DEFAULT_SPEED_ALERT_CONFIG },
+};
+
+/**
+ * Upgrades for older stored files: MIGRATIONS[n] turns a version n document
+ * into version n + 1. Add one whenever a preference is renamed, moved or
+ * changes meaning; new keys alone need none, defaults fill them in.
+ */
+const MIGRATIONS: { [fromVersion: number]: (preferences: RawPreferences) => RawPreferences } = {};
+
+// String preferences that only take one of a fixed set of values
+const ALLOWED_VALUES: { [sectionAndKey: string]: string[] } = {
+  'display.unitSystem': UNIT_SYSTEMS,
+  'display.themeMode': THEME_MODES,
+  'display.hudPalette': HUD_PALETTES,
+};
+
+// Bounds for numeric preferences, the same as Settings offers; values outside fall back to the default
+const VALUE_RANGES: { [sectionAndKey: string]: { min: number; max: number } } = {
+  'speedLimits.minRequestInterval': { min: 5000, max: 120000 },
+  'speedLimits.cacheDuration': { min: 60000, max: 30 * 60000 },
+  'speedLimits.speedingTolerance': { min: 0, max: 50 },
+  'tracking.timeInterval': { min: 500, max: 10000 },
+  'tracking.distanceInterval': { min: 0, max: 50 },
+  'tracking.backgroundTimeInterval': { min: 1000, max: 30000 },
+  'tracking.backgroundDistanceInterval': { min: 0, max: 100 },
+  'display.speedometerMaxSpeed': { min: 100, max: 400 },
+  'display.compassSmoothing': { min: 0.02, max: 0.5 },
+  'locationFilter.processNoise': { min: 0.5, max: 10 },
+  'locationFilter.maxAcceleration': { min: 2, max: 30 },
+  'locationFilter.maxConsecutiveRejections': { min: 1, max: 20 },
+  'locationFilter.resetAfterGap': { min: 5000, max: 5 * 60000 },
+  'speedAlerts.hysteresis': { min: 0, max: 15 },
+  'speedAlerts.cooldown': { min: 10000, max: 5 * 60000 },
+  'speedAlerts.escalationStep': { min: 5, max: 30 },
+  'speedAlerts.escalationDelay': { min: 5000, max: 120000 },
+};
+
+const isRecord = (value: unknown): value is RawPreferences =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Whether a stored value can replace the default: same type (a null default
+ * takes a number too), finite and within range, and one of the allowed values
+ * where there are some
+ */
+const isValidValue = (value: unknown, fallback: unknown, sectionAndKey: string): boolean => {
+  const typeMatches = fallback === null
+    ? value === null || typeof value === 'number'
+    : typeof value === typeof fallback && value !== null;
+  if (!typeMatches) return false;
+
+  if (typeof value === 'number') {
+    const range = VALUE_RANGES[sectionAndKey];
+    return isFinite(value) && (!range || (value >= range.min && value <= range.max));
+  }
+
+  const allowed = ALLOWED_VALUES[sectionAndKey];
+  return !allowed || (typeof value === 'string' && allowed.includes(value));
+};
+
+const mergeSection = <K extends PreferenceSection>(section: K, stored: unknown): Preferences[K] => {
+  const defaults = DEFAULT_PREFERENCES[section];
+  const values = isRecord(stored) ? stored : {};
+  const merged = { ...defaults };
+  (Object.keys(defaults) as (keyof Preferences[K] & string)[]).forEach(key => {
+    const value = values[key];
+    if (isValidValue(value, defaults[key], `${section}.${key}`)) {
+      merged[key] = value as Preferences[K][typeof key];
+    }
+  });
+  return merged;
+};
+
+/**
+ * Overlay stored values on the defaults, keeping only keys that still exist
+ * with the expected type so a corrupt or hand-edited file can't break services
+ */
+const mergeWithDefaults = (stored: unknown): Preferences => {
+  const values = isRecord(stored) ? stored : {};
+  return {
+    speedLimits: mergeSection('speedLimits', values.speedLimits),
+    tracking: mergeSection('tracking', values.tracking),
+    display: mergeSection('display', values.display),
+    locationFilter: mergeSection('locationFilter', values.locationFilter),
+    speedAlerts: mergeSection('speedAlerts', values.speedAlerts),
+  };
+};
+
+/**
+ * Typed, versioned store for user preferences. Services subscribe and apply
+ * changes as they happen.
+ */
+export class PreferencesService {
+  private static instance: PreferencesService;
+  private preferences: Preferences = mergeWithDefaults(null);
+  private listeners: ((preferences: Preferences) => void)[] = [];
+  private loading: Promise<void> | null = null;
+  private readonly storagePath = `${FileSystem.documentDirectory}preferences.json`;
+
+  static getInstance(): PreferencesService {
+    if (!PreferencesService.instance) {
+      PreferencesService.instance = new PreferencesService();
+    }
+    return PreferencesService.instance;
+  }
+
+  /**
+   * Load and migrate the persisted preferences. Safe to call more than once;
+   * every call resolves once the first load has finished.
+   */
+  initialize(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const info = await FileSystem.getInfoAsync(this.storagePath);
+      if (!info.exists) return;
+
+      const parsed: unknown = JSON.parse(await FileSystem.readAsStringAsync(this.storagePath));
+      const stored = isRecord(parsed) ? parsed : {};
+      let version = typeof stored.version === 'number' ? stored.version : 0;
+      let preferences = isRecord(stored.preferences) ? stored.preferences : {};
+
+      while (version < PREFERENCES_VERSION) {
+        const migrate = MIGRATIONS[version];
+        if (migrate) {
+          preferences = migrate(preferences);
+          console.log(`Preferences migrated from version ${version} to ${version + 1}`);
+        }
+        version++;
+      }
+      if (version > PREFERENCES_VERSION) {
+        console.log(`Preferences were saved by a newer version (${version}); unknown settings are ignored`);
+      }
+
+      this.preferences = mergeWithDefaults(preferences);
+      this.notifyListeners();
+
+      if (stored.version !== PREFERENCES_VERSION) {
+        await this.persist();
+      }
+    } catch (error) {
+      console.error('Error loading preferences:', error);
+    }
+  }
+
+  getPreferences(): Preferences {
+    return this.preferences;
+  }
+
+  get<K extends PreferenceSection>(section: K): Preferences[K] {
+    return this.preferences[section];
+  }
+
+  /**
+   * Change some values of one section
+   */
+  async update<K extends PreferenceSection>(section: K, values: Partial<Preferences[K]>): Promise<void> {
+    this.preferences = mergeWithDefaults({
+      ...this.preferences,
+      [section]: { ...this.preferences[section], ...values },
+    });
+    console.log(`Preferences updated: ${section}`, values);
+    this.notifyListeners();
+    await this.persist();
+  }
+
+  async resetToDefaults(): Promise<void> {
+    this.preferences = mergeWithDefaults(null);
+    console.log('Preferences reset to defaults');
+    this.notifyListeners();
+    await this.persist();
+  }
+
+  addPreferencesListener(callback: (preferences: Preferences) => void): void {
+    this.listeners.push(callback);
+  }
+
+  removePreferencesListener(callback: (preferences: Preferences) => void): void {
+    this.listeners = this.listeners.filter(listener => listener !== callback);
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener(this.preferences));
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      const stored: StoredPreferences = {
+        version: PREFERENCES_VERSION,
+        preferences: this.preferences,
+      };
+      await FileSystem.writeAsStringAsync(this.storagePath, JSON.stringify(stored));
+    } catch (error) {
+      console.error('Error saving preferences:', error);
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { SpeedLimitData } from './speedLimitService';
+
+export interface SpeedAlertConfig {
+  enabled: boolean;
+  sound: boolean; // Chime through the speed alert notification channel
+  vibration: boolean;
+  hysteresis: number; // km/h below the alert threshold before an alert clears
+  cooldown: number; // ms before an alert at the same or a lower level repeats
+  escalationStep: number; // Percent over the limit per extra alert level
+  escalationDelay: number; // ms over the threshold per extra alert level
+}
+
+export const DEFAULT_SPEED_ALERT_CONFIG: SpeedAlertConfig = {
+  enabled: true,
+  sound: true,
+  vibration: true,
+  hysteresis: 3,
+  cooldown: 60000,
+  escalationStep: 10,
+  escalationDelay: 20000,
+};
+
+/**
+ * 1 just over the threshold, 3 far over or for a long time
+ */
+export type SpeedAlertLevel = 1 | 2 | 3;
+
+export const MAX_SPEED_ALERT_LEVEL: SpeedAlertLevel = 3;
+
+export interface SpeedAlert {
+  level: SpeedAlertLevel;
+  speed: number; // km/h
+  speedLimit: number; // km/h
+  timestamp: number;
+}
+
+export interface SpeedAlertState {
+  isSpeeding: boolean;
+  level: SpeedAlertLevel | null;
+  muted: boolean; // The limit is only a country default for the road class
+}
+
+/**
+ * Decides when speeding should be announced. An alert starts once the speed
+ * passes the limit plus tolerance and only clears `hysteresis` km/h below
+ * that, so GPS noise at the threshold doesn't make it flap. The level rises
+ * with how far and how long the limit is exceeded; a higher level is announced
+ * at once, anything else at most once per cooldown.
+ */
+export class SpeedAlertEvaluator {
+  private config: SpeedAlertConfig;
+  private speedingSince: number | null = null;
+  private level: SpeedAlertLevel | null = null;
+  private muted: boolean = false;
+  private lastAlertTime: number = -Infinity;
+  private lastAlertLevel: SpeedAlertLevel | null = null;
+
+  constructor(config: SpeedAlertConfig = DEFAULT_SPEED_ALERT_CONFIG) {
+    this.config = { ...config };
+  }
+
+  setConfig(config: SpeedAlertConfig): void {
+    this.config = { ...config };
+    if (!config.enabled) {
+      this.clear();
+    }
+  }
+
+  reset(): void {
+    this.clear();
+    this.muted = false;
+    this.lastAlertTime = -Infinity;
+    this.lastAlertLevel = null;
+  }
+
+  /**
+   * Feed one fix. `tolerance` is the percent over the limit allowed before
+   * alerting. Returns the alert to announce, if any.
+   */
+  update(speed: number | null, limit: SpeedLimitData | null, tolerance: number, timestamp: number): SpeedAlert | null {
+    this.muted = limit?.source === 'default';
+    if (!this.config.enabled || this.muted || !limit?.speedLimit || speed === null) {
+      this.clear();
+      return null;
+    }
+
+    const speedLimit = limit.speedLimit;
+    const threshold = speedLimit * (1 + tolerance / 100);
+    const isSpeeding = this.speedingSince !== null
+      ? speed > threshold - this.config.hysteresis
+      : speed > threshold;
+
+    if (!isSpeeding) {
+      this.clear();
+      return null;
+    }
+
+    if (this.speedingSince === null) {
+      this.speedingSince = timestamp;
+    }
+
+    this.level = this.levelFor(speed, speedLimit, timestamp - this.speedingSince);
+
+    const escalated = this.lastAlertLevel === null || this.level > this.lastAlertLevel;
+    if (!escalated && timestamp - this.lastAlertTime < this.config.cooldown) {
+      return null;
+    }
+
+    this.lastAlertTime = timestamp;
+    this.lastAlertLevel = this.level;
+    return { level: this.level, speed, speedLimit, timestamp };
+  }
+
+  getState(): SpeedAlertState {
+    return {
+      isSpeeding: this.speedingSince !== null,
+      level: this.level,
+      muted: this.muted,
+    };
+  }
+
+  private levelFor(speed: number, speedLimit: number, duration: number): SpeedAlertLevel {
+    const excessPercent = ((speed - speedLimit) / speedLimit) * 100;
+    const byExcess = this.config.escalationStep > 0 ? Math.floor(Math.max(excessPercent, 0) / this.config.escalationStep) : 0;
+    const byDuration = this.config.escalationDelay > 0 ? Math.floor(duration / this.config.escalationDelay) : 0;
+    return Math.min(1 + Math.max(byExcess, byDuration), MAX_SPEED_ALERT_LEVEL) as SpeedAlertLevel;
+  }
+
+  // The last announced level is kept, so dipping under the limit and back
+  // within the cooldown stays quiet unless it goes further than before
+  private clear(): void {
+    this.speedingSince = null;
+    this.level = null;
+  }
+}
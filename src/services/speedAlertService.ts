@@ -0,0 +1,175 @@
+import { AppState, Vibration } from 'react-native';
+import { LocationData, LocationService, TrackingState } from './locationService';
+import { SpeedLimitService } from './speedLimitService';
+import { NotificationService } from './notificationService';
+import { PreferencesService } from './preferencesService';
+import { SpeedAlert, SpeedAlertEvaluator, SpeedAlertLevel, SpeedAlertState } from './speedAlertEvaluator';
+import { displaySpeedLimit, formatSpeed } from '../utils/units';
+
+// ms on/off, getting longer and more insistent with each level
+const VIBRATION_PATTERNS: { [level in SpeedAlertLevel]: number[] } = {
+  1: [0, 200],
+  2: [0, 250, 150, 250],
+  3: [0, 400, 150, 400, 150, 400],
+};
+
+const ALERT_TITLES: { [level in SpeedAlertLevel]: string } = {
+  1: 'Over the speed limit',
+  2: 'Slow down',
+  3: 'Far over the speed limit',
+};
+
+/**
+ * Chimes and vibrates while the speed limit is exceeded. Listens to the
+ * background location stream, which also carries foreground fixes, so alerts
+ * keep coming with the screen off. The limit is the one the screens last
+ * looked up; only in the background, with no screen doing so, does this
+ * service start lookups itself.
+ */
+export class SpeedAlertService {
+  private static instance: SpeedAlertService;
+  private evaluator: SpeedAlertEvaluator;
+  private isActive: boolean = false;
+  private lookupPending: boolean = false;
+  private listeners: ((state: SpeedAlertState) => void)[] = [];
+  private lastState: SpeedAlertState;
+  private locationService = LocationService.getInstance();
+  private speedLimitService = SpeedLimitService.getInstance();
+
+  static getInstance(): SpeedAlertService {
+    if (!SpeedAlertService.instance) {
+      SpeedAlertService.instance = new SpeedAlertService();
+    }
+    return SpeedAlertService.instance;
+  }
+
+  constructor() {
+    const preferencesService = PreferencesService.getInstance();
+    this.evaluator = new SpeedAlertEvaluator(preferencesService.get('speedAlerts'));
+    this.lastState = this.evaluator.getState();
+    preferencesService.addPreferencesListener(preferences => {
+      this.evaluator.setConfig(preferences.speedAlerts);
+      this.notifyListeners();
+    });
+  }
+
+  start(): void {
+    if (this.isActive) return;
+
+    this.isActive = true;
+    this.locationService.addBackgroundLocationListener(this.handleLocationUpdate);
+    this.locationService.addTrackingStateListener(this.handleTrackingStateChange);
+    // Ask for notification permission now rather than at the first alert, mid-drive
+    NotificationService.getInstance().initialize();
+    console.log('Speed alerts started');
+  }
+
+  stop(): void {
+    if (!this.isActive) return;
+
+    this.isActive = false;
+    this.locationService.removeBackgroundLocationListener(this.handleLocationUpdate);
+    this.locationService.removeTrackingStateListener(this.handleTrackingStateChange);
+    this.evaluator.reset();
+    Vibration.cancel();
+    this.notifyListeners();
+    console.log('Speed alerts stopped');
+  }
+
+  getState(): SpeedAlertState {
+    return this.evaluator.getState();
+  }
+
+  addAlertStateListener(callback: (state: SpeedAlertState) => void): void {
+    this.listeners.push(callback);
+  }
+
+  removeAlertStateListener(callback: (state: SpeedAlertState) => void): void {
+    this.listeners = this.listeners.filter(listener => listener !== callback);
+  }
+
+  /**
+   * Play a level's alert once, for trying the settings out
+   */
+  preview(level: SpeedAlertLevel): void {
+    const limit = this.speedLimitService.getLastKnownSpeedLimit()?.speedLimit ?? 50;
+    this.announce({ level, speed: limit * (1 + level / 10), speedLimit: limit, timestamp: Date.now() });
+  }
+
+  private handleLocationUpdate = (location: LocationData): void => {
+    if (AppState.currentState !== 'active') {
+      this.refreshSpeedLimit(location);
+    }
+
+    // A limit that stopped updating (lookups failing) may belong to another road by now
+    const lastKnown = this.speedLimitService.getLastKnownSpeedLimit();
+    const maxAge = PreferencesService.getInstance().get('speedLimits').cacheDuration * 2;
+    const speedLimit = lastKnown && Date.now() - lastKnown.timestamp <= maxAge ? lastKnown : null;
+
+    const alert = this.evaluator.update(
+      LocationService.convertSpeedToKmh(location.speed),
+      speedLimit,
+      this.speedLimitService.getAlertTolerance(),
+      location.timestamp
+    );
+    if (alert) {
+      this.announce(alert);
+    }
+    this.notifyListeners();
+  };
+
+  // Without fixes an alert can't clear, and its duration would count the gap on resume
+  private handleTrackingStateChange = (state: TrackingState): void => {
+    if (state === 'tracking') return;
+
+    this.evaluator.reset();
+    Vibration.cancel();
+    this.notifyListeners();
+  };
+
+  /**
+   * Look the limit up for the next fix, one lookup at a time
+   */
+  private refreshSpeedLimit(location: LocationData): void {
+    if (this.lookupPending) return;
+
+    this.lookupPending = true;
+    this.speedLimitService.getSpeedLimit(location)
+      .catch(error => console.error('Error looking up speed limit for alerts:', error.message))
+      .finally(() => {
+        this.lookupPending = false;
+      });
+  }
+
+  private announce(alert: SpeedAlert): void {
+    const config = PreferencesService.getInstance().get('speedAlerts');
+    console.log(`Speed alert level ${alert.level}: ${Math.round(alert.speed)} km/h in a ${alert.speedLimit} km/h limit`);
+
+    if (config.vibration) {
+      Vibration.vibrate(VIBRATION_PATTERNS[alert.level]);
+    }
+    if (config.sound) {
+      const { unitSystem } = PreferencesService.getInstance().get('display');
+      const lastKnown = this.speedLimitService.getLastKnownSpeedLimit();
+      const signed = lastKnown?.speedLimit === alert.speedLimit ? displaySpeedLimit(lastKnown, unitSystem) : null;
+      const limit = signed ? `${signed.value} ${signed.unit}` : formatSpeed(alert.speedLimit, unitSystem);
+      NotificationService.getInstance().showSpeedAlert(
+        ALERT_TITLES[alert.level],
+        `${formatSpeed(alert.speed, unitSystem)} in a ${limit} zone`
+      );
+    }
+  }
+
+  private notifyListeners(): void {
+    const state = this.evaluator.getState();
+    if (
+      state.isSpeeding === this.lastState.isSpeeding &&
+      state.level === this.lastState.level &&
+      state.muted === this.lastState.muted
+    ) {
+      return;
+    }
+    this.lastState = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+}
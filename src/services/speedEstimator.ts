@@ -0,0 +1,128 @@
+import { LocationData } from './locationService';
+import { haversineDistance, initialBearing } from '../utils/geo';
+
+/**
+ * Where LocationData.speed came from: the platform's Doppler measurement, an
+ * estimate from consecutive fixes, or a variance-weighted blend of both
+ */
+export type SpeedSource = 'doppler' | 'derived' | 'blended';
+
+const MIN_WINDOW_DURATION = 10000; // ms of fixes kept for estimating
+const MAX_WINDOW_DURATION = 60000; // ms, longer baselines cut too many corners
+const RESOLVED_SPEED = 3; // m/s the window is sized to resolve at the current accuracy
+const MIN_ELAPSED = 0.5; // s, shorter baselines are all noise
+const STATIONARY_ELAPSED = 3; // s without clear movement before reporting 0
+const STATIONARY_MAX_SPEED = 2; // m/s, reported as 0 only if movement can't have been faster
+const DISPLACEMENT_FACTOR = 2; // Movement must exceed this many combined accuracies
+const MIN_COURSE_SPEED = 1; // m/s, below this a derived course is meaningless
+const DOPPLER_SPEED_NOISE = 0.5; // m/s, standard deviation of Doppler speed
+const DEFAULT_ACCURACY = 20; // m
+
+interface DerivedSpeed {
+  speed: number;
+  variance: number;
+  course: number | null;
+}
+
+/**
+ * Estimates ground speed and course from recent fixes and blends it with the
+ * Doppler speed when the platform provides one
+ */
+export class SpeedEstimator {
+  private window: LocationData[] = [];
+
+  reset(): void {
+    this.window = [];
+  }
+
+  /**
+   * Add an accepted raw fix to the window and return `output` (normally its
+   * filtered counterpart) with speed, course and speedSource filled in
+   */
+  process(raw: LocationData, output: LocationData): LocationData {
+    const windowDuration = SpeedEstimator.windowDuration(raw.accuracy ?? DEFAULT_ACCURACY);
+    this.window = this.window.filter(fix => raw.timestamp - fix.timestamp <= windowDuration && fix.timestamp < raw.timestamp);
+    this.window.push(raw);
+
+    const derived = this.derive();
+    const doppler = raw.speed !== null ? output.speed ?? raw.speed : null;
+
+    if (doppler !== null) {
+      if (!derived) {
+        return { ...output, speed: doppler, speedSource: 'doppler' };
+      }
+
+      const dopplerVariance = DOPPLER_SPEED_NOISE * DOPPLER_SPEED_NOISE;
+      const speed = (doppler * derived.variance + derived.speed * dopplerVariance) / (derived.variance + dopplerVariance);
+      return {
+        ...output,
+        speed,
+        course: output.course ?? derived.course,
+        speedSource: 'blended',
+      };
+    }
+
+    if (!derived) {
+      return { ...output, speed: null, speedSource: undefined };
+    }
+
+    return {
+      ...output,
+      speed: derived.speed,
+      course: output.course ?? derived.course,
+      speedSource: 'derived',
+    };
+  }
+
+  /**
+   * Long enough for a baseline at RESOLVED_SPEED to clear the displacement
+   * threshold between two fixes of this accuracy
+   */
+  private static windowDuration(accuracy: number): number {
+    const needed = ((DISPLACEMENT_FACTOR * 2 * accuracy) / RESOLVED_SPEED) * 1000;
+    return Math.min(Math.max(needed, MIN_WINDOW_DURATION), MAX_WINDOW_DURATION);
+  }
+
+  /**
+   * Speed over the shortest recent baseline whose displacement clearly exceeds
+   * the combined accuracy of its endpoints. Poor fixes therefore average over a
+   * longer window, good ones react quickly.
+   */
+  private derive(): DerivedSpeed | null {
+    const latest = this.window[this.window.length - 1];
+    const latestAccuracy = latest.accuracy ?? DEFAULT_ACCURACY;
+
+    for (let i = this.window.length - 2; i >= 0; i--) {
+      const fix = this.window[i];
+      const elapsed = (latest.timestamp - fix.timestamp) / 1000;
+      if (elapsed < MIN_ELAPSED) continue;
+
+      const accuracy = fix.accuracy ?? DEFAULT_ACCURACY;
+      const distance = haversineDistance(fix.latitude, fix.longitude, latest.latitude, latest.longitude);
+      if (distance < DISPLACEMENT_FACTOR * (accuracy + latestAccuracy)) continue;
+
+      const speed = distance / elapsed;
+      return {
+        speed,
+        variance: (accuracy * accuracy + latestAccuracy * latestAccuracy) / (elapsed * elapsed),
+        course: speed >= MIN_COURSE_SPEED ? initialBearing(fix.latitude, fix.longitude, latest.latitude, latest.longitude) : null,
+      };
+    }
+
+    // No clear movement: stationary only if even the worst case allows no real speed,
+    // otherwise the movement is too small for these fixes to resolve and the speed is unknown
+    const oldest = this.window[0];
+    const elapsed = (latest.timestamp - oldest.timestamp) / 1000;
+    if (elapsed < STATIONARY_ELAPSED) return null;
+
+    const accuracy = oldest.accuracy ?? DEFAULT_ACCURACY;
+    const distance = haversineDistance(oldest.latitude, oldest.longitude, latest.latitude, latest.longitude);
+    if ((distance + accuracy + latestAccuracy) / elapsed > STATIONARY_MAX_SPEED) return null;
+
+    return {
+      speed: 0,
+      variance: (accuracy * accuracy + latestAccuracy * latestAccuracy) / (elapsed * elapsed),
+      course: null,
+    };
+  }
+}
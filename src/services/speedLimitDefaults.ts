@@ -0,0 +1,161 @@
+import { SpeedUnit, toKmh } from '../utils/units';
+
+export type RoadClass = 'motorway' | 'trunk' | 'primary' | 'rural' | 'urban' | 'living_street';
+
+export interface DefaultSpeedLimit {
+  speedLimit: number | null; // km/h, null where there is no general limit
+  nativeSpeedLimit: number | null; // in `unit`
+  unit: SpeedUnit;
+  countryCode: string | null; // ISO 3166-1 alpha-2, null when the fallback table was used
+  roadClass: RoadClass;
+}
+
+interface CountryDefaults {
+  alpha3: string;
+  unit?: SpeedUnit;
+  limits: { [roadClass in RoadClass]: number | null }; // in `unit`, null = no limit
+  zones?: { [zone: string]: RoadClass | number }; // extra implicit maxspeed codes
+}
+
+/**
+ * General speed limits by country and road class, in the country's signed unit.
+ * Used when a road has no maxspeed tag and for implicit codes like RS:urban.
+ */
+const COUNTRY_DEFAULTS: { [alpha2: string]: CountryDefaults } = {
+  AL: { alpha3: 'ALB', limits: { motorway: 110, trunk: 90, primary: 80, rural: 80, urban: 40, living_street: 10 } },
+  AT: { alpha3: 'AUT', limits: { motorway: 130, trunk: 100, primary: 100, rural: 100, urban: 50, living_street: 5 }, zones: { bicycle_road: 30 } },
+  BA: { alpha3: 'BIH', limits: { motorway: 130, trunk: 100, primary: 80, rural: 80, urban: 50, living_street: 10 } },
+  BE: { alpha3: 'BEL', limits: { motorway: 120, trunk: 120, primary: 90, rural: 70, urban: 50, living_street: 20 } },
+  BG: { alpha3: 'BGR', limits: { motorway: 140, trunk: 120, primary: 90, rural: 90, urban: 50, living_street: 20 } },
+  CH: { alpha3: 'CHE', limits: { motorway: 120, trunk: 100, primary: 80, rural: 80, urban: 50, living_street: 20 } },
+  CZ: { alpha3: 'CZE', limits: { motorway: 130, trunk: 110, primary: 90, rural: 90, urban: 50, living_street: 20 } },
+  DE: { alpha3: 'DEU', limits: { motorway: null, trunk: 100, primary: 100, rural: 100, urban: 50, living_street: 7 }, zones: { bicycle_road: 30 } },
+  DK: { alpha3: 'DNK', limits: { motorway: 130, trunk: 90, primary: 80, rural: 80, urban: 50, living_street: 15 } },
+  ES: { alpha3: 'ESP', limits: { motorway: 120, trunk: 100, primary: 90, rural: 90, urban: 50, living_street: 20 } },
+  FR: { alpha3: 'FRA', limits: { motorway: 130, trunk: 110, primary: 80, rural: 80, urban: 50, living_street: 20 } },
+  GB: {
+    alpha3: 'GBR',
+    unit: 'mph',
+    limits: { motorway: 70, trunk: 70, primary: 60, rural: 60, urban: 30, living_street: 10 },
+    zones: { nsl_single: 'rural', nsl_dual: 'trunk', nsl_restricted: 'urban' },
+  },
+  GR: { alpha3: 'GRC', limits: { motorway: 130, trunk: 110, primary: 90, rural: 90, urban: 50, living_street: 20 } },
+  HR: { alpha3: 'HRV', limits: { motorway: 130, trunk: 110, primary: 90, rural: 90, urban: 50, living_street: 10 } },
+  HU: { alpha3: 'HUN', limits: { motorway: 130, trunk: 110, primary: 90, rural: 90, urban: 50, living_street: 20 } },
+  IE: { alpha3: 'IRL', limits: { motorway: 120, trunk: 100, primary: 100, rural: 80, urban: 50, living_street: 20 } },
+  IT: { alpha3: 'ITA', limits: { motorway: 130, trunk: 110, primary: 90, rural: 90, urban: 50, living_street: 20 } },
+  ME: { alpha3: 'MNE', limits: { motorway: 130, trunk: 100, primary: 80, rural: 80, urban: 50, living_street: 10 } },
+  MK: { alpha3: 'MKD', limits: { motorway: 130, trunk: 100, primary: 80, rural: 80, urban: 50, living_street: 10 } },
+  NL: { alpha3: 'NLD', limits: { motorway: 100, trunk: 100, primary: 80, rural: 80, urban: 50, living_street: 15 } },
+  PL: { alpha3: 'POL', limits: { motorway: 140, trunk: 120, primary: 90, rural: 90, urban: 50, living_street: 20 } },
+  PT: { alpha3: 'PRT', limits: { motorway: 120, trunk: 100, primary: 90, rural: 90, urban: 50, living_street: 20 } },
+  RO: { alpha3: 'ROU', limits: { motorway: 130, trunk: 100, primary: 90, rural: 90, urban: 50, living_street: 20 } },
+  RS: { alpha3: 'SRB', limits: { motorway: 130, trunk: 100, primary: 80, rural: 80, urban: 50, living_street: 10 } },
+  SI: { alpha3: 'SVN', limits: { motorway: 130, trunk: 110, primary: 90, rural: 90, urban: 50, living_street: 10 } },
+  SK: { alpha3: 'SVK', limits: { motorway: 130, trunk: 90, primary: 90, rural: 90, urban: 50, living_street: 20 } },
+  TR: { alpha3: 'TUR', limits: { motorway: 120, trunk: 110, primary: 90, rural: 90, urban: 50, living_street: 20 } },
+  XK: { alpha3: 'XKX', limits: { motorway: 130, trunk: 100, primary: 80, rural: 80, urban: 50, living_street: 10 } },
+};
+
+// Used when the country is unknown or not in the table
+const FALLBACK_LIMITS: { [roadClass in RoadClass]: number } = {
+  motorway: 130,
+  trunk: 100,
+  primary: 90,
+  rural: 80,
+  urban: 50,
+  living_street: 10,
+};
+
+/**
+ * Normalize an ISO alpha-2 or alpha-3 country code (HERE returns alpha-3) to alpha-2
+ */
+export const normalizeCountryCode = (code: string | null | undefined): string | null => {
+  if (!code) return null;
+  const upper = code.trim().toUpperCase();
+  if (upper.length === 2) return upper;
+  if (upper.length === 3) {
+    const entry = Object.entries(COUNTRY_DEFAULTS).find(([, defaults]) => defaults.alpha3 === upper);
+    return entry ? entry[0] : null;
+  }
+  return null;
+};
+
+/**
+ * Map an OSM `highway` tag to the road class used by the defaults table
+ */
+export const roadClassFromHighway = (highway: string | undefined): RoadClass | null => {
+  switch (highway) {
+    case 'motorway':
+    case 'motorway_link':
+      return 'motorway';
+    case 'trunk':
+    case 'trunk_link':
+      return 'trunk';
+    case 'primary':
+    case 'primary_link':
+      return 'primary';
+    case 'secondary':
+    case 'secondary_link':
+    case 'tertiary':
+    case 'tertiary_link':
+    case 'unclassified':
+      return 'rural';
+    case 'residential':
+    case 'service':
+      return 'urban';
+    case 'living_street':
+      return 'living_street';
+    default:
+      return null;
+  }
+};
+
+/**
+ * General speed limit for a road class in a country, falling back to common European values
+ */
+export const getDefaultSpeedLimit = (countryCode: string | null | undefined, roadClass: RoadClass): DefaultSpeedLimit => {
+  const code = normalizeCountryCode(countryCode);
+  const defaults = code ? COUNTRY_DEFAULTS[code] : undefined;
+
+  if (!defaults) {
+    const speedLimit = FALLBACK_LIMITS[roadClass];
+    return { speedLimit, nativeSpeedLimit: speedLimit, unit: 'km/h', countryCode: null, roadClass };
+  }
+
+  const unit = defaults.unit ?? 'km/h';
+  const nativeSpeedLimit = defaults.limits[roadClass];
+  return {
+    speedLimit: nativeSpeedLimit === null ? null : toKmh(nativeSpeedLimit, unit),
+    nativeSpeedLimit,
+    unit,
+    countryCode: code,
+    roadClass,
+  };
+};
+
+/**
+ * Resolve an implicit maxspeed zone code (the part after "RS:") for a country.
+ * Returns undefined when the country or zone is not known.
+ */
+export const getImplicitZoneLimit = (
+  countryCode: string,
+  zone: string
+): { nativeSpeedLimit: number | null; unit: SpeedUnit } | undefined => {
+  const defaults = COUNTRY_DEFAULTS[countryCode.toUpperCase()];
+  if (!defaults) return undefined;
+
+  const unit = defaults.unit ?? 'km/h';
+  const zoneEntry = defaults.zones?.[zone];
+  if (typeof zoneEntry === 'number') {
+    return { nativeSpeedLimit: zoneEntry, unit };
+  }
+
+  const roadClass = zoneEntry ?? (zone in defaults.limits ? zone as RoadClass : undefined);
+  if (!roadClass) return undefined;
+  return { nativeSpeedLimit: defaults.limits[roadClass], unit };
+};
+
+export const getCountryUnit = (countryCode: string): SpeedUnit => {
+  return COUNTRY_DEFAULTS[countryCode.toUpperCase()]?.unit ?? 'km/h';
+};
@@ -0,0 +1,59 @@
+import { LocationData } from './locationService';
+import { SpeedLimitData } from './speedLimitService';
+import { SpeedLimitConditions } from './maxspeedConditional';
+import { VehicleProfile } from './vehicleProfileService';
+
+/**
+ * A source of speed limit data. Built-in providers are HERE and OpenStreetMap;
+ * custom ones (e.g. a company road database) can be registered with SpeedLimitService.
+ */
+export interface SpeedLimitProvider {
+  /** Stable identifier, also used as the default `source` on returned data */
+  readonly id: string;
+  /** Human readable name for logs and the UI */
+  readonly name: string;
+  /** Local providers answer from on-device data and are queried before network providers */
+  readonly isLocal?: boolean;
+  getSpeedLimit(location: LocationData, context?: SpeedLimitQueryContext): Promise<SpeedLimitData | null>;
+}
+
+/**
+ * Extra information SpeedLimitService passes along to help providers pick the right road
+ */
+export interface SpeedLimitQueryContext {
+  /** Course over ground in degrees from true north, derived from recent fixes; null when stationary */
+  course: number | null;
+  /** Recent fixes, oldest first, including the current one */
+  recentLocations: LocationData[];
+  /** Last successful match, for continuity with the road we were already on */
+  previousMatch: SpeedLimitData | null;
+  /** ISO 3166-1 alpha-2 country of the current position when known, for country default limits */
+  countryCode?: string | null;
+  /** Road, weather and vehicle conditions for conditional limits (maxspeed:conditional, :wet, :hgv) */
+  conditions?: SpeedLimitConditions;
+  /** Active vehicle profile, for providers that route by vehicle type (e.g. HERE transportMode) */
+  vehicle?: VehicleProfile;
+  /** Local providers may answer from expired data; only set once the network providers failed or were rate limited */
+  allowStale?: boolean;
+}
+
+export interface SpeedLimitProviderOptions {
+  /** Lower values are queried first */
+  priority: number;
+  /** Maximum time to wait for the provider before moving on, in milliseconds */
+  timeout: number;
+}
+
+export interface SpeedLimitProviderHealth {
+  healthy: boolean;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastSuccess: number | null;
+  disabledUntil: number | null;
+}
+
+export interface SpeedLimitProviderStatus extends SpeedLimitProviderOptions {
+  id: string;
+  name: string;
+  health: SpeedLimitProviderHealth;
+}
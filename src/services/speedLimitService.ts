@@ -1,24 +1,76 @@
-import { LocationData } from './locationService';
+import { LocationData, LocationService } from './locationService';
 import { HereSpeedLimitService } from './hereSpeedLimitService';
+import { OfflineSpeedLimitProvider, OsmSpeedLimitProvider } from './osmSpeedLimitProvider';
+import {
+  SpeedLimitProvider,
+  SpeedLimitProviderHealth,
+  SpeedLimitProviderOptions,
+  SpeedLimitProviderStatus,
+  SpeedLimitQueryContext,
+} from './speedLimitProvider';
+import { MaxspeedUnit, ParsedMaxspeed } from './maxspeedParser';
+import { DEFAULT_SPEED_LIMIT_CONDITIONS, SpeedLimitConditions, TravelDirection } from './maxspeedConditional';
+import { VehicleProfile, VehicleProfileService } from './vehicleProfileService';
+import { PreferencesService, SpeedLimitPreferences } from './preferencesService';
+import { haversineDistance, initialBearing } from '../utils/geo';
+
+// Built-in sources keep their literal types; custom providers report their own id
+export type SpeedLimitSource = 'here' | 'osm' | 'default' | (string & {});
 
 export interface SpeedLimitData {
   speedLimit: number | null; // in km/h
-  unit: 'km/h' | 'mph';
+  nativeSpeedLimit?: number | null; // as signed on the road, in `unit`
+  unit: MaxspeedUnit; // unit the limit is signed in
+  maxspeed?: ParsedMaxspeed; // structured OSM maxspeed, incl. whether it was explicit or implied
   road: string | null;
+  roadId?: string; // Provider-specific road identifier, e.g. 'osm:way/123'
   accuracy: 'high' | 'medium' | 'low';
+  matchConfidence?: number; // 0-1 road matching confidence behind `accuracy`
   timestamp: number;
-  source?: 'here' | 'osm' | 'default';
+  source?: SpeedLimitSource;
+  condition?: string | null; // Condition of the limit in effect, e.g. 'wet' or 'Mo-Fr 07:00-17:00'; null for the plain limit
+  timeDependent?: boolean; // The road has time-based limits, so cached values go stale quickly
+  direction?: TravelDirection; // Direction along the road the limit was resolved for
+  roadSpeedLimit?: number | null; // Posted limit in km/h when the vehicle's own speed cap is lower
+}
+
+interface RegisteredProvider extends SpeedLimitProviderOptions {
+  provider: SpeedLimitProvider;
+  health: SpeedLimitProviderHealth;
 }
 
 export class SpeedLimitService {
   private static instance: SpeedLimitService;
   private lastKnownSpeedLimit: SpeedLimitData | null = null;
   private cache: Map<string, SpeedLimitData> = new Map();
-  private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+  private readonly TIME_DEPENDENT_CACHE_DURATION = 60 * 1000; // Re-evaluate time conditions every minute
   private lastSpeedLimitRequest: number = 0;
-  private readonly MIN_REQUEST_INTERVAL = 15000; // 15 seconds between speed limit requests
+  private preferences: SpeedLimitPreferences; // Lookup interval, cache duration, alert tolerance, HERE key
   private hereService: HereSpeedLimitService | null = null;
-  private useHereAPI: boolean = false;
+  private providers: RegisteredProvider[] = [];
+  private recentLocations: LocationData[] = [];
+  private conditions: SpeedLimitConditions = { ...DEFAULT_SPEED_LIMIT_CONDITIONS };
+  private vehicleProfile: VehicleProfile;
+  private readonly RECENT_LOCATION_WINDOW = 30000; // 30 seconds of fixes for course estimation
+  private readonly MIN_COURSE_DISTANCE = 15; // meters travelled before a course is trusted
+  private readonly MIN_COURSE_SPEED = 2; // m/s, below this the course is mostly noise
+  private readonly DEFAULT_PROVIDER_PRIORITY = 100;
+  private readonly DEFAULT_PROVIDER_TIMEOUT = 12000; // 12 seconds
+  private readonly MAX_CONSECUTIVE_FAILURES = 3;
+  private readonly PROVIDER_COOLDOWN = 2 * 60 * 1000; // 2 minutes
+
+  constructor() {
+    this.registerProvider(new OfflineSpeedLimitProvider(), { priority: 0, timeout: 2000 });
+    this.registerProvider(new OsmSpeedLimitProvider(), { priority: 20, timeout: 30000 });
+
+    const vehicleProfileService = VehicleProfileService.getInstance();
+    this.applyVehicleProfile(vehicleProfileService.getActiveProfile());
+    vehicleProfileService.addProfileListener(profile => this.applyVehicleProfile(profile));
+
+    const preferencesService = PreferencesService.getInstance();
+    this.applyPreferences(preferencesService.get('speedLimits'));
+    preferencesService.addPreferencesListener(preferences => this.applyPreferences(preferences.speedLimits));
+  }
 
   static getInstance(): SpeedLimitService {
     if (!SpeedLimitService.instance) {
@@ -37,81 +89,132 @@ export class SpeedLimitService {
         requestTimeout: 10000, // 10 seconds
         maxRetries: 2
       });
-      this.useHereAPI = true;
+      this.hereService.setApiKey(apiKey); // The instance outlives key changes
+      // After OSM: HERE's free tier only yields a country default for the road name, never a signed limit
+      this.registerProvider(this.hereService, { priority: 30, timeout: 20000 });
       console.log('HERE API initialized for speed limits');
     } catch (error) {
       console.error('Failed to initialize HERE API:', error);
-      this.useHereAPI = false;
+      this.unregisterProvider('here');
     }
   }
 
   /**
-   * Get speed limit with multi-tier fallback: HERE API -> OpenStreetMap -> Serbian defaults
+   * Apply changed speed limit preferences. The HERE provider follows the API key.
+   */
+  private applyPreferences(preferences: SpeedLimitPreferences): void {
+    const previousKey = this.preferences?.hereApiKey ?? '';
+    this.preferences = preferences;
+
+    if (preferences.hereApiKey === previousKey) return;
+    if (preferences.hereApiKey) {
+      this.initializeHereAPI(preferences.hereApiKey);
+    } else {
+      this.hereService = null;
+      this.unregisterProvider('here');
+      console.log('HERE API disabled for speed limits');
+    }
+  }
+
+  /**
+   * Register a speed limit provider. Providers are queried in priority order
+   * (lowest first) until one returns data; re-registering an id replaces it.
+   */
+  registerProvider(provider: SpeedLimitProvider, options: Partial<SpeedLimitProviderOptions> = {}): void {
+    this.unregisterProvider(provider.id);
+    this.providers.push({
+      provider,
+      priority: options.priority ?? this.DEFAULT_PROVIDER_PRIORITY,
+      timeout: options.timeout ?? this.DEFAULT_PROVIDER_TIMEOUT,
+      health: {
+        healthy: true,
+        consecutiveFailures: 0,
+        lastError: null,
+        lastSuccess: null,
+        disabledUntil: null,
+      },
+    });
+    this.providers.sort((a, b) => a.priority - b.priority);
+    console.log(`Speed limit provider registered: ${provider.name}`);
+  }
+
+  unregisterProvider(id: string): void {
+    this.providers = this.providers.filter(entry => entry.provider.id !== id);
+  }
+
+  /**
+   * Registered providers with their options and current health, in query order
+   */
+  getProviders(): SpeedLimitProviderStatus[] {
+    return this.providers.map(({ provider, priority, timeout, health }) => ({
+      id: provider.id,
+      name: provider.name,
+      priority,
+      timeout,
+      health: { ...health },
+    }));
+  }
+
+  /**
+   * Get speed limit from the registered providers in priority order, falling back to the last known value
    */
   async getSpeedLimit(location: LocationData): Promise<SpeedLimitData | null> {
     try {
       const { latitude, longitude } = location;
       const now = Date.now();
+
+      this.recordLocation(location);
+      const context = this.buildQueryContext();
       
-      // Create cache key based on rounded coordinates (more precise for speed limits)
-      const cacheKey = `${latitude.toFixed(3)},${longitude.toFixed(3)}`;
+      // Create cache key based on rounded coordinates (more precise for speed limits),
+      // split by 45° course sector so parallel roads and overpasses don't share entries
+      const courseSector = context.course === null ? 'x' : Math.round(context.course / 45) % 8;
+      const cacheKey = `${latitude.toFixed(3)},${longitude.toFixed(3)},${courseSector}`;
       
       // Check cache first
       const cached = this.cache.get(cacheKey);
-      if (cached && (now - cached.timestamp) < this.CACHE_DURATION) {
-        this.lastKnownSpeedLimit = cached;
-        return cached;
-      }
-
-      // Rate limiting: Don't make requests too frequently for GPS apps
-      if (now - this.lastSpeedLimitRequest < this.MIN_REQUEST_INTERVAL) {
-        console.log('Speed limit request rate limited - using cached data');
+      const maxAge = cached?.timeDependent ? this.TIME_DEPENDENT_CACHE_DURATION : this.preferences.cacheDuration;
+      if (cached && (now - cached.timestamp) < maxAge) {
+        this.lastKnownSpeedLimit = this.applySpeedCap(cached);
         return this.lastKnownSpeedLimit;
       }
 
-      this.lastSpeedLimitRequest = now;
-
-      let speedLimitData: SpeedLimitData | null = null;
+      // On-device data first: no network, so it is not subject to rate limiting
+      let speedLimitData = await this.queryProviders(location, context, true);
 
-      // Try HERE API first (if available and within limits)
-      if (this.useHereAPI && this.hereService) {
-        try {
-          console.log('Trying HERE API for speed limit...');
-          speedLimitData = await this.hereService.getSpeedLimit(location);
-          if (speedLimitData) {
-            speedLimitData.source = 'here';
-            console.log('Speed limit found via HERE API:', speedLimitData);
-          }
-        } catch (error) {
-          console.log('HERE API failed, falling back to OpenStreetMap:', error.message);
+      if (!speedLimitData) {
+        // Rate limiting: Don't make requests too frequently for GPS apps
+        const rateLimited = now - this.lastSpeedLimitRequest < this.preferences.minRequestInterval;
+        if (!rateLimited) {
+          this.lastSpeedLimitRequest = now;
+          speedLimitData = await this.queryProviders(location, context, false);
         }
-      }
 
-      // Fallback to OpenStreetMap if HERE failed or unavailable
-      if (!speedLimitData) {
-        try {
-          console.log('Trying OpenStreetMap for speed limit...');
-          speedLimitData = await this.getSpeedLimitFromOSM(latitude, longitude);
-          if (speedLimitData) {
-            speedLimitData.source = 'osm';
-            console.log('Speed limit found via OpenStreetMap:', speedLimitData);
+        if (!speedLimitData) {
+          // Expired on-device data beats nothing; not cached, so the network is tried again next time
+          const staleData = await this.queryProviders(location, { ...context, allowStale: true }, true);
+          if (staleData) {
+            this.lastKnownSpeedLimit = this.applySpeedCap(staleData);
+            return this.lastKnownSpeedLimit;
+          }
+          if (rateLimited) {
+            console.log('Speed limit request rate limited - using cached data');
+            return this.lastKnownSpeedLimit;
           }
-        } catch (error) {
-          console.log('OpenStreetMap failed:', error.message);
         }
       }
 
       // Cache and return result if found
       if (speedLimitData) {
         this.cache.set(cacheKey, speedLimitData);
-        this.lastKnownSpeedLimit = speedLimitData;
+        this.lastKnownSpeedLimit = this.applySpeedCap(speedLimitData);
         this.cleanCache();
-        return speedLimitData;
+        return this.lastKnownSpeedLimit;
       }
 
       // Return last known speed limit if available
       if (this.lastKnownSpeedLimit && 
-          (Date.now() - this.lastKnownSpeedLimit.timestamp) < this.CACHE_DURATION * 2) {
+          (Date.now() - this.lastKnownSpeedLimit.timestamp) < this.preferences.cacheDuration * 2) {
         return { ...this.lastKnownSpeedLimit, accuracy: 'low' };
       }
       
@@ -123,145 +226,172 @@ export class SpeedLimitService {
   }
 
   /**
-   * Get speed limit from OpenStreetMap (fallback method)
+   * Try each healthy local or network provider in order, with a per-provider timeout
    */
-  private async getSpeedLimitFromOSM(latitude: number, longitude: number): Promise<SpeedLimitData | null> {
-    const overpassQuery = this.buildOverpassQuery(latitude, longitude);
-    const response = await fetch('https://overpass-api.de/api/interpreter', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: `data=${encodeURIComponent(overpassQuery)}`,
-    });
+  private async queryProviders(location: LocationData, context: SpeedLimitQueryContext, local: boolean): Promise<SpeedLimitData | null> {
+    for (const entry of this.providers) {
+      if (!!entry.provider.isLocal !== local) continue;
+
+      const { provider, health } = entry;
 
-    if (!response.ok) {
-      throw new Error(`Overpass API error: ${response.status}`);
+      if (health.disabledUntil && Date.now() < health.disabledUntil) {
+        console.log(`Skipping ${provider.name} - disabled after repeated failures`);
+        continue;
+      }
+
+      try {
+        console.log(`Trying ${provider.name} for speed limit...`);
+        const speedLimitData = await this.withTimeout(provider.getSpeedLimit(location, context), entry.timeout, provider.name);
+        this.markProviderSuccess(entry);
+
+        if (speedLimitData) {
+          speedLimitData.source = speedLimitData.source ?? provider.id;
+          console.log(`Speed limit found via ${provider.name}:`, speedLimitData);
+          return speedLimitData;
+        }
+      } catch (error) {
+        this.markProviderFailure(entry, error);
+        console.log(`${provider.name} failed:`, error.message);
+      }
     }
 
-    const data = await response.json();
-    return this.parseOverpassResponse(data, latitude, longitude);
+    return null;
   }
 
   /**
-   * Build Overpass API query to find nearby roads with speed limits
+   * Keep a short window of fixes for course estimation. Several screens ask for
+   * the same fix, so duplicates are ignored.
    */
-  private buildOverpassQuery(lat: number, lon: number): string {
-    const radius = 200; // Search within 200 meters (was too small at 50m)
-    
-    return `
-      [out:json][timeout:10];
-      (
-        way["highway"]["maxspeed"](around:${radius},${lat},${lon});
-      );
-      out geom;
-    `;
+  private recordLocation(location: LocationData): void {
+    const last = this.recentLocations[this.recentLocations.length - 1];
+    if (last && location.timestamp <= last.timestamp) return;
+
+    this.recentLocations.push(location);
+    const cutoff = location.timestamp - this.RECENT_LOCATION_WINDOW;
+    this.recentLocations = this.recentLocations.filter(fix => fix.timestamp >= cutoff);
+  }
+
+  private buildQueryContext(): SpeedLimitQueryContext {
+    return {
+      course: this.estimateCourse(),
+      recentLocations: [...this.recentLocations],
+      previousMatch: this.lastKnownSpeedLimit,
+      countryCode: LocationService.getInstance().getLastPlaceInfo()?.countryCode ?? null,
+      conditions: { ...this.conditions },
+      vehicle: this.vehicleProfile,
+    };
   }
 
   /**
-   * Parse Overpass API response and find the most relevant speed limit
+   * Vehicle type, weight and trailer decide which HGV/trailer limits apply
    */
-  private parseOverpassResponse(data: any, lat: number, lon: number): SpeedLimitData | null {
-    if (!data.elements || data.elements.length === 0) {
-      return null;
-    }
-
-    let bestMatch: any = null;
-    let minDistance = Infinity;
-
-    // Find the closest road with a speed limit
-    for (const element of data.elements) {
-      if (element.tags && element.tags.maxspeed && element.geometry) {
-        // Calculate distance to the road
-        const distance = this.calculateDistanceToRoad(lat, lon, element.geometry);
-        
-        if (distance < minDistance) {
-          minDistance = distance;
-          bestMatch = element;
-        }
-      }
-    }
+  private applyVehicleProfile(profile: VehicleProfile): void {
+    this.vehicleProfile = profile;
+    this.setConditions({
+      hgv: VehicleProfileService.isHgv(profile),
+      trailer: profile.trailer,
+      weight: profile.maxWeight,
+    });
+  }
 
-    if (!bestMatch) {
-      return null;
+  /**
+   * The vehicle's own speed cap (e.g. 80 km/h for trucks) wins over a higher posted limit
+   */
+  private applySpeedCap(data: SpeedLimitData): SpeedLimitData {
+    const cap = this.vehicleProfile.speedCap;
+    if (cap === null || (data.speedLimit !== null && data.speedLimit <= cap)) {
+      return data;
     }
 
-    const speedLimit = this.parseSpeedLimit(bestMatch.tags.maxspeed);
-    const roadName = bestMatch.tags.name || bestMatch.tags.ref || 'Unknown Road';
-    
-    // Determine accuracy based on distance
-    let accuracy: 'high' | 'medium' | 'low' = 'high';
-    if (minDistance > 20) accuracy = 'medium';
-    if (minDistance > 35) accuracy = 'low';
-
     return {
-      speedLimit: speedLimit.value,
-      unit: speedLimit.unit,
-      road: roadName,
-      accuracy,
-      timestamp: Date.now(),
+      ...data,
+      speedLimit: cap,
+      nativeSpeedLimit: cap,
+      unit: 'km/h',
+      roadSpeedLimit: data.speedLimit,
+      condition: this.vehicleProfile.name,
     };
   }
 
   /**
-   * Calculate distance from point to road (simplified)
+   * Update the road/vehicle conditions used for conditional limits (wet road,
+   * towing, weight). Cached limits are dropped so the change applies at once.
    */
-  private calculateDistanceToRoad(lat: number, lon: number, geometry: any[]): number {
-    let minDistance = Infinity;
-
-    for (const point of geometry) {
-      const distance = this.calculateDistance(lat, lon, point.lat, point.lon);
-      if (distance < minDistance) {
-        minDistance = distance;
-      }
-    }
+  setConditions(conditions: Partial<SpeedLimitConditions>): void {
+    this.conditions = { ...this.conditions, ...conditions };
+    this.cache.clear();
+  }
 
-    return minDistance * 1000; // Convert to meters
+  getConditions(): SpeedLimitConditions {
+    return { ...this.conditions };
   }
 
   /**
-   * Calculate distance between two points in kilometers
+   * Course over ground from the newest fix back to the most recent fix that
+   * is far enough away for the bearing to be meaningful
    */
-  private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = this.toRadians(lat2 - lat1);
-    const dLon = this.toRadians(lon2 - lon1);
-    
-    const a = 
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.toRadians(lat1)) * Math.cos(this.toRadians(lat2)) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
+  private estimateCourse(): number | null {
+    const fixes = this.recentLocations;
+    if (fixes.length < 2) return null;
+
+    const latest = fixes[fixes.length - 1];
+    if (latest.speed !== null && latest.speed < this.MIN_COURSE_SPEED) return null;
+
+    for (let i = fixes.length - 2; i >= 0; i--) {
+      const previous = fixes[i];
+      const distance = haversineDistance(previous.latitude, previous.longitude, latest.latitude, latest.longitude);
+      const noise = Math.max(previous.accuracy ?? 0, latest.accuracy ?? 0);
+      if (distance >= Math.max(this.MIN_COURSE_DISTANCE, noise)) {
+        return initialBearing(previous.latitude, previous.longitude, latest.latitude, latest.longitude);
+      }
+    }
+    return null;
   }
 
-  private toRadians(degrees: number): number {
-    return degrees * (Math.PI / 180);
+  private withTimeout<T>(promise: Promise<T>, timeout: number, name: string): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timeoutId = setTimeout(() => reject(new Error(`${name} timed out after ${timeout}ms`)), timeout);
+      promise.then(
+        value => {
+          clearTimeout(timeoutId);
+          resolve(value);
+        },
+        error => {
+          clearTimeout(timeoutId);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private markProviderSuccess(entry: RegisteredProvider): void {
+    entry.health = {
+      healthy: true,
+      consecutiveFailures: 0,
+      lastError: null,
+      lastSuccess: Date.now(),
+      disabledUntil: null,
+    };
   }
 
   /**
-   * Parse speed limit string to number and unit
+   * Track failures; a provider that keeps failing is skipped for a cool-down period
    */
-  private parseSpeedLimit(maxspeed: string): { value: number | null; unit: 'km/h' | 'mph' } {
-    if (!maxspeed) return { value: null, unit: 'km/h' };
+  private markProviderFailure(entry: RegisteredProvider, error: any): void {
+    const consecutiveFailures = entry.health.consecutiveFailures + 1;
+    const shouldDisable = consecutiveFailures >= this.MAX_CONSECUTIVE_FAILURES;
+
+    entry.health = {
+      ...entry.health,
+      healthy: !shouldDisable,
+      consecutiveFailures,
+      lastError: error?.message ?? String(error),
+      disabledUntil: shouldDisable ? Date.now() + this.PROVIDER_COOLDOWN : null,
+    };
 
-    // Handle common formats
-    const cleaned = maxspeed.toLowerCase().trim();
-    
-    // Extract number
-    const numberMatch = cleaned.match(/(\d+)/);
-    if (!numberMatch) return { value: null, unit: 'km/h' };
-    
-    const value = parseInt(numberMatch[1], 10);
-    
-    // Determine unit
-    const unit = cleaned.includes('mph') ? 'mph' : 'km/h';
-    
-    // Convert mph to km/h if needed
-    const speedInKmh = unit === 'mph' ? Math.round(value * 1.60934) : value;
-    
-    return { value: speedInKmh, unit: 'km/h' };
+    if (shouldDisable) {
+      console.log(`${entry.provider.name} disabled for ${this.PROVIDER_COOLDOWN / 1000}s after ${consecutiveFailures} failures`);
+    }
   }
 
   /**
@@ -270,7 +400,7 @@ export class SpeedLimitService {
   private cleanCache(): void {
     const now = Date.now();
     for (const [key, data] of this.cache.entries()) {
-      if (now - data.timestamp > this.CACHE_DURATION) {
+      if (now - data.timestamp > this.preferences.cacheDuration) {
         this.cache.delete(key);
       }
     }
@@ -289,11 +419,18 @@ export class SpeedLimitService {
   isSpeedingAlert(currentSpeedKmh: number | null, speedLimit: number | null): boolean {
     if (!currentSpeedKmh || !speedLimit) return false;
     
-    // Allow 5% tolerance to account for GPS inaccuracy
-    const tolerance = speedLimit * 0.05;
+    // Tolerance comes from the vehicle profile (5% for cars) unless overridden, to account for GPS inaccuracy
+    const tolerance = speedLimit * (this.getAlertTolerance() / 100);
     return currentSpeedKmh > (speedLimit + tolerance);
   }
 
+  /**
+   * Percent over the limit tolerated before a speeding alert
+   */
+  getAlertTolerance(): number {
+    return this.preferences.speedingTolerance ?? this.vehicleProfile.alertTolerance;
+  }
+
   /**
    * Get HERE API usage statistics
    */
@@ -308,7 +445,7 @@ export class SpeedLimitService {
    * Check if HERE API is enabled and available
    */
   isHereAPIEnabled(): boolean {
-    return this.useHereAPI && this.hereService !== null;
+    return this.hereService !== null && this.providers.some(entry => entry.provider.id === 'here');
   }
 
   /**
@@ -317,5 +454,6 @@ export class SpeedLimitService {
   reset(): void {
     this.cache.clear();
     this.lastKnownSpeedLimit = null;
+    this.recentLocations = [];
   }
 }
@@ -0,0 +1,384 @@
+import * as FileSystem from 'expo-file-system';
+import { haversineDistance } from '../utils/geo';
+
+export interface OverpassWay {
+  id: number;
+  tags: { [key: string]: string };
+  geometry: { lat: number; lon: number }[];
+}
+
+export interface SpeedLimitTile {
+  z: number;
+  x: number;
+  y: number;
+  fetchedAt: number;
+  expiresAt: number;
+  ways: OverpassWay[];
+}
+
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface TilePrefetchProgress {
+  completed: number;
+  total: number;
+  failed: number;
+}
+
+export interface TilePrefetchResult {
+  downloaded: number;
+  skipped: number;
+  failed: number;
+  total: number;
+}
+
+/**
+ * Persistent store of Overpass road geometry (every way with a maxspeed, plus
+ * untagged classified roads for country defaults), one JSON file per
+ * slippy-map tile. Lets speed limits resolve in tunnels and dead zones.
+ */
+export class SpeedLimitTileStore {
+  private static instance: SpeedLimitTileStore;
+  private memoryCache: Map<string, SpeedLimitTile> = new Map();
+  private directoryReady: boolean = false;
+  private readonly TILE_ZOOM = 15; // ~1.2 km tiles at the equator, ~0.85 km around Belgrade
+  private readonly TILE_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+  private readonly TILE_MARGIN = 0.0015; // ~150 m so ways crossing the tile edge are included
+  private readonly MEMORY_CACHE_SIZE = 32;
+  private readonly MAX_PREFETCH_TILES = 400;
+  private readonly PREFETCH_DELAY = 1000; // Be polite to the public Overpass instance
+  private readonly OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
+  private readonly directory = `${FileSystem.documentDirectory}speed-limit-tiles/`;
+
+  static getInstance(): SpeedLimitTileStore {
+    if (!SpeedLimitTileStore.instance) {
+      SpeedLimitTileStore.instance = new SpeedLimitTileStore();
+    }
+    return SpeedLimitTileStore.instance;
+  }
+
+  /**
+   * Get the stored tile covering a coordinate. Expired tiles are only returned
+   * when `allowExpired` is set (e.g. as a last resort while offline).
+   */
+  async getTileForLocation(latitude: number, longitude: number, allowExpired: boolean = false): Promise<SpeedLimitTile | null> {
+    const { x, y } = this.toTile(latitude, longitude);
+    return this.getTile(x, y, allowExpired);
+  }
+
+  async getTile(x: number, y: number, allowExpired: boolean = false): Promise<SpeedLimitTile | null> {
+    const key = this.tileKey(x, y);
+    let tile = this.memoryCache.get(key) || null;
+
+    if (!tile) {
+      tile = await this.readTile(x, y);
+      if (tile) {
+        this.remember(key, tile);
+      }
+    }
+
+    if (!tile) return null;
+    if (!allowExpired && Date.now() > tile.expiresAt) return null;
+    return tile;
+  }
+
+  /**
+   * Download (or refresh) the tile covering a coordinate and persist it
+   */
+  async fetchTileForLocation(latitude: number, longitude: number): Promise<SpeedLimitTile> {
+    const { x, y } = this.toTile(latitude, longitude);
+    return this.fetchTile(x, y);
+  }
+
+  async fetchTile(x: number, y: number): Promise<SpeedLimitTile> {
+    const bbox = this.tileToBoundingBox(x, y);
+    const area = `${bbox.south - this.TILE_MARGIN},${bbox.west - this.TILE_MARGIN},${bbox.north + this.TILE_MARGIN},${bbox.east + this.TILE_MARGIN}`;
+    const query = `
+      [out:json][timeout:25];
+      (
+        way["highway"]["maxspeed"](${area});
+        way["highway"]["maxspeed:forward"](${area});
+        way["highway"]["maxspeed:backward"](${area});
+        way["highway"~"^(motorway|trunk|primary|secondary|tertiary)(_link)?$|^(unclassified|residential|living_street)$"](${area});
+      );
+      out geom;
+    `;
+
+    const response = await fetch(this.OVERPASS_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: `data=${encodeURIComponent(query)}`,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Overpass API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const ways: OverpassWay[] = (data.elements || [])
+      .filter((element: any) => element.type === 'way' && element.tags && element.geometry)
+      .map((element: any) => ({
+        id: element.id,
+        tags: element.tags,
+        geometry: element.geometry.map((point: any) => ({ lat: point.lat, lon: point.lon })),
+      }));
+
+    const now = Date.now();
+    const tile: SpeedLimitTile = {
+      z: this.TILE_ZOOM,
+      x,
+      y,
+      fetchedAt: now,
+      expiresAt: now + this.TILE_TTL,
+      ways,
+    };
+
+    await this.writeTile(tile);
+    this.remember(this.tileKey(x, y), tile);
+    return tile;
+  }
+
+  /**
+   * Pre-download every tile intersecting a bounding box for offline use
+   */
+  async prefetchBoundingBox(bbox: BoundingBox, onProgress?: (progress: TilePrefetchProgress) => void): Promise<TilePrefetchResult> {
+    return this.prefetchTiles(this.tilesForBoundingBox(bbox), onProgress);
+  }
+
+  /**
+   * Pre-download the tiles within `corridorMeters` of a route polyline
+   */
+  async prefetchRouteCorridor(
+    route: { latitude: number; longitude: number }[],
+    corridorMeters: number = 500,
+    onProgress?: (progress: TilePrefetchProgress) => void
+  ): Promise<TilePrefetchResult> {
+    const tiles = new Map<string, { x: number; y: number }>();
+    const addPoint = (latitude: number, longitude: number) => {
+      const latDelta = corridorMeters / 111320;
+      const lonDelta = corridorMeters / (111320 * Math.max(Math.cos(latitude * Math.PI / 180), 0.01));
+      for (const tile of this.tilesForBoundingBox({
+        south: latitude - latDelta,
+        west: longitude - lonDelta,
+        north: latitude + latDelta,
+        east: longitude + lonDelta,
+      })) {
+        tiles.set(this.tileKey(tile.x, tile.y), tile);
+      }
+    };
+
+    // Sample each leg densely enough that no tile between vertices is missed
+    const stepMeters = Math.max(corridorMeters, 200);
+    for (let i = 0; i < route.length; i++) {
+      const point = route[i];
+      addPoint(point.latitude, point.longitude);
+
+      const next = route[i + 1];
+      if (!next) continue;
+
+      const legMeters = haversineDistance(point.latitude, point.longitude, next.latitude, next.longitude);
+      const steps = Math.floor(legMeters / stepMeters);
+      for (let step = 1; step <= steps; step++) {
+        const t = step / (steps + 1);
+        addPoint(
+          point.latitude + (next.latitude - point.latitude) * t,
+          point.longitude + (next.longitude - point.longitude) * t
+        );
+      }
+    }
+
+    return this.prefetchTiles(Array.from(tiles.values()), onProgress);
+  }
+
+  /**
+   * Number of stored tiles and their total size on disk
+   */
+  async getStats(): Promise<{ tileCount: number; sizeBytes: number }> {
+    try {
+      await this.ensureDirectory();
+      const files = await FileSystem.readDirectoryAsync(this.directory);
+      let sizeBytes = 0;
+      for (const file of files) {
+        const info = await FileSystem.getInfoAsync(this.directory + file);
+        if (info.exists && !info.isDirectory) {
+          sizeBytes += info.size;
+        }
+      }
+      return { tileCount: files.length, sizeBytes };
+    } catch (error) {
+      console.error('Error reading tile store stats:', error);
+      return { tileCount: 0, sizeBytes: 0 };
+    }
+  }
+
+  /**
+   * Delete expired tiles from disk
+   */
+  async pruneExpired(): Promise<number> {
+    let removed = 0;
+    try {
+      await this.ensureDirectory();
+      const files = await FileSystem.readDirectoryAsync(this.directory);
+      const now = Date.now();
+      for (const file of files) {
+        try {
+          const tile: SpeedLimitTile = JSON.parse(await FileSystem.readAsStringAsync(this.directory + file));
+          if (now > tile.expiresAt) {
+            await FileSystem.deleteAsync(this.directory + file, { idempotent: true });
+            this.memoryCache.delete(this.tileKey(tile.x, tile.y));
+            removed++;
+          }
+        } catch (error) {
+          // Unreadable tile - drop it so it gets re-downloaded
+          await FileSystem.deleteAsync(this.directory + file, { idempotent: true });
+          removed++;
+        }
+      }
+    } catch (error) {
+      console.error('Error pruning speed limit tiles:', error);
+    }
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    this.memoryCache.clear();
+    try {
+      await FileSystem.deleteAsync(this.directory, { idempotent: true });
+      this.directoryReady = false;
+    } catch (error) {
+      console.error('Error clearing speed limit tiles:', error);
+    }
+  }
+
+  toTile(latitude: number, longitude: number): { x: number; y: number } {
+    const n = Math.pow(2, this.TILE_ZOOM);
+    const latRad = latitude * Math.PI / 180;
+    const x = Math.floor((longitude + 180) / 360 * n);
+    const y = Math.floor((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * n);
+    return {
+      x: Math.min(Math.max(x, 0), n - 1),
+      y: Math.min(Math.max(y, 0), n - 1),
+    };
+  }
+
+  tileToBoundingBox(x: number, y: number): BoundingBox {
+    const n = Math.pow(2, this.TILE_ZOOM);
+    const toLat = (tileY: number) => Math.atan(Math.sinh(Math.PI * (1 - 2 * tileY / n))) * 180 / Math.PI;
+    return {
+      north: toLat(y),
+      south: toLat(y + 1),
+      west: x / n * 360 - 180,
+      east: (x + 1) / n * 360 - 180,
+    };
+  }
+
+  private tilesForBoundingBox(bbox: BoundingBox): { x: number; y: number }[] {
+    const topLeft = this.toTile(bbox.north, bbox.west);
+    const bottomRight = this.toTile(bbox.south, bbox.east);
+    const tiles: { x: number; y: number }[] = [];
+
+    for (let x = topLeft.x; x <= bottomRight.x; x++) {
+      for (let y = topLeft.y; y <= bottomRight.y; y++) {
+        tiles.push({ x, y });
+      }
+    }
+    return tiles;
+  }
+
+  private async prefetchTiles(
+    tiles: { x: number; y: number }[],
+    onProgress?: (progress: TilePrefetchProgress) => void
+  ): Promise<TilePrefetchResult> {
+    if (tiles.length > this.MAX_PREFETCH_TILES) {
+      throw new Error(`Area too large: ${tiles.length} tiles (max ${this.MAX_PREFETCH_TILES})`);
+    }
+
+    const result: TilePrefetchResult = { downloaded: 0, skipped: 0, failed: 0, total: tiles.length };
+    console.log(`Prefetching ${tiles.length} speed limit tiles...`);
+
+    for (const { x, y } of tiles) {
+      const existing = await this.getTile(x, y);
+      if (existing) {
+        result.skipped++;
+      } else {
+        try {
+          await this.fetchTile(x, y);
+          result.downloaded++;
+          await this.delay(this.PREFETCH_DELAY);
+        } catch (error) {
+          console.log(`Failed to prefetch tile ${x}/${y}:`, error.message);
+          result.failed++;
+        }
+      }
+
+      onProgress?.({
+        completed: result.downloaded + result.skipped + result.failed,
+        total: result.total,
+        failed: result.failed,
+      });
+    }
+
+    console.log('Speed limit tile prefetch finished:', result);
+    return result;
+  }
+
+  private async readTile(x: number, y: number): Promise<SpeedLimitTile | null> {
+    try {
+      const path = this.tilePath(x, y);
+      const info = await FileSystem.getInfoAsync(path);
+      if (!info.exists) return null;
+      return JSON.parse(await FileSystem.readAsStringAsync(path));
+    } catch (error) {
+      console.error('Error reading speed limit tile:', error);
+      return null;
+    }
+  }
+
+  private async writeTile(tile: SpeedLimitTile): Promise<void> {
+    try {
+      await this.ensureDirectory();
+      await FileSystem.writeAsStringAsync(this.tilePath(tile.x, tile.y), JSON.stringify(tile));
+    } catch (error) {
+      console.error('Error writing speed limit tile:', error);
+    }
+  }
+
+  private async ensureDirectory(): Promise<void> {
+    if (this.directoryReady) return;
+    const info = await FileSystem.getInfoAsync(this.directory);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(this.directory, { intermediates: true });
+    }
+    this.directoryReady = true;
+  }
+
+  private remember(key: string, tile: SpeedLimitTile): void {
+    // Map preserves insertion order, so re-inserting keeps recently used tiles last
+    this.memoryCache.delete(key);
+    this.memoryCache.set(key, tile);
+    if (this.memoryCache.size > this.MEMORY_CACHE_SIZE) {
+      const oldestKey = this.memoryCache.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.memoryCache.delete(oldestKey);
+      }
+    }
+  }
+
+  private tileKey(x: number, y: number): string {
+    return `${this.TILE_ZOOM}-${x}-${y}`;
+  }
+
+  private tilePath(x: number, y: number): string {
+    return `${this.directory}${this.tileKey(x, y)}.json`;
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
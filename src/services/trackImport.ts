@@ -0,0 +1,245 @@
+import { LocationData } from './locationService';
+import { haversineDistance } from '../utils/geo';
+
+export type TrackFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface ImportedTrack {
+  name: string;
+  format: TrackFormat;
+  points: LocationData[];
+}
+
+interface RawTrackPoint {
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  time: number | null;
+  speed: number | null; // m/s
+  accuracy: number | null;
+}
+
+const SYNTHETIC_SPEED = 50 / 3.6; // m/s, for tracks without timestamps
+const HDOP_TO_METERS = 5; // Rough user range error per unit of HDOP
+
+/**
+ * Detect the format from the file name, falling back to sniffing the content
+ */
+export const detectTrackFormat = (content: string, fileName?: string): TrackFormat | null => {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'gpx' || extension === 'kml') return extension;
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+
+  const start = content.trimStart();
+  if (start.startsWith('{')) return 'geojson';
+  if (/<gpx[\s>]/.test(content)) return 'gpx';
+  if (/<kml[\s>]/.test(content)) return 'kml';
+  return null;
+};
+
+/**
+ * Parse a GPX, KML or GeoJSON track into fixes ready for replay. Missing
+ * timestamps are synthesized at a steady 50 km/h and missing speeds are
+ * derived from neighbouring points.
+ */
+export const parseTrack = (content: string, fileName?: string): ImportedTrack => {
+  const format = detectTrackFormat(content, fileName);
+  if (!format) {
+    throw new Error('Unsupported track format - expected GPX, KML or GeoJSON');
+  }
+
+  const parsed = format === 'gpx' ? parseGpx(content) : format === 'kml' ? parseKml(content) : parseGeoJson(content);
+  if (parsed.points.length < 2) {
+    throw new Error('Track needs at least two points');
+  }
+
+  return {
+    name: parsed.name || fileName?.replace(/\.[^.]+$/, '') || 'Imported track',
+    format,
+    points: toLocationData(parsed.points),
+  };
+};
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+
+const xmlText = (xml: string, tag: string): string | null => {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`));
+  return match ? decodeXml(match[1]) : null;
+};
+
+const xmlNumber = (xml: string, tag: string): number | null => {
+  const text = xmlText(xml, tag);
+  const value = text === null ? NaN : parseFloat(text);
+  return isNaN(value) ? null : value;
+};
+
+const parseTime = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : time;
+};
+
+const parseGpx = (content: string): { name: string | null; points: RawTrackPoint[] } => {
+  const points: RawTrackPoint[] = [];
+
+  // Prefer recorded track points, then planned routes, then loose waypoints
+  for (const tag of ['trkpt', 'rtept', 'wpt']) {
+    const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(content)) !== null) {
+      const attributes = match[1];
+      const body = match[2] || '';
+      const lat = attributes.match(/\blat\s*=\s*["']([^"']+)["']/);
+      const lon = attributes.match(/\blon\s*=\s*["']([^"']+)["']/);
+      if (!lat || !lon) continue;
+
+      const hdop = xmlNumber(body, 'hdop');
+      points.push({
+        latitude: parseFloat(lat[1]),
+        longitude: parseFloat(lon[1]),
+        altitude: xmlNumber(body, 'ele'),
+        time: parseTime(xmlText(body, 'time')),
+        // GPX 1.0 <speed>, Garmin gpxtpx:speed and our own extension
+        speed: xmlNumber(body, 'speed'),
+        accuracy: xmlNumber(body, 'accuracy') ?? (hdop !== null ? hdop * HDOP_TO_METERS : null),
+      });
+    }
+    if (points.length > 0) break;
+  }
+
+  return { name: xmlText(content, 'name'), points };
+};
+
+const parseKml = (content: string): { name: string | null; points: RawTrackPoint[] } => {
+  const name = xmlText(content, 'name');
+
+  // gx:Track carries timestamps: parallel <when> and <gx:coord> lists
+  const track = content.match(/<gx:Track\b[^>]*>([\s\S]*?)<\/gx:Track>/);
+  if (track) {
+    const times = [...track[1].matchAll(/<when>([^<]+)<\/when>/g)].map(match => parseTime(match[1]));
+    const coords = [...track[1].matchAll(/<gx:coord>([^<]+)<\/gx:coord>/g)].map(match => match[1].trim().split(/\s+/).map(Number));
+    const points = coords.map(([longitude, latitude, altitude], index) => ({
+      latitude,
+      longitude,
+      altitude: altitude === undefined || isNaN(altitude) ? null : altitude,
+      time: times[index] ?? null,
+      speed: null,
+      accuracy: null,
+    }));
+    return { name, points };
+  }
+
+  // Plain LineString: "lon,lat[,alt]" tuples separated by whitespace
+  const points: RawTrackPoint[] = [];
+  for (const match of content.matchAll(/<LineString\b[^>]*>[\s\S]*?<coordinates>([\s\S]*?)<\/coordinates>/g)) {
+    for (const tuple of match[1].trim().split(/\s+/)) {
+      const [longitude, latitude, altitude] = tuple.split(',').map(Number);
+      if (isNaN(latitude) || isNaN(longitude)) continue;
+      points.push({
+        latitude,
+        longitude,
+        altitude: altitude === undefined || isNaN(altitude) ? null : altitude,
+        time: null,
+        speed: null,
+        accuracy: null,
+      });
+    }
+  }
+  return { name, points };
+};
+
+const parseGeoJson = (content: string): { name: string | null; points: RawTrackPoint[] } => {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid GeoJSON: ${error.message}`);
+  }
+
+  const features: any[] = data.type === 'FeatureCollection'
+    ? data.features || []
+    : data.type === 'Feature'
+      ? [data]
+      : [{ type: 'Feature', geometry: data, properties: {} }];
+
+  const points: RawTrackPoint[] = [];
+  let name: string | null = data.name || null;
+
+  const toPoint = (coordinate: number[], time: any): RawTrackPoint => ({
+    latitude: coordinate[1],
+    longitude: coordinate[0],
+    altitude: coordinate.length > 2 ? coordinate[2] : null,
+    time: typeof time === 'number' ? time : parseTime(time),
+    speed: null,
+    accuracy: null,
+  });
+
+  for (const feature of features) {
+    const geometry = feature?.geometry;
+    const properties = feature?.properties || {};
+    if (!geometry) continue;
+    name = name || properties.name || null;
+
+    // coordTimes is what togeojson and most GPS tools write
+    const times = properties.coordTimes || properties.times || [];
+
+    if (geometry.type === 'LineString') {
+      geometry.coordinates.forEach((coordinate: number[], index: number) => points.push(toPoint(coordinate, times[index])));
+    } else if (geometry.type === 'MultiLineString') {
+      geometry.coordinates.forEach((line: number[][], lineIndex: number) =>
+        line.forEach((coordinate, index) => points.push(toPoint(coordinate, times[lineIndex]?.[index])))
+      );
+    } else if (geometry.type === 'Point') {
+      points.push(toPoint(geometry.coordinates, properties.time ?? properties.timestamp));
+    }
+  }
+
+  return { name, points };
+};
+
+/**
+ * Fill in timestamps and speeds, then convert to LocationData
+ */
+const toLocationData = (points: RawTrackPoint[]): LocationData[] => {
+  const valid = points.filter(point => isFinite(point.latitude) && isFinite(point.longitude));
+  const hasTimes = valid.every(point => point.time !== null);
+
+  // Without a complete set of timestamps, pretend the track was driven at a steady speed
+  let times: number[];
+  if (hasTimes) {
+    times = valid.map(point => point.time!);
+  } else {
+    let time = Date.now();
+    times = valid.map((point, index) => {
+      if (index > 0) {
+        const previous = valid[index - 1];
+        time += Math.max(1000, Math.round((haversineDistance(previous.latitude, previous.longitude, point.latitude, point.longitude) / SYNTHETIC_SPEED) * 1000));
+      }
+      return time;
+    });
+  }
+
+  const segmentSpeed = (from: number, to: number): number | null => {
+    const elapsed = (times[to] - times[from]) / 1000;
+    if (elapsed <= 0) return null;
+    return haversineDistance(valid[from].latitude, valid[from].longitude, valid[to].latitude, valid[to].longitude) / elapsed;
+  };
+
+  return valid
+    .map((point, index) => ({
+      latitude: point.latitude,
+      longitude: point.longitude,
+      altitude: point.altitude,
+      speed: point.speed ?? (index > 0 ? segmentSpeed(index - 1, index) : valid.length > 1 ? segmentSpeed(0, 1) : null),
+      accuracy: point.accuracy,
+      timestamp: times[index],
+    }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
@@ -0,0 +1,220 @@
+import { LocationData, LocationService } from './locationService';
+import { initialBearing } from '../utils/geo';
+
+export type ReplayStatus = 'idle' | 'playing' | 'paused' | 'finished';
+
+export interface ReplayState {
+  status: ReplayStatus;
+  trackName: string | null;
+  position: number; // ms from the start of the track
+  duration: number; // ms
+  speedMultiplier: number;
+}
+
+/** Anything with ordered, timestamped fixes: an imported file or a recorded trip */
+export interface ReplayTrack {
+  name: string;
+  points: LocationData[];
+}
+
+export const REPLAY_SPEED_MULTIPLIERS = [1, 2, 5, 10, 20];
+
+/**
+ * Plays a recorded or imported track back through LocationService as if it
+ * came from the GPS, so speed limits, trips and the UI can be tested at a desk.
+ */
+export class TrackReplayService {
+  private static instance: TrackReplayService;
+  private track: ReplayTrack | null = null;
+  private status: ReplayStatus = 'idle';
+  private position: number = 0;
+  private speedMultiplier: number = 1;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private timestampOffset: number = 0;
+  private lastEmittedTimestamp: number = 0;
+  private listeners: ((state: ReplayState) => void)[] = [];
+  private readonly TICK_INTERVAL = 1000; // One fix per second of wall-clock time, like the GPS
+
+  static getInstance(): TrackReplayService {
+    if (!TrackReplayService.instance) {
+      TrackReplayService.instance = new TrackReplayService();
+    }
+    return TrackReplayService.instance;
+  }
+
+  /**
+   * Load a track, replacing any current replay. Playback starts paused at the beginning.
+   */
+  load(track: ReplayTrack): void {
+    if (track.points.length < 2) {
+      throw new Error('Track needs at least two points');
+    }
+
+    this.clearTimer();
+    this.track = track;
+    this.position = 0;
+    this.status = 'paused';
+    // Emitted fixes carry current-looking timestamps so they sort after real ones
+    this.timestampOffset = Date.now() - track.points[0].timestamp;
+    this.lastEmittedTimestamp = 0;
+    console.log(`Replay loaded: ${track.name} (${track.points.length} points, ${Math.round(this.getDuration() / 1000)}s)`);
+    this.notifyListeners();
+  }
+
+  play(): void {
+    if (!this.track) return;
+
+    if (this.status === 'finished') {
+      this.seek(0);
+    }
+
+    LocationService.getInstance().startSimulation();
+    this.status = 'playing';
+    this.emitCurrentPosition();
+    this.clearTimer();
+    this.timer = setInterval(() => this.tick(), this.TICK_INTERVAL);
+    this.notifyListeners();
+  }
+
+  pause(): void {
+    if (this.status !== 'playing') return;
+    this.clearTimer();
+    this.status = 'paused';
+    this.notifyListeners();
+  }
+
+  /**
+   * End the replay and give location updates back to the GPS
+   */
+  stop(): void {
+    this.clearTimer();
+    this.track = null;
+    this.position = 0;
+    this.status = 'idle';
+    LocationService.getInstance().stopSimulation();
+    this.notifyListeners();
+  }
+
+  /**
+   * Jump to a position (ms from the start). Timestamps keep increasing even
+   * when seeking backwards, so listeners never see time run in reverse.
+   */
+  seek(position: number): void {
+    if (!this.track) return;
+
+    const previousPosition = this.position;
+    this.position = Math.max(0, Math.min(position, this.getDuration()));
+    if (this.position < previousPosition) {
+      this.timestampOffset += previousPosition - this.position + this.TICK_INTERVAL;
+    }
+    if (this.status === 'finished' && this.position < this.getDuration()) {
+      this.status = 'paused';
+    }
+
+    if (this.status === 'playing') {
+      this.emitCurrentPosition();
+    }
+    this.notifyListeners();
+  }
+
+  seekBy(delta: number): void {
+    this.seek(this.position + delta);
+  }
+
+  setSpeedMultiplier(multiplier: number): void {
+    this.speedMultiplier = Math.max(1, multiplier);
+    this.notifyListeners();
+  }
+
+  getState(): ReplayState {
+    return {
+      status: this.status,
+      trackName: this.track?.name ?? null,
+      position: this.position,
+      duration: this.getDuration(),
+      speedMultiplier: this.speedMultiplier,
+    };
+  }
+
+  addReplayListener(callback: (state: ReplayState) => void): void {
+    this.listeners.push(callback);
+  }
+
+  removeReplayListener(callback: (state: ReplayState) => void): void {
+    this.listeners = this.listeners.filter(listener => listener !== callback);
+  }
+
+  private tick(): void {
+    if (!this.track || this.status !== 'playing') return;
+
+    this.position = Math.min(this.position + this.TICK_INTERVAL * this.speedMultiplier, this.getDuration());
+    this.emitCurrentPosition();
+
+    if (this.position >= this.getDuration()) {
+      this.clearTimer();
+      this.status = 'finished';
+      console.log('Replay finished');
+    }
+    this.notifyListeners();
+  }
+
+  private emitCurrentPosition(): void {
+    const location = this.interpolate(this.position);
+    if (!location || location.timestamp <= this.lastEmittedTimestamp) return;
+
+    this.lastEmittedTimestamp = location.timestamp;
+    LocationService.getInstance().pushSimulatedLocation(location);
+  }
+
+  /**
+   * Position, altitude and speed linearly interpolated between the two
+   * surrounding track points; course is the bearing of that segment
+   */
+  private interpolate(position: number): LocationData | null {
+    if (!this.track) return null;
+
+    const points = this.track.points;
+    const time = points[0].timestamp + position;
+
+    let index = points.findIndex(point => point.timestamp > time);
+    if (index === -1) index = points.length - 1;
+    if (index === 0) index = 1;
+
+    const from = points[index - 1];
+    const to = points[index];
+    const span = to.timestamp - from.timestamp;
+    const fraction = span > 0 ? Math.max(0, Math.min(1, (time - from.timestamp) / span)) : 1;
+    const lerp = (a: number | null, b: number | null): number | null => {
+      if (a === null || b === null) return a ?? b;
+      return a + (b - a) * fraction;
+    };
+
+    return {
+      latitude: from.latitude + (to.latitude - from.latitude) * fraction,
+      longitude: from.longitude + (to.longitude - from.longitude) * fraction,
+      altitude: lerp(from.altitude, to.altitude),
+      speed: lerp(from.speed, to.speed),
+      accuracy: lerp(from.accuracy, to.accuracy) ?? 5,
+      timestamp: Math.round(time + this.timestampOffset),
+      course: initialBearing(from.latitude, from.longitude, to.latitude, to.longitude),
+    };
+  }
+
+  private getDuration(): number {
+    if (!this.track) return 0;
+    const points = this.track.points;
+    return points[points.length - 1].timestamp - points[0].timestamp;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private notifyListeners(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
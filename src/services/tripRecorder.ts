@@ -0,0 +1,371 @@
+import * as FileSystem from 'expo-file-system';
+import { LocationData, LocationService } from './locationService';
+import { SpeedLimitService, SpeedLimitSource } from './speedLimitService';
+import { VehicleProfileService } from './vehicleProfileService';
+import { haversineDistance } from '../utils/geo';
+import { accumulateElevation } from '../utils/elevation';
+
+export interface TripPoint {
+  latitude: number;
+  longitude: number;
+  altitude: number | null; // Above mean sea level, as GPX expects
+  speed: number | null; // m/s
+  accuracy: number | null;
+  timestamp: number;
+  speedLimit: number | null; // km/h, the limit matched when the fix was recorded
+  speedLimitSource?: SpeedLimitSource;
+  road?: string | null; // Road the limit was matched to
+}
+
+export interface TripSummary {
+  distance: number; // meters
+  gapDistance: number; // meters of `distance` bridged in a straight line across gaps in the fixes
+  duration: number; // ms, start to end
+  movingTime: number; // ms
+  stoppedTime: number; // ms
+  maxSpeed: number; // km/h
+  averageSpeed: number; // km/h over moving time
+  elevationGain: number; // m, with hysteresis against GPS noise
+  elevationLoss: number; // m
+  minAltitude: number | null; // m above mean sea level
+  maxAltitude: number | null;
+  elevationAnchor: number | null; // Level the next gain or loss is measured from
+}
+
+export interface Trip {
+  id: string;
+  name: string;
+  startTime: number;
+  endTime: number | null; // null while recording
+  vehicleProfileId: string;
+  summary: TripSummary;
+  points: TripPoint[];
+}
+
+/** Trip without its points, as kept in the trip index for listing */
+export type TripListItem = Omit<Trip, 'points'>;
+
+const MOVING_SPEED = 1; // m/s, slower than this counts as stopped
+const MAX_FIX_ACCURACY = 50; // meters, worse fixes are kept but don't add distance or speed
+const MAX_GAP = 5 * 60 * 1000; // Longer gaps (tunnels, screen off) add their distance but count as stopped time
+
+const emptySummary = (): TripSummary => ({
+  distance: 0,
+  gapDistance: 0,
+  duration: 0,
+  movingTime: 0,
+  stoppedTime: 0,
+  maxSpeed: 0,
+  averageSpeed: 0,
+  elevationGain: 0,
+  elevationLoss: 0,
+  minAltitude: null,
+  maxAltitude: null,
+  elevationAnchor: null,
+});
+
+/**
+ * Add one fix to a running summary. Distance only accumulates while moving so
+ * GPS jitter at a standstill doesn't inflate it.
+ */
+export const accumulateTripSummary = (summary: TripSummary, previous: TripPoint | null, point: TripPoint, startTime: number): TripSummary => {
+  const next = { ...summary, duration: point.timestamp - startTime };
+  const reliable = point.accuracy === null || point.accuracy <= MAX_FIX_ACCURACY;
+
+  if (reliable && point.speed !== null) {
+    next.maxSpeed = Math.max(next.maxSpeed, point.speed * 3.6);
+  }
+
+  if (reliable && point.altitude !== null) {
+    const elevation = accumulateElevation({
+      gain: next.elevationGain,
+      loss: next.elevationLoss,
+      minAltitude: next.minAltitude,
+      maxAltitude: next.maxAltitude,
+      anchor: next.elevationAnchor,
+    }, point.altitude);
+    next.elevationGain = elevation.gain;
+    next.elevationLoss = elevation.loss;
+    next.minAltitude = elevation.minAltitude;
+    next.maxAltitude = elevation.maxAltitude;
+    next.elevationAnchor = elevation.anchor;
+  }
+
+  if (!previous) return next;
+
+  const elapsed = point.timestamp - previous.timestamp;
+  if (elapsed <= 0) return next;
+
+  const distance = haversineDistance(previous.latitude, previous.longitude, point.latitude, point.longitude);
+  const speed = point.speed ?? distance / (elapsed / 1000);
+  const moving = reliable && elapsed <= MAX_GAP && speed >= MOVING_SPEED;
+  const previousReliable = previous.accuracy === null || previous.accuracy <= MAX_FIX_ACCURACY;
+  // Unknown pace across a long gap, so its time can't count as moving, but the ground was still covered
+  const bridged = reliable && previousReliable && elapsed > MAX_GAP && distance > MAX_FIX_ACCURACY;
+
+  if (moving) {
+    next.distance += distance;
+    next.movingTime += elapsed;
+  } else {
+    next.stoppedTime += elapsed;
+    if (bridged) {
+      next.distance += distance;
+      next.gapDistance = (next.gapDistance ?? 0) + distance;
+    }
+  }
+
+  // Bridged distance has no moving time to go with it
+  const movingDistance = next.distance - (next.gapDistance ?? 0);
+  next.averageSpeed = next.movingTime > 0 ? (movingDistance / (next.movingTime / 1000)) * 3.6 : 0;
+  return next;
+};
+
+/**
+ * Summary of a complete list of points (e.g. after import)
+ */
+export const calculateTripSummary = (points: TripPoint[]): TripSummary => {
+  if (points.length === 0) return emptySummary();
+  const startTime = points[0].timestamp;
+  return points.reduce<TripSummary>(
+    (summary, point, index) => accumulateTripSummary(summary, index > 0 ? points[index - 1] : null, point, startTime),
+    emptySummary()
+  );
+};
+
+/**
+ * Records fixes from LocationService into trips (with the matched speed limit)
+ * and persists them, one JSON file per trip plus an index for listing.
+ */
+export class TripRecorder {
+  private static instance: TripRecorder;
+  private activeTrip: Trip | null = null;
+  private listeners: ((trip: Trip | null) => void)[] = [];
+  private lastCheckpoint: number = 0;
+  private directoryReady: boolean = false;
+  private pendingWrite: Promise<void> = Promise.resolve(); // Saves and deletes run one at a time
+  private readonly CHECKPOINT_INTERVAL = 30000; // Save the active trip every 30 seconds
+  private readonly directory = `${FileSystem.documentDirectory}trips/`;
+  private readonly indexPath = `${FileSystem.documentDirectory}trips/index.json`;
+
+  static getInstance(): TripRecorder {
+    if (!TripRecorder.instance) {
+      TripRecorder.instance = new TripRecorder();
+    }
+    return TripRecorder.instance;
+  }
+
+  /**
+   * Start recording a new trip. Fixes arrive through the background listener,
+   * so recording continues with the screen off.
+   */
+  async startTrip(name?: string): Promise<Trip> {
+    if (this.activeTrip) {
+      await this.stopTrip();
+    }
+
+    const startTime = Date.now();
+    this.activeTrip = {
+      id: `trip-${startTime}`,
+      name: name || `Trip ${new Date(startTime).toLocaleString()}`,
+      startTime,
+      endTime: null,
+      vehicleProfileId: VehicleProfileService.getInstance().getActiveProfile().id,
+      summary: emptySummary(),
+      points: [],
+    };
+    this.lastCheckpoint = startTime;
+
+    LocationService.getInstance().addBackgroundLocationListener(this.handleLocation);
+    console.log(`Trip recording started: ${this.activeTrip.name}`);
+    this.notifyListeners();
+    return this.activeTrip;
+  }
+
+  /**
+   * Stop recording and persist the trip. Trips without any fixes are discarded.
+   */
+  async stopTrip(): Promise<Trip | null> {
+    const trip = this.activeTrip;
+    if (!trip) return null;
+
+    LocationService.getInstance().removeBackgroundLocationListener(this.handleLocation);
+    this.activeTrip = null;
+
+    trip.endTime = trip.points.length > 0 ? trip.points[trip.points.length - 1].timestamp : Date.now();
+
+    if (trip.points.length === 0) {
+      console.log('Trip recording stopped - no fixes recorded, discarding');
+      await this.deleteTrip(trip.id);
+      this.notifyListeners();
+      return null;
+    }
+
+    await this.saveTrip(trip);
+    console.log(`Trip recording stopped: ${(trip.summary.distance / 1000).toFixed(2)} km`);
+    this.notifyListeners();
+    return trip;
+  }
+
+  isRecording(): boolean {
+    return this.activeTrip !== null;
+  }
+
+  getActiveTrip(): Trip | null {
+    return this.activeTrip;
+  }
+
+  /**
+   * Saved trips without their points, newest first
+   */
+  async getTrips(): Promise<TripListItem[]> {
+    let index: TripListItem[];
+    try {
+      index = await this.readIndex();
+    } catch (error) {
+      console.error('Error reading trip index:', error.message);
+      return [];
+    }
+    return index
+      // A checkpointed trip that is no longer recording was cut short (app killed)
+      .map(item => (item.endTime === null && item.id !== this.activeTrip?.id
+        ? { ...item, endTime: item.startTime + item.summary.duration }
+        : item))
+      // Trips saved before elevation stats existed
+      .map(item => ({ ...item, summary: { ...emptySummary(), ...item.summary } }))
+      .sort((a, b) => b.startTime - a.startTime);
+  }
+
+  async getTrip(id: string): Promise<Trip | null> {
+    if (this.activeTrip?.id === id) return this.activeTrip;
+
+    try {
+      const path = this.tripPath(id);
+      const info = await FileSystem.getInfoAsync(path);
+      if (!info.exists) return null;
+      const trip: Trip = JSON.parse(await FileSystem.readAsStringAsync(path));
+      if (trip.summary.elevationGain === undefined) {
+        trip.summary = calculateTripSummary(trip.points);
+      }
+      return trip;
+    } catch (error) {
+      console.error('Error reading trip:', error);
+      return null;
+    }
+  }
+
+  async deleteTrip(id: string): Promise<void> {
+    return this.serializeWrite(async () => {
+      try {
+        await FileSystem.deleteAsync(this.tripPath(id), { idempotent: true });
+        const index = await this.readIndex();
+        await this.writeIndex(index.filter(item => item.id !== id));
+      } catch (error) {
+        console.error('Error deleting trip:', error);
+      }
+    });
+  }
+
+  /**
+   * Persist a trip and add or update its entry in the index
+   */
+  async saveTrip(trip: Trip): Promise<void> {
+    return this.serializeWrite(async () => {
+      try {
+        await this.ensureDirectory();
+        await FileSystem.writeAsStringAsync(this.tripPath(trip.id), JSON.stringify(trip));
+
+        const { points, ...listItem } = trip;
+        const index = (await this.readIndex()).filter(item => item.id !== trip.id);
+        index.push(listItem);
+        await this.writeIndex(index);
+      } catch (error) {
+        console.error('Error saving trip:', error);
+      }
+    });
+  }
+
+  addTripListener(callback: (trip: Trip | null) => void): void {
+    this.listeners.push(callback);
+  }
+
+  removeTripListener(callback: (trip: Trip | null) => void): void {
+    this.listeners = this.listeners.filter(listener => listener !== callback);
+  }
+
+  private handleLocation = (location: LocationData): void => {
+    const trip = this.activeTrip;
+    if (!trip) return;
+
+    const previous = trip.points.length > 0 ? trip.points[trip.points.length - 1] : null;
+    if (previous && location.timestamp <= previous.timestamp) return;
+
+    const speedLimit = SpeedLimitService.getInstance().getLastKnownSpeedLimit();
+    const point: TripPoint = {
+      latitude: location.latitude,
+      longitude: location.longitude,
+      altitude: location.altitudeMsl ?? location.altitude,
+      speed: location.speed,
+      accuracy: location.accuracy,
+      timestamp: location.timestamp,
+      speedLimit: speedLimit?.speedLimit ?? null,
+      speedLimitSource: speedLimit?.source,
+      road: speedLimit?.road ?? null,
+    };
+
+    trip.points.push(point);
+    trip.summary = accumulateTripSummary(trip.summary, previous, point, trip.startTime);
+    this.notifyListeners();
+
+    // Checkpoint so a killed app loses at most the last CHECKPOINT_INTERVAL of the trip
+    if (location.timestamp - this.lastCheckpoint >= this.CHECKPOINT_INTERVAL) {
+      this.lastCheckpoint = location.timestamp;
+      this.saveTrip(trip);
+    }
+  };
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener(this.activeTrip));
+  }
+
+  /**
+   * Run a read-modify-write of the trip files after the previous one finishes,
+   * so a checkpoint can't write back an index entry a delete just removed
+   */
+  private serializeWrite(task: () => Promise<void>): Promise<void> {
+    this.pendingWrite = this.pendingWrite.then(task);
+    return this.pendingWrite;
+  }
+
+  /**
+   * Throws when the index exists but can't be read, so a save or delete
+   * aborts instead of overwriting the whole history with a single entry
+   */
+  private async readIndex(): Promise<TripListItem[]> {
+    const info = await FileSystem.getInfoAsync(this.indexPath);
+    if (!info.exists) return [];
+
+    const index = JSON.parse(await FileSystem.readAsStringAsync(this.indexPath));
+    if (!Array.isArray(index)) {
+      throw new Error('Trip index is not a list');
+    }
+    return index;
+  }
+
+  private async writeIndex(index: TripListItem[]): Promise<void> {
+    await this.ensureDirectory();
+    await FileSystem.writeAsStringAsync(this.indexPath, JSON.stringify(index));
+  }
+
+  private async ensureDirectory(): Promise<void> {
+    if (this.directoryReady) return;
+    const info = await FileSystem.getInfoAsync(this.directory);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(this.directory, { intermediates: true });
+    }
+    this.directoryReady = true;
+  }
+
+  private tripPath(id: string): string {
+    return `${this.directory}${id}.json`;
+  }
+}
@@ -0,0 +1,164 @@
+import * as FileSystem from 'expo-file-system';
+
+export type VehicleType = 'car' | 'van' | 'motorcycle' | 'truck' | 'bus';
+
+export interface VehicleProfile {
+  id: string;
+  name: string;
+  type: VehicleType;
+  maxWeight: number | null; // Gross weight in tonnes
+  trailer: boolean;
+  speedCap: number | null; // The vehicle's own limit in km/h (e.g. 80 for trucks), null for none
+  alertTolerance: number; // Percent over the limit before a speeding alert
+  builtIn?: boolean;
+}
+
+interface StoredProfiles {
+  activeProfileId: string;
+  customProfiles: VehicleProfile[];
+}
+
+// Vehicles over 3.5 t are HGVs for speed limit purposes across Europe
+const HGV_WEIGHT_THRESHOLD = 3.5;
+
+const BUILT_IN_PROFILES: VehicleProfile[] = [
+  { id: 'car', name: 'Car', type: 'car', maxWeight: 1.8, trailer: false, speedCap: null, alertTolerance: 5, builtIn: true },
+  { id: 'car-trailer', name: 'Car + trailer', type: 'car', maxWeight: 3.5, trailer: true, speedCap: 80, alertTolerance: 5, builtIn: true },
+  { id: 'van', name: 'Van', type: 'van', maxWeight: 3.5, trailer: false, speedCap: null, alertTolerance: 5, builtIn: true },
+  { id: 'motorcycle', name: 'Motorcycle', type: 'motorcycle', maxWeight: 0.4, trailer: false, speedCap: null, alertTolerance: 5, builtIn: true },
+  { id: 'truck', name: 'Truck', type: 'truck', maxWeight: 18, trailer: false, speedCap: 80, alertTolerance: 3, builtIn: true },
+  { id: 'truck-trailer', name: 'Truck + trailer', type: 'truck', maxWeight: 40, trailer: true, speedCap: 80, alertTolerance: 3, builtIn: true },
+];
+
+const DEFAULT_PROFILE_ID = 'car';
+
+/**
+ * Vehicle profiles (type, weight, trailer, speed cap) that shape speed limit
+ * queries and alerts. The active profile and custom profiles are persisted.
+ */
+export class VehicleProfileService {
+  private static instance: VehicleProfileService;
+  private customProfiles: VehicleProfile[] = [];
+  private activeProfileId: string = DEFAULT_PROFILE_ID;
+  private listeners: ((profile: VehicleProfile) => void)[] = [];
+  private loaded: boolean = false;
+  private readonly storagePath = `${FileSystem.documentDirectory}vehicle-profiles.json`;
+
+  static getInstance(): VehicleProfileService {
+    if (!VehicleProfileService.instance) {
+      VehicleProfileService.instance = new VehicleProfileService();
+    }
+    return VehicleProfileService.instance;
+  }
+
+  /**
+   * Load the persisted active profile and custom profiles. Safe to call more than once.
+   */
+  async initialize(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    try {
+      const info = await FileSystem.getInfoAsync(this.storagePath);
+      if (!info.exists) return;
+
+      const stored: StoredProfiles = JSON.parse(await FileSystem.readAsStringAsync(this.storagePath));
+      this.customProfiles = (stored.customProfiles || []).map(profile => ({ ...profile, builtIn: false }));
+      if (this.findProfile(stored.activeProfileId)) {
+        this.activeProfileId = stored.activeProfileId;
+      }
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Error loading vehicle profiles:', error);
+    }
+  }
+
+  getProfiles(): VehicleProfile[] {
+    return [...BUILT_IN_PROFILES, ...this.customProfiles];
+  }
+
+  getActiveProfile(): VehicleProfile {
+    return this.findProfile(this.activeProfileId) || BUILT_IN_PROFILES[0];
+  }
+
+  async setActiveProfile(id: string): Promise<void> {
+    if (!this.findProfile(id)) {
+      throw new Error(`Unknown vehicle profile: ${id}`);
+    }
+    if (id === this.activeProfileId) return;
+
+    this.activeProfileId = id;
+    console.log(`Vehicle profile switched to ${this.getActiveProfile().name}`);
+    this.notifyListeners();
+    await this.persist();
+  }
+
+  /**
+   * Add or update a custom profile. Built-in profiles cannot be overwritten.
+   */
+  async saveProfile(profile: VehicleProfile): Promise<void> {
+    if (BUILT_IN_PROFILES.some(builtIn => builtIn.id === profile.id)) {
+      throw new Error(`Built-in vehicle profile cannot be modified: ${profile.id}`);
+    }
+
+    const custom = { ...profile, builtIn: false };
+    const index = this.customProfiles.findIndex(existing => existing.id === profile.id);
+    if (index >= 0) {
+      this.customProfiles[index] = custom;
+    } else {
+      this.customProfiles.push(custom);
+    }
+
+    if (profile.id === this.activeProfileId) {
+      this.notifyListeners();
+    }
+    await this.persist();
+  }
+
+  async deleteProfile(id: string): Promise<void> {
+    this.customProfiles = this.customProfiles.filter(profile => profile.id !== id);
+    if (id === this.activeProfileId) {
+      this.activeProfileId = DEFAULT_PROFILE_ID;
+      this.notifyListeners();
+    }
+    await this.persist();
+  }
+
+  /**
+   * Whether a profile counts as a heavy goods vehicle for `maxspeed:hgv` and HGV conditions
+   */
+  static isHgv(profile: VehicleProfile): boolean {
+    if (profile.type === 'truck') return true;
+    // Buses have their own rules; anything else heavy enough is treated as an HGV
+    return profile.type !== 'bus' && profile.maxWeight !== null && profile.maxWeight > HGV_WEIGHT_THRESHOLD;
+  }
+
+  addProfileListener(callback: (profile: VehicleProfile) => void): void {
+    this.listeners.push(callback);
+  }
+
+  removeProfileListener(callback: (profile: VehicleProfile) => void): void {
+    this.listeners = this.listeners.filter(listener => listener !== callback);
+  }
+
+  private notifyListeners(): void {
+    const profile = this.getActiveProfile();
+    this.listeners.forEach(listener => listener(profile));
+  }
+
+  private findProfile(id: string): VehicleProfile | undefined {
+    return this.getProfiles().find(profile => profile.id === id);
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      const stored: StoredProfiles = {
+        activeProfileId: this.activeProfileId,
+        customProfiles: this.customProfiles,
+      };
+      await FileSystem.writeAsStringAsync(this.storagePath, JSON.stringify(stored));
+    } catch (error) {
+      console.error('Error saving vehicle profiles:', error);
+    }
+  }
+}
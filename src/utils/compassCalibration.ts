@@ -0,0 +1,112 @@
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * How far the compass heading can be trusted, from how well the measured
+ * field strength matches the one expected at this location
+ */
+export type HeadingAccuracy = 'high' | 'medium' | 'low' | 'unreliable';
+
+export const ZERO_OFFSET: Vector3 = { x: 0, y: 0, z: 0 };
+export const DEFAULT_FIELD_STRENGTH = 50; // µT, mid-latitude value used until the position is known
+
+const MIN_EARTH_FIELD = 20; // µT, weaker than anywhere on Earth
+const MAX_EARTH_FIELD = 70; // µT
+const COMPLETE_COVERAGE = 0.8; // Fraction of the full ±field swing each axis must see
+const MAX_CALIBRATED_SPREAD = 0.15; // Relative spread of corrected magnitudes for a good fit
+const MIN_SAMPLES = 50;
+
+export const magnitude = (vector: Vector3): number =>
+  Math.sqrt(vector.x * vector.x + vector.y * vector.y + vector.z * vector.z);
+
+export const subtract = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+
+/**
+ * Grade the heading from the relative error of the measured field magnitude
+ * against the expected (WMM) one. Metal nearby or an uncalibrated sensor
+ * shows up as a field that is too strong or too weak.
+ */
+export const assessHeadingAccuracy = (measured: number, expected: number): HeadingAccuracy => {
+  if (measured < MIN_EARTH_FIELD || measured > MAX_EARTH_FIELD) return 'unreliable';
+
+  const error = Math.abs(measured - expected) / expected;
+  if (error <= 0.1) return 'high';
+  if (error <= 0.2) return 'medium';
+  if (error <= 0.35) return 'low';
+  return 'unreliable';
+};
+
+/**
+ * Collects raw magnetometer samples while the device is waved in a figure
+ * eight and estimates the hard-iron offset (the constant field of the phone
+ * itself) as the centre of the per-axis extremes
+ */
+export class HardIronCalibrator {
+  private min: Vector3 = { x: Infinity, y: Infinity, z: Infinity };
+  private max: Vector3 = { x: -Infinity, y: -Infinity, z: -Infinity };
+  private samples: Vector3[] = [];
+
+  constructor(private expectedFieldStrength: number = DEFAULT_FIELD_STRENGTH) {}
+
+  reset(): void {
+    this.min = { x: Infinity, y: Infinity, z: Infinity };
+    this.max = { x: -Infinity, y: -Infinity, z: -Infinity };
+    this.samples = [];
+  }
+
+  addSample(sample: Vector3): void {
+    this.samples.push(sample);
+    this.min = { x: Math.min(this.min.x, sample.x), y: Math.min(this.min.y, sample.y), z: Math.min(this.min.z, sample.z) };
+    this.max = { x: Math.max(this.max.x, sample.x), y: Math.max(this.max.y, sample.y), z: Math.max(this.max.z, sample.z) };
+  }
+
+  /**
+   * Per-axis fraction (0-1) of the full swing, from pointing along the field to pointing against it
+   */
+  getCoverage(): Vector3 {
+    const span = 2 * this.expectedFieldStrength;
+    const axis = (min: number, max: number) => (isFinite(min) ? Math.min(1, (max - min) / span) : 0);
+    return {
+      x: axis(this.min.x, this.max.x),
+      y: axis(this.min.y, this.max.y),
+      z: axis(this.min.z, this.max.z),
+    };
+  }
+
+  /**
+   * Overall progress 0-1, limited by the least-covered axis
+   */
+  getProgress(): number {
+    const coverage = this.getCoverage();
+    return Math.min(1, Math.min(coverage.x, coverage.y, coverage.z) / COMPLETE_COVERAGE);
+  }
+
+  isComplete(): boolean {
+    return this.samples.length >= MIN_SAMPLES && this.getProgress() >= 1;
+  }
+
+  getOffset(): Vector3 {
+    return {
+      x: (this.max.x + this.min.x) / 2,
+      y: (this.max.y + this.min.y) / 2,
+      z: (this.max.z + this.min.z) / 2,
+    };
+  }
+
+  /**
+   * Whether the corrected samples lie close to a sphere, i.e. the offset
+   * explains the distortion. Fails with strong soft-iron effects or moving metal.
+   */
+  isFitGood(): boolean {
+    if (this.samples.length < MIN_SAMPLES) return false;
+
+    const offset = this.getOffset();
+    const magnitudes = this.samples.map(sample => magnitude(subtract(sample, offset)));
+    const mean = magnitudes.reduce((sum, value) => sum + value, 0) / magnitudes.length;
+    const variance = magnitudes.reduce((sum, value) => sum + (value - mean) * (value - mean), 0) / magnitudes.length;
+    return mean > 0 && Math.sqrt(variance) / mean <= MAX_CALIBRATED_SPREAD;
+  }
+}
@@ -0,0 +1,1453 @@
+// Generated from the NGA EGM96 15-minute geoid grid (WW15MGH.DAC), resampled to 1 degree.
+// 181 rows from 90N to 90S by 360 columns from 0E eastwards, little-endian int16 decimetres, base64.
+// Do not edit by hand.
+export const EGM96_GRID_BASE64 = [
+  'iACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgA',
+  'iACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgA',
+  'iACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgA',
+  'iACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgA',
+  'iACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgA',
+  'iACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgA',
+  'iACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgA',
+  'iACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgAiACIAIgA',
+  'mwCbAJoAmgCaAJoAmgCaAJoAmgCaAJoAmQCZAJkAmQCZAJkAmACYAJgAmACYAJgAlwCXAJcAlwCXAJcAlgCWAJYAlgCWAJUAlQCVAJUAlQCUAJQAlACUAJQA',
+  'kwCTAJMAkwCTAJIAkgCSAJIAkQCRAJEAkQCRAJAAkACQAI8AjwCPAI8AjgCOAI4AjQCNAI0AjQCMAIwAjACLAIsAigCKAIoAiQCJAIkAiACIAIgAhwCHAIcA',
+  'hgCGAIYAhQCFAIQAhACEAIMAgwCDAIMAggCCAIIAgQCBAIEAgQCBAIAAgACAAIAAgACAAIAAgACAAIAAgACBAIEAgQCBAIEAggCCAIIAggCDAIMAgwCDAIQA',
+  'hACEAIQAhACFAIUAhQCFAIUAhQCFAIUAhQCFAIUAhQCEAIQAhACEAIQAhACDAIMAgwCDAIMAggCCAIIAggCCAIIAgQCBAIEAgQCBAIEAgQCBAIEAgQCBAIEA',
+  'gQCBAIEAgQCBAIEAgQCBAIEAgQCBAIEAgQCBAIEAgQCBAIEAgQCBAIEAgQCBAIIAggCCAIIAggCCAIIAggCDAIMAgwCDAIQAhACEAIQAhQCFAIUAhQCGAIYA',
+  'hgCHAIcAhwCIAIgAiACJAIkAiQCKAIoAigCLAIsAiwCMAIwAjQCNAI0AjgCOAI4AjwCPAJAAkACRAJEAkQCSAJIAkwCTAJQAlACVAJUAlgCWAJcAlwCXAJgA',
+  'mACZAJkAmgCaAJoAmwCbAJsAnACcAJwAnQCdAJ0AnQCeAJ4AngCeAJ4AngCeAJ4AngCeAJ4AngCeAJ4AngCeAJ4AngCdAJ0AnQCdAJ0AnQCcAJwAnACcAJsA',
+  'mwCbAJsAmwCbAJoAmgCaAJoAmgCaAJoAmgCaAJoAmgCaAJoAmgCaAJoAmgCaAJoAmgCaAJoAmgCaAJoAmwCbAJsAmwCbAJsAmwCbAJsAmwCbAJsAmwCbAJsA',
+  'sACwALAAsACwAK8ArwCvAK8ArwCvAK8ArwCvAK8ArgCuAK4ArgCuAK4ArQCtAK0ArQCtAKwArACsAKsAqwCrAKoAqgCqAKkAqQCoAKgApwCnAKYApQClAKQA',
+  'owCiAKIAoQCgAKAAnwCeAJ4AnQCcAJwAmwCbAJoAmQCZAJgAmACXAJcAlgCWAJUAlACUAJMAkgCSAJEAkACPAI8AjgCNAI0AjACLAIoAigCJAIkAiACIAIcA',
+  'hwCGAIYAhgCFAIUAhQCEAIQAgwCDAIIAggCBAIAAfwB+AH0AfAB7AHkAeAB2AHUAdAByAHEAcABvAG8AbgBuAG8AbwBwAHIAdAB2AHgAewB9AIAAgwCGAIkA',
+  'iwCOAJAAkQCTAJMAlACTAJMAkgCQAI4AjACJAIYAgwCAAH0AegB4AHUAcwBxAG8AbQBsAGsAagBqAGoAagBqAGoAawBrAGwAbQBtAG4AbgBvAG8AcABwAHAA',
+  'cABwAHAAcABwAHAAcABvAG8AbwBvAG8AbwBwAHAAcABxAHEAcgByAHMAdAB0AHUAdgB2AHcAeAB4AHkAeQB6AHoAegB7AHsAewB7AHwAfAB8AHwAfQB9AH4A',
+  'fgB/AH8AgACAAIEAggCCAIMAhACEAIUAhgCGAIcAhwCHAIgAiACIAIgAiQCJAIkAiQCKAIoAiwCLAIwAjQCOAI8AkACSAJMAlQCWAJcAmQCaAJwAnQCfAKAA',
+  'oQCiAKMApAClAKYApgCnAKgAqACpAKoAqwCsAK0ArgCvALAAsQCyALQAtQC2ALcAuAC6ALoAuwC8ALwAvQC9ALwAvAC8ALsAugC5ALgAtwC2ALQAswCyALEA',
+  'sACvAK8ArgCuAK0ArQCtAK0ArgCuAK8ArwCwALAAsQCxALIAswCzALQAtAC0ALUAtQC1ALUAtQC1ALUAtQC1ALUAtAC0ALQAswCzALMAsgCyALIAsQCxALEA',
+  'ygDKAMoAygDKAMoAygDKAMoAygDKAMkAyQDIAMgAxwDHAMYAxgDFAMUAxQDEAMQAxADEAMQAxADEAMQAxADEAMQAxADEAMMAwwDCAMIAwQDAAL8AvgC8ALsA',
+  'uQC4ALYAtACzALEAsACvAK4ArQCtAK0ArACsAKwArACsAKwAqwCrAKoAqACnAKUAowChAJ8AnQCbAJkAlwCVAJMAkgCRAJAAjwCOAI0AjQCMAIsAigCKAIkA',
+  'iACHAIYAhQCEAIMAggCAAH8AfgB8AHsAegB5AHgAdwB2AHYAdgB1AHUAdQB1AHUAdQB1AHQAcgBxAG8AbQBqAGgAZgBkAGMAYgBiAGIAZABmAGoAbQByAHYA',
+  'egB+AIIAhACGAIcAhgCEAIIAfgB5AHUAbwBqAGUAYQBdAFkAVwBVAFUAVABVAFYAVwBZAFoAXABdAF4AYABhAGEAYgBiAGMAYwBjAGQAZABlAGUAZgBmAGcA',
+  'ZwBoAGgAaQBpAGkAagBqAGoAagBqAGoAagBqAGoAagBrAGsAbABsAG0AbQBuAG4AbwBvAHAAcABxAHIAcwB0AHUAdgB3AHgAeQB6AHsAfAB9AH4AfwCAAIEA',
+  'gQCCAIIAgwCEAIQAhQCHAIgAiQCLAIwAjgCPAJEAkgCUAJUAlgCWAJcAlwCXAJcAlwCXAJcAlwCWAJYAlgCXAJcAlwCXAJgAmACZAJkAmgCaAJsAmwCcAJ0A',
+  'nQCeAJ8AoAChAKIAowCkAKUApwCoAKkAqgCrAK0ArgCvALEAsgC0ALYAuAC6ALwAvgDBAMMAxgDIAMoAzADNAM4AzgDOAM4AzQDMAMsAygDJAMgAxwDHAMYA',
+  'xgDGAMYAxgDHAMcAyADIAMgAyQDJAMkAyQDJAMkAyADIAMgAyADIAMgAyADIAMgAyADJAMkAygDKAMsAywDLAMsAzADMAMsAywDLAMsAygDKAMoAygDKAMoA',
+  '4wDjAOMA4gDiAOEA4QDgAOAA4ADhAOEA4gDjAOMA5ADlAOUA5QDkAOQA4wDiAOEA4ADfAN4A3QDbANoA2ADXANUA1ADSANEAzwDOAM0AzADKAMkAyADHAMYA',
+  'xQDDAMEAvwC+ALwAugC4ALYAtQCzALIAsQCwAK8ArgCtAK0ArACrAKoAqgCpAKgApgClAKMAogCgAJ4AnACaAJkAlwCWAJUAlACTAJIAkQCQAI8AjgCMAIsA',
+  'iQCIAIcAhgCFAIQAhACDAIIAgQCAAH8AfQB7AHkAdwB0AHIAcABuAG0AbABrAGoAagBpAGkAaQBpAGkAaABnAGYAZABiAF8AXABaAFgAVgBVAFYAVwBaAF4A',
+  'YgBnAGsAbwByAHMAcwBxAG4AaQBkAF8AWgBVAFEATQBLAEoASQBJAEoASgBKAEkASQBIAEcARwBHAEcASABJAEsATQBPAFEAUwBVAFcAWABYAFkAWQBZAFoA',
+  'WgBbAFwAXQBeAF8AYABhAGIAYwBkAGQAZABkAGQAZABjAGMAYwBiAGIAYgBiAGIAYgBjAGMAZABlAGcAaABqAGwAbgBwAHIAdAB2AHgAeQB7AHwAfQB/AIAA',
+  'gQCDAIQAhQCGAIcAiACJAIoAigCLAIsAiwCMAIwAjQCNAI4AjwCQAJEAkgCSAJMAlACUAJUAlQCWAJcAlwCYAJkAmQCaAJsAnACdAJ4AnwCgAKEAoQChAKIA',
+  'ogCiAKMAowCjAKQApQCmAKcAqQCqAKwArgCwALEAswC1ALYAuAC5ALsAvQDAAMMAxwDLANAA1ADYANwA4ADiAOMA4wDiAOAA3QDaANYA0wDQAM4AzADMAMwA',
+  'zADNAM4A0ADRANMA1ADVANUA1gDXANcA2ADZANkA2QDaANoA2gDbANsA3ADcAN0A3gDfAOAA4QDiAOMA4wDjAOMA4gDhAOAA4ADfAN8A3wDfAOAA4QDhAOIA',
+  '+wD7APsA+wD7APoA+QD4APgA+AD4APgA+AD4APgA9wD2APUA9ADzAPIA8QDxAPAA8ADvAO4A7QDrAOkA5gDiAN8A2wDYANUA0wDRAM8AzQDLAMkAxwDFAMMA',
+  'wQC/AL0AuwC5ALcAtQCzALEArwCtAKoAqACmAKQAogCfAJ0AmwCZAJcAlQCTAJIAkQCQAI8AjgCMAIsAigCIAIcAhgCFAIQAhACDAIMAgwCCAIAAfwB9AHsA',
+  'eQB4AHcAdwB3AHgAeQB5AHoAeQB5AHgAdgB0AHIAcQBwAG8AbgBtAG0AbABqAGkAZwBkAGIAXwBcAFoAWQBYAFgAWABYAFgAVwBWAFQAUgBPAEwASQBHAEcA',
+  'SABKAE4AUgBXAFsAXgBgAF8AXQBaAFYAUgBNAEoARwBFAEQARABDAEMAQgBBAD8APQA8ADoAOQA5ADoAOwA9AD8AQQBEAEUARwBIAEgASQBJAEoASgBMAE0A',
+  'TgBQAFIAUwBUAFYAVwBYAFgAWQBaAFwAXQBeAF8AXwBgAGAAYQBhAGEAYQBhAGIAYgBjAGMAZABkAGQAZABkAGQAYwBjAGQAZABlAGcAaQBrAGwAbgBwAHEA',
+  'cQByAHIAcgByAHIAcwB0AHUAdgB3AHgAegB7AH0AfgCAAIIAgwCFAIYAhwCIAIgAiQCKAIsAjACNAI4AkACSAJMAlQCWAJgAmQCbAJwAnQCfAKAAoQChAKIA',
+  'ogCjAKMApAClAKYAqACqAKwArgCwALIAtQC3ALkAuwC+AMAAwwDFAMgAygDMAM4A0ADRANMA1ADWANgA2QDaANsA2wDbANoA2ADWANMA0QDQAM8AzwDQANEA',
+  '0gDUANYA2ADaANwA3wDiAOUA6ADrAO4A8ADyAPMA9AD1APYA9wD5APsA/QAAAQIBBQEGAQcBBwEGAQUBAwEAAf4A/AD5APgA9gD1APUA9QD1APYA9wD5APoA',
+  'EgESAREBDwEMAQoBBwEFAQQBAwECAQIBAQEAAf8A/QD8APoA+QD3APYA9QDzAPIA8ADuAOwA6gDoAOYA5ADiAN8A3QDbANgA1gDTANAAzgDLAMgAxQDDAMAA',
+  'vQC7ALgAtQCzALAArQCqAKcApQCiAKAAnQCbAJgAlgCTAJEAjgCMAIoAiACGAIQAggCAAH4AewB5AHcAdQBzAHEAbwBtAGsAaQBnAGUAZABiAGEAYQBgAGAA',
+  'YABgAGAAYABgAGAAXwBfAF4AXQBdAF0AXgBfAGAAYABgAF8AXgBdAFsAWwBcAF4AYABjAGQAZABiAF4AWABSAE0ASQBGAEUARQBGAEcARgBFAEMAQAA9ADoA',
+  'OQA5ADsAPwBEAEkATwBTAFUAVgBUAFIATgBLAEkARwBGAEUAQwBCAD8APAA5ADYANAAyADEAMQAxADEAMQAyADIAMwA0ADUANgA2ADcANwA4ADgAOQA6ADwA',
+  'PgA/AEEAQgBEAEUARgBHAEcASABJAEoASgBLAEsATABOAE8AUQBSAFMAVABUAFMAUgBRAFAATwBPAE8ATwBQAFIAUwBUAFYAVgBXAFcAVgBVAFQAUwBSAFIA',
+  'UQBSAFIAUwBUAFUAVwBYAFkAWgBbAFsAXABdAF4AXwBhAGMAZQBnAGkAawBtAG8AcQBzAHUAeAB6AHwAfgCAAIEAggCDAIQAhgCHAIkAiwCNAI4AkACRAJMA',
+  'lACWAJgAmQCbAJwAngCgAKMApgCpAK0AsgC2ALoAvQDAAMIAxADFAMcAyQDLAM4A0ADTANUA1wDZANoA3ADfAOEA5QDoAOsA7gDxAPMA9QD2APgA+gD7AP0A',
+  '/gD+AP0A/QD8APwA/AD9AP8AAgEFAQcBCQEKAQsBCwELAQsBCwELAQsBCwEKAQoBCQEIAQcBBwEHAQcBCAEJAQsBDAEOAQ8BDwEQARABDwEPARABEAERARIB',
+  'HQEcARsBGgEZARgBFgEUAREBEAEPAQ4BDwEPARABDwEOAQsBCAEEAQEB/QD7APgA9gD0APEA7gDqAOcA4wDfANwA2QDWANQA0QDOAMoAxgDCAL4AuwC5ALYA',
+  'swCvAKsApgChAJ4AnQCcAJwAnQCcAJwAmgCZAJgAlwCVAJMAjwCLAIUAgAB7AHcAdAByAHAAbgBsAGkAZwBlAGIAXwBcAFgAVABQAE0ASgBHAEYARQBEAEQA',
+  'RABDAEMAQwBDAEQARABEAEMAQwBCAEEAQQBBAEMARABGAEcASABHAEUAQwBCAEIARABGAEkASwBLAEoARgBCAD4AOwA4ADcANgA1ADQANAAzADIAMQAwAC4A',
+  'LAArACwALwA1AD0ARQBLAE4ATQBIAEAAOAAxAC0AKwAqACsALAAtACwAKwAqACkAKAAoACcAJwAmACYAJQAlACYAJwAoACkAKQApACkAKgAqACsALQAvADEA',
+  'MgAzADQAMwAzADIAMQAwADAAMAAxADIAMwA0ADQANQA2ADYANwA3ADcANwA2ADYANgA2ADYANwA4ADkAOgA6ADoAOQA5ADgAOAA3ADYANQA0ADIAMQAwADEA',
+  'MQAzADQANgA3ADcAOAA5ADkAOwA8AD4AQABCAEMARABEAEQARQBGAEcASABKAEwATgBQAFIAVABWAFcAWQBaAFwAXwBjAGcAawBwAHQAdwB6AH4AgwCJAI4A',
+  'kwCYAJsAnQCfAKIApgCqAK4AsQC0ALUAtQC1ALcAuQC8AL8AwwDFAMcAyADIAMgAyADIAMgAyQDJAMkAyQDKAMoAywDNAM4A0ADSANMA1gDYANwA4ADlAOoA',
+  '7gDzAPcA/AABAQcBDQETARkBHgEiASUBJwEpASsBLAEtAS0BKwEpASUBIgEeARsBGgEZARkBGAEYARYBFAESAREBEAERARQBFwEbAR8BIgEjASMBIgEgAR4B',
+  'NgE4ATcBNQE0ATQBNgE5ATsBPAE8AToBNwEzAS4BKAEhARoBEwEOAQoBCAEGAQMB/wD5APIA7ADmAOIA3wDdANsA2QDVANEAzQDKAMcAxgDHAMgAygDMAMwA',
+  'ywDIAMIAuwC1ALEArwCuAK8ArgCsAKoApwClAKMAoACcAJYAjgCEAHsAdABwAG0AbABsAGsAagBoAGYAZABhAF0AWQBWAFMAUgBSAFIAUQBPAEwASwBKAEsA',
+  'TQBPAE8ATABHAD8AOAAyAC4ALgAvADAAMQAvACwAKAAlACMAIwAlACcAKQAqACoAKgAqACoAKwArACoAKQAnACUAIwAiACIAIQAgAB8AHgAdAB0AHgAeAB4A',
+  'HgAeAB8AIwAoAC4AMwA1ADMALgAoACMAHwAeAB4AHwAeAB0AGgAYABYAFQAWABcAGQAaABwAHQAeAB8AIAAhACEAIQAhACEAIQAiACQAJQAnACgAKAApACkA',
+  'KgArACsALAAsACsAKgApACgAJwAmACYAJgAmACUAJQAkACQAJQAlACYAJwAnACcAJwAmACUAJQAlACQAIwAhAB8AHQAcABsAGgAaABkAGQAaABoAGwAcAB0A',
+  'HgAfAB8AIAAhACMAJAAlACUAJQAlACUAJgAmACcAKAAnACcAJgAlACYAJwAqACwALwAxADMANQA4ADwAQABGAE0AVABbAGIAZwBrAG0AbgBwAHMAdwB7AIAA',
+  'gwCFAIgAiwCRAJgAoACoAK4AsgC2ALsAwQDJANEA1gDXANQAzwDJAMUAwgDBAMAAvAC2AK8ApwChAJ4AngCgAKMApwCsALAAtAC3ALoAvgDBAMYAzADVAN8A',
+  '7AD5AAYBEwEeAScBLgEzATcBOgE8AT4BPgE+AT0BOwE4ATQBMAErASUBHgEXARABDAEJAQsBEAEXASEBKgEzATkBPAE9ATsBNgEwASkBIwEgASABJQErATEB',
+  'QwFHAUcBRAFAAT0BPQE9AT4BPQE8AToBOQE4ATcBNwE1ATMBMAEsASgBIwEfARsBGAEWARQBEQEMAQYBAAH6APUA8QDtAOkA4wDdANcA0ADKAMQAvwC8ALkA',
+  'twC1ALIArgCqAKUAoACcAJkAlgCSAI8AjACJAIcAhACAAHsAdABsAGYAYABbAFcAUwBOAEsASABHAEcARgBFAEQAQgBBAD8APAA4ADMALwArACkAKAAnACcA',
+  'JwAoACsALwAzADYANwA2ADUANAA0ADMAMQAtACYAHgAXABAACwAIAAYABgAHAAgACgAMAA8AEAAQAA8ADgANAA8AEgAVABcAFgAUABEADQALAAkABwAGAAYA',
+  'CAALAA8AFQAaAB4AIAAgAB4AGwAXABQAEwASABMAFAAUABMAEgARABEAEgARABEADwAOAA0ADgAPABEAEwAVABYAFwAZABoAGgAbABsAHQAfACIAJAAmACgA',
+  'KQApACgAJwAmACQAIgAgAB8AHwAfAB4AHgAdAB0AHAAbABkAGAAVABMAEQARABEAEQARAA8ADQALAAoACgAKAAoACgAKAAkACQAIAAgACAAJAAoADAANAA0A',
+  'DQANAAwACwAJAAcABgAEAAMAAwADAAQABAAEAAUABgAJAAsADgARABQAGQAfACUAKwAwADUAOAA7AD0APQA7ADoAOQA6AD0AQQBGAEwAUwBbAGIAaQBtAG8A',
+  'bwBvAHIAeACBAI0AmACgAKUApgClAKMAowCnAK4AtgC9AMAAvQC0AKYAlgCHAHsAcwBxAHUAfQCIAJUAogCvALsAxgDPANcA3gDkAOoA8AD3AP4ABgENARUB',
+  'HQEmATABOgFEAU0BVAFYAVoBWQFYAVgBWAFaAV0BXgFdAVoBUwFLAUQBPgE7AToBOQE4ATYBNQE1ATYBNwE4ATgBOQE9AUIBRwFKAUkBQwE6ATMBMQE1ATwB',
+  'UwFWAVkBWwFeAWABYgFiAWIBYgFiAWIBYAFcAVYBTgFGAT0BNQEvASoBJwEjAR8BGAERAQkBAgH8APcA8wDvAOsA5gDhANoA1ADNAMYAvgC3ALAAqwCnAKQA',
+  'oACcAJYAkACLAIYAgQB8AHYAcgBvAG4AbABpAGQAXgBYAFMATgBKAEUAQAA6ADUAMAArACcAJAAkACUAJgAmACQAIQAdABgAFAAQAA0ACgAIAAcACQAMAA4A',
+  'DwAQABEAEgAUABUAFgAWABYAFwAZABoAGgAZABcAFQARAAsABQD///z/+f/4//f/9v/2//f/+f/7//v/+//7//3///8BAAEA///8//r/+P/3//b/9v/3//j/',
+  '+f/5//n/+v/9/wMACQAPABMAFQAWABcAGQAbAB4AIAAgAB0AGQAUABEADwANAAsACQAGAAUABAAFAAUABgAHAAoADgASABQAEwASABAAEgAWABwAIgAnACoA',
+  'LAAtAC0AKwAnACQAIAAdABsAGwAbABwAHAAbABgAEwAOAAsACQAIAAcABQADAAIAAQAAAP///v/+//7///8AAP///v/7//n/+P/3//X/8v/x//D/8P/w//D/',
+  '7v/r/+j/5f/i/+L/4//l/+b/5//n/+f/6f/t//L/+f8BAAgAEAAXACAAKAAtAC8ALQApACUAIAAbABYAEgAPAA8AEwAZACEAKAAuADUAPwBLAFoAZwBwAHIA',
+  'bQBjAFkAUQBNAE8AVwBkAHQAhQCSAJkAmQCUAIsAgABzAGYAWABOAEgASQBPAFgAZABxAH4AjACbAKoAuQDHANQA3wDoAPEA+QACAQoBEgEYAR0BIgEoATAB',
+  'NwE+AUUBSgFPAVMBVwFbAWABZgFtAXMBdgF1AXIBbAFlAV4BVgFOAUcBQgE/AT8BPwE/AT4BPAE6ATkBOgE6ATsBPAE/AUMBSgFSAVcBWQFYAVQBUQFPAVEB',
+  'agFvAXIBcwF1AXoBfwGCAYIBgAF8AXUBbQFmAWEBXwFcAVYBSwE9AS8BJAEcARQBCwECAfoA8wDtAOYA3wDYANMAzQDGAL4AtwCxAKwApwChAJoAlACQAI4A',
+  'iwCHAIAAeQByAGsAZQBfAFoAVgBUAFEATgBKAEUAQAA9ADoANQAuACYAIQAeABwAGQAVABEADgANAAwACwAJAAgABwAGAAMAAQAAAAAAAQAAAP3/+f/2//P/',
+  '8//z//P/8//y//L/8f/x//D/8f/0//j//f8CAAUABwAJAAoACQAFAP7/9f/s/+T/4f/i/+b/6P/p/+n/6f/p/+r/6f/n/+b/5v/p/+z/7v/u/+7/8P/0//b/',
+  '9f/z//T/+v8GABMAHAAfAB4AHQAdAB8AHwAdABoAGQAYABoAGwAdACAAIgAkACQAIQAcABYAEgAQAA8ADQAKAAQAAQABAAMABwAKAAsADAAQABUAGgAdAB4A',
+  'HwAhACQAJQAjACAAHgAcABsAGgAYABgAGQAbAB0AHQAbABkAGAAVAA8ABwD+//f/8//x/+//7f/r/+v/7f/u/+3/6f/l/+P/4v/h/9//3f/b/9r/2f/Z/9j/',
+  '1//X/9f/1//X/9f/2P/a/9r/2f/Y/9n/3v/l/+z/8v/3//3/AgAFAAUAAgD9//n/9f/z//P/8v/0//f//v8EAAkACgAHAAUABgAKAA8AEgAWABsAJgAzAD4A',
+  'QQA8ADQALwAvADUAPwBMAFkAZgBuAG8AaQBfAFUATABHAEQARgBOAFsAbAB9AIwAmgCoALcAxADQANoA5ADtAPcAAAEIAQ0BEQEVARoBHgEiASgBLwE1ATsB',
+  'QQFGAUwBUQFWAVoBXQFfAWMBZgFqAW0BbwFvAW0BaQFhAVcBSwFAATYBLQElAR4BGwEbASABJgErAS4BMAExATQBOQFAAUgBUwFhAW0BdAFzAWwBZQFiAWQB',
+  'gQGCAYUBigGQAZIBjwGJAYUBhAGFAYEBdAFhAU8BRAE/ATwBNQEtASYBIwEhARoBDwEBAfUA6wDiANkAzwDHAMAAuwC1AK8AqQCjAJ0AlgCOAIcAggB+AHkA',
+  'cwBtAGcAYgBcAFYAUABLAEYAQgA/ADsANgAxACwAJgAiACAAHgAaABQADgAJAAQAAAD7//f/9P/y//D/7//v/+//7f/q/+X/4v/g/97/2//Y/9b/1v/X/9f/',
+  '1v/W/9b/1v/V/9L/0P/N/8z/y//O/9T/3f/l/+r/7f/w//L/9P/z//H/7//u/+//8P/x/+//6v/l/+L/4v/m/+r/7P/t/+7/7f/t/+3/8v/9/wgAEAATABQA',
+  'FgAaAB0AHQAZABUAEQAQABIAFAAVABUAEwAUABkAHgAgAB4AGQAXABoAHgAhACIAIgAiACIAIgAgACAAIQAkACYAJQAiAB8AHQAcABoAFQASABMAGQAfACMA',
+  'IQAcABgAFwAXABgAFwAWABUAFwAbACEAJQAnACcAJAAhABwAFgARAAsABQAAAP///v/9//f/7f/l/+L/5P/m/+X/4f/b/9f/0//Q/87/zP/L/8r/yP/G/8T/',
+  'xP/E/8b/yP/K/83/0f/X/9z/4f/k/+b/5v/k/+D/3v/e/+H/5f/m/+X/4//i/+H/3f/Y/9T/0//U/9f/2f/a/9r/2v/Z/9n/3P/k/+7/9//7//n/9f/z//T/',
+  '9//8/wUAFAAlADQAQQBLAFYAYABnAGgAYwBdAFgAVwBdAGgAeQCMAJ0ArAC4AMIAzQDYAOMA7gD4AAABBwEOARUBHAEhASUBKQEsAS8BMQEyATUBOAE8AUEB',
+  'RQFKAU4BUgFVAVgBXQFiAWgBbgF0AXoBgAGFAYcBgwF8AXQBagFeAVABQQEyASkBJgEpAS8BNAE0ATEBMgE6AUoBWgFkAWkBbAF1AYEBigGNAYkBgwGAAYAB',
+  'oAGeAZ0BnwGgAZ8BnAGYAZUBkQGMAYYBgAF5AW8BXwFMATwBMAEpASQBHwEbARUBDgEGAf0A8wDoAN0A0gDIAL8AtgCuAKgAoQCaAJIAjACFAH4AdgBvAGkA',
+  'ZABeAFcAUABLAEYAQQA7ADYAMgAuACoAJQAfABoAFgASAA8ADAAMAA0ADQAJAAEA9//u/+j/5f/k/+P/4f/f/93/3f/c/9v/2P/U/8//y//J/8n/yf/J/8j/',
+  'x//G/8T/w//B/7//vf+8/7r/uf+5/73/xf/M/9D/0//W/9n/2//b/93/4v/q/+3/7P/p/+r/8P/3//3///8BAAEA///8//v//f8BAAQABgAJAA0AEgASAA4A',
+  'CAADAAIAAwAIAAwADgANAAsADAAQABQAFQAUABMAEgAUABYAGAAZABgAGAAZAB0AIAAhACAAIAAiACQAIwAhACIAJgAoACYAIgAfAB0AGwAYABYAFgAXABcA',
+  'FgAVABUAEwAPAAsABwAGAAYACgAQABUAFwAYABkAGQAXABEACwAGAAIA/v/6//f/9v/z/+7/6P/l/+f/6P/m/+D/2//Y/9X/0P/L/8f/xv/E/8D/u/+4/7j/',
+  'uv+8/7//w//H/8z/1P/d/+X/5f/f/9b/0P/N/8v/yv/K/8n/xv/B/7v/t/+0/7L/sf+w/7H/s/+4/73/v/++/7z/u/+9/8H/xf/L/9X/4P/n/+j/5v/m/+v/',
+  '8//+/wwAHwAwADwAQABCAEcAUABZAF4AXgBdAF4AYQBlAGkAcQB+AI0AnQCsALsAyQDVAN4A5QDqAO0A8ADzAPkAAQEJARIBGgEiASkBLwEyATMBNAE3AT0B',
+  'RgFOAVUBWgFgAWcBbwF3AYABiQGSAZoBoQGnAasBrQGtAasBpwGdAYYBZgFIATgBOgFGAU8BTgFIAUcBUQFlAXsBigGSAZUBmQGgAaYBpwGiAZwBmQGbAZ8B',
+  'sgGyAa0BqgGqAawBqgGmAaEBnQGWAYwBhwGLAZEBigF0AVkBRAE4ATABJwEeARYBDgEFAfsA8QDoAN0A0QDGAL4AtwCxAKkAoQCYAI4AhAB6AHEAaQBkAF8A',
+  'WQBTAE0ARwBCADsANAAwAC4AKwAmAB8AGQAVABMAEwAUABMADQAGAP//+f/y/+r/4//e/9r/1//T/87/yf/E/8D/vf+8/77/wf/C/7//u/+3/7X/tf+2/7f/',
+  'uP+4/7j/uv+7/7j/s/+w/7D/sf+x/7L/tf+5/77/wf/G/8v/0v/X/9v/3P/f/+L/5P/k/+H/4f/k/+j/6//s/+7/8v/2//j/+P/4//v//v////7//v/9//z/',
+  '+v/7/wEABwAJAAcABQAGAAgACgAKAAwADwASABQAFgAYABgAFwAVABUAFQAVABYAGQAdAB8AHQAbABoAGgAbABoAGgAbABsAHQAeAB4AHAAXABMAEAANAA0A',
+  'DwASABAABwD+//r//f8BAAMABAAHAAsADgAPAA8ADAAEAPr/9P/z//b/+f/3//P/7P/l/+H/4f/j/+L/4P/d/9z/2v/W/9L/zf/I/8P/v/+7/7f/tP+w/6//',
+  'sP+0/7z/xf/L/87/z//O/8r/wf+4/7P/s/+1/7P/r/+s/6z/rf+v/7H/sP+s/6T/nf+c/53/n/+e/53/n/+j/6j/rf+z/7j/vv/C/8X/yP/M/9L/2//k/+z/',
+  '8P/x//H/9P/5/wAACQASABsAJAAvAD4AUABiAHAAfACGAI0AkQCTAJgAnwCkAKgAqwCvALUAuwDBAMgAzgDWAOAA7gD+AAwBGAEiASoBMQE4AT0BQAFCAUYB',
+  'TAFUAVwBZQFuAXcBgAGHAY4BlQGdAaUBrAG1AcEBzAHTAdQBywG5AaIBjwGEAX8BfgF8AXkBeAF+AYkBlwGgAaYBqgGxAbkBvgG9AbgBswGuAaoBpgGnAawB',
+  'tQG3AbkBtwG0AbQBtgGyAakBoQGcAZcBkAGNAZEBlAGLAXYBXAFHATcBKwEgARcBDQEBAfMA5wDdANUAzgDHAL8AuACvAKYAnACSAIcAfgB1AGsAYgBbAFYA',
+  'UABJAEIAOwA0AC0AJgAhABsAEwAPABIAGQAcABUABwD6//H/6v/k/9//2//X/9X/1f/T/8//y//J/8b/xP/B/8D/v/+8/7r/uf+4/7f/t/+4/7n/uv+5/7n/',
+  't/+1/7P/sf+u/6r/p/+l/6T/o/+j/6b/qP+n/6T/pf+r/7L/uP+9/8L/xv/H/8f/yv/M/87/z//S/9f/3f/g/+D/4f/k/+j/6v/r/+v/7P/v//H/8f/x//H/',
+  '8//3//r//f///wEAAwAEAAUABgAHAAoADQANAAsACQAJAAwADwAOAAwACwAMAA0ADwAQAA8ADgAPABIAFAAUABQAFgAaABoAFwAUABQAFAATABEAEQARABIA',
+  'EwASABIAEwAUABcAGQAbABwAHAAbABcAEQALAAYAAQD7//X/8v/x/+7/6P/h/9r/1P/R/9T/2f/b/9n/1//X/9n/2f/a/9j/0v/J/8D/u/+2/7H/rP+o/6X/',
+  'pf+o/67/uP/H/9f/3v/W/8L/rv+g/5f/kf+O/43/i/+J/4n/jP+O/47/jP+K/4f/gv99/3j/df90/3T/dv95/33/g/+L/5T/nv+m/6r/sP+2/7r/vf/D/83/',
+  '2P/i/+z/+f8IABYAJgA4AEYARwA9ADcAQgBdAHgAiwCXAKMArACxALYAvADAAMAAuwC2ALAAqQCoALAAvQDKANQA3QDpAPgACgEbASoBNQE8AUIBSAFOAVYB',
+  'XgFjAWcBawFxAXcBewF/AYYBkAGbAaIBpwGtAbUBwAHHAckBxQHEAcoB1gHaAdMBxAG6AbgBuwG/AcUBzQHUAdcB1AHPAcsByQHJAckByAHGAcUBwwG/AbkB',
+  '0wHNAcYBwQG+Ab8BwwHEAb0BsgGqAaQBnAGTAYoBggF4AWwBXQFKATgBJgEWAQYB+QDuAOUA3gDVAMsAwQC7ALYArQCjAJoAkwCLAIIAegBxAGcAXQBVAE4A',
+  'RwBCAD0ANgAsACUAIAAaABMAEAARABEADAABAPb/7f/m/+L/3//c/9r/2f/X/9T/0f/P/83/yv/F/8D/vP+4/7X/sv+v/63/rP+p/6b/pP+i/6D/nv+d/5z/',
+  'mv+Z/5r/m/+e/6D/n/+b/5X/kf+P/4//kv+X/5j/lv+U/5b/m/+f/6P/pv+q/67/s/+2/7n/vP+//8H/xP/I/8v/zv/R/9P/1f/V/9j/3P/f/+D/4v/m/+n/',
+  '7P/v//D/8f/z//f/+P/4//z/AgAFAAMAAgAEAAcACQAKAA0AFAAaAB0AHAAYABEACgAHAAkACQAJAAoADAAOAA8ADwAOAA4ADgAOAAwACwAMAA4ADgAMAAwA',
+  'DQAOAA8ADwAPAA4ADgAPAA8AEwAYABsAGAARAAoABgAEAAEA/P/y/+b/2f/P/8v/yf/H/8P/wf/C/8P/wv/D/8j/z//V/9T/zP/D/73/t/+w/6r/p/+j/57/',
+  'nP+e/6L/qP+2/8j/0f/K/7n/q/+l/6P/ov+f/5j/kP+K/4f/gP90/2v/Z/9l/2H/XP9a/1j/Vv9V/1b/V/9Z/17/ZP9r/3X/f/+E/4b/i/+U/5n/m/+d/5//',
+  'nv+f/6X/rf+y/7r/xf/O/9X/4P/z/wgAHgA4AFQAbQB+AIgAkQCZAJ0AnwCiAKkAtgDFAM4AywC/ALQAtQDDANQA4ADsAPwADgEfAS4BPAFIAVABVQFbAWIB',
+  'aQFuAXMBeAF6AX0BgwGNAZoBqAGzAboBwQHLAdQB2AHXAdUB1QHXAdsB4AHiAeEB4gHlAeoB8QH4AfsB9gHtAeYB5AHkAeMB4AHeAd0B3QHdAdsB2AHYAdcB',
+  '6QHoAeUB4QHbAdQBzQHHAcEBuQGxAasBpQGhAZsBjAF2AWABTAE6AS4BJAEVAQEB8QDlANwA0wDJAL0AswCsAKcAogCdAJcAjwCHAH8AdABpAGAAWABQAEgA',
+  'QgA8ADUALAAiABoAFQAUABMAEwARAAkA/P/v/+j/4//f/9z/2v/X/9L/z//N/8j/w/+//77/u/+3/7X/tf+z/67/qv+n/6T/o/+j/6D/mf+U/5D/jf+L/43/',
+  'kP+Q/5H/k/+R/4r/g/+A/4L/h/+K/4r/hP9//33/gP+I/5D/lf+X/5j/mv+c/6D/pP+m/6f/p/+r/6//s/+2/7r/vf+9/73/wP/D/8T/x//L/9H/2f/f/+H/',
+  '4v/k/+f/6f/t//P/9//4//r//f/9//z//v8CAAUABgAJAAwADQAPABMAFwAWABAADAAOABEADwAMAAsACwAMAA8AEQAPAA0ADgAPAA4ADQAOAA0ADQAOAA8A',
+  'DwAQABAADAAGAAEA//////7//P/9//7//v/9//7//v/+//3/+v/4//n/9//s/97/1P/N/8P/uf+0/7D/rf+s/67/sv+2/7f/tv+0/7H/r/+u/63/rP+p/6X/',
+  'pP+m/6r/r/+2/7z/uP+s/6D/mv+a/5//pf+p/6b/nv+S/4f/ff91/2v/X/9T/0j/QP86/zf/N/85/zj/M/8y/zn/Rf9P/1r/Zf9r/23/dP+B/4n/i/+J/4j/',
+  'iv+P/5T/k/+Q/5j/rf/C/8v/0P/f//n/EQAdACcAPgBcAHUAgACEAIcAiQCNAJYAoACrAMEA3wDtAN8AygDGANIA3gDnAPMABwEeATIBRAFVAWUBbwFwAXAB',
+  'dAF9AYcBkQGaAaABqAGzAcABzwHaAeEB4wHnAesB6AHhAeMB7wH2AfMB7gHyAfsBAAIBAgUCDQISAgwCAQL6AfkB+QH6AfoB+gH7AfoB+AH1AfIB7wHsAeoB',
+  '+gH0Ae0B5gHeAdMByAG/AbUBrAGnAaMBnAGaAZoBkQF7AWcBVwFHATUBIwEQAf8A9ADqAN4A0wDKAMAAuQCzAKoAoQCbAJUAjQCEAHkAbQBiAFsAVQBPAEoA',
+  'RQBAADsAMQAlAB0AGgAXABYAEwAIAPj/6//n/+X/4P/Y/9H/zP/I/8b/wv++/7r/uv+4/7P/r/+u/6//sP+w/6v/o/+b/5f/lf+T/5D/i/+G/4T/gv+B/4D/',
+  'gP9+/3v/d/9z/3P/ef9//4H/g/+E/33/cv9x/3r/hP+N/5T/mv+c/5r/mf+b/5//oP+g/6P/p/+n/6b/p/+t/7T/u/+//73/uv+5/7v/vv/C/8f/zP/R/9f/',
+  '2//f/+L/5P/m/+r/7f/v//L/9//7//3/AQAEAAUABAAEAAcADAAOAA0ADQAPABEAFAAWABMAEwAYABwAGwAYABgAGQAZABkAFgASABIAFQAXABkAHAAcABgA',
+  'FgATAA8ACQAFAAIAAQACAAMAAgADAAQAAwAAAP//AAABAAQABgAEAAIA///6//P/6//n/+X/4P/U/8L/tf+w/6//rv+t/6z/rP+u/7H/sv+y/7P/tf+2/7f/',
+  'uP+6/8D/yv/U/87/tv+c/5P/l/+d/5//of+g/5j/jv+E/3v/c/9p/17/VP9L/z//Nf8w/yv/Jv8l/yb/Iv8Z/xj/IP8r/zf/Q/9J/0v/T/9Y/1z/WP9U/1X/',
+  'Xv9r/3f/ff9//4X/kP+d/6b/q/+1/8b/3f/1/wYADgAUACgAQwBaAGgAcAB3AH8AjQCcAKoAugDPAOQA9gD/AAAB/gABAQwBGgErAUABUQFdAWYBbwF1AXoB',
+  'ggGKAZEBlwGiAa8BuwHIAdcB4AHmAe0B8gH3Af0B/wH6Af4BEQIdAhcCEAISAhYCHQInAikCIQIZAhoCHwIfAhoCFwIWAhYCFAIRAg8CDgIMAgoCBwIEAv8B',
+  '9QHuAeQB2AHPAcgBvwG4AbQBrgGnAaEBmQGSAYwBgwF0AWEBTAE3ASYBHAEVAQsB/wDyAOcA3gDVAMoAuwCtAKYAogCeAJkAkQCHAHkAawBhAFsAVwBUAFAA',
+  'SwBEADoALgAjABwAFgAPAAsACAACAPv/9f/s/+L/2f/R/8b/vf+7/7r/t/+0/7D/rP+p/6T/n/+d/57/oP+i/6L/nP+V/4//iv+E/3//fP94/3T/cv9y/3P/',
+  'df90/3D/bf9t/27/cf92/3r/fv+F/4n/hf+A/4L/iv+T/53/pP+n/6b/oP+a/5j/mv+c/57/oP+j/6n/r/+1/7n/vP+8/7r/tv+y/7L/tP+5/8D/xv/N/9P/',
+  '1//b/9//4//o/+3/8P/y//P/9f/5////BQAJAAwADwAOAAsACwAOAA8AEQASABMAFAAWABoAHwAjACQAHwAdACAAIQAhACIAIQAdABkAGAAZABsAGgAYABgA',
+  'GQAZABQADgAKAAkACQAKAAwADgAPAA0ACQAFAAIA/////////f/4//T/9P/2//X/8v/v/+v/5//l/+H/3P/Y/9b/2f/i/+r/5v/Z/8z/xP/A/7//w//K/9L/',
+  '2f/e/+H/2v/K/7f/p/+b/5H/iP+F/4P/fP90/2//a/9m/2D/XP9Y/1T/U/9Q/0P/Lv8Z/w3/Cv8K/wn/B/8C//3+//4G/w7/F/8d/yL/Lf87/z//Nf8s/yz/',
+  'MP82/zz/RP9L/1H/Wf9j/27/ev+H/5f/q//C/9f/6//+/w4AFwAaACEAMwBMAGEAdACJAJ0ArgDDANwA8gAAAQgBEQEbASABGwETARcBKgFBAVQBYwFxAXwB',
+  'hQGNAZcBowGxAcEBzwHbAeYB8QH9AQoCDwIRAhwCIwIbAhcCIAIcAg8CFAImAi8CNQI7AjUCMAI3Aj4CPQI+AkACPQI2AjECLwIqAiECGgIXAhMCDQIGAv0B',
+  '6AHhAdsB1QHOAccBwAG6AbIBqgGiAZgBkAGKAYUBfQFwAWABTgE6AScBHQEXAQwB+wD1APgA8gDjANQAxwC6ALAApgCdAJYAjwCIAIEAdwBrAGMAYABZAFAA',
+  'SQBBADgALwAnAB4AGAATAAsA///1/+//7v/w/+z/4v/X/83/wf+6/7n/tP+u/6r/p/+k/6H/nv+c/5v/mf+V/5L/jf+I/4L/fP93/3T/c/9x/2//cP91/3r/',
+  'e/9//4X/hf9+/3b/cP9u/27/bP9q/2r/a/9u/3f/gv+J/4//mf+j/6T/m/+U/5H/jv+O/5H/lP+Z/6H/qP+s/6r/pf+i/5//nv+h/6r/t//D/8b/xv/O/9j/',
+  '4P/n/+3/8f/2//n/+P/3//j/+////wYADgATABUAFgAYABcAFgAWABcAGAAaAB0AIAAhACMAJwAqACsAKwAoACYAKQAsACoAJwAmACUAJAAkACMAHwAdABwA',
+  'GgAYABUADwAIAAUABgAJAAsACwAIAAgACQAJAAYAAwABAP7/+//5//n/+f/5//n/+//9///////7//b/8v/w/+//8P/x/+//7v/u/+z/5//j/97/2P/W/9f/',
+  '1f/N/8P/vP+3/7H/qP+h/5z/lP+N/4b/fv96/3P/Zf9X/0//S/9M/0z/SP9A/zT/If8I//P+6f7o/uj+5f7h/uH+5v7r/u3+7P7s/u/+9f79/gT/Bv8E/wH/',
+  '//4A/wL/CP8U/yH/Kf8t/zP/PP9I/1X/Zv98/5T/sv/R/+f/+f8NAB0AJAAoADAARABoAIoAowC7ANQA5gD0AAIBDwEWARcBEQEIAQQBEQErAUQBWgFtAXwB',
+  'iQGVAaEBsAG8AcgB1gHkAfEBBAIXAiECKgI0AjkCPAI5AjICNwJCAkICOAIzAjgCSQJUAk4CSQJOAlICUQJOAkkCQwI4Ai0CKQIgAg0CAQIBAgEC/AH3AfAB',
+  '5QHgAdgB0wHMAcMBugGzAaoBnwGSAYoBhwGDAX4BdAFjAU4BPgE2ATQBLgEhARYBDAECAfkA7wDfANIAywDCALcArwCoAJ0AkwCKAIIAfgB3AG4AaABiAFkA',
+  'UgBNAEQAOAAtACYAHwAVAAsABQD9//T/7P/n/+H/2P/Q/87/zP/F/7//uf+z/6z/pP+b/5T/kP+N/4r/if+H/4T/gP99/3n/d/9z/3D/bf9o/2n/b/9v/2b/',
+  'X/9i/2v/bf9t/3L/cf9p/2b/Y/9X/1P/W/9j/2b/aP9q/27/dP94/3v/fv+F/4j/hf+F/4r/jP+Q/5j/m/+X/43/gf92/3H/ev+U/7X/yv/L/8j/zv/V/9r/',
+  '4v/p//D/+v8BAAIAAgADAAYACQAMABAAFgAcACAAJAAkACEAIQAjACUAJgAnACkAKwAtADAANQA7AD0AQABAAD4APAA4ADMAMQAxADEAMwA1ADUANAAvACkA',
+  'JQAgABoAFQAPAAsACAAHAAcACQALAAsACQAJAAkACAAOABgAIgApACoAJgAhAB0AGgAbAB0AHQAdAB4AIQAmADAAPQBFAEcARwBBADYAKgAeAAoA7//b/9D/',
+  'yf/G/8n/yf/F/77/tf+u/6n/pv+q/67/q/+i/5f/if94/2b/Vf9I/z7/Nf8v/yj/Fv/8/uT+1v7Q/sz+x/7F/sf+yv7I/sT+wv7D/sX+xv7J/tD+2/7l/un+',
+  '6f7p/uv+6v7w/gT/FP8W/xX/Gf8i/yr/M/9C/1f/cv+O/6j/wf/Z/+3///8HAAgAJABeAIUAkwCjALUAzwDvAP4ABQEQAQgB7wDkAOwAAQEfAToBUQFoAXsB',
+  'igGXAaMBtAHFAdEB4AHxAQICFgIiAiACKAI/AksCTwJcAmQCXwJWAk4CSgJMAk4CUgJWAlgCXQJgAl0CWQJUAk0CRwJBAjgCLAIdAg0CBAL/AfoB8wHsAegB',
+  '5wHjAeEB2wHRAcQBtgGnAZoBmQGcAZsBmQGKAWcBPwEsATABOwE9ATIBIwEbAQ8B/ADtAOIA1wDOAMQAuwC1ALUAtgC1AK8AqQCfAJUAiwB/AHEAawBqAGcA',
+  'YwBeAFcASwA8AC4AJgAeABEABwAAAPr/8//s/+f/4v/Z/87/xf++/7//xv/E/7X/pP+W/4b/ev94/3f/dv91/3P/c/9w/2v/aP9m/2X/Zf9l/2b/Y/9a/1T/',
+  'T/9N/1L/Wf9d/17/W/9a/1z/Xf9b/1n/XP9g/1//W/9a/1z/W/9b/2L/aP9q/27/c/97/4T/jP+R/5P/k/+R/4n/ef9o/2X/dv+Z/73/zv/M/8z/0v/W/9z/',
+  '4v/o//f/CAANAA0ADwAKAAIACAASABoAIAAlACsALgAvAC8AMAAxADIAMwA0ADcAOQA7ADsAPQBBAEcASgBNAFAAUQBLAEEAOgA5ADwAQABAAD4APwA+ADkA',
+  'MQAqACQAHgAXABIADQALAAkABwAGAAYABgAIAAsADgAUAB0AJAApACoAJwApADIAQQBMAE0ASQBJAFIAWwBfAF0AWQBUAFEATgBJAEIAOAAuACYAHQARAAEA',
+  '7//p/+z/5//d/9P/yf/D/77/s/+r/6f/oP+Y/4//g/9v/1r/Uf9H/zH/Fv8E//j+6f7b/tD+yP7D/r3+tv6x/qz+o/6f/p7+n/6j/qb+qf6u/rb+xf7S/tf+',
+  '1v7T/sz+y/7Z/u3++P75/vj++f4B/w3/Fv8h/zL/Rv9b/3H/iv+p/8v/6f8DABQAIgA8AFsAdwCRAKYAvgDfAPUA/AD/APwA/QAIARIBIgE+AVYBaAF7AY8B',
+  'ogGyAcABzAHWAd8B7QEBAhgCLgI0Ai4CLgI5AkICSgJOAk0CUQJWAlACTQJUAl4CZgJrAm4CcAJrAmYCYQJYAlICTAJBAjYCLQIjAhoCCwL+AfwB/AH2Ae4B',
+  '6gHlAeIB1AHAAbEBqgGnAaoBqQGbAY4BfwFjAUkBNwExATYBNwEyASkBGwEIAfQA5QDaAMwAwQC4ALAAsACuAKgAqACtALEAsQCoAJsAlQCNAIAAeQB3AG4A',
+  'XgBOAEkASwBIADsAKAAbABMADQAFAPz/9P/s/+T/3P/N/77/uv/E/9H/zv+9/6v/mf+L/3//cv9q/2n/aP9n/2f/Zv9h/1z/W/9Z/1r/V/9P/1H/Uf9J/0T/',
+  'Pf86/z7/Pf89/z3/Ov88/0H/P/85/zj/Qv9J/0j/Rv9H/0n/Tf9S/1b/XP9m/2//df94/3v/gf+G/4f/if+I/4P/e/9y/3j/kP+w/8n/z//N/87/0P/W/9//',
+  '6P/u//H/AgAZAB4AGQAeAC4AOgAtABgAFwAjAC4ANQA3ADkAOgA6ADsAPABAAEUARwBHAEoASwBLAE8AUQBUAFcAVgBTAFAASwBHAEIAPwA/AEAAQQA/ADgA',
+  'MgAuACoAJAAdABcAFAAVABgAGAAWABQAFQAWABYAGQAfACQAKQAvADQANwA6AEAASABOAFQAVgBVAFkAXABcAFgATwBJAEcARQBGAEkASQBGADwALQAsACkA',
+  'EwD+//X/7P/i/9r/0f/J/8D/tf+m/5j/jf9//23/Yf9b/1P/Sf9C/zj/J/8W/wn//P7s/tn+x/6+/rn+rv6l/p3+lf6S/pL+kP6Q/pL+lv6g/qr+sP64/sH+',
+  'xv7G/sL+v/7F/s7+2P7i/uf+6f7w/vb++P4A/xP/I/8u/0L/Xf94/5j/vP/d/w0APgBMAEkAUgBwAJgAsQDCANYA5QD2AAMBCAEZASwBOgFOAWYBggGcAa0B',
+  'vQHNAdcB3AHfAeYB9QEPAicCMwI2AjgCOwI+AkECSAJQAlcCWgJZAl0CawJ1AnkCewJ+An4CfQJ6AngCdAJsAlsCSQJBAj0CNAIrAh8CDwIIAgQC/QH6AfUB',
+  '9wHsAdoBzAHBAbgBsgGtAaQBlwGMAYMBdAFdAU8BSgFDATsBMAEkARQB/gDqANgAywDEAL0AtwC1ALQArwCtAK4ArwCxAK0AogCaAJQAkwCNAIEAeAB3AHYA',
+  'aQBOAD4APwBCADkAKgAbAA8ACgAFAPr/7v/m/93/z//D/8T/0P/U/8H/q/+f/5L/hP96/3D/ZP9a/1X/VP9U/1T/Vv9U/0r/Rv9E/0b/SP9A/zj/Mv8n/yT/',
+  'I/8g/x3/Hf8h/yT/If8d/x//I/8j/yL/JP8s/zH/NP84/z//S/9S/1b/Xf9k/2b/aP9m/2P/Zf9r/23/b/9w/3D/bv9r/3L/jf+u/8j/1f/V/9H/1P/e/+v/',
+  '9v/+/wYAEwAgACwAMgAwAC4ANwBGAFIAUgBGADUALAA2AEIARQBJAEcARQBKAE4AUQBXAF0AXwBfAGIAYgBgAGEAXwBZAFQAUgBMAD8APQA+ADgANQA0ADQA',
+  'MgAsACsAKQAmACQAIgAiACcAJwAjACUAKQAsADEAMwA1ADgAOwBAAEMARwBLAEoATQBRAFYAWgBfAGEAXQBcAF8AXwBcAFoAWQBYAFcAWABVAE4ARQA/ADkA',
+  'KwAVAP//7v/d/83/xP+9/7b/q/+Y/4j/e/9p/1v/U/9M/0X/RP9F/zv/K/8e/xH/BP/0/uL+0f7D/rf+qv6d/pT+jv6I/oH+fP54/nr+gv6L/pL+lP6V/pj+',
+  'nP6i/qr+rP6s/rH+uf6//sj+0v7X/t7+5v7t/vz+Dv8e/zP/Sf9g/3n/lv+v/87/+v8iAEAATABVAIAArgDDAM4A2QDzABEBGwEpAToBRAFTAWoBhwGhAbQB',
+  'xwHZAeEB3QHbAeMB5gHrAf4BEgImAjkCQQJEAk4CVgJaAl4CZQJuAngCfgKGAowCjQKQApICjwKMAowChAJ5AnUCawJXAkgCQAIxAiACGAISAggCBQIBAvsB',
+  '/AHxAeEBzgG+AbcBrAGdAZcBlAGRAYkBdwFmAVYBQQEyASoBIAERAfwA4wDLALwAtACxALEArwCuALQAtACoAKYAqgCsAK4ArwCnAJYAhwB9AHgAcQBkAFkA',
+  'UgBMAEcAQgBBAEAANgAjABIABwD///z/8P/j/+z/9f/t/9r/xf+y/57/k/+O/4H/ev9z/2n/X/9V/0//SP9B/z//Qf9D/zv/Mv81/zf/Nv8v/yT/G/8Y/xn/',
+  'HP8f/xj/Cv8F/wj/B/8F/wr/Ev8R/wf/Bf8Q/x7/JP8l/yf/L/85/0H/Sf9Q/1X/VP9M/0r/Tf9R/1X/Vv9W/1b/Vv9V/1z/eP+c/7z/0P/X/9v/5P/v//3/',
+  'BQAMABcAHgAhACkANgA9AEAASQBYAFsAWABhAF0ASABEAE0AUQBSAFQAWQBbAF0AYABfAGAAaABuAG0AbABqAGYAXwBbAFYASwBHAEUAQAA8ADMALwAxADAA',
+  'LwAsACsALgAwAC8ALgAsACgAKQAsACsAMQA5AD8AQwBEAEgATABQAFYAWABWAFYAWwBfAGMAZABnAGsAbABtAHEAdAB4AHkAdwBzAGwAawBuAGsAYwBdAFYA',
+  'TQBGAEMANgAiABMA///g/73/oP+W/4//f/9u/2T/Xv9O/z7/Ov8z/yn/If8U/wX/9/7p/tv+x/60/q3+qP6a/o3+gf52/m3+aP5l/mX+aP5u/nb+f/6F/oj+',
+  'i/6O/o/+kv6Z/qb+s/61/rL+u/7B/sX+1/7q/vj+B/8Z/y//Rv9d/3n/lv+w/8H/zP/p/wsAHQA8AHYAogCwALsAzQDgAAIBFwEQAREBJgFIAXABkQGuAckB',
+  '3wHsAesB3QHHAbwBywHkAQACIAIwAjACLQIxAj8CSgJSAmECcgJ+AoMCjAKRApQCmQKdAqACoQKbApcCkwKDAncCcQJmAlQCQQI3Ai8CHwIVAg8CCQIDAgEC',
+  '8gHmAdMBvwGrAaYBsQGwAaUBnQGXAYUBaQFUAUQBNwEuASgBHAEGAe4A1AC+ALIArgCyALMAsQCxALEAsACnAKAAoACdAJgAlgCUAJAAjACHAH8AdwBuAGMA',
+  'WQBZAFkAUABEADkAMAAkABcACQAAAPv/7P/j//D/7//X/8P/sv+d/4//if+F/33/c/9q/2H/V/9N/0D/Nv8w/zD/Mf8u/y3/KP8h/yL/If8X/w7/CP8G/wf/',
+  'Cv8N/wz/Av/1/u3+7f7s/uv+5/7g/t7+4v7o/vD+9/76/vz+BP8Q/x7/Kf8x/zj/PP82/zP/Ov9D/0r/Tf9Q/1b/Xf9j/2j/cf+D/5b/ov+h/6n/xf/j//z/',
+  'DgAbACcAMgA8AEAAPgBBAE4AVwBXAF4AaQBqAGgAaQBlAF8AYABkAGoAbgBzAHcAdwB6AHoAdgB1AHAAbwBuAGkAZABbAFcAUgBOAEsARAA9AC8AKQAqACUA',
+  'JwAqACwALgAuADAAMQAuADIANwA1ADUANAA2ADsAQABEAEsAUwBcAGIAYQBhAGYAaABsAHUAeAB3AH8AiACPAJgAkwCHAIMAgAB/AHsAdABuAGcAYQBaAFEA',
+  'SAA7ADMAMAAqACEAEAD9/+b/x/+v/6L/lP+C/3D/Xv9P/0L/Mf8i/xb/Dv8D//L+5v7e/tL+v/6w/qv+of6O/nv+bv5f/lP+S/5K/lD+VP5a/mP+aP5t/nD+',
+  'cf5z/nX+ev6B/on+kf6X/p/+qP6u/rb+w/7N/tr+6v7+/hn/Ov9e/3v/jv+t/9T/6P/u//L/CQBDAHQAiACVAKMAvADQAOEA/wAYARwBJgFFAWsBjwGwAc8B',
+  '6QH1AfYB4AHGAdIB8wEJAhYCGQIXAhwCJwIyAkACUAJeAmsCeQKFAogCjAKTApcClwKbAqAClgKMAocCgAJ4AnMCcAJmAlcCSQI9AisCFwILAgcCBgICAvsB',
+  '6wHhAdgB0QHHAcQBxAG+AbQBqAGfAY0BdQFeAUsBPwEzAR0B/ADeAMQAtwC0ALMAtQC3ALYAtgC2ALEAqwClAJsAlgCRAIkAiwCKAIEAfQB5AHQAcABwAGsA',
+  'XABaAF4AXQBSAD0AKQAYAA0ADAAIAP3/7//p/+3/3//G/6//nv+W/5D/i/9+/3D/ZP9W/0r/P/84/zH/K/8l/x7/Hv8Z/xT/E/8N/wv/D/8G//3+AP/7/vb+',
+  '+P71/vX+8/7r/uH+3f7b/tr+1f7T/tn+2v7W/tj+3f7e/uL+6v73/gX/Df8T/xv/If8g/xz/Jf87/0n/Sf9S/2X/cf94/37/gv+I/4//l/+e/6v/vP/F/83/',
+  '1//o/wsALgBGAFMAVQBWAFkAYQBuAG0AbQB1AHgAdwB3AHQAcgB5AH8AgACEAIYAgwB/AHsAdgBzAHMAcwBuAGUAYgBhAF8AWwBWAFEASwBFAD8ANQAzADIA',
+  'KwAtAC4AKgAvADMAMwA2ADkAPQA/AEEAQwBEAEgATgBWAGAAaQBuAG0AagBuAHQAdAB0AHoAiQCfAKcAmwCbAKMApwCrAKwAowCRAIMAfQB0AGsAYQBVAEoA',
+  'PwA0ACsAIQAXABIACwAEAPf/4v/L/7H/lv+E/3j/Yv9J/zv/Kf8W/wP/9/7u/uT+3f7U/sr+vP6u/qX+lv6E/nf+Z/5Z/k7+Rf4//jv+Ov46/jz+Pf4//kT+',
+  'R/5N/lT+XP5i/mn+cP55/oP+i/6X/qf+tv6+/sj+2v7r/vz+F/88/2L/gP+U/6r/xv/c//H/FABFAGUAbQB5AI0AogC2AMsA3QD4ABsBLAFDAXEBnAG8AdgB',
+  '7gH2AeABywHdAfAB9gH9AQMCCgIXAiICLQI8Ak4CXgJrAnYCfgKHAo4CjwKMAokChgJ6AnYCdgJuAmUCXgJhAmgCaAJiAloCUwJLAjsCKwIYAgoCAwL3AfAB',
+  '9gHmAd4B2AHLAccBxAHIAc4BwQGhAYQBcgFhAVQBRAEsAQsB6gDeANIAwgC8ALoAtwC5ALoAuQC5ALUAsACtAKgAoACUAIsAjACJAIQAewBzAHQAbwBtAGgA',
+  'XQBYAFQATgBCADcAJQATAAgA/P/4//L/6f/d/+X/4f/D/6n/mv+W/47/fv9l/1j/T/9B/zj/LP8h/yH/HP8S/wj/Bf8B//f+8v7u/uz+7f7w/vH+9P7x/u/+',
+  '6/7i/t/+3f7c/tv+2P7P/sn+yP7I/sj+zv7S/tb+2f7c/t3+3v7p/vb+A/8K/wz/D/8W/yb/PP8+/yf/Kf9Q/3L/g/+M/5T/m/+m/7T/w//S/+X/9f///wYA',
+  'DAAWAC0ARwBUAF4AagBzAHkAewB7AH0AfgCBAIgAjQCOAJAAjACMAJMAkQCIAIIAfgB/AIQAggB1AG4AbgBrAGUAZwBtAHAAbgBfAE0APQAnABkAHgA1ADUA',
+  'LQAuACsALwAyADgAPQA+AD8AQABBAEUATQBVAFoAYQBoAG0AcgB1AHcAeQB6AHcAewCKAJwAlQB3AGAAbwCdALYAtwCnAKYAuQC2AKgAlAB/AHUAawBfAFEA',
+  'RgA8ADEAJAAWABAACQABAPj/6P/W/7j/lf9+/3T/av9Q/zf/JP8R//3+6/7i/tn+0P7H/rz+sf6p/p/+kf6A/m7+Yf5Y/lH+SP48/jH+KP4i/iH+If4g/iP+',
+  'K/43/j/+R/5N/lX+Yf5t/nn+if6b/qn+u/7P/uL+8f4C/w7/DP8Y/y3/QP9c/37/o//K//f/FwA8AF8AXQBmAHwAkwCvAMUA2wDqAP0AIQE5AU4BdgGfAcMB',
+  '3QHrAdMB1AHxAfMB9QH9AQUCEAIcAioCNwJKAlsCaQJ1AoACiAKLAooCiAKEAoACfAJ3AnECaQJiAl0CWQJbAlwCWgJXAlICUQJHAj0CMQIhAgwC9QHtAfMB',
+  '7wHdAdYBzAHGAcwBzAHIAcQBrwGUAX4BZAFQAUEBMwEhAQIB6ADXAMsAwwC7AL0AvgC3AKUAmwCbAKAApQClAJ0AlwCYAIwAfgB1AHkAewBzAHIAcABrAGIA',
+  'XgBbAFEASwBGAD4ANAAjABoADAD7/+v/4f/a/+P/3//A/6j/mv+S/3z/av9Y/0n/Pv81/yv/Hv8U/xL/Cv/4/u/+8f7q/t/+2v7a/tn+2f7c/tr+3P7S/sv+',
+  '0v7X/tT+0P7I/sP+uf6r/qr+sP63/rn+vP7G/s/+1P7V/tb+3v7j/u/++v78/v7++f7//g//Kv8+/0P/U/9t/4H/jv+c/67/vf/G/9D/3//x/wEADwAdACMA',
+  'JgAyAE0AXgBpAHAAdQB9AH8AhgCIAIgAjACRAJUAmgCcAKAAowCmAKIAlACKAIIAhACJAIsAiAB6AHEAdwB0AHQAcQBnAGQAYwBSADQAIgALAPr/8f///yMA',
+  'LgAqACUAJgAxAD0AQABFAEgASgBPAFUAXABjAGkAbgBxAHYAewCAAIkAigCJAIsAjACSAJMAlABrADsAUgB2AIgAmwCrALIAsQChAJUApgCjAIYAdABjAFMA',
+  'RwA8ADAAJgAcAA4A/f/3/+7/3f/Q/6z/j/+F/3b/Yv9K/zX/IP8M//r+6f7c/tP+yv7D/r3+tv6s/qD+j/6A/nb+aP5f/lT+Sf49/i/+JP4d/hj+Fv4W/h7+',
+  'Kf4x/jb+N/47/kX+Uf5f/m7+f/6J/o7+oP63/sz+4/73/gj/Ef8a/yb/Lf82/07/ev+y/+P///8dAD4ATQBcAG4AhQCeALoAzwDnAP0AEAElATYBTgFnAXsB',
+  'qQHNAccB4QHqAecB8QH8AQoCFQIkAjMCRwJXAmcCdQKAAocCiAKHAoICfwJ5AnMCbAJmAmACXQJZAlUCVAJTAlQCUAJMAkYCRQI6AjYCKgIUAgUC+wH+AfoB',
+  '4gHaAdQBxgHAAcIBvAHFAb8BpAGVAYIBZgFGATMBJQEQAfwA5QDLALoAvADCAMMAvgCxAKQAnACZAJoAoACfAJ4AngChAJsAigB2AHIAdQByAHEAcABwAG4A',
+  'ZABVAEkARgBFADwAMQAmAB8AEAADAPX/5//h/+b/2f+v/5n/kv9+/27/Yf9T/0r/Ov8r/xz/E/8I//3++P7t/uT+4P7U/s7+yv7F/sX+xP7D/r/+vf62/qv+',
+  'rf64/r7+yP7G/rX+p/6m/qj+qv6q/qv+sf63/r/+yf7J/s/+2v7l/uv+7f7r/ur+7v7//hr/Nv9C/0r/Wv9u/4v/of+z/8b/1//g/+f/9f8GABgAJQAtADQA',
+  'NQA/AFYAZQBxAHoAfgB8AH4AiQCJAIwAjQCRAJkAogCnAKgApwCmAKAAlQCQAI0AiQCQAJsAkACDAIQAfQB1AGoAVwBNAFkAKwD3//f/8//t/+7/9v/9/wEA',
+  'BAAbAC0ALgAzAD4ASABJAFIAWABcAGEAaQByAHYAdwB5AIEAhgCRAJgAlACTAJYAlgCUAJAAfgBcAGsAhwCFAIYAfAB3AHQAbgBnAGkAaABpAHMAbgBhAFMA',
+  'QwA1ACoAHAATAAUA9v/m/9r/0f+8/5n/if+E/3X/Yf9V/0n/NP8g/w7/+v7n/tr+0P7K/sL+uv6s/qH+mf6N/nz+bf5l/lv+U/5G/jj+LP4h/hX+Ef4V/h7+',
+  'Kv4y/i/+Kv4s/jn+R/5Q/lb+Wf5Y/mj+hv6m/sH+1f7n/vb+A/8N/xn/Kf89/1f/ff+s/8//7/8MACMAMABFAF0AcQCKAKUAvwDZAPQADAEdATABSAFoAYgB',
+  'nAG0AccB2wHgAegB8AH8AQsCHQIuAkICVAJkAnQCfgKEAoMCgQJ9AnkCcwJtAmICXgJfAlwCVwJVAlUCVwJUAkkCQQI2AisCLAIsAioCKgIeAhkCEQL+AewB',
+  '1QHTAcwBwgG9AbwBugHFAbQBoQGTAXoBXwFJATUBJQEVAQIB7ADVAMMAtAC9AMgAxgC9ALUArgCnAJ8AmACUAJgApQCsAKIAmACRAIoAiACCAIEAfwBwAGUA',
+  'WwBVAE0ASQBDADkALgAkABYADAABAPT/6P/i/+L/0P+r/5j/hv90/2b/Wv9M/z3/MP8i/xP/Bf/2/uz+5P7c/tf+y/7H/r7+uf62/q3+qv6p/qf+p/6i/pr+',
+  'kP6T/qD+q/6x/q/+qP6j/p3+l/6W/pj+nf6s/r3+wv7C/sj+zv7Y/uP+6f7u/gL/Hf81/0H/RP9F/07/Yf91/5D/r//B/9D/4P/z/wMADgAWACYAOABHAFAA',
+  'VQBhAG0AdgCCAIYAhACCAH0AgACFAIsAjwCWAKIArACwAK0AqQCjAKQAogCfAKAApQCoAKwAowCRAI0AeABgAEsAPQA3AEQAMwAMAAIAAQAAAP//AAABAAUA',
+  'BgAIAC0APABAAEMATQBUAFoAXwBlAGwAcgB2AH0AgACGAIsAlQCXAJoAmQCWAJkAmwCZAIsAeQBtAGYAcwCBAH0AbgBUAEQAQAA+AEkAUQBKADMASABdADgA',
+  'NgA0ACEAFAAQAAQA9v/m/9j/yv+s/5T/hf96/23/WP9M/0L/PP83/yz/Dv/z/uH+1f7J/r7+t/6z/qz+pP6f/pX+hP51/mn+Xf5P/kD+MP4i/hf+FP4X/hr+',
+  'Hf4g/iH+Iv4k/i7+Nv44/j3+Sv5I/l/+fv6X/qj+uf7J/tr+6f7y/vf+Dv8u/03/bP+S/7j/0f/y/xwAMQA1AEkAYwB+AJIArwDOAOcA/QAYATIBUAFrAXoB',
+  'jQGxAcYB0AHaAecB9QEDAhQCKAI7Ak0CYAJxAnkCfwJ9AnoCeAJzAm0CZwJiAmACXwJbAl8CXwJXAk0CTAJHAjQCLQIrAjICKQIqAjUCLwIhAhkCDQL5AeUB',
+  '3gHXAcoBvwG0AawBpgGiAZcBiAF9AXABYwFYAUUBNwElARAB+wDhAM8AyADHAMQAwQDCAMUAwAC0AKcAmwCZAJsAmgCbAJkAkACOAIkAgAB3AHMAbQBlAF0A',
+  'WwBYAE8ARwA7ADMAJgAXAAgA+v/v/+f/3v/W/9D/z/+s/47/e/9r/1v/TP85/yr/IP8S/wb//v7x/uT+3P7V/tD+xP65/rL+rv6o/qH+m/6Z/p3+n/6X/pP+',
+  'jP6D/oX+kf6U/ob+fv50/nT+df59/ov+lv6k/rH+sP6w/rL+uP7E/t7+9v4P/yj/Nf9B/1b/ZP9h/3P/gv+T/6j/vf/Q/+//CAAYACUAOQBHAFQAYgBkAGgA',
+  'bABxAHwAigCVAI8AhQCDAIUAhwCMAJQAmQCdAKAApQCnAKMAogCoAKQAqwC6ALsAtAC3ALsAqACYAH4AZwBgAFgASQA9AEIAPAAeAA8AEQAMAAoABgAKAAkA',
+  'DwAJAAwAEQAoACoASABcAF8AZgBqAG0AcwB4AIEAiACNAJEAmQCaAJoAmgCXAJgAnACRAIEAfQB1AH4AiwCEAGYAPwA8AEcARgBBADUAJwAcACIAGQAeACgA',
+  'HQASABoAGAALAAAA9v/q/9n/y//B/6f/iv97/23/af9X/0T/NP8s/xv/Ev8L//n+5v7c/tP+z/7E/r3+uf6u/qP+mv6S/oP+cv5j/lb+SP48/jL+Kf4j/h/+',
+  'Hv4Z/hf+HP4f/iT+Kf4s/jL+Qf5K/lj+av6A/pL+pP6z/sP+1/7k/ub+/v4h/z//Yv+I/6X/sv+6/+T/IQAvAD8AVgBwAIsAqADAAN0A9gANASkBRQFeAXkB',
+  'kgGhAbIBxQHXAegB+QEMAiACMwJGAlsCagJzAnYCdAJzAnICbQJpAmUCYgJiAmICYQJmAmMCXwJUAlMCWAJUAjsCLgIsAi0CRQI9AjsCLwIoAhAC9wHqAeYB',
+  '2QHQAccBugGwAakBoQGZAZQBigGBAXsBdQFqAVMBRAExARoBCQH1AOYA3QDbANUAzADPANIAyAC8ALoAsACjAKAApgChAJAAhQCGAIUAgQB5AGoAXABYAFQA',
+  'VgBPAEYAQAAzACYAFQAFAPL/3//R/87/zf/G/8D/uv+f/4T/cf9b/07/QP8u/yL/Ff8I//j+6f7f/tr+1P7M/r/+sv6t/qz+qP6i/p7+mf6V/pf+j/6G/oL+',
+  'gv5//n7+fP5//m7+a/5s/m3+bv56/of+kv6Z/p/+pP6o/rD+tP7W/vb+DP8V/xz/K/9B/1X/bv9+/4j/mv+e/7L/zv/a//D/DAAnADgASwBZAGAAbwBzAHQA',
+  'fACHAJUAlwCSAI8AjgCKAJQAlgCeAKoArACvALEAsACsAKUApQCrALUAvwDMANEA0ADLAMIAsQCRAGwAaQBmAFwATQBBAD4ANgAgABcAFAAQAAkACQAKAA8A',
+  'EgAVABYAGQAcABcANQBjAHAAcgB2AHgAegCCAIYAjQCSAJUAlwCVAI8AkgCbAJcAeAB1AIUAkACZAIwAbQBTAEkATwBRAE8ASABAADQAJgAaAAwAAwD3/wgA',
+  'FQAJAAkACwAKAPH/5v/Z/9L/xv+0/6z/mf+H/3n/cP9m/1L/P/83/yf/I/8Y/wX/+P7s/t7+2f7W/tX+yf69/rb+r/6l/pf+hv52/mn+Xf5R/j/+M/4t/in+',
+  'JP4f/hv+G/4e/iD+Iv4l/iv+QP5L/kr+Wv5q/n/+kf6k/rf+yv7c/uf+9v4W/zz/XP97/5f/nf+m/7z/9P8oADgATwBqAIMAnQC4ANAA6wAJASUBQAFUAW8B',
+  'iQGfAbYBxwHYAekB/gESAikCPQJTAmICagJrAmsCagJmAmYCZAJjAmMCYwJjAmgCaQJlAlsCVgJcAlQCXAJUAjUCKgIvAi4CQQJFAjoCLAIlAhkCCwL1AeUB',
+  '0wHFAb4BtgGuAaUBogGdAZkBlQGJAXkBbgFrAVwBSwE+ASsBFQEDAfgA9gDzAOoA4wDaANcA0gDHAMEAuQCuAK4ArgCoAJ0AmgCbAI8AfwB0AGgAWwBTAE8A',
+  'RABAAD4AMwAnABoACgD6/+j/0v/E/77/vf+6/7P/s/+a/3v/ZP9Q/0b/NP8n/xz/EP8E//f+5f7V/s3+x/67/rH+rP6m/qT+of6d/pr+l/6W/pr+mP6J/oP+',
+  'gv6C/oX+ev54/nX+cv5r/mX+af5t/nr+g/6S/pz+qf6x/rr+vv7g/uj+8v7+/hT/Jv88/07/b/+O/5//p/+w/73/0//t//7/EQAmADwAUgBpAHEAewCCAIcA',
+  'jQCSAJcAlQCSAI4AkACUAJgAowCuALAAtAC5AL0AvwC8ALgAsgC3AMgA0ADdAPAA4gDSAMIAkgBrAEIAVABeAFMAUQBDADwAKwAYABwADgAFAAAA+//8/wYA',
+  'EQAUAB0AHAAeAB8AIgAoAC8ATABhAHQAgACCAIkAjwCTAJYAmQCdAKkAowCQAIMAfACFAIwAbABFAD4ASgBTAFYAVgBSAEsAQAA4AC4AHQARAAUA+v/p/9n/',
+  '+f/9//P/6f/q/+D/yf+9/7v/s/+s/6D/k/+B/3X/bP9h/1L/SP8//zf/Lv8f/xP/BP/y/uX+3v7d/t3+1/7N/sf+v/6y/qf+oP6O/oD+c/5m/lz+Uv5G/j3+',
+  'MP4l/ib+Jf4k/iP+Jv4s/i/+PP5I/kr+Vv5n/nv+jv6h/rP+x/7a/u3++P4L/zD/V/9t/4P/k/+c/6X/wf/+/zUAPwBPAHAAjgCqAMMA4wABARwBNwFTAW4B',
+  'hwGdAbIBxgHbAe8BAwIaAi8CRwJZAmICYgJkAmECXwJfAmICYgJhAmQCawJ0AnYCYwJjAmQCZgJsAmgCWQJAAjYCKAIuAjgCQgJFAjsCLgImAh0CCgL0AeEB',
+  'zgG8Aa4BqQGiAZkBlgGTAZYBlAGQAYIBdwFmAVcBUQFHAToBJwEUAQkBBAH+APoA9QDyAOoA3QDXAM0AwgC6AK8AqACjAJ0AmACWAIwAeABvAGYAVgBIAEEA',
+  'QAA5ADMAKQAZABAABwD9/+z/2f/C/6z/n/+h/6v/of+G/3P/Wv9M/zn/KP8f/xT/CP/5/u7+4P7Q/sH+sv6r/qT+n/6X/pX+mv6X/pD+kP6O/of+kP6e/pj+',
+  'iP6D/oP+iP6M/oX+gv6H/oP+dP5u/nP+fv6Q/p/+p/63/rv+xP69/tb++f4J/x7/NP9H/1r/bf+C/5P/ov+u/8P/1v/u/wMAFQAmADYASABcAHYAhwCNAI8A',
+  'kQCTAJgAnQCcAJ0AmACeAKUAnwCgAKkAsQC1ALwAwQDEAMYAxADDANEA1ADwAPcA5gDgAMsAjQAHAPj/BgBTAIgAWQBCADEAGQAXABEA+//q/wgAKAAjABEA',
+  '+f8KABYAIgAoADEANQA/AEEASgBcAGcAegCLAI8AmwClAKcArgCxAKsAmwCQAIQAdQBjAFsAZwBzAHUAbwBfAFEASgBCADgALQAiABYADgAEAPj/7f/g/8n/',
+  'vv/a/9z/0P/E/7r/s/+s/6n/o/+a/5b/i/+D/3f/Zv9b/1j/U/9N/0L/M/8m/xb/DP8F//z+8v7r/ub+4P7Z/s/+yf7A/rj+q/6g/o7+fP5y/mn+YP5Y/k7+',
+  'Qv44/jT+L/4q/jD+O/5A/kP+RP5E/kX+U/5n/n7+kv6n/rv+y/7i/vr+C/8c/zP/Uf9f/2z/ev+G/5T/rf/T//b/IQBPAH0AlwCgALgA2wD7ABcBMgFTAW4B',
+  'hAGZAa8BxAHaAfABBgIcAjECRgJVAloCWgJcAlwCWgJdAmECXwJiAmUCYAJYAloCVgJgAmkCZwJaAkkCQAI8AjMCMwIxAkMCSAJAAjwCLgInAiACEgL9AeMB',
+  'ygG4AasBngGeAZcBjgGLAYgBiwGLAYkBggF0AWYBWwFRAT0BLQEkASUBHwEbARMBDAEFAfwA8ADiAM8AxAC3AKsApgChAJ4AkwCBAHIAZgBdAF0AUABGAEQA',
+  'PQAyACkAHgAQAAQAAAD1/+P/yv+1/5r/lP+c/6D/if9z/1j/S/84/yT/Fv8N//3+9v7v/uP+1/7G/rf+qv6b/pL+h/6C/n/+ff59/nv+df52/nb+cf6B/pj+',
+  'kP56/nX+ev5+/ob+kP6b/pf+iv54/nP+e/6G/pz+rP6s/rr+v/63/sn+7v4T/yH/Mf9C/1X/a/+A/5P/pv+0/8P/2P/v/woAJAA0AEMAUABiAHUAgwCNAJsA',
+  'pgCjAKUAqgCuALMAqQCgAK0ApQCZAJ4ApwCxALYAvADAAMUAyQDNANsA3gDzAPsA7ADXAJEALgD6/yYAOQAZAAIAFQAsACsAIgAXABQAGAAgABsAFAAQACgA',
+  'MQD//xMAHAAmACsAMQA7AEUAUwBjAG0AfgCWALAAsQCiAH4AUwBIAE0ATwBRAFQAXABoAG0AbQBsAGkAagBmAFUAQwA1ACoAHgAPAAIA9P/r/+D/2P/P/8X/',
+  'sf+l/8D/sf+o/6X/mf+g/6H/k/+K/4f/gf95/3b/d/9u/2b/Xf9R/0b/N/8n/xv/Ff8Q/wr/Bf/9/v7++f7v/tz+1P7P/sv+wP6n/pn+kf6H/n3+df5s/mD+',
+  'Vv5K/kD+OP40/jf+Pf5C/kP+RP5I/k7+XP5n/nj+jv6l/r3+zf7i/vf+DP8e/y3/OP9I/1D/Xv9u/3//pf/N//T/FAA9AGoAiwCcALEA0wDsAAwBKQFDAWIB',
+  'egGQAagBuwHRAegBAAIWAioCQwJSAlQCVwJZAlgCWwJfAl8CYQJiAmMCYAJZAlsCXAJiAl8CYAJVAk4CRAJEAkkCTAJSAkwCRgI/AjkCMwIpAhsCDgIAAuEB',
+  '0AHCAbkBrQGnAaQBoAGcAZwBmQGaAZcBlQGKAXcBZgFXAU0BNgEqATIBMQEjARsBFwEMAQIB8ADdAMwAwQC8ALQArgCoAJ8AiwB8AG8AZABaAFMATABCADQA',
+  'LgAmAB0ADwACAPb/6//k/9j/xf+q/5D/jP+P/4r/b/9a/0b/NP8f/xP/Ef8J//z+7/7q/uD+0f6//rL+of6Q/ob+fP53/nP+bv5r/mv+Z/5g/mT+b/51/nj+',
+  'c/5n/mr+bP5x/nP+ef6E/o3+lf6W/o7+hf6F/o3+mf6f/qH+qv7I/t3+9f4I/xz/M/9F/1b/a/+D/5v/sP/A/9b/7v8CABcALQA7AEwAXgBuAH8AkQClALIA',
+  'uQCtAK8AtAC5ALwAuwC1ALIArQCdAJ8ApwCyALYAuAC9AMYAzgDVAOMA6wDxAPIA0ACpADMA5/8MAFQAYABVADcACQDm////HgAuAEQALwAXABIADQAOABUA',
+  'MgARABQAGAAgACEALQBBAFQAZgB9AIsAhwBjACUAAAAEABYALABDAFkAaQBuAHIAdABzAG0AZQBcAFMASQA/ADkALwAjABgADAD+/+//4f/T/8b/vf+y/6j/',
+  'pP+Q/4v/pP+V/4z/hv9+/4b/j/+M/4f/e/95/3b/cf9v/3L/bf9c/07/PP8w/yb/Jf8k/yT/If8X/xT/C/8F//j+7v7o/tb+xf61/qz+qf6f/pT+iP5//nP+',
+  'af5c/lD+Rf49/jz+Qf5B/j/+Qf5C/kn+V/5n/nn+kP6p/r3+0P7g/vP+B/8V/yL/QP9Q/13/af91/5f/uv/h//3/JABEAGYAfgCaALwA0ADkAP4AGwE5AVMB',
+  'awGFAZ0BswHGAdoB8QECAhgCMQJAAk8CUwJWAlgCWQJbAmACZQJnAmYCYAJbAlkCWwJbAlkCVAJQAkoCWgJnAlwCXgJYAkoCPwI5Ai8CLgIiAiICEAL8AeUB',
+  'zwHGAb0BuQG0AbIBtQG5Ab0BwAG8AbsBrwGiAZgBjQGEAXMBXQFLAUUBQAExASMBGAEVAREBBQHsANMA2QDpANQAxQC2AKEAjgCCAHcAawBgAFIASABBADcA',
+  'IwAQAAAA9f/n/9b/x/+4/67/o/+L/3H/dP+D/3r/Xv9M/zH/Gv8K/wf/B//8/vH+5f7d/tL+xv60/qj+m/6L/n3+c/5r/mn+Zv5d/lT+S/5N/lb+Xf5n/nr+',
+  'e/5y/mf+XP5V/mb+bf5x/nv+iP6Q/pP+hf6E/nn+cP53/pP+qf7B/tj+7v4J/xj/Lv9D/13/dP+M/6n/vf/a//7/GAAtADwAQgBQAF0AbAB7AIwAnwCwALwA',
+  'vgC2ALgAwwDFAMgAwQC7ALUAsACkAKUAqwCyALwAwQDEAMoA0gDdAOgA7gD0AO8AeQATAPX/HQBCAFQAWABZAFAAOwAhAAgA5v/G/+r/DAAzADsAKAA5ADgA',
+  'KAAYACcAMwBFAEwASQA9AD0AIwAQAOz/5f/8/xgAOgBSAGEAbABxAHIAbgBpAGQAYQBeAFgAUgBHAEIAOQAyACUAFwAOAAUA9//p/9j/y/+9/7H/pv+a/5D/',
+  'if+D/3r/cP97/3P/cv9y/3P/gP+L/3//eP9y/3H/bP9q/23/ff+G/2X/S/89/zv/OP88/zj/Mv8p/yX/If8b/xD/Df/0/tT+y/6//rn+uf64/qz+oP6T/or+',
+  'ev5p/l7+Vv5V/lj+U/5Q/lD+T/5M/lD+X/5t/n7+lf6p/rr+yv7X/ub+/f4c/zf/R/9T/1//bf+A/5z/sv/P//X/EgApAFkAeQCSAK4AzgDfAOwABwEjAT8B',
+  'VgFtAYgBoQG+AdcB5wH5AQsCGwIsAjoCRwJTAmMCZgJsAmsCaAJsAmsCbwJqAmgCYQJhAk4CQwI/AkQCXQJiAloCVgJSAkgCQgI1Ai0CIQIcAhsCBwLsAd4B',
+  'xQHBAbwBvwHDAcYByQHVAeQB3wHXAdEBywG9AbQBrAGoAZcBiwF9AW8BZgFVATkBJwEqASwBKwEVAf0A9gD4AOQAzACzAKAAjwCBAHUAbwBjAFgARwA8AC8A',
+  'HAD7/9f/wP+s/5r/jf+A/3L/Z/9Z/0v/SP9c/2X/Sf8z/x3/DP/6/vL+8v7l/uH+1f7I/r/+sv6n/pr+iP55/m7+af5h/lL+UP5X/lz+Zf5l/mP+cP5u/nT+',
+  'a/5Y/lH+Tf5O/k3+T/5T/mH+b/50/nX+gP6B/ob+gf5+/o3+p/7B/tn+7f4D/xX/K/9F/13/eP+S/63/y//x/xQAKQA8AE4AXABlAGsAeACIAJ4AqwC5AMoA',
+  'ygDFAMIAywDWANYAxgDAAMoAuQCvAK8AsAC1ALkAvwDDAMwA2ADjAOMA9QD8AMkAPAAHAC8ASgBQAFAATAA+AEAAOAAxACUAGQAIAPb/2f/K/6b/mf+s/8v/',
+  's//G/7f/r/+g/5T/k/+g/7f/0f/x/xUANwBMAFgAYQBmAGgAaQBoAGQAYABYAE8ASABDAD0AMwAsACIAGgASAAkA/v/0/+f/3//R/8H/tf+o/5n/jv+B/3f/',
+  'cP9s/2j/Y/9a/1P/W/9m/2b/af9t/3T/eP9s/2j/Yv9c/2D/ZP9y/3n/WP9R/0X/RP9C/zz/OP8u/y7/L/8t/yL/Gv8L//b+5P7Y/s/+yf7E/rr+rv6j/pn+',
+  'jv6H/nf+cP5x/mz+Yv5g/mT+Yv5b/l3+af53/ov+m/6p/rT+v/7a/vz+Dv8h/yz/Of9F/0//W/9o/33/mf+0/8//7v8fAFgAcQCJAKQAyQDsAPIA9wAQATMB',
+  'TwFrAYIBmAGuAcYB3gH0AQYCFQIlAjYCRQJSAmICbgJ5AnYCdgJ1AnUCdgJ3AncCbgJnAlgCSwJBAjsCTgJaAkgCSgJUAk4CQgIxAiQCIQIcAhEC+gHhAc0B',
+  'wgHDAcEBvgHJAdMB4QHnAeUB4gHgAdgB2QHTAcoBwAG5AbgBqwGkAZABdAFgAUkBNgE/AUQBQAE4ASUBEQH4AOcA1QDDAKAAjAB8AG4AbQBpAF8ATgA3ACIA',
+  'BADS/7j/rf+c/4r/eP9r/2n/Zf9X/zz/L/9J/1T/Pv8h/w3/+/7l/tz+2/7Q/sn+vP6y/q3+p/6g/pP+hv55/m3+XP5M/kP+O/4+/kz+Vf5X/mn+Zf5s/mj+',
+  'XP5Y/kH+OP4z/jX+QP5R/lb+Wf5f/mT+Z/5s/nD+cv56/oz+qf6+/tn+7/4C/xn/Lv9E/1z/eP+T/7L/0//6/xsALgBCAFcAawB2AHgAgwCWAKgAugDIANAA',
+  'zgDMAM4A2gDjAOEA0QDPANgA0gDAALwAvADBAMgAywDTANQA2ADeAO4A7wCcADYAFwA/AFQAVQBRAEQANwAnACAAKgAMABoAFgATAAcACQAJAAUA9v/i/87/',
+  'x//G/8//2v/o//v/DwAUACEAMAA3AEIASgBQAFUAVgBXAFQAUQBMAEoARwBEAD0AMwAtACQAGgARAAcAAAD3/+z/4//W/8v/v/+z/6f/m/+N/4P/df9r/2H/',
+  'Wv9U/1H/Tf9K/0z/Nv88/1z/a/9Y/1H/WP9a/2D/YP9h/17/Yf9m/3P/Zf9X/1H/Uv9S/1P/Uv9E/z7/P/88/zj/Kv8a/xL/Bv/1/uP+3P7U/sj+u/6s/qP+',
+  'ov6V/oX+e/52/nL+cf51/nv+fP51/m7+b/51/of+m/6n/rP+xv7g/vn+Bv8U/xX/H/8d/zL/Qv9N/2P/gP+e/83/BgAqAFEAbQCBAKUA3QDyAOYA6wAFASQB',
+  'RAFhAXsBkAGmAb0B1wHtAf8BEAIdAiwCPQJPAl4CcAJ3AoECfwJ9AnoCdgJ1AnMCdAJpAmMCVQJGAj8CNgIxAjwCPwJPAkgCQAIxAiUCGgIRAgkC9gHhAc4B',
+  '1wHIAb4BvwHGAdMB2AHkAeIB5AHkAdYBzgHSAdQB0AHOAbMBsAGuAawBmAGEAW8BSwFFAU8BUQFHATMBHAEEAekA5ADQALoAqgCaAH4AZwBgAFYASgAvAA4A',
+  '5v/K/7v/qv+M/3j/Z/9g/1//XP9F/yv/Kf85/0b/Jv8N//f+3f7P/sr+yf6//rv+rP6d/pP+h/5+/nT+cP5v/nH+bP5Z/kX+P/47/jP+LP5E/kf+Xv5p/lr+',
+  'U/5E/jn+KP4v/jj+O/47/kL+Tf5O/lD+V/5h/mb+bP52/o/+rv7B/tb+7P4D/xj/Lv9G/1//ev+X/7v/3v8EACEALgBEAFkAcACBAI8AnQChALAAwgDEAMkA',
+  'zwDVAOQA7wDyAOkA1wDgAN0A1ADSAMgAxgDKAMsA0gDQANIA2QD2APYAewAPACUAUABcAFgATgBEADQAKAAXAPv/BgAMAO//AwABAPz//v8AAP//AwACAAIA',
+  'BAAJAA0AEgASABsAJAApADIAOAA5ADwAPgBCAEMAQwBBAD4AOQA3ADMALgAoACIAGgAUAAwABQD6//D/5v/a/8//w/+4/6//ov+V/4j/ff9x/2T/Wf9Q/0n/',
+  'Qv8+/zz/OP84/zP/MP8p/yr/PP9T/1L/Mv9D/1n/Xv9d/13/Yv9m/2f/bf9v/2//af9e/13/Wf9W/1T/Tv9G/0X/OP8p/yn/F/8D//H+5/7a/s7+v/6y/qj+',
+  'oP6V/o3+iP6D/n7+ff6G/oD+fv55/nb+e/6E/o7+mv6l/qj+tf7Y/vP+9P76/hP/OP9D/zj/Pf9O/1//dv+g/9//EAAuAEYAXwB6AJsA2QDuAN4A6QAHASMB',
+  'SQFfAXQBigGfAbIBxAHZAfABBAITAiMCMgJFAloCaQJ+AocCiwKFAoICgAJ6AncCcwJvAmYCWwJOAkQCOQIuAjUCQQJHAkACMAImAhsCEAIFAvwB+AHrAeMB',
+  '2gHOAcgBzAHQAdoB4AHrAe0B4QHSAcwBxAG/AcQB0AHPAbgBtAG3AasBnQGPAYIBgAFnAVQBUgFGATcBKQEZAfsA7gDhANUAxwC0AKEAjQB2AFwARAAsAAgA',
+  '4v/O/6v/iv9//3L/Yv9X/0v/P/80/yn/Kv80/yf/Dv/z/uD+yP66/rj+uP6t/qT+l/6B/nH+af5n/lr+U/5Q/lP+Vf5Q/kD+NP4r/gn+Av7+/f39F/4y/lb+',
+  'V/5F/h3+Ev4a/iT+Lf45/kT+Sv5N/kv+Sf5Q/lb+Y/5y/pD+qP69/s/+5/7//hf/MP9J/2T/gf+i/8f/7f8PAB4AMgBCAFsAcgCIAKEArgC1AL0AvwDGAM8A',
+  '2wDqAP0ABQEBAesA2ADuAOQA2ADaAMYAyADHAMcAygDQANQA7wD6AJkAGABDAGcAaABeAFIAQQAtACAAEwAHAO3/2f/9/8j/4v/q/+P/6v/r/+z/7//u//D/',
+  '9v/7/wAABQAIAA0AFAAaACEAJAAnACcAKQArACwAKgApACcAJQAhAB0AFQAOAAUA/v/2/+//5f/d/9X/y/+//7P/qf+e/5L/hf93/2z/YP9U/0j/QP84/zD/',
+  'K/8o/yj/J/8n/yb/Jf8k/xr/H/8a/zX/Nf8o/07/Tf9K/1H/Wv9c/2b/af9+/3T/cf9u/23/Yf9e/1n/VP9P/07/Sf8y/yT/E/8G//D+7/7l/tz+zP7E/s3+',
+  'tf6m/qT+lv6M/or+iv6O/of+hv6F/oL+h/6W/qf+sv65/sL+1f7s/u3+8/4O/yH/MP85/z//Tf9Y/2T/cv+q/9b/8f8TADUATwBfAIIApwDOAPsAEAEiATwB',
+  'XQFnAWwBdwGNAaUBuQHPAekB+wEMAh0CMQJEAlcCaQJ6AosCkAKLAoYCfQJ0AnICcgJtAmcCXwJWAkgCPQI0AiMCIAITAgkCDAIWAhgCDAIDAvsB8AHpAeMB',
+  '3AHbAdsB3wHiAeMB8AHtAeQB3QHnAfAB7wHmAeUB3gHSAcYBwwG1AawBpgGgAZ0BhwGKAWoBSwFFATUBHwETAf4A7QDfANMAxgCyAJoAiAByAFoARgAzABkA',
+  '9f/d/8n/rf+Q/3f/Z/9c/1D/QP80/yr/I/8b/wP/9v7i/tH+v/6t/qX+n/6V/or+fP52/mP+WP5U/kv+Qf42/ij+Jf4c/hL+Fv4V/iD+Jf4t/iD+7v3n/f79',
+  'J/5R/jr+Jf4S/hP+HP4n/jf+Pv5D/k7+Sv5N/lD+Wv5u/ob+nf61/sr+5f4B/x3/Of9W/2z/if+t/9T/+v8QACQAMQBDAFwAdACGAJ8AtQC6AMQAywDPAOEA',
+  '9QAFARoBEQH8AO4A7QD5APUA2ADTAMwA0wDUANQA1wDhAPcA7QChACsAYQB4AHYAaQBYAEUALgAaAAsAAQD3/+D/vv/i/9T/xP/O/9j/0//S/9f/2v/b/9//',
+  '5f/m/+z/8v/3//r/AQAFAAUACgAPAA0AFAASABMAEgARABMAEQALAAQA/f/2//D/6P/e/9T/y//B/7j/rf+i/5n/jv+D/3b/af9e/1H/Rf87/zH/KP8g/xf/',
+  'Ef8Q/xH/E/8X/xX/Ff8T/w//C/8L/xn/M/82/0r/Pf88/0b/Uf9g/2n/cP+B/4D/jf+J/4P/cv9u/2L/Xf9h/1f/Rf8v/yP/E/8D//j+8v7r/t/+2P7e/sf+',
+  'w/67/p7+l/6R/oz+jP6P/pD+kf6S/oz+k/6b/qP+rf65/sn+3P7p/uv+/v4O/yX/L/80/z7/S/9U/2r/ef+S/7L/2f/+/yEAQQBVAHAAkwCuAM0A+wAWAUAB',
+  'XgFjAWABaQF/AZwBtAHIAd0B9AEKAhsCLQI/AlYCaAJ1AooClAKUApACjAKBAm4CbQJrAmMCWwJPAkUCOgIxAigCDgL2AfMB9QHnAeAB4gH3AfEB7QHlAeEB',
+  '4gHoAfQB9wH3Ae0B7QEBAgcC3AHqAe0B3AHAAdMB1gHNAcYBwQG/AbUBqwGnAacBnQGLAXUBRQE4ATUBIwENAfYA6QDZAMUArgCRAIQAegBsAFsASQA5ACIA',
+  'CwDx/9r/x/+w/5j/hP9s/1//Tv85/yT/Df/9/vD+4P7T/sr+tv6k/pb+iv6B/nz+Zf5h/l3+Vv5M/kj+NP4g/gv+BP4F/v/9Cf72/Qf+//3S/ar9of2l/cH9',
+  '4f3v/f39Df4X/vr9D/4T/hL+Ff4i/jb+Qv5B/kf+V/5r/n7+lP6t/sX+5f4C/yP/RP9e/3n/lv+3/+H/AQAVACYANgBIAGQAegCOAKgAvADNANMA2gDfAO0A',
+  'CgEjAR0BBQH2AAABCQEIAQEB8QDnAOYA5QDoAO0A+gDuAKwARQAkAGYAeQB6AGkAVwBGADEAHwAMAPr/8f/n/9f/tv/T/9H/qv+7/8P/wf/B/8L/xv/M/8v/',
+  'z//U/9r/3//j/+X/6P/u/+//8//3//n//P/8//v/+//7//3/+//0/+z/5P/d/9f/z//G/73/sv+p/57/kv+J/3//d/9t/2H/Vv9J/zz/MP8l/xr/Ef8J/wL/',
+  '//7+/v7+Af8G/wr/B/8F/wT/+/7+/h3/M/86/zv/NP8x/0r/W/9i/2v/ev+I/4v/kP+R/4H/df9t/2H/Yv9j/1v/Qf8w/yL/FP8E//n+9P7z/u/+6v7s/tL+',
+  'yv6+/q3+nv6d/pv+if6F/oX+iP6P/pL+lP6f/q7+tf67/sH+4P7s/vv+CP8L/xT/Jf82/z7/Sv9X/27/fP+M/6H/xf/v/w8ALABLAGcAigCwAMkA7QAGASMB',
+  'JwE2AU8BYQF5AZMBpwHAAdUB7QEGAhcCKwI+AlMCZgJ3AooCkQKRApMCjgKBAncCZwJhAmACXQJOAkoCNwImAh4CCgL0AesB4QHbAdkB0wHOAeQB7gHjAd4B',
+  '1wHqAfsBDgISAvsBCgISAr8BnwGHAZcBqwGwAbwBxwHRAc8BzQHDAbgBrQGxAaIBgAFtAVcBQwFKAUIBNgEmAQ8BAgEBAdkAsQChAI4AfgCBAIAAcQBSACoA',
+  'BgDr/9X/wv+n/5L/g/9z/17/Sv82/yP/Ev/8/ur+3/7T/sT+s/6h/pP+h/6A/nX+av5Y/lH+Tf5F/jv+J/4b/hD+FP45/m3+Sf70/dH9uv2O/Wz9Zf14/Zv9',
+  'r/3H/cL9yf3P/e/98v0E/hT+Fv4T/hf+J/4q/jb+TP5g/nT+jv6p/sH+4f4A/yP/S/9s/4f/rP/O/+7/BAATACkAOABRAG4AiACiALQAywDjAO4A5gDrAPwA',
+  'HwErAQYBAAEKARoBHgEcARgBEgEAAQEBCQEYAfAAiAANANj/GwBjAHQAcgBiAFAAQAAvAB8AEAD9/+3/3v/Y/8//uP+a/9//oP+p/7T/qv+1/7L/uf+8/7v/',
+  'wP/B/8f/yP/M/9H/1f/Z/9n/3P/f/+P/5f/m/+f/5P/h/+D/3v/Z/9b/zv/H/7//tv+t/6X/nP+S/4f/e/9x/2n/YP9X/07/Q/83/yz/IP8U/wr/Af/5/vL+',
+  '7v7p/uv+6v71/vr+9/74/vf+7f7z/h7/Jv80/zf/QP9U/13/Z/9q/3T/fv+R/6L/qv+1/4r/kP93/2z/bv9m/1T/Pf8o/x//EP8K/wL/9f7v/uv+5P7K/sb+',
+  'rv6Z/pH+jP6X/qL+lP6N/or+jP6S/pn+n/6n/qz+v/7U/tj+6P73/vr+Af8J/xP/Hv8k/y3/Pf9K/1L/Zv+A/5r/vv/Z/+//IQA+AGEAjQCrAMMA0QDrAAcB',
+  'FwEpAT8BVQF0AYgBoQG6Ac8B6gH6ARQCJwI/AlMCZQJ3AogChwKIAooChAJ+AnQCagJgAlICSQJOAkwCPAIrAjICGwISAv4B3gHRAcgBwQHBAbwB0gHcAdgB',
+  '5wHsAfoBCAL9AfgB/wEEAuYByAHQAb4BpQGYAaYBrwG6AdAB1AHQAcUBtgGxAZUBkAGCAXEBaAFeAU0BRAElAfUA1wDMAKcArgCZAH8AngDRAMoAuACKAEEA',
+  'FADr/8n/tv+m/5b/i/+C/2z/XP9N/zb/Gv8C/+/+3/7S/r7+sP6d/oz+gP58/on+ev5k/lj+R/5G/kD+Pf40/iz+Jv4a/hL+AP7+/f399f3S/Zz9af2E/aT9',
+  'oP2t/b39sv2r/Zn9vv3Q/d/96/34/QT+Ev4q/jb+R/5d/nP+i/6h/r/+5P4B/yH/SP91/5r/w//c//D/AwAXACsAQwBeAH8AoAC8AMwA3wD9AP4A9QD2APoA',
+  'DgELAQcBDQEVASgBMgE5AT0BMQExATYBKAG9ABYA4/8UAFYAcwB6AHIAYwBSAD8ALAAhAA8A/f/y/+P/1//Q/8v/tf+X/7P/lP+b/6r/of+a/6j/qf+q/63/',
+  'sP+y/7P/tf+5/7//xP/E/8f/x//L/9H/0//R/9L/0P/M/8f/xf/E/77/tv+w/6r/ov+Y/47/hv9//3T/af9e/1P/Sv9C/zr/MP8o/x//Ev8G//z+9P7t/uX+',
+  '3/7c/tv+3f7f/uP+5v7r/uv+4f7p/hb/H/8y/z3/TP9R/1b/Vf9l/33/jf+Q/5P/o/+x/57/gP+a/27/bv9//1n/Ov8Y/wf/A////vr+9v7r/t/+2v7P/rf+',
+  'nf6Q/pf+mv6o/q/+nf6e/pT+lv6Q/o3+kP6a/qv+y/7c/t7+6f7t/vf+//4N/xX/F/8W/xv/K/8+/0z/bv+A/4X/lP+r/77/4f8aAFMAdwCcAKkAsgDNAOoA',
+  '/gAUAS4BSgFfAXkBlAGzAcsB5AH8ARACIgI8AlACYQJ0An4CfQJ/AnwCdwJyAnICYQJXAkQCSAJJAi0CIwIoAhMC8wHaAdkBAQL8AecB3gHwAc4B1QHnAeYB',
+  'CQIGAvsB9AHxAekB4AHKAckB2wHmAegB5AHXAbABrwGvAbEBrQG5AckBvQG2AbYBpwGbAYwBewFlATUBJgEdAQAB4QDOAMkAwwDIALQAlQCrANoA6QDYAKgA',
+  'dwAxAPX/wP+y/6b/nP+L/3b/Wf9G/zX/Hf8E//X+6/7a/sX+vP6o/o7+eP5m/lj+W/50/mP+Yv5b/kr+VP5g/mT+W/5E/i3+Mf4h/hT+Bf4j/hb+8f2U/Xn9',
+  'iv1+/X/9mf3D/cT9rP3I/c/91/3q/fr9DP4Y/jX+Sv5W/mz+hf6o/sf+6P4G/yf/T/9+/6z/1f/q//n/DQAiADcATABqAJgAvADSAN4A8AD+AP0ABwEEAQwB',
+  'BQEBAQ0BGQEgATwBSwEvATUBGwEZAdYAaQAcADgAeQCTAJAAhwB7AG0AVwBFAC8AHwAPAAEA7v/g/9L/y//I/7//sP+U/6z/mP+R/6T/nv+P/5f/n/+b/6D/',
+  'n/+h/6P/pP+m/6b/rP+0/7r/uP+5/7v/u/+7/7z/uP+1/7D/r/+t/6n/of+b/5b/kP+J/4P/ev9w/2T/Wf9O/0T/Ov8x/yn/If8Z/w//BP/6/vH+5/7e/tj+',
+  '0v7Q/tD+z/7R/tT+1/7b/t3+2/7c/g//GP8s/zf/P/9J/1H/Xv9g/2v/d/9+/4n/lf+b/5v/eP+D/3j/av9p/1D/Rf8t/xP//v72/vr+8P7e/t7+0v7L/rz+',
+  'qf6k/qD+pf6s/q7+rP6g/pr+lf6R/pX+nv6f/rD+v/7F/tz+5v7u/vX+9/4A/wz/B/8X/yL/Kf8u/y//OP87/0z/df+e/63/vv/n/yUAYACCAKIArgC6AM0A',
+  '5gACAR4BOgFUAW4BjgGrAcIB2QHxAQUCHAI1AkoCYQJvAnACbwJvAm4CaAJpAmACVQJBAkcCQQI1AiwCEwL8AQYCKQISAhgCKQI2AjICMQIoAhgCAgL2AQIC',
+  '9AH0AQAC9AHXAdIByAHIAcoB+gHYAd0B5AHtAeUBzgHaAbQBhwFxAZgBvQG9AcABsQGbAY4BiwGBAVEBMAEcAREBFQEjAQsB9gDZAMkAwgC8ALYAygDLALwA',
+  'jQBzAF4A8v+w/5D/iv+T/4j/df9a/zj/GP8D//L+6/7b/sX+tf6p/p3+fv5p/lP+VP5v/pj+h/6J/pj+n/6O/n/+hv6D/nz+Sf71/dP90/3E/ab9jv2Q/YT9',
+  'iv2X/Y/9if2M/Z79v/3O/dL90f3W/eP98f0L/h/+Nv5P/nL+lv65/tr++f4d/0H/ZP+O/7X/z//o/wAAGAArADwAVAB+ALAA0gDhAPYACAH2AOYA5wDuAPcA',
+  'AgEQARkBIwExAVkBRwHhANEAkgBuAFoAZACKAKUAqgCkAJcAggBvAFwAQwAwACIAEAD///L/5P/V/8n/w/+6/7L/o/+L/5//kf+D/5X/lf+P/4n/i/+T/5P/',
+  'kP+N/47/lP+W/5j/nP+i/6f/qP+p/6r/qv+u/67/qv+o/6H/nP+a/5j/lf+P/4n/gv99/3b/a/9i/1r/T/9D/zb/Kv8i/xn/D/8F//3+9f7r/uL+2f7T/s3+',
+  'yP7E/sP+xP7I/sr+zv7P/tL+1P7S/vX+D/8c/yr/OP8+/0n/VP9g/2r/bv9t/2//eP9x/3n/cf96/4r/d/9N/0T/Qv8w/yH/E/8H/wL/5v7d/uX+v/7C/rf+',
+  'sv6x/qv+qf6t/qv+oP6b/p3+nv6i/rL+vP6z/rf+zv7A/tb+1f7b/uT+5f7z/vn+Av/2/vn++v75/v3+DP8b/zj/Wf9+/5n/r//H//b/JAA0AF8AdgCZALUA',
+  'zwDrAAcBJAFCAV4BgQGgAbgBzAHkAfsBFQIvAkUCWgJnAmcCZwJhAlwCVgJSAkgCPwI3AigCHgIYAg8C/wH5AfYB/gEIAg4CLAIzAjsCOAIhAhgCHAIFAvYB',
+  '9wHyAecB2wHPAcoBwgHAAcwB4QHWAcwBzQHYAdwB4gHcAcoBjgFhAXQBqQG4AasBpgGaAZcBigF9AXYBbQFmAWkBYgFPATMBGwEIAfkA9ADyAPEA9gABAegA',
+  'uQBwADYALwDB/2D/Xf+O/4n/f/94/1P/K/8J//X+5v7S/sH+sv6r/pv+jf5y/lr+Rv5k/jv+FP5K/oj+qv6o/rL+oP5E/uL9r/2c/Yn9e/1w/Xb9g/2V/Zj9',
+  'j/2E/Y/9mv2e/av9vv3N/c391P3U/dz97/0J/iD+N/5c/m3+hP60/ur+EP8y/1j/dv+V/67/vv/h/wcAHAAvAEYAZACOALQAzwD0AAcBCgHrAOUA7gD5AAIB',
+  'DgEcASgBLwFDAWEBZwElAaoAcABpAKMAuwC7ALkArQCdAIkAdABhAEsAOAAnABgABQD3/+b/2//N/8P/uv+x/6f/l/+H/7j/sf95/4//kP+H/4X/hP+H/4z/',
+  'i/+J/4f/if+L/4//kP+U/5f/mv+a/53/nP+e/6H/nf+X/5H/kf+R/4z/iP+F/33/dv9v/2j/Xv9Y/1D/Rv86/y7/I/8Y/wz/Av/4/u/+4/7b/tT+zv7H/sH+',
+  'uv63/rb+t/66/r/+wf7D/sT+wv67/tf+A/8H/x3/Kf8r/zT/QP9M/1X/Uf9T/1f/dP9//3P/ZP+M/5X/af9K/zz/L/8g/xf/C//8/vD+5/7R/sL+vP6z/rH+',
+  's/62/rX+qf6m/qz+mf6e/qv+qP6n/rP+r/6s/rT+rf69/sb+v/7E/s3+yf7a/uf+1P7O/tf+4v7l/vD+//4S/yn/Qf9f/3//nv+3/9b/9/8iAEEAXQB3AJwA',
+  'ugDVAPQAEQEwAVABbwGNAaYBvgHXAfEBDwIrAkACUwJfAl4CXQJWAk8CRQI9AjQCMQIdAgkCBgICAv8B8AHmAeAB4QHfAesBIQIwAi8CMgIhAhkCGQIRAgEC',
+  '/wHwAd4B5gHkAccBwgG6AcoB4gHJAbwBuwG6AcUB0AHBAXsBhwFWAVYBagGLAZUBmAGTAY8BkAGEAX8BgQGBAXkBbwFbAVMBQQEwASIBKgEnASABEQEEAeAA',
+  'ywDAAGsAHwCz/2H/Mv9M/2b/ZP9n/0//Lv8P//n+5f7Q/rv+rv6g/pT+j/6I/nb+Y/5l/mD+bv5+/qX+nf5q/j/+MP4Q/tP9qv2Z/ZD9gP1x/Wf9Z/1p/Wf9',
+  'Zv1s/Xz9iv2W/bP90/3a/cb9xv3X/eH98f0N/ij+Qv5Q/nL+lf6//uD+Bf87/1//fP+V/5z/q//U//n/GwAtAFQAcQCOAKwAzADvAPIA6gDmAO8A+QAGASIB',
+  'LgE2ATsBRQFYAXkBlAF2AewAkQCpAM8A0ADGALgApgCRAHsAZQBRAD8ALwAdAA0A/P/u/+D/0//I/7z/rf+n/57/kf+A/5X/aP95/4r/kP+J/4T/g/+B/4T/',
+  'g/+A/4X/gv+D/4X/iP+L/43/kf+T/5b/lP+T/5L/j/+O/4j/hf+C/33/ff97/3L/bP9k/1z/Uv9J/zv/MP8m/yH/Ev8H//n+7f7j/tb+0P7F/r3+tv6t/qf+',
+  'ov6e/pf+lv6T/pL+kv6T/pn+ov6v/sr+5P7r/hb/F/8Y/x3/Lf87/z//Qf9F/0//Xf9I/1n/ZP9+/4X/VP9A/y7/Gv8O/wb/+v7x/un+0v6//rX+uv61/rT+',
+  's/64/rn+rP6l/qf+r/6o/qb+p/6t/rn+ov6n/qX+rP6u/qP+pf6j/qb+qf6o/qn+rv6t/rj+x/7V/uP+8/4H/xv/MP9K/2n/iv+n/8b/6/8MAC0ARgBmAIcA',
+  'oQDCAOEAAAEgAUMBXwF9AZgBsgHLAeoBCwIlAjkCTAJRAlACUwJJAkACNgItAh4CFwIHAv0BBQL6Ae4B5AHWAcsBygHKAeUBHAIvAicCJAIhAgwCDAIPAg0C',
+  '8wHoAegB2gHJAb8BuwG0AcMBzQG3AbABrwGsAa4BsAG8AXMBJwEjAQsBHAFNAYEBiwGNAY4BkAGJAZABjwGGAXYBbQFqAWUBZQFTATIBMAElARkBDQEFAfAA',
+  'zwC3AIcAagD7/4n/U/9X/0z/Mv89/0D/Kf8Q//X+2/7J/rX+rP6d/o7+h/6a/qb+mf6U/p/+tv7S/tf+mv4s/gP++/0F/v396f3B/bL9o/2Z/Y79iv2M/bn9',
+  '1f3X/c/91P3z/QP+Gf4o/jD+Hf75/fr9/f0D/h7+Pf5g/nn+m/7A/uP+BP9A/1z/dP95/4b/ov/O//L/EwA8AGQAhACWAK8AygDmAPMA5gD4APgAAgEVASoB',
+  'MgE6AUgBWQFvAYcBnAF9AfcAmwDGANwA1wDHALEAnQCGAHIAWwBHADUAJQAUAAIA8//k/9r/0v/H/7b/q/+k/57/k/9//23/ff90/4P/i/+J/4j/hf+C/37/',
+  'gf+G/4L/f/9//4D/g/+E/4j/i/+M/4//jv+L/4v/jP+J/4P/fv96/3b/d/9s/2j/Yf9a/1L/Sf8//zH/Kf8l/xn/D/8B//f+5/7X/sj+wP63/q7+qP6k/p7+',
+  'mf6X/pH+jv6M/oz+j/6Q/pH+l/6b/rD+1/7W/vD+E/8J/xP/If8k/y//M/8z/0n/Tv82/03/Wv9v/3f/YP88/yL/EP8E//r+9v7q/tj+xP64/rL+sv60/rn+',
+  'wf69/r3+sf6m/qP+p/6r/qT+qf6+/rf+q/61/p3+lf6O/o3+dv5y/nz+gv6E/oX+kv6b/rT+v/7P/u7+8/4B/xT/KP8//13/e/+a/73/3//8/xkAMwBNAG8A',
+  'iwCoAM0A7gAOATABTQFsAYgBqQHHAeYBBAIaAi8CPQJBAkkCRgI8AjQCIwIYAgcC+wH/Ae8B7QHpAeQB6wH4Af0B5gHuARYCHQIlAicCHwIfAh0CFQIPAgYC',
+  '7AHWAc0BxQG9AbQBqwGlAaABrQGzAbABsQG1AacBqQF4ATkBJwH7AOkA+wAkAWYBhwGFAYEBfgFsAWQBbwFyAXEBaAFiAWUBXgFWATIBFwECAeoA6wDyAO0A',
+  'zQC5AKIAgwAxALP/if+D/3z/YP9S/2P/av9A///+3/7M/rn+pv6U/of+h/56/k7+RP5q/rL+0f7n/uz+0P6y/jf+/f3q/eb94/3a/c79zv3U/d39Gv5B/kv+',
+  'Hf7l/bb9qP24/fH9HP4m/i7+Ov5F/kD+Mv4W/iv+Qv5Y/nn+m/6+/tb+Bv88/1n/ZP9m/4P/qP/S//n/HgBDAGIAfwCZALMAzQDlAAABAAECARABGAEhATgB',
+  'MgFEAWcBagF9AaABngFiAfIApwDUAN4A0AC6AKMAhgB1AGYAVAA/AC0AGgAIAPz/7v/g/9z/2P/M/7f/qf+i/5//lv+E/6D/tP9w/3//i/+O/5H/jf+G/4L/',
+  'g/+E/4L/fv+C/4H/gf9//4L/hf+F/4b/hv+F/4X/hv+G/4H/ev90/3D/a/9l/2P/Wf9S/03/QP87/y7/Iv8f/xT/Cv/5/vL+3/7T/sb+uv6y/qb+oP6b/pT+',
+  'kP6K/oT+gP5+/n7+e/58/n7+hf6L/o3+tv7B/sr+/f4M/wH/Af8J/xD/HP8r/0L/M/86/z7/WP9p/17/Uv8r/xj/Cv/9/vb+8f7h/tb+xf69/rv+vP7A/sz+',
+  '0f7S/sj+u/6s/qX+rf6x/rH+vf68/rL+sf6k/oz+if57/lv+XP5j/mf+av5q/nP+hv6a/qj+vv7P/uT+7f71/gz/IP83/07/bP+R/7D/zv/s/wkAJgBDAF4A',
+  'fgCgAMUA6QAOATEBTwFtAYcBogG+Ad4B+gEQAh0CJgIwAisCKgIrAiQCFAIEAvkB9AHmAd8B5gHXAeIB5QH1AeEBwwG7AeoBDwIkAioCJgIKAvwBAAIFAvgB',
+  'zgHEAb0BvQG9Aa4BswGsAasBrwGpAaUBowGTAYABngE0ASIBGwEQAecA0gD/ADkBZAF5AXIBWQExARQBJgEdAUsBSQFEASEBKAEqAQ8B/QDmANgAvQC4AL4A',
+  'xACtAKAAdgBPAC4A4/+3/6H/m/+a/5f/jf95/1n/Gf/n/s/+u/6j/pH+gP5m/k3+P/5//rn+1/7h/tr+zv7s/uT+rv5e/h7+Bf4G/gb+Mf5b/nf+X/5e/kT+',
+  'M/4w/gj+0/28/cX93/3o/Qz+Jv42/k3+UP5S/k3+W/5z/pD+rv7G/tb+CP8x/1z/ZP9k/4X/sP/d/wQAKwBJAGQAhACeALkAzQDpAAMBHwENARMBIwE7ATwB',
+  'RwFZAXABjAGoAaoBhgEdAaIAtADeANoAywC4AJ0AiQBzAGIATgA8ACkAGAAKAAoA/P/p/9z/0f/H/7f/rP+p/6L/nf+Q/3z/hf9//4L/jP+S/5b/lf+Q/4n/',
+  'iP+J/4T/gf+D/3//fv99/3//f/+A/37/fv99/3z/fv98/3f/cv9t/2r/aP9i/17/Vv9Q/0j/PP83/y7/I/8e/xD/A//6/u/+3f7Q/sb+u/6s/qX+mv6R/oz+',
+  'if6E/nz+e/54/nT+cv5y/nX+d/56/oT+kv6z/rn+vP70/vH+6P7w/vb+AP8Y/x7/Gv8p/yv/M/9G/1b/U/86/xz/AP/s/ub+3v7f/tf+0/7O/tH+1v7Q/sv+',
+  '2f7e/tT+yP7D/r/+x/7B/r/+vf6z/rn+rv6T/nr+fv5d/lP+V/5V/lf+Wv5g/m7+f/6Q/qH+sP7A/s7+4/7t/gP/FP8n/z3/XP99/5r/vP/b//f/FAA1AFYA',
+  'dgCbAMAA5AAHASQBRQFjAYABoQG9AdkB7gH5AfoB+gEDAggCDQIJAgsC7AHmAeYB4AHSAcoByQHWAdgB/AEKAuEBygH6AekBBwIGAvkB2QHYAeQB/AH0AdMB',
+  '2wHhAd8BzwG5AbIBsQGxAa4BpQGQAYkBigF8AXABegE3AR4BHQEJAc0AjgByALsAFAE1ASUB9gClAHwAmACSANEACwH3AOkA/AAOAQIB8ADfAMcApQCMAIUA',
+  'hgCWAJYAeABkADcAMgAJAO3/2P+0/5v/hv98/2f/Sv8b//X+5v7h/tj+0f7I/sL+of7g/uT+z/7X/sr+2f4A/yz/D/8D/9X+t/6z/r/+qf6W/o7+hP54/mr+',
+  'Xv5T/kn+Q/40/iT+K/4k/ib+Sf43/kX+Vv5P/ln+cP6Q/pf+rf7H/uD++f4o/1X/W/9l/4z/vf/t/xAAKwBNAGgAgQCfALwA2ADzAA8BKAEVAR0BLAFJAUsB',
+  'VwFlAY4BpwGeAX4BNAG+AKIA2wDgANwA0AC8AKQAjAB1AGUAUQA6AC8AIQAVABEAAgDr/9r/zv/C/7f/rP+i/53/nv+a/4n/kf+S/4X/kv+T/5b/lv+Z/5X/',
+  'kP+P/47/iv+M/4b/fv98/3z/eP94/3j/dv92/3v/ff97/3b/cf9u/2r/Zv9j/2D/Wf9U/0n/Pf82/y3/J/8f/xL/Cf8A//H+4P7T/sr+vv60/qv+oP6X/o/+',
+  'if59/nr+eP5x/m/+b/5s/mv+bP5w/n3+hf6U/rP+q/7D/t/+0P7g/uH+7/4J/xX/Ff8s/zT/Kv83/0P/Rf8y/xD/8f7k/tr+4f7o/t7+2P7V/t7+2/7e/t7+',
+  '3f7c/tr+1v7Q/tH+wf7B/r3+q/64/r3+mP6J/m3+cf5S/kT+Rf5I/lH+Uv5b/mf+ef6H/pD+nv6x/sb+0f7h/u/+/f4W/y7/Sv9k/4//qP/K/+P/AwAnAEoA',
+  'awCMALEA1wD4ABcBOAFZAXkBmQGyAcgB0QHWAd4B4QHjAeUB5QHdAeIB1QHEAbMBqwGeAZ8BrAHDAdkB6AHKAc0B1gG2AbABwAHGAaEBoQGoAccB2wHdAdQB',
+  '8AHnAdUBuQGlAXYBaQF1AYEBdAFwAWwBbAFmAVUBUwFLASYBGgEIAeYArAB1AFwAqADIAKkAYQA5ADkARABGAK0AFwHzAMMA8gACAfgA3gDFAKkAhwBgAD8A',
+  'OwBXAHAAcABdAEEADQDs/9L/t/+l/5T/if9w/13/WP8r/yP/Hf8g/yP/If8e/wL/4P68/p7+jf6m/sH+5P72/hr/Kf8h/wj/+f7d/sX+sv6j/pb+i/5//nX+',
+  'bP5j/l7+V/5U/ln+Wf5d/mb+c/5y/nn+hf6A/nv+df6J/pb+nv6x/sX+8f4g/zH/Qv9k/5D/vP/p/xAALABJAGoAiQCrAMYA3gD9ABoBJAErATYBRwFfAWkB',
+  'bAFvAXcBmQGKAVEB4wB/AM0A7ADqANsA0gC+AKcAlAB8AGMAUgBAADUAKQAaAAoA+//w/+X/0f+//67/p/+h/6D/oP+Z/4n/qP/X/4H/m/+d/5r/nv+h/53/',
+  'm/+Z/5r/nv+Y/4b/g/+A/3//ff97/3z/fP98/33/ff98/3j/df9x/23/aP9k/1//Xf9X/1D/Rf86/zH/J/8f/xj/C/8B//T+6f7d/tD+xf67/rP+qf6h/pT+',
+  'h/59/nn+cf5t/m3+af5n/mX+Zf5p/m/+df54/pX+rP67/sH+xP7G/tD+2v70/gn/Df8M/xn/MP8j/zn/Jf8R/wf/9P7q/ub+8v7t/vL+1P69/sT+1f7j/uf+',
+  '5f7i/uT+4/7V/sr+1/7F/rb+wv6+/qP+jP57/nP+VP48/i/+Mv42/jz+Qv5K/lr+bf5+/on+l/6p/rv+x/7Q/tr+8P4B/xn/Nf9R/23/j/+1/9b/+f8WADsA',
+  'XQCAAKIAxwDqAAsBMAFSAXEBiAGYAaYBrwG4Ab0BvAHFAcsBvAGwAakBpAGdAZgBkgGaAaUBtgHbAeEB0AHKAd4B2gG5Aa4BmgGXAZABkQG0AeQB8wHzAfgB',
+  '4wHOAcIBpQGFAVgBMwElASgBOwFPAVEBTgFKAUIBPgExASMBFQEFAf8A4wC5AIQAWgBbADkADQAOADQASwBkAIAAjwCaALMAFAH/AN8AwwCwAJAAaAA5AA0A',
+  'AwAqADEANgA9ADsAJwD6/+b/yf+1/5//kf+E/3n/VP80/y3/Ov85/zL/H/8j/xX/6v6i/mD+Iv5F/on+vf4H/wr/HP8T/wT/+P7k/tH+wf6x/qj+m/6P/oT+',
+  'ff51/mz+aP5o/mf+Zf5w/n/+h/6U/pv+m/6b/pT+hP6C/pX+ov60/uX+Bf8b/zH/Rv9m/4//u//n/wsALwBPAG4AkQCzANIA7AADARkBKQE3AUMBPwFUAXIB',
+  'bQGMAWkBcwGNAYkB+QBsAOQADQH/APAA1wDDAKoAngCJAG8AWABJADYAKgAlAB0AEQD//+v/1f+//7H/q/+l/6D/of+e/4v/i/+m/4//pv+u/6j/p/+r/67/',
+  'oP+Z/6L/l/+c/5D/if+H/4X/g/+B/4P/hv+J/4j/h/+D/3//fP93/3L/bP9q/2X/Yf9f/1n/Tv9D/zn/Lv8j/xn/EP8F//r+7v7i/tn+zv7E/rv+sP6k/pz+',
+  'j/6D/nn+cv5r/mr+Zv5k/mT+Yv5h/mP+av5z/nr+jP6M/qr+wv68/rr+x/7S/uD++P4N/xj/If8b/y3/G/8R/xD/+v7m/tr+2P7v/vX+4f7Y/uP+6v7y/uv+',
+  '7/7l/uX+3v7T/s/+y/7P/sn+vP6x/pz+e/5x/mH+Kv4i/hz+Gv4g/ij+M/5B/k3+X/51/oT+kf6g/qn+s/7A/tP+3f7r/gT/IP89/17/e/+f/8P/5f8IACsA',
+  'TwBxAJQAuADcAAIBJQFFAV8BbAF6AYcBkgGXAZ4BpQGjAaQBnwGLAX8BfwF4AXcBgAGSAaQBrwG7AcsBxAGwAaMBnAGRAXYBfAGvAcMByQHbAQMCAwL+AfYB',
+  'wgGhAZEBhwFlAUABKwEhASYBNAFIAUsBSwFFAToBKgEgARUBEAEOARcBFgEfAeYAkABfAEsARgBEAFkAcwCQAJsAnQCgAMsA7ADuANAAvgCmAIEAUwAhAPP/',
+  '1P/K/9//3////ykAHwAOAPr/3P/K/7H/mP+M/4T/c/8//zP/L/8y/x7/EP8c/wD/4P6Q/jr+Jv4m/jv+bP6w/vX+G/8P/wH/9P7e/tD+x/7A/rb+qP6c/o7+',
+  'iP6I/oX+fP51/nD+bf5z/or+mv6n/q3+q/64/qr+g/5//pj+rP7G/uT+/f4W/zH/Tf9r/5L/v//o/wsALgBQAHAAlACxANIA8AAFARoBMwFCAUcBMwFXAV0B',
+  'TwFXAWUBcgGWAbABUAGSAPEAFAERAf4A5gDQALQAogCQAH8AaQBZAEcAOQAzADEAHQADAO//1//E/7f/rv+o/6b/pv+i/5v/l/++/6H/ov+q/6T/o/+k/6X/',
+  'ov+f/5r/mP+Y/5z/lf+S/5H/kP+P/47/j/+Q/5L/k/+T/5D/if+D/37/ef9y/2v/af9p/2f/Xv9U/0r/O/8t/x//E/8J//7+8v7p/uP+2f7P/sT+uf6v/qP+',
+  'l/6M/oL+fP52/m7+aP5l/mP+Yv5f/mL+Zv5p/mz+gP6H/o3+tP6q/qv+uP7B/s3+3f7t/vz+Ev8R/yH/IP8V/x//B//v/tP+0P7W/uv+9/7r/uv+7v7x/u7+',
+  '6f7e/tT+0/7T/tP+4v7b/sf+t/6p/pb+dv5x/kb+JP4Q/gX+B/4O/hr+J/41/kf+Wv50/oH+if6V/qD+pP6u/sH+y/7b/vD+Cf8o/0n/Zf+H/6v/0f/1/xoA',
+  'QQBmAIkAqwDRAPsAGQErAT0BSgFZAWgBcwF8AYEBigGLAYABewF9AXQBYgFbAWABawGMAa8BxAHhAcMBqwGbAacBqQGYAYoBzAHjAfoBCgIiAgwCBQLwAeMB',
+  'mwGGAXwBZwFEASgBGwEXAR8BLAFBAUUBQwFKAT4BLwEfARABCwEOASQBLgETAfcA2AC2AIsAcQBrAHwAoQC9AK8AqACkAMsA0QDGALwAsACVAHIARAAYAOr/',
+  'vv+d/4f/c/+E/9j/9f/y/+//5P/N/7//nP+H/4b/df9P/zP/IP8U/w3/C/8E//r+yf51/kH+Tf5P/kT+Mf44/p7+5v4K/wz/+P7k/uH+0/7M/sT+s/6i/o3+',
+  'jv6Q/oz+hf6C/n7+ef5+/pL+p/6v/rv+v/7G/qP+Z/5o/oX+rf7i/vn+Ev8V/zH/Vf98/6T/yP/u/xEAMwBaAHcAmAC0ANAA7QAHASIBLQE+ATgBAgE6AUUB',
+  'TAFjAXQBggGjAaABSwGjAPYAHQEaAQQB8ADZAMYAqgCeAIQAeQBsAFsATABEADwAJwANAPr/5//V/8j/vf+x/63/qf+s/6z/of+s/8z/o/+m/6T/pf+l/6f/',
+  'pf+h/6b/pf+g/6D/pP+g/6D/nv+d/5z/m/+c/5z/n/+h/6f/nf+V/4//hP97/3T/c/9z/3P/bv9k/1j/S/86/y3/H/8S/wf//P7w/uj+3/7W/s3+w/61/qr+',
+  'nf6S/oj+f/50/nD+a/5p/mP+YP5g/l/+Xf5h/mb+aP55/oH+k/67/p/+p/66/sj+1/7n/vT+AP8H/w7/Ff/4/g////76/vL+5/7j/uv+9f7t/vH+8/71/u/+',
+  '8P7q/uH+4/7o/vD+6/7g/s3+uP6n/pL+fP5n/lD+NP4M/v79/v0E/gz+HP4s/j3+Tv6O/nX+fv6K/pP+k/6a/qL+sP7I/t/++P4S/y//T/9z/5n/vf/g/wYA',
+  'LABUAHkAngDHAOQA9gALARwBKwE6AUYBTwFZAWQBZwFkAXwBUQFVAU4BRwFKAVYBZQF7AYsBjwGWAZIBlQGhAa0BrwGzAcgB4wHuAfgBKwIaAv8B4gHXAbkB',
+  'hwFxAVkBQQEkARIBCwEKAREBGgEiATYBPwE7ATUBKAEdARwBGQENAQ0BBgHyAOMA2QDXANEAwQCmAJQAmQCbAKMArQCrAK8AygCxAJ0AjgB7AFgANQAWAPP/',
+  'xv+Z/3L/X/9i/47/y//i/9v/0f/O/77/q/9x/3X/bP9B/y3/If8W/wv/AP8K//j+zP6L/hz+K/5A/kr+Mf4g/k3+mP4M/yH/Dv/9/uT+3f7T/s3+yP66/qj+',
+  'nv6c/pX+kv6W/o3+g/6L/pv+rP6//sj+yv64/mr+Vf5d/nj+of7a/gz/H/8g/z3/Yv+H/7L/1P/6/xwAOgBeAIQAoQC+ANgA8wAQASUBMQE4ASUBCgEqAUwB',
+  'ZAF0AXsBiAGoAacBYwHDAPMAIQEbAQgB9QDaAMMAsACiAI8AggBvAGQAWABLADgAKQAcAAUA8v/k/9n/zf+9/7X/s/+z/7P/rv+q/6v/rv+t/8D/r/+s/6v/',
+  'r/+q/6z/rv+v/63/rv+w/7L/sf+v/7D/r/+u/6//rf+t/6v/qv+h/5n/kP+I/4H/fP96/3r/df9u/2b/W/9L/zz/LP8b/xH/CP8A//b+6/7h/tT+yv69/rP+',
+  'p/6Z/o7+gP53/m/+Z/5j/l/+Wv5Z/ln+Wv5a/l7+Yf5n/nT+f/6r/qP+m/6o/r7+0f7k/u7+/v4B/wv/Ef8a/wz/C/8L/w//Cv/w/u/+6/7l/uD+7f7o/uj+',
+  '4/7b/tn+4/7l/t/+4v7f/tj+yv6w/p3+dP5V/kz+RP4d/gL+/P39/QH+D/4j/jT+QP5P/l/+a/50/nv+ff6H/pb+o/61/s3+5f7+/hz/Pf9j/4b/rP/S//j/',
+  'HgBDAGoAkQCvAMMA2ADrAPsACwEYASQBLwE7AUUBRAFSAUIBQgE9ATUBMAE8AU0BWgFlAXMBdAF7AYMBmwG4AboBuQGtAcwB/wETAhsCCwLxAd8BxwGxAaIB',
+  'YgFFAS0BIgETAQkBCAEIAQkBCwEWASIBLwE5ATcBKgEnASEBHAENAQIB8ADkAN8A3wDUAM4AtgCoAKYAogCbAKMAqQClAK0AwQCqAJAAdgBiAEcAMQAZAP3/',
+  '1v+r/4P/af9S/0//fP+6/67/sv+//8X/uv96/2L/af9H/yn/Hv8S//L+6f7n/rD+tf58/hP+Ff4n/jb+L/4c/gr+HP52/qf+2v4C/wH/7v7q/tf+2P7N/rf+',
+  'q/6j/qT+qv6h/n/+hP6X/qH+rf7E/sn+vv5m/kv+Wf5q/ob+u/7v/hP/I/8j/0L/a/+U/7n/4v8MACoARgBoAI0ArwDOAOgA/gAcASkBMgEwAQEBDAFAAVgB',
+  'aAF3AYIBiwGlAacBWQH6AOMAKwEsARsBAgHrANQAwQCtAJwAjAB7AGwAWQBLADwAKwAhABAA/v/y/+f/2//M/8L/wP+7/7z/u/+5/7j/wP+7/7r/u/+6/8//',
+  'tf+v/63/sv+4/7X/wP/B/8f/y//L/8n/xv/J/8f/xP+//7z/u/+x/6n/oP+W/47/h/+D/4H/e/91/2z/Yv9Z/1L/R/86/yn/G/8P/wL/9P7n/tr+zv7C/rb+',
+  'qf6d/pH+hf53/mv+Y/5b/lj+U/5O/k3+UP5P/lP+WP5d/mb+bv6A/qb+k/6e/rf+xf7W/un+Bf8F/wv/EP8f/x3/EP8R/xn/Ff/1/uv+4f7j/uP+6P7q/u3+',
+  '7/7q/un+6v7n/uL+4v7d/tr+0/68/pr+fP5i/i/+Nv4s/hL+/f33/fv9Bf4Z/iz+N/4//k3+Wf5f/mT+aP50/oT+k/6l/rr+0/7s/gr/Lv9Q/3X/mv/A/+f/',
+  'DQAzAFgAeACOAKMAtwDKANsA6gD4AAYBFAEhASsBLgFKAUcBLwEyAS0BKgExAT8BTgFVAVwBYwFvAYUBiwGWAb0BpAGNAbIB2QHsAeAB2QHPAbUBngGGAXcB',
+  'NgEeARUBGwEWAQ4BDwEPAREBGAEdAR0BIwEwATMBNgEwASUBHQEGAfcA6ADdAOQA1QDFALEAngCZAKIAngCXAKAAiACHAJQAxACqAI0AdABfAEsAMwAZAP7/',
+  '3/+7/5X/b/9K/zL/Lf9r/4T/ef+R/7D/uP+Q/1f/U/9U/yD/Bf/z/tn+2f6q/lj+ev5A/gr+E/4f/in+LP4Y/v/93/3B/dj9IP50/q3+zP7b/tj+0/7J/rT+',
+  'sP62/r/+yP7T/nH+Sf5t/pH+rP7A/sz+vP6F/lb+Xv57/qn+0P7u/hP/Kv80/0//fP+j/8P/6f8TADgAVABzAJYAuwDYAPEADwEkAS8BLgEHAfQAHwFLAWYB',
+  'aQF5AYcBkAGlAaoBbAFvAesALgE8AS4BFwH5AOMA1QDEAK0AnACCAHAAYQBVAEgALgAnACIAFwAGAPX/5v/e/9L/yv/E/8D/vf+9/73/v//E/8b/yP/H/8D/',
+  'y//i/83/xv/K/8T/1//V/+D/5P/n/+j/6P/n/+T/3//Z/9P/1P/I/77/tf+q/6D/l/+Q/4v/hv+C/3r/bf9j/1r/Uf9H/zj/KP8Z/wn//P7v/uH+1P7I/rv+',
+  'rv6g/pX+hv54/mv+Xv5W/lL+Sf5I/kf+Rv5G/kj+UP5V/l3+Xv5p/ob+n/6R/qf+uP7K/uL+B/8S/wv/Ev8e/yH/Jv8U/xH/Av/v/t/+5f7u/vb+/f4C/wX/',
+  'C/8E/9/+3/7u/uz+6f7j/tz+2P7A/qP+jv5k/jH+Nf4s/h7+Bf74/fn9AP4R/iD+Kv4z/jv+Qf5F/kj+U/5f/m7+gf6S/qj+wP7d/vn+G/8//2P/iP+v/9b/',
+  '+/8kAEUAWgBvAIIAlQCkALcAyQDaAOoA+AAHARIBGgEZARMBGAEeAR0BHwEkATABPAFEAVEBhwFzAW8BaAGmAaUBmgGeAaYBpQGPAZEBkwGUAZEBegFsAU8B',
+  'GwEWAQkBEgEaARUBGQETASIBHwEcARsBHgEiASYBKwEvAS4BHQEHAfUA5gDXANQAxQCsAJoAlgCRAJcAkgCLAI0AhwBsAIUAswClAIwAeABnAFQAOQAdAP7/',
+  '4f++/5X/bP9G/xn///4Q/zL/Q/8+/zD/QP9N/zv/M/8u/wn/1f7D/r7+xP6F/kr+V/5A/iT+Kv4s/jD+L/4b/vL9zf2q/Yz9i/26/d/98/08/rX+3/7a/uH+',
+  '1f7I/tD+qf5i/h7+Fv5a/nD+kP6x/r/+t/6l/ov+jv6m/sf+5P4E/x//Nf9B/1z/hv+p/8z/9P8gAEsAZACHAKQAxADlAAIBJQEyATgBJQH5AAMBRwFcAV8B',
+  'cwF+AYwBlwGoAbIBkgHlAUIBLgFEAUoBLgEUAfUA3gDSALgArwCXAIEAbwBdAFEAPgAxACcAIAAOAAEA9//r/+P/2P/S/8b/vv+6/7z/uv/B/8j/0P/Q/87/',
+  'zP/V//3/7v8GANz/0f/j/+7/+f/7/wQACQAGAAIA/v/3//H/7P/n/97/0P/D/7f/rP+k/5v/lP+N/4L/eP9w/2f/W/9P/0H/M/8i/xP/BP/0/uX+2P7M/r3+',
+  'sP6j/pX+iP54/mv+Xf5U/kz+SP5E/kD+Pv4+/kD+Rf5I/k/+V/5O/or+if6h/pn+rf7C/t3+B/8V/xH/F/8l/yz/Lv8a/wz/+f7p/uf+8P7o/vH+/v4A/wP/',
+  '/v7u/tL+xf7Z/vn+Cv/+/uv+2f7H/rD+lP5//jr+Ov41/h7+Cf76/fr9//0N/hv+JP4n/ij+Kf4r/jD+OP5F/lb+af59/pX+r/7J/uj+Cv8u/1H/dv+b/8L/',
+  '6/8RACgAOwBQAGEAcgCFAJUAqAC6AMoA1wDoAPgAAgEAAQIBCgEMAQwBDAEQARsBKAE6AVABfQHGAboBmQGcAYsBiwGHAYYBhQF6AW0BaAFoAWYBVQE6ASoB',
+  'AgEBAfkAAwEQASQBLgEpASoBKQElAR8BGgENARABGAEoATUBKQEKAfwA6QDaAMkAtACdAJEAkQCOAIgAhQCAAIIAjgB/AHoAkACaAIoAegBxAGEASAAoAAUA',
+  '6f/G/5j/Zv84/wn/8f7h/uj+AP/4/tP+6v46/yX/FP8K//D+2f7J/sf+of5s/j/+Tv47/jz+SP4z/iL+K/4J/uf9yf2k/Yj9cf1h/V/9Zf1y/bb9Af4p/mb+',
+  'Zv5e/mD+J/7S/dP9Av45/kv+dP6W/qH+pf6o/r7+yf7L/tr+8/4N/yj/Pf9P/2v/lP+5/9r/BwAwAF4AdQCVAK4AzgDxABMBLAE4AUABBAHzACIBSgFdAWEB',
+  'dAGCAZEBoQGpAbUBowHIAU0BSgFfAVIBQgEnARUB/ADoAN8AtgCiAJkAhQBvAGAAUgBFADEAKAAZAA8AAQD5/+3/4//Y/9H/yP/C/8H/wv/H/8r/0f/Z/9n/',
+  '1P/T/9z/9f/0/93/3v/k//H/+v8KABEAFgAdABsAGgARAAsABQADAPr/7v/g/9L/xP+3/6v/of+V/4v/gf91/2n/X/9W/0n/PP8t/x7/DP/9/u3+3v7P/sH+',
+  's/6k/pT+hv54/mr+Xv5R/kn+Qv47/jn+Nf41/jj+PP5A/kb+Tv5T/lb+h/6K/pv+nP61/s7+8f4T/xn/Iv8r/zX/Nv8t/yT/A//3/gP/6P7K/tL+3/7c/uP+',
+  '8v78/vv+8v7b/vD+Bv/9/vz+8P7Z/tL+sv6I/kP+Sv48/iL+DP78/ff9/P0H/hX+Gf4Y/hf+Ef4S/hn+I/4y/kH+VP5o/oL+n/66/tn++f4b/z//Zv+M/67/',
+  '2v/4/wkAIgA1AEQAVABmAHgAiQCZAKYAtwDIANYA5ADqAPYAAQEEAQQB/gADARUBKAE7AVEBVgFNAT4BPQFpAX8BhwGKAY8BgQF8AV4BTQFNAUoBPwEqAREB',
+  'AAH/AAQBFQEwAUQBUwFLAUwBQAE3ASMBGwEMAQcBBgEaAScBGgEFAe8A3ADUAMAAqQCaAIoAgQB/AH0AgwB/AH4AhQCLAHQAcgB+AHoAdABxAGYATwAxAA8A',
+  '8//R/53/Z/8u//r+4/7S/sj+wP6z/sr++v4k/xP/AP/q/tX+zv7G/qT+b/5c/kr+O/47/kL+OP4l/iX+F/7p/dv9yf2v/Z39kP2B/W/9a/1z/Xz9lv2+/ev9',
+  'C/4Z/hz+8/3d/ff9FP44/lz+eP6F/pD+nP65/sv+yv7Q/uT+9/4R/zH/R/9f/3//qf/I//H/HwBJAGgAgwCkAL8A3QABARcBIwEhARoB+wAaAU4BagFtAWsB',
+  'dQGJAZMBpgGxAb0BqQGEAWEBiAGAAWwBUgFBARoBDwEEAfMA2gC+AKoAkAB+AHIAZgBTAEMAPwAwABsAEgAHAPz/8f/l/93/2P/R/87/zP/N/83/0P/V/9f/',
+  '2v/g/+b/6f/p//n/PQAYADAAOQAeADUALgAeACUAKgAkAB0AGwAXABEACQD+/+7/3//P/7//r/+i/5X/iP99/3D/Zf9b/03/QP80/yb/Gf8I//X+5v7V/sX+',
+  'tf6m/pX+hv52/mj+XP5S/kf+Pf44/jT+L/4y/jH+Mv43/j7+Rv5Q/l/+Y/6M/pX+n/6n/sb+4f4M/yn/Lv8y/zX/Tf9F/zj/Fv8K/x3/8v66/sn+2v7h/uL+',
+  '7v76/v/+A/8A/+n+Av8H/wv/+f7k/tD+t/55/kv+UP47/iP+EP7+/fP99v3//Qr+Df4M/gv+BP4D/g7+Gv4m/jb+Sf5e/nb+k/6w/s3+6/4N/y//Vf95/6D/',
+  'w//c//D/BwAXACYAOgBLAF0AbAB4AIUAmgCmALkAzADYAOIA7ADzAPEA9gABAREBJQFBAVYBUQE0ATgBUAFoAYQBhwGSAY8BdQFdAUoBPQE8ATkBMAEcAQwB',
+  'EQEaARsBLwFOAV8BaAFoAWUBXQFGATEBHgENAQAB/QAOARkBCQH3AN0AywC9AK0AnACVAIgAgQCEAIMAgQB+AH0AdQCCAHQAYgBeAGYAZgBfAF0ATgA1ABQA',
+  '8f/O/6D/Yv8i//T+1f7J/r3+t/61/ub+8/7h/tL+wv69/q7+m/6A/lz+UP5P/kP+Mf41/jL+IP4a/h/++v3o/eH9z/22/a39qP2k/Zf9kf2Z/aL9tP3O/dr9',
+  '5v3r/fX9Av4O/gf+GP45/mP+cP57/pD+pf65/sr+wv7E/tn+8f4L/yr/Uv90/5T/tf/c/wUAMgBZAHsAlgCzAMYA3AD8ABoBCAH7APUAIAFMAWsBVwFlAXAB',
+  'cQGHAZoBrwG7AcgB1AGiAUcBeAF/AWABVQFDATUBGAEPAQMB9QDTAL8ApwCXAIcAfQBlAFkAVgBGADAAHAAVAAsAAwD6//H/6v/k/9//3f/Y/9j/1v/Z/9//',
+  '5f/r//X/9//6/wAACAAFAC4AOABLAD0AjwBKAB8AJwAoACYAJgAjACEAHAAXAA0A///t/9X/v/+t/5//kv+E/3f/av9f/1L/Rv86/yz/G/8J//v+5/7W/sb+',
+  'tf6o/pj+if57/mr+YP5V/kr+QP45/jH+Lf4p/iz+Lv4y/jr+Qv5R/lb+Y/53/pL+q/6h/rr+1v73/iX/Mv87/0f/Xf9t/13/Pv8d/yH/7/69/r/+0P7m/u7+',
+  '8v7o/uv+//4L//H+F/8Y/xT/C//l/uT+xf62/nr+T/5D/i3+GP4E/vf99P38/QP+Bv4B/v/9+f36/QX+Ev4e/in+Pf5R/mf+hP6d/rr+3P76/h//Q/9q/47/',
+  'rf+//9f/6//7/wsAHgAvAD4ATgBdAG8AgACSAKgAuQDBAM0A0wDWANwA6gD3AAYBGQExAUoBSgE4AVABVAFzAYsBiwGDAXsBZwFSATwBMQEwASYBGgESAREB',
+  'JAEyATwBRgFRAWYBcgFuAVwBWAFHATABGgEIAQIBAwEMAREBBQH7AOAAxACtAJkAkQCUAJAAiQCGAIMAewB1AHMAaABxAHIAWABLAE0AVABPAE4APgAnABAA',
+  '7v/K/5T/Uf8P/+b+zP66/rX+tP65/tb+9v7V/pz+if55/l7+P/4u/h/+Pf44/i/+IP4d/hL+BP77/fL94/3f/dz9zf3A/bf9sv21/a/9u/3H/cz91f3N/dT9',
+  '1v3c/dv99f0H/gX+G/41/lT+av58/o7+nf60/sP+w/7H/tv+9f4T/zb/Wf97/5z/w//t/xUAPQBhAI0ArgDzAJoAsADWAOoAEAH7ACEBRAFfAWsBdAF0AXAB',
+  'ewGHAaEBtQHGAdAB3QG6AVwBHwFpAW8BYgFTAT8BRwEpARgB+QDzANcAxwDAAKEAnwB+AHoAawBZAEUAMQAnABwAGQAMAAYA/v/6//X/8//y/+7/7f/l/+f/',
+  '6//x//v///8EAA8AEgAdACMAKQAsADgASQB7AI0AYABFAC8AMQAtACQAJQAmACAAGAAJAO//0/+5/6j/m/+O/3//cv9k/1f/Rv85/y3/H/8Q//7+7P7c/sv+',
+  'uv6n/pn+j/5+/nD+Y/5X/k3+Q/45/jD+K/4o/in+Kf4s/jT+Pf5F/lX+YP5r/o/+nv66/rT+0P7u/iD/P/9J/1j/Zv9y/3z/Tf80/xb/5/7H/s7+5v7m/uP+',
+  '6f4M/y//Hf8N//v+Av8J/wD/9/74/vP+8f7C/qf+ef5S/j3+JP4P/gD++P31/fr9/f35/fb98v31/f39Cv4Y/ib+Nv5J/mH+fv6V/q/+zf7r/gv/MP9U/3n/',
+  'jv+q/73/z//e//H/AgARACEANQBJAF4AcwCIAJ4AqwC0ALsAwwDNANkA5gDwAPsACQEZAS0BOAFOAVsBdAGOAYgBgAF8AWwBVAFGATIBLgEdAREBBwEHARYB',
+  'KwE8AUEBTQFMAVgBawFQAU0BOwElASEBCQH7AP4ABQEKAREBCgH6ANoAugChAI4AiQCRAJUAjACEAH8AcABlAGEAXwBtAGkATwBBADgAOwBEAD8ALgAUAAIA',
+  '4P+1/4P/PP/+/tb+wv60/rH+tP67/rn+1f7t/tb+iP51/k7+L/49/if+KP4k/g3+Av76/ev92/3M/cv9y/3C/cH9sP2t/b39t/2p/av9w/3V/c/9zP3F/dD9',
+  '0/3c/eb9Bv4E/gL+G/5H/lb+Z/59/o7+pP64/sj+0/7f/ur+Af8g/0T/a/+M/7P/1//+/yUATgCDAKMAugAJAcQAqAC6ANcABwEqAUEBVQFfAWQBbwF4AYQB',
+  'iwGKAaQBuwHPAdUB3QHaAZQBSQEKATgBXgFoAWMBTwE1ASUBOwH7APQA4wDOAL8AmQCQAIYAdgBqAFoATwBBADMAKQAgABYAEQANAAoACwAAAAUAAwD7//b/',
+  '9//1//z/BgAPABMAIwArADQAQQBGAEYAQgA9AEQAVABkAGsAfABLACkAKgAeABoAGwATAP7/4P/E/7D/ov+V/4f/df9k/1X/R/84/y3/IP8Q//7+7v7f/s7+',
+  'u/6t/qH+k/6B/nH+Zv5c/k3+Qf45/jL+K/4o/iX+J/4r/jL+OP5B/lH+X/5u/n3+k/61/rf+yf7j/gT/MP9P/2T/cP98/3z/ZP9O/yj//v7g/u7+9/7z/gL/',
+  'O/9i/1n/Tv9B/x//G/8n/yj/Gv8T/wX/Dv/0/tD+mP55/kf+Lf4X/gj+Av7+/fn9+v31/fL98v32/QD+Cf4W/iX+NP5I/l/+d/6Q/qr+x/7g/v7+If9D/2T/',
+  'hf+U/6L/sv/G/9b/6f/7/xAAJwBBAFkAcQCGAJcAowCpAK0AtwDGANMA4ADqAPIA+QADAQ0BHgFNAWQBeAF0AYYBfQFrAVsBRgE2ASYBFwEDAfwA/gALARIB',
+  'MAE3ATsBQwE5AT4BOgEpASoBKQESAQ4B/ADtAOgA8gAIARkBGQEBAccAqACTAIUAhgCUAJoAigCCAHgAbgBjAFwAXABnAGkAVAA+ADEALQA6ADsAKgALAOn/',
+  'x/+d/2H/Hv/v/sz+uP6t/qn+qP6n/qH+tf7E/sT+l/5l/l3+Pf5F/hj+9f3t/ef95P3k/dD9v/2s/ar9qP2g/af9sP2t/aX9m/2T/Zf9qP27/b/9sf25/cX9',
+  'yv3R/eP9Af7//f79IP5G/l3+cP6F/pD+qf65/tD+1P7h/vz+Gv82/1L/eP+h/8f/6f8MADcAZgCMAK0AvADZAOoA8QAMARsBMAFDAVMBXwFgAWgBcgF/AYsB',
+  'kQGZAbYBxQHVAdwB2wHpAdgBrQFKAQEBQQFxAXUBZwFUAUIBKAEOAf8A6ADbAMQAwAClAKAAmwB9AHIAZwBQAEoAQQA8AC8AJQAeACAAEgAmABQAFQAaABAA',
+  'DgAOAAkADgAUABsAKgA2AD4ASQBPAFQAWQBYAFYAVwBTAE8ASgBMAI8AbQBGABAA+f////r/5v/O/7j/qP+Z/5H/fv9t/1z/Tf88/y7/Hv8R/wH/8P7g/sv+',
+  'vP6u/qD+k/6F/nX+Zf5b/k/+Q/45/jL+K/4m/iX+Jv4p/i7+N/5B/k/+Xf5v/oL+kv6m/rr+yv7e/gP/IP9L/2j/ev+G/4T/cP9h/z//E/8A/wv/Dv9O/13/',
+  'Z/9s/3X/ef9O/zT/Qv9X/03/OP8r/xz/Ff/g/sH+kP6G/l7+VP4X/gX+Bf4G/gL+/f35/ff9/P0B/gr+D/4Y/ir+O/5J/lz+bv6C/pv+sf7O/u/+EP8y/1T/',
+  'cP9//47/n/+u/8H/1f/p/wAAGwA4AFYAcgCKAJsApwCrAK4AtAC/AM0A2gDnAO4A7wDwAPkADwFHAWgBZgFkAXABcQFjAUsBPwExASEBEQEFAf8A/AARAR4B',
+  'LwE5AT0BPAEsASMBFgEGAQQBFQEPAfoA7gDeANMA3QD3ACABKAH1AKYAjgCGAH8AhACVAJcAigB9AHEAZgBeAF8AXABVAFYATgBAACkAIgAtADoAJwD8/9r/',
+  'rv97/0H/Dv/o/sf+tf6m/qD+mf6Y/p/+q/63/qH+bP5S/i/+JP4O/tv91f3K/br9xv3I/bH9oP2X/Yv9hf2H/Yf9g/17/Xn9ef1+/YX9lf2p/ab9mP2v/cD9',
+  'xP3N/d/99f3//fr9I/5P/l/+dv6L/pr+q/68/sn+2v7t/g7/Jv9E/23/lf+w/9b/9/8iAFEAfACZALMAuQDPABMBAwEiATQBRgFVAWEBZwFqAXQBfAGFAY0B',
+  'lwGkAb0BywHbAeMB4wHkAeoB3AG2AVwBJwF4AW8BbQFRAUgBRgEhASkBAQH8AOkAwgDBALQAoACkAIoAeAB0AGgAXQBVAEgAPwAzACsALgAtADQAOAAmACcA',
+  'GgAZABYAEgAgACYAMgA7AEUATQBTAFoAXABhAF0AXABbAFgAUQBIAEAAPQB4AJkAYgD8/+3/5//V/8P/sf+j/5X/hP91/2P/Uv9F/zb/JP8Y/wn/9v7k/tH+',
+  'v/6w/qH+k/6I/nX+Zv5b/k7+Q/44/jH+Kf4l/iP+Jf4n/i7+Nf5C/lH+Xv5w/oP+l/6q/r7+zv7S/uj+Jv9I/2n/gv+S/5n/nP+B/2b/Qf8j/yr/MP9y/3v/',
+  'eP+E/4v/j/9O/0L/O/81/yf/HP8V/yr/GP8D/+P+qv5g/kz+Of5I/iD+AP7//f/99/36/f79BP4H/g/+F/4o/j3+RP5K/lf+aP59/pX+rP7H/uL+AP8g/0P/',
+  'W/9r/3r/iP+a/63/wP/W/+7/CwAnAEkAagCJAKAArgCxALIAuwDJANMA4ADpAO8A8ADvAPcAGQE8AVsBZgFhAWMBYAFKATwBLAEfARYBEQESARIBDgEhASQB',
+  'OgE6ATwBLAEZAQsB/wDyAPYACwEJAfsA5ADUAMgAyQDXAOQA8QDLAJAAeQB3AHwAhQCJAIgAhwB3AGwAXwBWAFYAUABFAD8ARwA5ABoAFAATABMAIwD1/83/',
+  'nf9o/zr/D//o/sv+t/6q/p/+lP6T/p7+s/6d/n3+Vf4i/hP+Df75/d390/3B/Zz9jf2f/YH9cv1q/Wz9Zf1i/V39Wf1U/Vn9Y/10/XX9iv2I/YH9fv2S/Z/9',
+  'rf3G/dv98P0L/gD+H/5M/mD+eP6K/p/+r/7G/tf+5/4F/xb/Mv9a/4H/o//F/+3/EgA2AF0AhACmAMkA1QDgADMBGAE3AUYBWQFjAW0BdgF6AYEBhgGOAZcB',
+  'oAG0AccB0QHhAekB6AHoAfYB7AHSAZUBOAFkAZsBmQF3AWUBSgE6ARsBFwEMAe4A0QDYANEAwwC4AJgAjwCHAIAAcgBjAFoARgBPADkAOAA0AEEANgAxAC0A',
+  'KAAtACoAJQArAC8AOwBOAFIAXQBaAFkAXwBaAFcAVgBYAFYAUgBPAEwAQgA2AD0AtgB8AO7/5P/a/8r/uv+s/5z/j/+A/2z/W/9M/zv/Kf8c/w7//f7p/tn+',
+  'xv6y/qL+lP6G/nb+Z/5c/k/+RP47/jL+K/4m/iT+JP4p/jD+OP5E/lL+Yf50/oj+m/6t/r/+0f7d/tr+L/9h/3H/iv+h/7r/xP/I/5//af9A/1P/YP95/4z/',
+  'lf+b/6n/gf9k/2z/Vv9R/0v/Qf9A/y//Hv8K//v+7v6Z/pL+Zf5A/in+Av60/ZL9ev2L/bD9w/3u/Q3+KP4z/jn+M/4+/lb+Zv5w/oX+nf62/tL+8/4Q/zH/',
+  'SP9W/2j/dv+I/5r/rf/C/9v/9v8UADoAXQB+AJkAqgCzALoAxwDWAOIA6gD2AAAB/gD9AAEBFQE4AUYBUAFRAVABSgE/AS8BIAERAQwBCwENAQ4BCgEdAS0B',
+  'NAEvAS4BFQECAfoA8ADpAPgAHQEJAfcA5QDOALoAswCxALIAqQCeAIEAcwBwAHUAfwB9AHwAfQBpAFsATwBMAEgAQAA2ADEANgAwABIACgD+//v/CAD+/9L/',
+  'm/9s/0X/Gf/0/tv+xv69/qn+lv6S/pj+pf6R/lz+UP4M/gz+/P3j/cz9uP2o/Yr9Xv1z/WX9Uf1L/UP9QP05/TL9Nv00/Sz9Rf1W/XT9Zf1d/UT9Vv1l/Xj9',
+  'i/2n/az9yv0C/hP+H/5I/mH+d/6J/qb+sv7O/t7+8/4U/yr/Tv91/5f/u//a/wEAJABDAGkAkgDCAN0A7gAuAUYBLgFNAWEBcAF8AYQBiQGOAY8BlQGbAaIB',
+  'qgHBAdAB2wHmAe0B7gHtAf0B9QHgAaYBXAFKAX8BfQF6AW4BYgFLATcBHgEGAf0A4wDdANIAygC+AK0AvgCYAKYAjAB5AHEAaABeAFYASwBJAEMAQAA4ADcA',
+  'NgA0ADUANQA+AEQAUwBYAFMAYgBeAGMAWgBXAFIAUABPAEwASQBLAEsASQBJAD0AhABPAPH/5//e/8z/vP+x/6X/mP+H/3X/Zf9V/0D/L/8f/xL/A//y/t7+',
+  'y/64/qX+lv6G/nj+bP5f/lP+S/5E/jj+Mf4s/if+KP4s/jL+Ov5G/lT+ZP54/ov+ov6v/sP+0f7o/un+Cf9A/2D/fv+V/77/zP/W/7//fv97/3n/if+P/5z/',
+  'qP+2/7z/hf+E/3X/fP9x/17/XP89/yH/Df/4/vf+7f7w/uj+7/7f/pv+Rv7W/ZL9n/3W/dX9oP2U/cL9+/0e/h/+Jv47/lT+Yf5r/nz+jv6p/sP+4v4F/x//',
+  'Mf9C/1L/ZP92/4j/nP+y/8z/6f8KACwAUABuAIgAmgCqALcAyADdAOoA9AABAQwBCwEGAQYBBAEfAUsBUwFfAUEBOQEzASgBHQEUAQwBBwEDAQgBDgEaASwB',
+  'IgEbAQ0B/wDuAOoA5gDkAPIADgH+AOYA3ADJALQAowCYAJUAhAB6AHYAbgBuAHUAfgB6AHIAagBaAFMASwBBADgANQArACgAIwAeAAUA9P/1/+n/7P/8/93/',
+  'pf9z/07/JP8D//T+6/7f/r/+qP6q/qT+nP5x/kz+I/7m/fH95f3Q/bf9kv1w/Wr9Tv0w/UD9OP0S/Rz9Fv0T/Rb9FP0S/Q/9Ev0z/UT9L/0H/R39N/1P/Wb9',
+  'if2o/bD9tf3c/Q3+IP5E/mD+d/6M/qn+u/7B/tT+CP8s/z3/YP+C/6v/wP/d/wgAMQBdAIYAtADdAPkAMgGHAXIBOwFjAYABjAGPAZoBnwGeAaIBpwGqAbMB',
+  'vwHNAdkB4wHtAfQB9QHzAQQCAALzAboBcgE1AYYBmQGrAXgBawFPAUEBMQEcAQcB+wDxAOAA1wDSAMkAugCwAK8AnwCOAHwAkgB7AGsAYgBaAFAASQBIAEEA',
+  'PQA9ADwAQQBTAF0AWQBTAFkAVgBaAGIAWABbAFMATQBNAEkAQgBEAEQARgBEADgAIwANAPv/8P/h/9L/xf+4/6z/oP+R/37/bP9c/0j/OP8m/xf/Cf/4/uX+',
+  '1P7A/q3+nP6K/n3+cv5l/lr+Uf5H/j7+Nv4w/iz+LP4x/jf+QP5J/lj+aP55/o7+of6z/sP+1f7s/gn/G/8W/0n/cf+r/7r/x//X/8b/h/+O/4H/kP+b/7D/',
+  'vP/B/67/kv+T/4v/hv+B/5D/h/9q/2L/af9q/zj/G/8I/+j+2/6u/oL+Y/46/lf+X/49/jf+U/4V/pX9vv0D/hz+Kv45/kj+Xv5p/nb+iP6e/rr+1v70/hD/',
+  'Hv8x/z//T/9k/3f/jP+j/8H/3v///x8AQABfAHoAkACiALQAxQDaAOwA9wD+AAQBCwEFAQcBCQEcAUgBRAFbATUBJwEeARsBGAEUAREBDQEMAQ4BEQEeASAB',
+  'DwEIAf0A7ADgAOMA3QDZAOEA7wDmANMAyAC9AKsAlQCIAIEAbgBkAHEAbgB3AIIAfABwAGYAYgBVAE0AQgA3ACsAIwAcABoAFQAHAAEA9f/t/+L/3f/a/9X/',
+  'q/+F/17/Ov8l/xz/Ev8F/+P+wP6t/pv+ef5X/kX+D/7a/d79y/2w/Zf9ff1Q/Tv9L/0W/fr8Df36/PP8//z0/Ob87vzi/OD8/PwO/fT83/ze/P/8I/09/WH9',
+  'h/2i/a39qP2+/f/9If5H/mX+g/6S/rX+xP7Y/vH+Cv86/1L/b/+X/7T/0P8GACwATwB7AKQA0wD8ABkBVwGxAZUBSQGOAa0BpwGoAa4BsQG2AbcBuQG8AcUB',
+  '0wHcAecB8AH0Af0B+wH6AQsCDgIJAugBfgE6AZEBuQGUAZoBcQF0AUQBNwErARoBDgECAfMA5ADtANcAywC+ALYApgCbAJAAhAB1AGwAaQBgAF0AWQBRAEYA',
+  'RQBDADsARgBGAEwATwBTAFsAXQBiAGEAZQBeAFoAUwBPAEYAQAA/ADgANwA1ADAAJAASAAAA8v/h/9X/yv++/7L/pf+Y/4X/d/9m/1L/Q/8z/yT/Fv8C/+7+',
+  '2/7J/rX+p/6V/oT+dv5s/mH+VP5L/kP+O/41/jb+M/41/j3+Sf5N/lr+a/5+/pL+pP62/sb+2P7y/hD/Jv88/zj/Qv9x/6v/0P/e/+3/v/+p/7j/zf/Q/8P/',
+  '0P/c/8r/qv+q/7T/x//D/7z/rf+Y/4X/df9a/0X/Lf8B/93+0/63/of+Yv5S/kP+PP48/k/+Xv5m/tL9lP3v/RX+E/4g/i3+SP5b/mn+fP6X/rD+yv7p/gP/',
+  'Dv8f/y7/Qv9W/2v/gf+b/7r/1//z/xAALwBMAGcAfwCTAKQAtwDUACQB+wAPAfwA/QAGAQoBEwEqATwBQgFTATABEgEKARUBFAEUARYBFgETARkBHwEZARQB',
+  '8QDpAPIA5wDXANgA0ADNANEA1QDRALwArACnAJoAjQCCAHsAbQBpAHEAawBzAHoAbwBjAFgAVABKAD4AMwAuAB8AFwATAAoAAwAFAA0A+v/f/9f/yv/E/9P/',
+  'qv+K/2z/Uv8//y3/Hf/+/uH+y/6y/pf+df5K/ir+8/3R/cz9tf2X/Xr9X/0//Rz9Df32/OH82/zj/N783PzU/MD8svyy/L781fzN/Lj8vvzU/PP8Ev0y/Vf9',
+  'f/2e/az9mv3N/QX+Kv5K/nH+kP6h/r/+z/7Y/vT+Ff8//3H/i/+l/8H/9f8lAEgAgwCjAMUA8wAfATQBmgGqAXoBTAGeAb0BvwHBAcUBxwHNAcwB0AHQAdgB',
+  '5gHrAfEB+wH/AQACBAIDAhICGAIZAg8CiwFqAbABqAGWAZsBbwFdAWsBNQEoASQBFAEZAfYA7QABAeMA1wDLAMQAtQCmAJ0AlACEAHsAdgBvAHEAZgBdAFMA',
+  'SQBKAEwATABNAEwATABNAFMAVwBgAGMAZwBfAGAAXABTAEwARgA7ADMALQAqACUAHgAOAAAA8P/g/9X/0P/G/7j/rP+f/47/gf9x/2L/Uv9B/zD/If8S/wD/',
+  '7f7a/sT+sP6f/o7+fv5x/mX+Wv5T/kn+Qf49/jf+N/47/kL+R/5Q/mD+cv6B/pP+p/64/s7+3P73/hT/LP8//1T/Zv9u/3H/iP+z/+b/3v+0/8H/5//x/+X/',
+  '7f/x/+H/7//7//b/8P/o/9z/zf+4/5r/gf9u/1f/P/8d/wj/8v7b/sX+rf6R/nf+af5b/mD+Yv5k/lj+m/3d/RL+NP40/if+M/5G/lz+cf6G/qf+wP7f/vb+',
+  'BP8U/yX/Nv9K/2H/eP+Q/6z/yv/g//v/GgA0AE0AZQB+AJYArgDAANQA4gA3AfwA7AD6AAIBDwEpAS0BOwFMAT4BFQEXAR0BHgEXARcBFgEZAR0BHwEaAQ0B',
+  '3wDdAOQA3wDPANAAygDCAMIAyQDGALwApwCZAJEAiQCBAHUAaQBkAGUAXQBrAGoAYABYAEkAQgA3AC8AJQAdABIAAwABAAAA9//k/+T/CwDc/8X/t/+m/8v/',
+  'rP+G/27/Yv9N/y3/EP/0/t3+xP6s/pP+b/5B/gj+6P3J/bz9n/1//WL9Rf0q/Qj96fzZ/Mr8u/zG/Lj8vfy9/K/8mfyM/Jz8kvyI/J38tPzB/Of8CP0r/VP9',
+  'f/2c/aX9lP3R/Qr+Lv5R/nv+mP6r/sf+3v7y/gv/LP9Y/4f/tv/K/+X/DwA7AF4AiQC0AOIADgE6AT8BlgGpAZwBoAG5AacBxwHXAdkB3AHbAeAB5QHnAe4B',
+  '9wH7AQECBwIJAgwCCgIKAhkCJAImAvEBcgGMAbIBtwGhAZEBfgFrAVoBMgEuAScBJwEeARUB+wABAe0A4gDhAL4AsADAAKQAmQCPAIMAfgB4AHsAcQBmAFkA',
+  'WABXAFUAVwBSAE8AUwBUAFQAXQBRAGEAaABuAGIAYABXAFAARwA+ADUALQAiABsAEwAIAPj/6v/g/9r/1f/N/8D/tP+o/5r/i/99/3H/aP9b/0n/N/8i/w7/',
+  '+/7l/s7+u/6n/pf+iP55/m/+Y/5Y/k3+Rf5B/j7+QP4//kT+TP5Y/mX+df6G/pj+rf69/s7+4v78/hX/Lv9F/1n/bP9//5H/oP+i/6X/pP+a/8z/yv8KACYA',
+  'FQARABcAKgArACIACgD6//T/3//H/7P/of92/2f/TP8u/yv/EP/m/tL+wP6l/o/+h/5y/nn+c/5b/m3+1v3U/RX+Ef4S/hj+Kv5D/lT+aP6B/pz+t/7N/uf+',
+  '/v4L/xn/Kv9A/1f/bf+B/5r/sv/K/+P//f8aADYATwBnAIAAmwCvAMwA+AD8ANUA2ADoAPgAFgExASYBNQFAAUwBJQEpAS0BKgEjARsBGAEbASMBGgEAAfAA',
+  '7QDiAOYA4ADTAMoAvwDBAMkAzADKAL0AqQCYAIcAiQB9AHAAZQBeAFIAUwBgAFsAVgBHADYAJgAoACEAFgALAP7/9v/w/+7/5f/Q/8r/8P/b/8H/rP+d/7T/',
+  'nv95/1j/Qv8p/w//+f7b/sr+r/6W/n3+Yv46/gb+4f3B/av9iv1p/Uv9Mf0U/fX82fy//LX8pPyf/KD8k/yk/K78nvyG/Hn8bfx2/JD8oPyj/N78/vwm/VP9',
+  'ev2W/Zb9qP21/Qf+Mv5Y/oP+ov60/tT+9v4O/yr/S/9z/6j/0//r//v/IQBUAH0ApgDTAP8AKwFQAVIBbAGzAd8B+AENArcBzwHwAfUB9AHyAfMB8AH0AfoB',
+  'BgIJAhACEwITAhICDgIQAiECIwImAq0BQQGtAbsBswGhAYwBgAFxAVYBbQFSAToBKwEgASoBDQEDAREB7QDxAO8A2gC9AK8ApQCbAI4AjQCIAIkAfABwAFoA',
+  'XQBhAGIAXwBcAFkAWABZAF4AWgBmAGkAbgBuAHAAZABfAFUASwBBADsAMgAoABwAEwAKAPv/7v/l/97/2v/U/8v/v/+3/6v/n/+S/4X/dv9l/1T/Rf8x/xr/',
+  'Bf/w/tv+xf6z/qL+lf6I/nn+a/5g/lX+Tf5J/kj+Rv5H/kv+Uf5b/mv+e/6K/pn+r/7A/tb+6v4B/xj/MP9I/1//b/+D/5X/p/+1/73/wv/B/6P/tv/W/+P/',
+  'BQAaACQANgA3ADgAIgAXAAYA+v/k/8T/tP+H/23/T/8w/x//B//b/rb+pP6X/pL+jP6K/on+hv5k/nr+Lv7q/Rn+Hf4j/ib+NP5E/lD+Xf5r/oL+n/7A/t7+',
+  '//4K/xn/Kv85/0//Yv92/43/pP+6/9L/7P8EAB8AOQBQAGkAgQCXAKUAsAC2AL4AygDXAOwAAQEiAS4BMQE4AUIBMAEzATkBOAEtASQBHgEaASMBCgH9APYA',
+  '+wDwAOYA4ADQAMYAwwDHANEA0gDFALsArQCaAIsAhAB6AGsAYABRAEQAQABIAEgATAA3ACQAGQATABQACgD7//H/6P/d/9j/3v/h//T/7v/R/7D/pv+S/4//',
+  'bP9M/0D/Kv8V//3+5/7H/qr+kP5y/lj+Sf4o/vj9yf21/Zn9df1W/Tn9Gv37/N/8w/yn/J38lfyB/If8b/yT/KT8n/yD/Gv8Wvxk/ID8mvyi/Mz88/wi/VP9',
+  'ev2R/ZL9nf3C/Qz+LP5p/oH+rP7C/tz+A/8i/zv/X/+I/7f/6f8MACIAPgBqAJcAwADuABgBQQFmAX8BegHTAfIBAgITAtABwgEAAg4CDgIIAgcCBAIIAgsC',
+  'GAIcAiICJgIaAhECDAIWAh0CEgLKAT4BiwHRAccBuQGmAZYBiwF5AWkBUgFcAUQBOQEsAScBHgEXAQMBAgHzANgA1ADLAMMAuACtAKAAmgCRAIsAhQB3AHgA',
+  'YwBoAG4AbgBlAGEAYABmAGAAYABhAGgAdAB0AHUAbwBpAF8AVQBNAEUAPAAyACYAHQAXAAsA///z/+r/5P/c/9X/zP/C/7j/q/+d/47/gP9w/1z/Sv83/yT/',
+  'EP/8/uf+1P6//q/+oP6T/oT+d/5q/l/+Vv5S/lD+UP5R/lH+Wf5j/nD+fv6P/p/+s/7F/tf+7f4D/xz/M/9K/2H/df+G/5f/p/+0/7n/xf/P/9f/2P/F/9D/',
+  '4//0//z/KwBEAEcANwAuABMABQDw/9n/wP+u/43/V/8l/wz//f74/tT+pf6A/nD+bf6R/p/+gv5e/n3+H/4c/jP+Jv4x/jj+Qf5G/kv+VP5i/nP+jv6v/s7+',
+  '8f4E/xP/Iv82/0n/Wv9s/3//lP+p/8P/3v/4/xIAKwBCAFgAcACCAJAAnQClAK8AvQDJANYA4wAeASoBNgEzATYBMwE5AUQBRQE0ASMBHQEXARkBDAEFAQUB',
+  '8gDsAOAA4ADKAMcA0ADSANgA1gDNALwArgCgAJAAggB4AGoAUwBLADYANAAxAC0AJwAeAAwAAAAAAP7/+v/z/+P/2f/R/8r/2P/o/+3/3/+w/6b/nv+L/2n/',
+  'WP9C/yv/Fv/+/uT+0P6p/o/+a/5V/kH+MP4G/uj9yP2k/Yr9Zv1G/Sb9B/3n/Mr8r/yR/Ib8gPxp/F/8cfx8/If8cfxy/F78O/xO/Gz8h/ye/L/87fwg/VL9',
+  'fv2J/ZD9l/3k/Rf+M/53/pj+vf7Z/u/+Ev85/1T/c/+d/83/DAAqADwAVgCGAK8A3wAMATMBaAF+Aa8B6QEAAg0CJwJJAlsC2gEJAicCKgIjAh8CGwIaAhsC',
+  'KQItAjACMQIcAhEC4QHQAeMBfwFiAaEB1AHXAdABvgGqAZ4BjgGEAXoBaQFZAU8BSQE8AS0BNgEVAREBKQEEAf8A5gDpANsAygDAALYAqgCcAJAAjACFAHwA',
+  'bABpAG4AcQBtAGsAaQBxAGoAaABsAHMAdgB8AHwAdwBtAGcAYQBbAFAASwA+ADUALgAlABoADwAEAPj/8f/o/+D/1f/L/8D/tf+q/5v/if96/2b/Uf8//yv/',
+  'Gf8H//X+4f7N/r3+rf6d/o7+gv53/m3+Zf5g/lz+Wv5a/l7+Zf5t/nj+h/6U/qb+t/7M/t7+8v4I/yD/Nf9L/2H/df+H/5j/pP+r/7b/w//S/9//7v/5////',
+  '6f/d/+f//f85AFYASQA3AB8AGQADAPD/1v/F/5n/W/83/0r/ZP8p/x3/Cv///tn+rf6Z/r/+hf6E/lL+Ev4W/jr+IP4q/jT+P/5B/kb+Tv5X/mb+gP6g/sD+',
+  '3v79/hP/Iv8z/0P/WP9s/4D/k/+q/8D/2P/v/wgAHwA3AE4AYwB2AIgAkgCZAKUAtAC8AMgA1QARARoBJAEuAS8BSgFOAUoBQQEyASMBIAEeARcBDAEFAfsA',
+  '6gDhANwA5ADZANUA3gDgAN4A3QDSAMEAtQCkAJQAgABxAGEASwA6ACoAIQAcABYADwACAPf/5//g/+b/7P/e/9L/zf/Z/8//0//d/7//vv+n/5T/jP96/1X/',
+  'Ov8s/xD/Av/r/un+s/5u/kj+LP4k/iD+FP78/eL9vP2Z/Xv9Wf04/Rb99vzY/Lj8nfyB/HX8bfxd/En8VPxl/Fn8T/xi/Fn8Ivw8/Fr8e/yV/Ln87Pwe/Vb9',
+  'fv2F/Zn9jP3u/R7+Q/6G/q/+0v7r/gT/JP9M/2z/if+1/+H/CwA5AFYAdwCiAMwA/AAvAV0BiQGgAdwBCQIgAicCVwJqAo0CKwIFAjwCQgI7AjQCMQIuAjEC',
+  'RAJEAkICTQL5Af0BswF7AZkB0AH8AfkB8QHaAckBuwGyAaMBnAGSAYcBdQGBAWQBWAFQAUwBQAEiASMBEAENARgB/wDhAPwA3QDVAMkAuwCrAJ8AmQCQAIEA',
+  'ewBvAG0AbwBrAHEAbABoAGoAaQB8AHYAdwB+AIUAgwCBAHYAbABjAFwAUwBLAEEAOAAxACgAHgASAAQA+//0/+z/4//X/8v/wP+0/6b/lf+E/2//XP9I/zj/',
+  'JP8S///+7P7c/s7+vf6s/p7+k/6H/nz+dP5u/mn+aP5m/mr+cP56/oT+kv6e/q/+wv7S/uT++P4O/yP/N/9M/2D/c/+D/5D/nP+o/7b/xP/S/+H/7f/8/wgA',
+  'EAAbAAwA+f88AFQAWQA7ACIACwD4/+v/3P/F/6r/p/8AAMz/gP9S/1n/U/8o/xf/+/7V/tT+uv5+/l7+MP4+/kD+Jv4o/jb+Ov47/j7+Sf5X/mX+dv6K/qT+',
+  'zP7t/gj/IP82/0j/Wf9r/4L/l/+s/8H/1v/r/wEAFwAtAEIAVQBoAHsAiwCXAJ0AowCvAL8AxwAGARoBIAE3AUMBYQFQAUABPAE0ASEBHwEkARQBBQH+APMA',
+  '6QDcAO8A8QDpAOcA8gD5AO8A7wDYAL4AtQCpAJIAfgBmAE8AOQAlABAAAQD7/wAA/v/z/+n/3//S/8T/y//G/73/sv/U/9j/zv/A/7b/rf+f/4T/ev9v/0r/',
+  'M/8b/wj//P7l/r/+k/5G/iP+Ef4E/gr+Cv4E/uL9uv2S/Wz9Sf0r/Qn96PzG/Kn8jPxx/F78WfxN/Dn8M/xK/Ev8RvxL/ED8KPw0/E78bvyT/LT86vwe/Vz9',
+  'h/2L/aH9gv3t/TP+Wv6a/sP+6P4C/x3/Pv9j/4b/pv/N//H/HABQAGwAkwDAAPIAHwFFAW4BjQHAAfMBCAIvAh8CaQKIAocCgQLxAUoCVwJSAkoCRwJFAkwC',
+  'VAJTAlUCWQInAmUCMQIcAgcCFQIpAhcCAAIAAswBwgG2AbYBpwGdAZ0BkQGIAXsBaAFdAWQBSwFCASoBEwEaAQMB9gAIAfoA5wDbANIAygC+ALAAowCVAI8A',
+  'fwB4AHgAcQBoAGcAaABjAGkAdgB1AHgAewB/AIUAlACGAIEAfQBvAGYAYgBWAFAARwA+ADcALQAiABcACwACAPn/8P/m/9n/zf+9/6//of+O/3r/af9X/0P/',
+  'L/8c/w3/+/7r/tv+zf6+/rD+o/6X/oz+hf5//nn+dv52/nn+fv6G/pD+m/6p/rn+yf7d/vP+Af8R/yP/OP9M/1z/bf9+/4z/mv+m/7X/xf/S/+D/6//5/wQA',
+  'DQAcACoAJgA/AGkAiQBeAD8AGgAIAAsA8P/T/+b/0P/U//P/gv9y/5T/ef9l/1r/H//l/sT+bv49/lf+Xv5m/l3+Rf42/j/+P/4+/kD+SP5U/mX+df6L/qP+',
+  'vf7e/gD/If9F/13/bf+B/5L/pv+5/8z/4P/0/wkAHAAuAEEAVABmAHIAgQCRAJ0AngCrAL0A0QD+ACABMAE5AUgBQQFLAUcBRAE+ASkBHAEXAQ4BCAH9APEA',
+  '8wDsAPwA+QD0AO4A9QD6AOcA5ADOAL8AugClAIkAeABZADcAJAAHAPf/8v/z//n/7v/i/9j/yf/E/7X/rf+z/6T/m/+y/9j/vv+5/7r/r/+G/4X/cv9b/0r/',
+  'JP8K//T+6f7P/qf+X/4b/gL++v3t/QT+AP7y/d39uv2V/Wf9Qv0f/fr83Py6/J38f/xl/FD8Rfw//Cn8H/w//Dz8OPw5/D/8Rvwx/En8Z/yS/LT88fwi/WT9',
+  'kf2c/a/9n/39/Uj+ef6s/tv+Bf8l/zn/V/99/6L/w//j/w8APgBoAIMAsQDiAAcBNAFbAYEBpwHoAeoBHwIpAhECXAJ9AqUCqAL7AVoCbgJnAmACYQJoAmQC',
+  'aQJpAmkCSgJeAlwCYQJdAj4CIwIrAjACHQIhAvsBLALTAQACygGsAbABqgGhAYwBegFiAV0BUwFEAS8BIwEtASYBGwH2ABQBCAHbANgAzADBALYAsgCkAJUA',
+  'hwCAAH8AdwBqAGYAYwBkAGkAbwBvAHQAewCEAIYAhQCGAIkAgQCBAHQAcwBxAGAAVgBMAEMAOwAzACkAHAARAAgA/v/y/+X/2P/J/7n/qP+W/4X/df9l/1P/',
+  'P/8r/xn/B//4/uv+3f7O/sH+tP6p/qD+l/6Q/oz+iv6K/oz+kP6W/p7+qP60/sH+0/7i/vP+Bf8V/yf/Of9L/1z/bP99/43/mP+m/7X/w//Q/93/6P/2/wAA',
+  'DQAbACwAOwA/AEQAZQCVAIUAawB8AJEAZAAPABYA6v/u/+z/kP/S/6v/i/+B/2v/Sf8a/9z+s/6g/qr+tP6b/nH+bv5Z/kr+Wv5J/kn+Uf5Y/mT+d/6O/qP+',
+  'u/7Z/vr+G/88/1z/cP+F/5r/r//D/9T/5v/7/wwAHQAwAEQAVABmAHYAhACRAKEAugDGALwA0QDnAPsAHgFEAUEBKgFHAVUBXQFQATEBIwEcAQ4BDwEBAfgA',
+  'AwEAAQQBAgH9APoA8QDtAN0A0QDJAMIAtgCkAI8AdgBWADkAKAATAPr/+P/p/+H/0f/M/8P/vv+3/6v/nf+b/5f/i/+N/5//s/+s/6v/lv+E/2T/Rf8z/yX/',
+  'Cv/n/t7+zv6q/n7+Kf78/fL95v3b/fj97/3k/dX9uf2S/Wn9QP0Y/fD80fyy/JL8dvxc/Ef8Pfw3/CH8F/wY/DL8HvwU/ED8UvxG/E38ZPyM/LP88Pwk/WX9',
+  'lv25/bv9q/0U/lT+mf7B/vD+HP9E/1f/cf+U/7n/3f8AACoATgB9AKMAywD4ACEBTgFoAX4BywH3AQQCGgIyAlQCoALCAsoChwInAmcCiAKDAnsCgAKAAoEC',
+  'cgJ3Ao0CSQJ5AnMCawJlAmgCUQJZAlYCSwJLAkECCwLzAQ0C6gHeAeoBxwG7AacBmwGCAXcBYQFIATkBKgEeARYBHAEKAf0AAwHjAOEA2ADKAL0AsQCkAJsA',
+  'kwCMAIcAgwB5AGgAZABnAGwAbABzAHsAewCAAIMAgwCRAI8AigCHAI0AgQB5AHEAZQBeAFUASgBAADgALwAkABYACQD+//P/5f/V/8X/s/+i/5H/gf9x/2L/',
+  'Tv89/yj/F/8H//v+7/7j/tb+yf69/rP+qv6l/qD+nv6e/p7+oP6l/qv+s/6//sv+2f7n/vb+Bv8W/yb/OP9K/13/bf9+/4z/mf+m/7T/v//K/9f/4//x//z/',
+  'CQAVACUANQBHAFwAbAB3AI4AmQCRAJYAkgB7AFkAKgASACwAAADN/6j/nf+T/4L/cP9N/yr/CP/z/uD+2f7K/rn+of6Q/oH+iv58/lD+Uv5c/mH+cP6K/qb+',
+  'v/7W/uj+CP8r/0j/bP+I/57/tv/K/97/7v/+/xUAKwA7AEgAVwBmAHUAggCWAKcAuwC7AMAAyADVAOMA8AAyAUcBLwFCAVMBXQFRATUBLQEgAREBFAEQAQQB',
+  'BgEKAQQB9wDwAOgA3wDZANsA1QDKAMgAvgCoAJcAeABTADsAGgD8/+3/5f/d/87/w/+q/6n/rv+s/6H/lv+P/4v/f/+D/4r/k/+V/47/kv9z/z//F/8C//r+',
+  '5P7J/rX+m/55/k3+Af7q/eL9z/3g/ez95P3T/cb9sf2Q/Wj9QP0Y/fH8zfyr/In8cPxY/EX8OPw4/Br8FPwO/BH89/v9+zn8YfxH/ED8V/yA/LH86fwf/WD9',
+  'pP3O/b/9r/0O/l7+p/7P/gP/Lf9Z/3X/jP+q/8r/8f8fAEUAbQCWALEA2gAFATYBTQFqAbMB4wEDAhYCJwJJAp8CmQK0AskCawIAAmwCmgKbApICkwKZAqUC',
+  'dAJzAmcCfwKBAnoCcQJxAnICbAJhAlwCUgJIAkkCDgILAikCCALzAfgB5AHKAesBswGcAYMBdAFeAUsBOwEuARwBCQEQAQEBAgEDAesA3gDRAL4AsQCtAKMA',
+  'nACWAJMAmQCJAHIAcQBqAG8AbgBvAHYAegCFAIcAjACQAIoAlQCYAJgAkQCHAIEAdgBtAGUAWgBOAEYAPQA0ACcAGQAOAAAA8v/j/9L/wv+w/57/kP+A/27/',
+  'XP9M/zz/LP8e/xL/BP/3/uv+3/7T/sj+wf67/rb+s/6x/rL+sf61/rj+v/7I/tP+4v7x/v/+C/8Z/yj/Of9K/1z/bP98/4r/l/+j/6//uf/F/9L/3//q//P/',
+  'AQAPAB8AMQBAAFUAawBtAHQAdgB4AHYAjACqANkAjgAsAHIAIADQ/7r/rP+d/4z/l/+J/2T/L/8U//3+7/7i/tj+z/7D/rj+tP6p/nj+cP5t/m3+ef6J/qL+',
+  'u/7V/uz+Cf8m/0T/Yf+A/6H/uv/X//T/CQAcACwAOgBHAFcAZQBzAIAAiwCaAK4AqgC5AL4AwgDKANIA2wDnAAsBOQE1ATkBQQE5ATEBLAEaARUBFgEYAQwB',
+  'AwH3ANIAuQDBAMQAugDMANMA2QDhAMkAsACTAHwAZQBPADIADADk/8j/w//F/7n/tf+j/4//lv+e/5n/jf+J/4H/fP96/4H/fP+B/33/cv9K/xv/+P7e/tL+',
+  'vP6o/pL+df5c/hv+9/3p/d394v3o/ej91v3K/bf9pv2Q/Wr9Qf0Z/fX80fys/Iv8cPxW/D78Nfw6/Bb8D/wF/AH87Pvm+xT8LfwV/Cj8Sfx5/Kr85/wj/WH9',
+  'qv3d/db94f30/Wz+r/7W/hf/Q/9s/5j/tv/M/+H/BAA5AF8AjgCtANQA8QAdATgBXQGfAdIBEwISAjQCVAKZAo0CkwKhAr0CgQLEAVsCpAKqAqICnwKvApcC',
+  'kAKbApECjwKIAoMCggKFAn4CdgJyAmQCWQJTAkECNwIWAhMCBAIIAvUB7gH2AeQBwQGsAZ4BfwFtAV0BRAE1ASYBJAEaARUB9gASAewA4gDPANYAtwC1AKUA',
+  'nACeAKIAngCTAIIAfAByAHgAdAB0AHkAgACEAI0AjgCYAJcAnwCoAJ4AogCZAI4AhQB9AHUAawBhAFIARwBBADQAJQAaAA8AAADz/+X/0v/A/67/nv+O/33/',
+  'bP9c/1D/Q/83/yf/G/8N/wL/9v7p/t/+1f7M/sf+wv7B/r/+v/7C/sb+zf7V/t7+6v76/gb/Ev8e/yz/O/9M/1r/av94/4b/kv+e/6r/tP/A/8v/1v/g/+v/',
+  '+f8JABkAKwA9AEwAWABkAIAAgQCJAI0AeQDBAAYByQCGAMkAOgDh/9L/uf+g/7H/wv+3/3z/VP9b/0T/Hf/7/u7+5v7E/r/+wv66/rX+nP5//oL+iP6W/qf+',
+  'vP7Y/vH+D/8o/0P/Xf99/53/vP/Z//r/FAAkADQAQQBPAF0AZABtAHwAhQCYAKAArQC5ALIAtgC8AMYA0ADZAOQA9QAZASwBNAEyASUBIgESARABEwEQAQ0B',
+  'zQDDAK0AogC1ANEAvwC8AMsA1QDKALcAngCNAHgAWgA7ACsA9f/M/7X/s/+3/6n/p/+d/5H/jP+T/5T/jf+F/33/g/+A/3r/av9w/23/U/8v/xD/3P7V/sf+',
+  'rf6W/nz+Z/4w/hn+8f3k/eD96v3o/dz9zf3D/a39l/2B/Wj9RP0d/fn82Py0/JT8dvxV/ED8Mvw7/Bn8D/wA/Pb76fvW+9z76vv++yD8Tfx7/Kn84fwi/WX9',
+  'pP3f/fT9Cv4T/l7+2v7//i7/VP+C/7D/4P/0/wUAHwBMAHcApwDEAOQADAE3AVgBiAG5Ae4BIAI7AlACagJrAn4CkwKfAn0CiwIXAisCpAK7ArcCuQLBArIC',
+  'qwKnAp8CmQKXAo8CjAKPAokCfAJ2AmsCZQJhAk8CJQIYAhMCDQIZAgUCAAL7AesB0gG/AasBkAGSAWkBVwFIAS8BKQEeARUBCgH4APEA6ADeANUAtAC1AKcA',
+  'oQChAJ4AnwCeAJEAhACCAIMAgAB6AHwAgwCDAI0AkQCZAJ8AnwClAKMApgCiAJoAlgCOAIIAdwBsAGAAVgBMAD8ANAAnAB0ADAD+//H/4v/V/8T/sf+e/4v/',
+  'fP9t/1//U/9G/zn/K/8e/xP/Bf/6/u7+5v7c/tf+0v7P/sz+zP7O/tP+2f7i/ur+9f4B/w3/GP8j/zD/Pv9N/1n/Z/91/4P/jv+a/6T/r/+6/8X/zv/Y/+X/',
+  '8v8CABEAJwA4AD0ATABeAGgAeQCGAJAAeAClAA8B5wDZAIQAGwD9//D/0P+//9L/rP+p/5z/aP96/3P/Q/8T/wL/7/66/qv+s/6v/qn+r/6V/qL+pv6t/rf+',
+  'yP7i/vf+E/8t/0j/Y/+A/53/vP/Z//T/FgAmADcAQgBPAFgAYABsAHkAhQCQAJoAqwCoAKsArgC0AL0AxwDLANUA4gDpAA0BLwEoASABDgEAAfIA/AD0AOEA',
+  'sQCuAJ4AlACmAMAA0QDCALYAzQCgAJYAiwB7AGIATwAwAB0A5P/B/67/ov+g/5b/lf+W/5b/kv+Q/5P/i/+D/3z/jP+Q/3b/X/9Z/1z/S/8g//v+1f7P/s7+',
+  'q/6Q/nz+VP4r/hX+8f3h/fb96v3o/dn9xv22/aL9jf11/WD9Rv0m/QP94Py+/Jz8ePxc/EL8MPxD/Bz8Dfz7++/77vvY+9/76Pv++x/8Svx8/Kb84Pwl/WT9',
+  'pf3c/f79Bv5E/lX+uv4f/zf/Zv+X/7//6v8HAB0APgBmAJYAvgDbAP0AIAFIAW0BqQHYAQoCKwIrAjkCSQJkAnoCkwKrArMCvgJqAowCmQLHAtIC0QLVAsMC',
+  'uQKwAqkCowKhApoCmwKdApIChgKAAnYCcQJtAlMCOwImAhUCEQIYAh0CCgIOAu4B4gHVAb8BngGWAXwBaAFXAUcBOAEsARwBFQH7AAYB7wDpANUAwAC9ALUA',
+  'qwCqAKIAogCqAKEAlACMAIgAiwCDAIQAiACHAIkAjACWAKMAqQCfAKkArwCtAKEAmgCSAIsAfwB0AGsAYwBYAEkAOwAzACcAHgASAAIA8//j/9P/wv+w/57/',
+  'jf98/27/YP9S/0X/Of8t/yP/Fv8K//7+8v7q/uP+3/7b/tr+2/7e/uP+6P7w/vb+AP8K/xT/H/8q/zX/QP9M/1j/Zf9y/37/if+U/5//qP+y/77/yv/X/+P/',
+  '8P/8/w4AHQAlAC8ARABVAGkAgwCIAIMAZQCtAAsBsAC9AGYAPwAtABMA9f/e/8T/vP+0/6r/iv9x/2X/Sf8k/wz/8/7K/rr+uv6+/rv+sP69/tn+0/7I/sL+',
+  '1/7m/gD/Gv8y/0v/Z/+C/5//vP/Y//L/DwAlADQAQABOAFcAYABpAHQAeQCCAI0AlQCdAJ0ApgCrALQAvgDBAMsA0gDXAOAA8wD8AO8A5wDgAM0AxwDKAL4A',
+  'pgCmAKAAlwCPAJsArgCqAJ4AmQCSAIQAcQBTADsAIwALAPv/3/+7/5v/f/94/3//hP+L/43/jP+M/5P/jv9//3P/fP97/2b/W/9R/zz/Kf8S//X+3P7U/sr+',
+  'pv6K/mr+Kv4R/gr++/0E/vP98/3m/dL9xf2w/Z39iP1w/Vb9Pv0m/Qr97PzJ/KP8f/xj/EX8MfxB/CD8Dvz6++779fvx++/79PsH/CT8Svx0/K383fwe/WL9',
+  'pf3a/QH+GP5F/pD+yP7i/j//hv+q/83/9f8UADcAXgCGALMA1gDyABMBNwFcAY0BwQH0ARkCNgIkAiICOQJQAmoCiQKmAr0CoQIuAmgCogLXAt4C6ALeAs8C',
+  'wgK8ArYCsAKtAqcCqgKpApoCkAKIAoICfgJ0AmICPQItAh8CHwIqAiUCIAISAvcB7wHZAckBrQGaAYsBeQFlAVQBPwEwASsBHgEIARYB9QDwAN4A0ADJAMMA',
+  'vAC3ALMAqgCrAKQAnwCVAIsAjACIAIgAiQCLAIsAlQCUAJsApACnAKgAswCsAKgAoACUAI4AiQB7AHIAaABgAFcATgBCADUAKAAZAAoA/v/v/93/zv+8/6r/',
+  'm/+N/37/cP9i/1T/SP87/zD/Iv8W/wv/Af/5/vH+7P7p/ub+6P7r/vH+9/79/gT/C/8V/x3/Jv8w/z3/Rf9P/1n/Y/9u/3n/hP+O/5j/pv+z/77/yf/V/+D/',
+  '6v/2/wMACwAXACcANwBKAGUAdgB+AG0AmgDvAA0BuACvAKEAdgBYADoAHwAMAOD/wf+6/8H/mv+B/3D/Uf81/xv/AP/n/tr+0P7Q/tD+zP7O/tv+3v7M/s3+',
+  '4f7z/gf/G/8z/03/aP+E/6H/vP/W//H/CwAkADYAQABMAFQAWwBjAGwAcgB4AIEAhgCTAJEAmgCiAKcArwC1AMEAywDPAMwA0wDNAMkAwwC/ALUAtQCwAKoA',
+  'qQCqAKIAnwCcAJkAlwCgAI4AhgB/AHQAXgBKACwAAwD4/+H/v/+b/3P/Yf9Q/2H/Y/9t/3b/ff+B/47/k/+C/3H/cP9i/2f/W/9f/zv/HP8K/+v+2f7Q/rn+',
+  'lf5s/jj+Df7+/Q/+Cf4D/vf98v3l/df9y/24/Zz9hf1u/VX9O/0f/Qf97/zS/Kn8h/xl/Er8OPw6/Cb8FPwA/PT78/v1+/P7+PsH/CD8Rfx9/LH83fwi/Wf9',
+  'oP3L/f/9J/5O/nv+v/7y/i7/l/+8/9n//v8mAEwAdQCaAMYA5wAJASwBVwF9AZ0BwwEVAjICQgI7AhsCIQJLAk4CXAKBAsACbQIyAqsCtQLUAuUC5wLnAtcC',
+  'zALHAsECvQK5ArUCtwK0AqkCnQKWApACjQKCAmwCWAI6Ai4CMwIyAjMCJQIdAgcC9wHZAcsBuwGlAZQBhwF6AWYBUwE9ATMBKwEQARwBAQH1AOkA1ADQAMYA',
+  'wAC+ALwAtACwAKoAnwCaAJQAiwCLAI8AiwCMAI4AkgCZAJ4AmQCgAKcArgC4ALQAowCaAI0AigCKAIEAdABpAGAAVgBKAEAAMgAkABQAAwD2/+f/2P/H/7X/',
+  'pP+X/4v/fv9x/2P/V/9K/z3/MP8j/xj/Df8F/wD/+/73/vX+9v74/v3+BP8K/xH/GP8f/yb/Lv83/0H/Sv9Q/1j/Yv9r/3b/gP+N/5j/of+r/7b/wv/O/9n/',
+  '4//s//b/AQANAB0ALgBBAFoAcQBqAH4AwwAIAfQAxQDMAMkArwCKAGsATgAqAP//8v/X/7//qv+b/4n/Zf9C/yf/D//9/uz+3v7b/uH+5P7i/tr+5P7U/sX+',
+  '2/71/gz/JP86/1L/aP+B/53/s//M/+j/AgAaADMAQQBLAFQAXABhAGgAbABwAHMAdQB5AIAAgwCJAJAAlACgALQAyQDIAMQAugC4ALcAtgDBAL4AsgCqAKcA',
+  'qgCnAKIApQCiAKAAmgCfAI0AhgByAG0AXABCACUA/f/l/8L/nP+B/2X/Tf9B/0X/Q/9N/1//cP9//47/g/9+/3j/d/9j/4f/Yv9z/z//E//6/t7+yP60/pb+',
+  'XP5H/if+Dv4E/hP+DP4I/gP++v3x/eb90/26/aD9hP1u/Vb9Pf0j/Qj97/za/LT8kfxx/FT8Q/xD/DL8FvwI/Pz79fv2+/b7//sU/D/8S/xx/KX84/wg/Vr9',
+  'nP3A/fT9L/5t/p/+v/7//kP/if+9/+D/DgAtAFYAggCpANQA/AAgAUgBbwGXAb0B8AEhAkUCQQJBAjACMwKAAoUCeAKcAqUCSQKOAsgC1ALdAucC6ALoAtsC',
+  'xgLDAsUCxALFAsUCxQLDAr4CswKoAp4CmAKTAnACbgJQAkACNgI/Aj8COAImAhUC+AHkAdABvwGvAaABkwGDAXIBYAFJATcBNQEaASMBAgEDAfAA4wDVAMwA',
+  'wADHAMEAwgCzAKwApQCcAJYAkwCSAI8AkACPAJMAlgCXAJwAnwCfAKEAqQCsAK4AowCcAJgAkwCNAIYAfAByAGoAYQBSAEUAOgAtAB4ADQD8/+z/3f/N/77/',
+  'sv+k/5b/iv9+/2//Y/9Y/0v/P/8y/yb/Hf8V/w3/CP8F/wT/A/8E/wn/D/8V/xv/Iv8q/zL/Nv8+/0b/Tf9T/1r/Yv9q/3H/ev+D/4v/k/+b/6f/t//C/9L/',
+  '2//k/+7/+f8GABMAIgA5AFUAXwB5ALEAFQH1AL8AxQDeANEAzACuAIkAZwA9ABIACwDz/8X/sf+k/4//cP9W/zX/Gv8H//j+7f7s/vf+AP/0/uf+7/77/vf+',
+  '5f71/gv/I/85/0//Z/+A/5f/rv/G/9r/9P8MACQAMgA+AEcAUwBaAGMAZwBtAHcAgAB9AHoAewCSAKIApwCsAKwAsAC7AMMAxwDFAL8AuwC4ALUAsQCwAK4A',
+  'rACqAKgAqQCmAKMAqACjAIkAewBaAFwATgA9ACAA9P/b/67/jv9p/1P/Pv85/zD/L/9C/1L/Zf+N/73/nv+J/4f/c/9c/13/dP+H/z//G//y/tH+tv6f/mP+',
+  'Tv4+/iL+FP4R/hf+FP4T/gz+Bf77/e/91v2//af9jf1x/Vn9Pf0l/RD99/zi/MP8n/yB/Gb8TPxO/Dz8FfwS/AP8/vv7+/37B/wm/FH8X/yI/Lf86vwf/VH9',
+  'iP27/e79K/5y/qv+2P7d/kL/g/+4/+z/FABAAGgAkAC1ANwABAEwAVMBdAGYAcYB9gEeAiQCIwIQAhgCRwJlAncCMQIkAvwB1AGuAtIC3wL+AvsC1wLiAtoC',
+  '0AKoAqwCvQLIAtIC0wLTAtECxAK0AqcClAKQAm0CeQJlAlECRAJLAk8CSgI0Ah0CBQLtAdoBwAGzAaYBlgGHAXsBagFSAUABNwEeARcBFAH+APcA6gDkANsA',
+  '1ADJAMUAvAC7ALAArACjAJgAmACYAJIAlACSAJAAlwCfAJsAnwCcAKMApgCkAKQApgCdAJUAkACMAIcAfwB1AG8AZQBaAEwAPwAxACIAFQAHAPf/6P/X/8b/',
+  'u/+s/6L/lv+K/33/b/9j/1b/Sf89/zP/K/8j/xz/Gf8U/xH/EP8S/xb/HP8i/yf/Lf80/zr/QP9F/0r/UP9W/1v/Y/9q/3L/ef+A/4j/j/+V/5z/qP+u/8T/',
+  '1f/c/+b/8P/8/wkAHgA+AGAAWQCQANwA9QCtALUAxADPAL4AugCqAIkAagBGACIABADp/9H/u/+s/5z/gv9i/0P/K/8Z/wf/Af8I/w7/E////vT++P77/gf/',
+  'Gf8I/wj/Gf82/0b/W/9w/4T/l/+s/7//2f/u/wQAFgArADwATABWAGUAZgBmAGsAdAB+AIEAlAClALcAvADBAMMAvgC/AMMAwwDBAMIAwwC9ALUAsQCvAK0A',
+  'swCvALAArACnAKIAnQCQAI8AeQBdAFEAUgA+ACYAAQDV/7P/ff9q/0T/Mv8s/yr/K/86/0j/Xf+J/7f/rv+E/2//Wv9S/2f/bf9j/zv/D//n/sb+sf5z/mD+',
+  'VP4//iX+GP4c/hv+IP4c/hX+Ef4G/vH94P3N/bX9l/19/WD9Rf0t/Rn9Av3y/NX8svyS/HT8WPxb/E78H/wg/BT8DfwG/Az8F/w0/E78avyO/Ln85/wd/V39',
+  'kv20/en9Lf5q/qX+2v7x/h7/Wv+J//z/IQBLAG0AlgC9ANwABAEtAVIBcQGdAcUB4gH2ARkCGgIaAikCawJjAoQCXgL1AbUBxwEhAqYCxALUAuMC/QIbAwsD',
+  '8ALqAtQCvAK1AtEC2ALeAtkC3QLdAtoC0wLHArEChAJqAl0CVgJOAlQCUAJDAisCEwL3Ad8ByAG5AagBmwGLAYUBcwFgAU4BQAEyARYBHAETAQgB7gDsAN0A',
+  '0gDLAMkAugC8AKkArACqAKEAngCdAJQAjwCdAJUAkQCWAJQAlACZAJkAmwCeAJ4AngCcAJgAjwCIAIEAewB0AG8AaABcAFAAQgAzACQAFQAKAP3/7//f/9D/',
+  'wv+2/6r/nv+T/4b/ef9v/2H/Vf9L/0L/OP8x/yr/Jf8h/x//H/8f/yP/KP8u/zP/OP89/0P/SP9N/1H/Vv9a/1//Zf9r/3H/d/99/4P/iP+N/5T/nv+g/8b/',
+  '3P/c/+H/6f/1/wkAIwBDAFkAZACfAO4A6ACWAKsAuwDFAL8AqACbAI4AeQBUADIAFQD5/97/xf+1/6X/iv9p/03/Nv8s/xT/D/8X/xT/Gv8G/wb/A/8C/xL/',
+  'If8i/xz/J/86/03/YP9z/4f/oP+0/8b/1v/o//r/DQAkAC4AOQA7AEMASwBVAFMAWABpAIMAmQCmALYAsgC5AMMAxQDIAMgAxwDEAMAAvAC3ALIAsQCwALAA',
+  'tgC4ALIAqQCjAJcAjAB9AHIAaQBBADYASQBGACwADwDh/7f/kv9u/0//Pf8y/zD/Mv81/0T/VP93/77/rP+G/13/Uf9I/1f/Q/9m/zj/B//g/s7+iP5r/mX+',
+  'S/46/iv+KP4m/iz+Mf4n/iD+IP4U/gH+7f3Z/cX9p/2I/W79U/0//Sz9FP0A/en8x/yl/Ib8cPxp/F/8M/wx/CD8GfwQ/BT8K/xQ/Gb8ePyZ/MX88fwt/Vv9',
+  'gf2y/ef9KP5d/pz+0/76/gr/Uv9h/97/MwBNAHUAmQC8AN8AAQElAUYBZAGKAagBwwHcAf8BFgIAAjkCfgKFAmQCZwJkAm4CfwJnAlECfgKpArECwgLDArkC',
+  '0QLRAuEC7QLhAsgCxwLfAv0CCAMPAwgDCAP6AuIC2gK9ApgCeQJoAmcCYwJUAjkCHwIBAuwB3wHLAbgBpQGWAYwBfgFwAVsBSgFDAScBEQETAQ8B9QDxAOQA',
+  '2wDOAMUAwQC7AMMArwCvAKUAngChAKQAmwCZAJgAlgCXAJYAkACTAJkAmgCaAJQAlgCVAJQAjgCKAIAAegBzAGkAYQBXAE0AQQA2ACsAHAAOAP//8P/g/9T/',
+  'x/+8/7T/pv+Z/43/gv92/2v/YP9W/07/R/8+/zj/NP8w/yz/LP8u/zH/Nf87/z//RP9I/03/Uf9V/1n/Xf9f/2T/aP9t/3H/df96/37/gv+H/43/lv+f/6T/',
+  'sP++/8z/3f/u/wMAGgAyAD8AbQC5AOoA6gCKAKAAvQDDALwAqgCbAJYAiABlAEUAMQAJAOr/z/+2/6H/iP9p/1z/VP9F/yH/KP8n/x3/Gf8R/wv/BP8H///+',
+  '+f4h/zX/Qv9X/2L/Yv9//4T/jv+h/67/uf/E/9P/3f/n//f/CAAYACoANQA8AEwAVABiAHcAgwCOAJkAqgC2AMQAyADHAMUAwwDAALwAtgCxALAArwCyALgA',
+  'tgC2AKwAmwCNAIEAcQBjAE4ATABGACsAJgAvACwAFQDo/7X/lf99/2j/av9J/zz/Q/8+/0v/XP91/6L/pv+A/1z/Sf9H/0//Sf9f/z3/Bv/V/sX+hv5x/mn+',
+  'UP4//jz+NP41/jr+P/45/jH+M/4n/hL+AP7t/db9vf2b/YH9aP1R/Tr9Jv0T/f384Py6/J78iPx7/Gj8S/w//Db8M/ww/C/8Qvxg/I78h/yd/M78/Pwn/V39',
+  'iv2y/eT9Iv5W/o7+x/71/ir/Hv9q/57/KgBUAHkAlAC3ANoA+wAZAToBVAF3AZYBrwHDAfUBDgIZAjECXwJkAmYCQwJDAlYCWQJMAkMCVQJXAkoCewKtAq8C',
+  'rwKzAv8CDQP8AgQDCAMDAwcDDgMUAxoDHwMaAw4DAwPzAsgCoQJrAnoCcwJiAkoCMgIaAgQC8AHdAcABswGkAZQBiwGBAW8BVQFIAT4BJwERAQUBAwH7APMA',
+  '5gDWAMoAxwC+ALwAtAC0ALQArgChAKQAowCeAJ4AmwCYAJgAlQCSAJAAkQCUAJIAkACMAIoAigCJAH8AeABwAGYAWwBQAEcAOgAuACQAGQAMAP//8//k/9j/',
+  'yv+8/7X/qv+g/5T/i/+B/3T/af9h/1j/VP9O/0n/RP8+/z3/PP89/z//Q/9I/03/UP9V/1j/XP9f/2L/ZP9n/2n/a/9u/3H/c/92/3n/fP+A/4b/jf+V/6H/',
+  'rP+3/8T/1f/n//v/DwAmACAAMgBmAN4AogBjAI4AtQDLAMYAwACyAKYAjwBoAFMAPAAUAO//1P+4/6P/if9t/23/a/9J/03/R/83/yH/Iv8S/wf/+/74/vb+',
+  '9/4V/yL/NP9i/33/lP+S/5T/m/+o/6//vv/I/9D/2//k/+z/+P8FAA4AFwAkADAAPwBQAGAAcQCDAJMAogCwALwAxQDAAMAAvgC8ALoAtgCyALAAsQC0ALcA',
+  'sQCmAJkAiQB3AGsAXgBTAEwALQA1ADUAGwAjAB0ACwDr/8n/q/+X/4D/cP9o/1f/T/9L/1H/W/9q/4X/if9u/1n/P/80/0D/Qf9M/zH/Dv/K/rj+jf5y/mP+',
+  'U/5M/kb+Rf5G/kb+Sv5H/kj+TP5g/kr+F/4D/un90v21/Zv9f/1m/VL9P/0m/RT9+fzV/Lb8ovyc/Hj8Zvxb/FX8T/xI/FX8Uvx0/Jb8mfyw/N38Bf0q/Wn9',
+  'i/2n/dn9E/5I/nn+tf7r/if/Rv9F/5j/5P9KAHEAjgCsANYA7wAOASYBQAFhAYMBpAG3AeEB8wHhAf4BNwI+AmACUQIwAkkCTQJMAk8CUAJCAjYCIQKMApwC',
+  'vAL0AigDNwMqAwUDEwMPA/4C7gLwAgUDFgMmAyUDHgMLA+YCkgJ7AngChQJ9AmQCTAIyAh0CBQLxAd4BxgG0AaoBmAGNAXsBYgFVAUIBMAEhASABCgEIAf4A',
+  '7gDZAM4AxQC+ALsAtgC2ALMAsgCiAKYApwCiAKkAqwCmAJwAlwCPAIwAjwCJAIwAiACJAIEAfAB/AHkAdQBtAGMAWQBMAEMAOAArAB8AFgAJAP3/8f/j/9f/',
+  'zP/E/7b/qv+i/5j/jf+G/3//dv9t/2f/Yf9c/1T/Uf9N/0z/S/9M/07/Uf9V/1n/XP9h/2T/Z/9q/23/bv9v/2//cP9w/3H/c/9z/3b/d/97/4D/hf+N/5b/',
+  'of+s/7r/zP/e//H/BQASAAEAUQCeAKwAgQBmAHgAoADIANUA0QDLALYAowB+AGIATQAkAO//yf/H/7z/sv+f/4n/W/85/zf/OP8s/yP/H/8O/wL/Cf/4/u3+',
+  '9/4W/y3/Qf9r/3z/of+r/6H/s/+u/7n/xf/G/8n/2f/d/+H/7f/3/wIADgAcAC4AOgBLAGEAcQCAAJEAngCqALcAvwC+ALsAugC3ALYAtACyALEAsQC1ALUA',
+  'qACcAIcAdQBmAFwAVABMAEkARwA3ADgALAAqAB8AFAADAOj/yP+t/5//iv94/2r/Yf9b/1z/Xf9p/3v/bP9t/1//QP83/0T/RP9O/xz/8/7V/qj+if50/mn+',
+  'Xv5c/lP+T/5R/lT+W/5e/mL+Uf5k/mP+RP4Z/v/95f3N/bP9mv19/Wf9Uv09/S/9FP3w/NP80/y8/Iz8fPxx/G/8avxd/F/8a/yM/J38ofy//O38CP0u/WD9',
+  'ff2j/dL9CP44/mH+o/7X/g7/QP9E/2v/p//Y/0wAhACfAMUA5QAAARYBMQFKAWkBiwGqAcMB1QHXAfcBHAIYAjsCOwIuAjMCPwJEAkECLgIkAq8B6QFLAj4C',
+  'owKjArsCtQLMAvYCKwNEAyUD/wLAAqsC3wIOAyQDMgMeA+QCQgJTAoACkwKSAnUCZAJSAjgCIAIEAvAB2gHFAbMBpQGZAYsBcwFfAVMBRwE3ASQBHQEQAQAB',
+  '9ADkANcAzQDEALwAtwCzALcArACoAKgAqQCqAKgAqgClAKMAlQCPAIwAhgCBAH8AfQB6AHYAdgBsAGwAZQBdAFIATgBDADkAMAAmAB8AFAAJAP//9P/n/9n/',
+  'zP/C/7n/r/+l/53/lf+M/4X/fP92/3D/bP9o/2P/Xf9Z/1j/Wv9Z/1v/Xv9i/2X/a/9x/3T/dv93/3n/eP92/3X/c/90/3H/c/90/3T/dv94/3z/gf+H/4//',
+  'mv+l/7T/xP/X/+n//P8IAOz/cACmALcAcgBoAHIAkgC6AM0A0wDXAMQAuwCYAH0AYwA9AAIA4P/U/8X/tP+W/3r/Yv9H/zb/L/8o/yX/If8T/wr/CP/5/vj+',
+  'A/8a/yj/P/9m/4X/n/+w/7j/wf+//6z/sP+3/8H/zP/Q/9b/4P/u//b/AQARAB8AMQBDAFgAawB8AIsAlgChAK8AtgC4ALcAtgCyAK8AqwCoAKYApgCqAK4A',
+  'pACZAHYAbQBeAFcATwBIAEgASQBQAFoAagBLADgANAAlAA8A9//Z/8D/tP+f/4H/bv9r/2n/ZP9p/4L/fP95/2X/SP9K/zT/O/9H/xr/5/7C/qf+if5+/nf+',
+  'cP5m/l3+Yf5e/mj+bP5s/nr+ZP5b/k7+RP49/hn+//3k/c39s/2a/YH9bP1c/Uv9Mv0K/fz8Cf3b/Kn8lfyN/Ir8g/x9/H38ivye/Kb8tvzV/AD9Ff01/W39',
+  'h/2e/cv9A/4k/kz+i/7H/vH+Kf9Z/1n/g/+X/9j/TACMALoA1ADvAAcBHAE3AVQBcwGPAacBuQHQAdgB8gHqAQICCQIiAicCHgIgAhcCDQL1AV0BtAENAj8C',
+  'lQKoAr0CvQK/AtkC6gIRAy4DOAMlA9ECxwK6Au4CLQPpAl0COgIyAsgCiAJxAloCWQJXAkcCLgIfAgUC6wHZAcUBuQGnAZQBggF0AWYBVQFHAUMBMQEbAQwB',
+  'BAHuAOEA1ADKAMAAwgCzALsAsACtAKgAqQCvAKcAoQCfAJUAlACPAIIAegB0AHYAdwBvAG0AaQBnAGAAVwBKAEUAOgA2ADAAKgAjABoADgAGAAIA9P/o/9v/',
+  'zf/B/7f/sP+n/6H/mf+R/4r/gf95/3P/cP9u/2v/aP9m/2P/Zf9m/2j/a/9t/3P/ev99/3//gP+D/4L/f/99/3v/d/92/3b/dv92/3X/dv94/3v/f/+F/4z/',
+  'lv+i/6//wP/S/+T/9f8AAOP/VABjAKcAvACPAH4AkgCyAMUA3gDnAOIA1QCxAJAAdQBNAB8ACADw/9P/wv+o/47/d/9Y/z//Mf8r/yn/Jf8b/xT/Df8B/wL/',
+  'Ev8e/yn/Qv9t/4r/lv+1/7//zv/K/6v/sP+v/7T/u/+//8j/0f/d/+v/+f8HABkAKAA5AFIAZQB1AIEAjACYAKUArwCzAK4AqgCjAJ8AnwCcAJ8AqACrAKsA',
+  'mACAAG4AYABbAFcATwBLAEoASgBRAGsAgABvAGIAWQBKAC8AHwAGAOj/0P+8/6L/mP+Q/3z/Yv9n/5P/kv9//2//Y/9d/0X/NP8l/wv/9P7Q/qz+k/6L/oL+',
+  'ef5t/lH+Uf5//n7+gv6B/nn+eP5r/mD+Uf5K/jn+Gv4C/ur90P23/Z79jP16/Wv9Tf0q/Sn9Gf3z/Mz8uPys/Kf8o/ye/Kf8tvzJ/NP82fzx/Aj9Iv1B/XP9',
+  'gf2b/cD99/0b/kT+c/6v/t7+F/9I/1f/a/+K/6L/xP9MAMkA2QDfAPQA+gAXATcBTwFwAYsBmAGtAboBvAHqAeEB2wHmAfYB9wH1Ae8B7wHFAaIBzQEbAnUC',
+  'nwKpAroCuAK9AtIC3QLuAvwCBgP/Ag8D3QJWAksCiAKcArkCrAJcAncCugKhAm0CSwI0AksCRwIqAhQCBgL0AeIBzAG5AaQBkgGDAXYBbwFgAUUBOwEpASUB',
+  'CwH8AO8A4ADUAM8AyQC8AMMAvwCyAKYAqACnAKgAogCWAJAAigCDAH0AdABtAGoAawBkAGIAXgBcAE0ARwA7ADQAKwAkAB8AHQAaABMABQD9//3/9v/q/93/',
+  'z//D/7f/rP+k/5//l/+R/4z/h/9+/3v/eP90/3H/b/9t/27/cf9z/3X/d/96/4L/hv+K/4z/jf+N/4v/iP+F/4H/ff98/3r/ev97/3r/eP96/33/gP+F/4z/',
+  'lf+h/67/vf/N/9//7//9/+3/HABXAKwAwwByAHkAogDKANgA6QDsAOMA3QC8AKEAggBeAEYAKwAMAPD/3P/C/6L/hf9j/0n/O/8z/y//K/8j/xz/FP8M/wr/',
+  'Ev8Z/yv/SP90/4//l/+q/8P/2P/U/6T/of+h/6T/rP+1/7r/x//R/9z/6f/7/wwAIQA1AEwAXwBpAHkAgACNAJcAngChAKQApACfAJoAlwCaAJ8AoQChAKEA',
+  'gwB9AGgAYQBaAFgAVQBUAFQAVQBaAGcAbwCEAIQAeQBkAEcANwAoAA0A8v/e/8n/uv+y/4f/eP+O/4v/jv90/3b/Zf9a/2v/VP8k/wj/9f7a/q/+n/6V/pP+',
+  'h/50/p3+cf6J/pb+j/6V/o3+hf6A/nz+af5Y/lb+Q/4m/g3+8f3Y/b/9rP2c/Yz9Z/1Q/Un9Mf0J/ez83vzR/Mj8v/y3/L/80fzX/OT86vwC/Rb9Lf1I/XD9',
+  'ef2g/bv96f0O/kD+XP6f/tD++f4d/0X/bf98/4f/i/+8/xMAfAC/AOsA/QAKATABTAFUAU8BYwFwAXUBewF7AZ0BsQHFAcoB3AHIAaYBoQHHAdMB/gFOAngC',
+  'mQKgAqwCrwK6AsYC0gLmAuwC6QLiAvICSgPsAqUCzQLYAq8CwgK2ArECpQK3Ao8CegJnAjoCSwJEAjACFwIDAvcB5gHUAboBogGVAYoBgwF1AWUBVwFLATkB',
+  'HgEPAQYB+ADsAN4A0wDWAMwAywC9ALMArACpAKYAowCVAJIAjgB8AHoAaABgAF8AXABcAFkAWABTAEwAPQAzACgAHwAWABEAEQAMAAMAHAAIAPH/7//n/9n/',
+  'y//A/7X/rf+l/53/mP+S/4v/if+F/4H/f/98/3n/ev95/3r/ev9+/4D/h/+M/5H/lP+X/5j/mf+Y/5b/k/+O/4f/f/99/33/ff9+/37/fv9+/4D/hP+J/4//',
+  'mf+i/67/u//K/9r/7f/9//7/7f9VAJIAxgCGAHcAkgDOAOQA7AAAAfMA4ADJALQAkgBtAGQAUQAsAA0A8//X/7X/mP95/13/TP9B/z7/N/8m/xf/G/8Z/xj/',
+  'Hv8n/0D/Xv+D/5H/nf+x/8H/y//L/6H/lf+W/5f/pP+v/7P/u//F/9H/2//s/wEAFQArAEAAUwBhAG0AeQCPAJcAlwCYAJYAlQCTAJQAkgCWAJYAmACYAJIA',
+  'dABlAGMAXgBcAF4AXgBfAGIAZwBuAHIAgACdAJwAlgB/AGIAUABAACcAEAD7/+H/yP+0/5//p/+s/4b/dv98/4//hv94/3r/P/8r/xL/BP/J/rP+sv6o/qX+',
+  'ov6O/rD+g/6m/qj+rP6u/pn+nv6X/pD+gf5v/mX+bf5F/jD+FP74/eH90f29/af9jv1+/W39U/0v/RL9Bf32/On84vzh/On88/z+/P/8DP0d/S39Qv1W/Xn9',
+  'ev2m/bz93/0N/jf+V/6K/r3+2f4D/zL/WP9//5z/ov+n/8X/5P8KAEgAcgCbANAA8gATATMBXAFNAWgBjQF3AVoBQwF1AaQBogF2AVUBmgHRAQUCMwJXAmwC',
+  'hQKbApkCowKxAsECygLdAuoC6ALoAsUCAgM2AwkDEAMJAwMD4ALeAsgCvwKtAp4CdwJvAmcCIQJUAk0CMwItAhoCCwLtAeABwwGsAZ8BmAGKAXsBZwFZAU0B',
+  'PwEmAR0BEAEBAfUA8wDrAOUA2ADLAL0ArgCoAJ8AmACWAJQAgwB7AHAAXwB8AFcAUABQAE0ASQBJAEYANQAuACMAFgALAAQAAQD9//j/+/8YAPH/5f/g/9T/',
+  'yP++/7L/q/+l/5//mv+Y/5H/j/+N/43/jf+J/4X/gv+D/4X/if+L/5D/lv+b/5//ov+k/6T/pP+i/5//mv+V/4z/hv+F/4L/gv+C/4L/hP+G/4j/if+O/5T/',
+  'nP+m/7D/vP/J/9n/6v/9/wQA6f86AIoAvQDBALEAwADPAPsA+QAGAQgB9ADiAMsArQCKAHgAbgBNACkACgDn/8v/s/+Y/3z/a/9k/17/Uv8z/yP/K/8x/zn/',
+  'Q/9P/2T/b/93/4f/k/+i/7T/uf+0/5H/kv+T/5j/oP+q/7H/uP/D/83/2//r//7/FwArAD8ATwBeAGkAdgCFAI4AjACKAIoAjACPAI4AjACNAI0AjQCKAIEA',
+  'cwBnAGQAYwBiAGMAZgBrAHEAdwCCAI8AmQCuAKwArACkAIMAagBUAD8AKgATAPD/1P/M/87/tf/A/6P/gf+L/47/if9Y/2f/R/8p/xb/Ev/1/sn+1v7C/rz+',
+  'uv6y/q3+uP60/rv+0v68/rr+sv6q/qP+l/6B/nX+g/56/mH+Nv4Y/gf+9P3o/c79tv2f/Y79dv1U/Tn9Kf0c/Q/9Cf0G/Qn9Ef0R/Rb9If04/UP9S/1W/Xf9',
+  'e/2n/bv95P35/Sv+U/5+/p7+wP71/hn/MP9g/4//xP/R/7L/vv/b/+r/CQAwAGEAZgBuAIkAowDBABABbAFQARABDQFNAUsBaQGkAdMB8gEKAikCQgJcAmQC',
+  'dAKJAoICkAKjArQCvALRAucC4QLFArQCswLxAg4DEAP+AugC2wLWAsgCugKiApMCdgJ4AnMCSAJVAlYCRgJHAj4CLAIcAvoB8AHWAbsBqgGfAYkBeQFqAV8B',
+  'YAFLATgBKQEdARIBEQEIAfUA4ADXAMcAtwCtAJ4AlQCbAJgAjAB+AG0AYQBTAFAASQBGAEIAPgA9ADcAMQAkABgAEAADAPv/8v/v/+v/4//n/wcA6//Z/9D/',
+  'xP+8/7X/rv+o/6T/of+c/5v/mf+Y/5X/lv+U/5T/kv+S/5L/lf+Z/6D/pv+r/63/r/+y/7D/rv+s/6f/ov+a/5D/jv+K/4j/iP+J/4r/jf+Q/5H/k/+V/5r/',
+  'ov+r/7X/v//L/9j/6P/6/wcABAD4/1wAygDyABsBCQHpAAgBBwERARIBBwH4AOoA1gC5AJ8AkQBvAEgAIQD4/9j/2f+5/5r/jf+E/4D/bf9D/z7/Q/9H/1T/',
+  'YP9s/1j/W/9y/4n/hf+W/6X/ov+N/47/kP+U/5r/of+n/67/tv+8/8X/1P/m//j/EAAnADUARQBQAFwAaQB4AIUAgACAAH8AggCDAIMAhgCGAIYAfwB+AH0A',
+  'bwBrAGoAaQBpAGsAcQB3AIAAhwCRAJgApwC2ALkAxwDDAKAAfgBoAFQAPQApAA0A9f/5/+b/1v/I/6T/m/+S/4b/dP9v/1j/Sv8g/wr/Df8Q//L+9P7h/tz+',
+  '0f7I/tD+yP7P/tH+zf7Q/sf+wP6+/rX+q/6b/ov+gv6W/oX+WP4//iv+Jf4P/vf92/3I/bn9l/11/WD9Uv1C/TX9MP0u/TD9NP0w/TL9Q/1H/Uj9WP1l/Yv9',
+  'ev2s/cP92/38/SL+S/53/pH+s/7i/v3+Hf9F/3b/rP+w/7f/y//o//7/GwAyAC4AKwBIAGwAhgCdALAA5AAPASIBLAE4AXABoAHKAeAB6gEIAiICOgJNAksC',
+  'WgJvAnICfgKPApcCmwK2AtQCzgK9Ar4CtQKsArICzALrAuQC4QLMAr0CjgKyAqgChwKCAkUCbgItAikCDQIfAkMCSgI/AjECCgL5AewB0QHDAaoBmAGTAYUB',
+  'iAF6AVEBRgE0ASYBGAESAQcB8ADbAMwAugCoAKcAkgCUAJYAkwB7AGwAXABQAE8ARQA7ADkAMQAvACsAIwAaABEABwD7//H/6P/h/97/3P/a/9v/2P/R/8j/',
+  'vv+2/7H/rf+q/6b/o/+h/6D/n/+f/57/n/+g/5//nf+d/6H/pP+p/6//tP+4/7n/u/+8/7v/uf+2/7H/q/+h/5v/l/+W/5X/k/+T/5P/lv+W/5r/m/+e/6L/',
+  'qf+y/7v/xP/P/9v/6f/6/w0AFwD//xYAlgALAT0BNgEfARYBBgEOARwBFQEPAQkB9ADRAMIAswCTAG8ARAAXAO3/1P+m/5v/mP+U/4j/ZP9H/1X/Y/9b/17/',
+  'Vf9W/1v/Yv+B/4r/ev+M/5n/mP+M/5D/lv+a/57/pP+p/6//sv+5/8T/0f/f//L/BQAZACsAOQBHAFQAYgBrAHcAcgBxAHAAcwB5AH0AfgB/AH8AeQB0AHcA',
+  'bwBvAG8AcAByAHUAeQCBAIoAkwCeAKYArADCANEA2ADWAMAAkgB4AGIASAAzABsACgD9/+//5f/K/7j/qf+a/3z/e/9e/0T/Q/8e/w//FP8W//v+9f79/hP/',
+  '8/7n/uL+B/8P//n+4/7h/tj+1P7U/sz+wf6x/qT+k/6o/pT+dv5l/lj+Sv43/hz+Bf7x/dr9uv2e/Yz9e/1q/Vv9Vf1U/Vf9U/1Q/Vb9W/1N/VX9YP13/Zj9',
+  'jf20/bj90v31/SH+Sf54/oX+mP6y/uX+D/8t/1T/dv+B/6P/v//j/wQAIQA5AEcATgBnAIQAlQCsAM4A6gD6ACcBXgFtAYABmQGxAb8BzAHrAQsCFwI0AjgC',
+  'TQJdAl8CagJsAnACewKZArUCqAKeAqcCoAKZAo0CjQKQApICmQKbAoYCnwKqAp0CegKcAoMCaQJhAlYCLgLPAUYCYAJdAlMCQwI2Ag0CBALxAesBzwHLAacB',
+  'rAGYAYgBXgFUATgBMQESAQkB9gDmAM0AtwCpAJoAlACQAI0AkAB+AGcAXQBQAEkAQwA5ADAAKgAgABoAGAALAAUA///w/+j/3f/X/9H/0v/P/9D/yv/B/7r/',
+  's/+u/6v/qv+p/6f/pP+j/6L/of+j/6T/o/+l/6f/qP+q/6z/sf+4/7z/wP/D/8X/x//H/8X/w//A/7v/tP+r/6T/ov+g/5//nf+c/53/n/+f/6L/pP+n/6v/',
+  'sP+6/8H/yf/T/93/6f/4/w0AIgAmABMAZgDwADwBRQE2AToBNQEXARMBIAElASoBDgHmANAAwgC4AJgAbABbAFEAFADS/7X/oP+i/5X/dP9c/3P/Zv9X/2T/',
+  'Yv9g/2P/ff+I/4z/iv+V/4X/g/+H/5b/ov+p/6T/pf+p/6//s/+4/8L/z//c/+r//P8PACAALwA9AEoAVwBgAGMAZwBnAGkAbwB1AHoAdwCCAH8AewB2AHAA',
+  'dwB2AHYAdgB4AHwAgACHAI4AlwCfAKcAtwDcAM8A3wDYALkAmQCDAG4ATwAzACMAFQAMAAIA6f/S/9H/w/+a/3H/hP9m/0P/VP8s/yb/Kv8o/wH/8f7q/vH+',
+  'I//v/vP+Mv9J/zL/Af/6/vD+6f7u/u3+3v7S/sP+q/7H/qz+mv6K/n/+dv5g/kj+Mv4X/v/94P3I/bX9o/2S/YP9f/2A/X/9d/1z/Xr9bP1k/XH9cP2M/aT9',
+  'nv2w/cX90/3x/SX+Uv5b/nH+hP6S/sb+9/4S/yT/P/9a/4D/of/I/9T/5v8GAB4AMQBKAGkAewCRALYA5gABASIBRAFhAWsBdQGHAaQBuAHJAesBAwIaAiQC',
+  'KwI5AkACRwJKAlUCYgJ+ApsCiwKDApECiQKJAocChAKDAoICgQKHAp4CrAKlApICkAJ8AowCfgJyAmsCUwLgAU4CbgJvAmgCXAJPAj0CLgIYAgoC9wHhAcsB',
+  'mwG2AZ4BbAFrAVEBPwEkARUB/ADzANcAwQCqAJsAiQCFAIoAhAB1AF8AWABQAEgAQwA3ACwAJwAfABEACAABAPv/8v/n/9//2P/V/8//zP/F/8T/vP+0/63/',
+  'qP+l/6X/pf+k/6T/pP+j/6P/ov+l/6j/qv+t/6//sf+0/7f/vf/E/8j/zP/O/8//0P/R/8//zf/K/8T/v/+2/7D/q/+p/6f/qP+o/6j/p/+q/6v/rv+y/7b/',
+  'uv/B/8j/z//W/93/6P/2/w0AJAA5AD8AQgCpAEABZgFXAWwBnwFuATYBLgEyATcBJAEMAe8AzgC7AKoAhgBzAG8ALwDp/87/sP+r/63/kf+G/4v/Yf9N/3T/',
+  'gP9x/2P/gf+I/5P/kf+R/4X/g/+M/5r/qP+v/67/rP+s/7H/tv+5/8D/zP/Y/+X/9f8HABgAKAA3AEQAVwBdAF8AYgBkAGgAbAB0AHsAjwCGAIUAhQB9AHkA',
+  'fwB+AH0AfQCAAIEAhQCMAJIAlgCcAKwAvgDVANgA4ADPALQAnwCLAHgAWwA8ADYAJwAbAAsA///o/9L/uf+P/43/jP+V/2T/Vf9D/zj/M/8j/xD/Gf8G//j+',
+  '9v4B/w3/SP9j/13/Jf8T/wv/Bf8F/wP///7z/t7+3f7z/s7+vf6u/qX+m/6K/nH+WP5A/iX+B/7x/d/9zf29/bL9rf2o/Z/9mP2U/ZL9gf2A/Y39nv2t/aj9',
+  'rf2z/cv93P3x/RH+M/5Y/mH+a/6F/qb+1P7m/vP+Cf8y/1L/cP+i/6D/s//U//v/CgAfADgATQBoAI8AwgDYAA0BJQFDAVQBZQF5AYUBowGpAb8B3QH2AQIC',
+  'CQIZAicCJQIoAjkCSwJoAn0CmAKHAn8CiAJ8Am8CbgJyAnYCegJ7AoYClQKHAoIChQKHAoUCfAJzAmgCaQIKAjgChgKAAn0CcgJjAlMCQgIwAiACDQL/Ae8B',
+  '2wHNAb0BrwF/AWYBQwE7AU0BKgEmAewAwwCqAJwAjgCAAH4AdQBoAFsAUgBKAEUAQAA5ADEAKQAhABQAGwALAPf/7f/n/+L/2P/N/8j/xv+8/7n/s/+r/6b/',
+  'o/+f/6D/oP+h/6H/ov+j/6P/pf+o/6r/rf+x/7T/uP+9/8T/yf/O/9P/1v/X/9n/2P/Y/9b/1f/R/83/yP/A/7n/tf+z/7P/tP+z/7L/sv+z/7T/tf+5/77/',
+  'xP/I/83/0f/W/93/6f/5/w0AIwA/AFUAWAB1APUAeQFzAZMBwAHrAboBUQE3ASABJgEcAfgA0wC8ALAAlQB7AGYAKQDx/9b/wf+0/6j/of+g/5b/bv9Z/3P/',
+  'gf99/33/eP+I/5n/pP+L/3//g/+Q/5z/q/+x/7f/tv+4/7j/uv++/8T/zf/X/+X/9P8EABQAIwAxAD8ATgBYAF0AYABmAGoAcQB4AH4AgwCFAIIAgQCCAIAA',
+  'hgCGAIYAhgCIAIgAiwCQAJIAlgCiALMA0gDgAPQA4QDLALQApACTAIIAbQBYAEUANQAsAB0ADwD+/+H/sP+l/5//k/+b/4b/d/9e/03/Q/82/xf/LP8X/wv/',
+  '+/4a/zr/TP93/2z/Pv8n/yH/Hv8k/yL/Gv8N//D+Ev8S/+z+3v7U/sv+w/61/pv+g/5o/k7+L/4T/gX++P3r/eH91/3N/cP9uv2z/ab9nP2c/bf9y/3M/a79',
+  'vv3B/dX95f3y/Rr+H/5I/k/+Yf50/o/+q/6+/sr+5P4K/yf/SP9n/3P/h/+w/8z/5v/z/w0AIwBBAGIAmgDVAAABGQEuAT4BXAFuAXcBcAGHAZUBqgHAAdYB',
+  '5AH7AQ8CCgIMAhkCLwJGAmUCgAKMAnQCegKDAoECegJsAmYCagJvAnMCeQJ4An8CeAJ8AmoCYwJuAnYCTgIfAm0CfAKKAokCgQJyAmECUwJEAjICIgINAv4B',
+  '6wHeAc8BwwG1AaIBfAEMAQ0BHwEEAeEAxwCsAJoAigCBAHYAaQBiAFoAUgBJAEcAPgA8ADkALQAiABgADAALABYAAgDu/+T/2//P/8z/x/+9/7D/pf+g/53/',
+  'm/+b/5z/nf+g/6D/of+j/6T/p/+q/63/sf+1/7r/vv/D/8j/0P/V/9n/3f/e/9//3//f/97/3P/Y/9P/zf/I/8T/v/+8/77/vf+8/7z/vP+6/7r/u/+9/8L/',
+  'yP/M/9H/1f/a/+P/7////xEAKQBFAGMAdABuAJsAMAGBAbQBygHRAdIBvQFJAREBCQEEAf0A4ADIAL8ApAB+AFAAIAD+/+z/1P/O/8X/uP+k/43/ef9q/3j/',
+  'gP98/4D/lv+c/5P/rP97/3f/if+W/6L/rf+z/7n/uf+4/7j/t/+6/8L/y//W/+P/8P///w8AHgAuADwASQBXAF8AYQBoAG4AcwB4AHwAgACDAIYAhQCHAIYA',
+  'jQCNAI4AjgCPAJAAkgCTAJUAmQCjAMUA5ADvAPAA2ADKALgAqwCcAIwAeABlAFMASQBDAC8AHgARAOb/zP+i/67/mf+K/5f/mf93/2X/Y/9m/yn/O/8q/z7/',
+  'Tf9P/1n/f/+Z/3T/UP8//zv/Of8+/zn/Mf8l/zP/P/8r/wr///72/vL+5v7Z/sL+rf6P/nX+Wf5B/jD+Iv4R/gv+//31/ef93P3K/bv9tP2w/br9yf3i/cH9',
+  'zf3Q/eP97/39/RD+GP4x/kH+Uf5r/nL+i/6e/rT+zf7m/gP/JP8+/1H/bP+O/6f/sv/H/9//9v8VAFEAiwDGAOAA+AAOASQBSgFWAVoBUgFeAXABhgGXAawB',
+  'xgHaAeoB8gH9AQ0CGQIvAkwCagJ0Am0CYgJ1AnkCggJ/AncCXwJmAmUCZwJ0Am4CawJkAl4CXAJZAkoCYwJWAm0ChAKSApQCjAJ+AnECYQJTAkECMAIcAg4C',
+  'BALsAdsBzwHDAbkBpwFXAd8AHAEGAeQAxwCqAJ0AiQB8AHQAawBmAFwAVABJAEMAQgA/ADoAMAAzACMAFAAGAPP/CAD//+7/1v/Q/83/yv/B/7H/p/+e/5f/',
+  'lv+V/5b/mf+d/6D/oP+i/6X/qP+s/7D/tf+7/7//xP/J/8//1v/a/9//4v/k/+X/5P/k/+H/4P/f/9z/0v/O/83/yv/I/8X/w//D/8H/v//A/8D/wf/C/8j/',
+  'zP/T/9j/3v/k/+v/9v8EABgALQBDAGIAggCUAH8AmAAwAYEBqAHCAccByAGaAT0B+QDeAN8A7wDgANMAqgCFAFYAMQATAP7/6v/V/8//w/+u/5b/gv98/3X/',
+  'c/9//4j/lP+h/6H/q/+j/3T/j/+l/6z/r/+0/7j/u/+7/7j/tv+2/73/yf/W/+P/8P///w8AIQAxAD4ASQBUAFwAYABpAG0AcQB2AH8AiwCDAIMAhQCJAIsA',
+  'kwCVAJYAlwCXAJgAnQCfAKEApwCxANUA2gDqAOwA3wDPAL8AsgClAJkAfwBvAGQAVwBHAEYAQwAAAPv/CwAFAN//p/+V/5T/jv+L/3//gP9r/0j/Wv9h/3L/',
+  'h/99/4//rP+l/4D/Vv9R/1H/Tv9S/1H/RP8//1f/Uv84/zH/JP8Z/xL/DP/9/uv+0f62/p/+hf5v/lr+SP4+/jP+J/4W/gn++/3l/dv90P3K/dH94P0C/tv9',
+  '3/3k/fH99/0T/v/9F/4j/jj+Rv5b/l7+cv6J/qP+uf7O/ur+Bf8f/zf/U/9x/5n/qf/H/8T/3f/7/0gAegCeAMEA2wDzAAIBIAE6AUkBNQFOAVkBbQF8AYcB',
+  'qgG+AcYB2wH2AQMCCwIbAjgCSQJjAmoCUQJdAmMCdAJyAnYCZQJlAmQCZwJbAlkCUwJSAkkCWAJLAlYCWgJZAkMCbAKYApgCkwKHAnoCbAJeAk0CQQIpAh4C',
+  'AgL4AeUB3gHXAc8BxQFsAewAHAESAe8AygCuAJ0AjQB5AHUAcQBkAF4AUQBIAEMAPgA5ADYALAA2ADcAHgAOAPr/4//o/+D/3//W/8X/uv+3/7P/p/+d/5T/',
+  'kf+S/5P/kv+V/5j/nP+e/6P/p/+s/7L/t/+8/8L/yP/N/9P/2f/e/+P/5v/p/+n/6f/o/+b/5f/h/97/3f/W/9P/z//J/8f/xf/E/8X/xv/G/8j/yf/L/9H/',
+  '1P/b/+H/5//t//X///8OAB4AMgBJAGUAggCYAJ4AjQB2AL4AMAGKAb0BvgG8AasBaQH5ANMA4gDfANgAvwCQAGgARwAoAAgA8//f/9P/v/+l/4r/g/9//27/',
+  'bv+E/4b/jv+a/6P/rf+I/5v/nf+m/6z/tP+6/73/v/+8/7j/tP+0/7n/xP/W/+n/9P8BABQAJQAyAD8ASgBXAFwAZQBqAG4AdAB7AH8AgACDAIIAhQCMAJEA',
+  'mwCcAJ0AngCeAKMAqwCwAK8ArwC4AM0A3gD2AAAB7gDTAMYAwAC5AK0AjgB8AG8AZABbAEwAKQAhABQAHwAoABQA2f+x/6D/m/+k/5X/e/9w/2r/dP93/5L/',
+  'of+5/9D/zv+6/3r/Z/9i/2P/Yv9k/1//V/9Y/13/W/9b/1P/Sf8//zz/M/8l/xP/+v7e/sn+sv6b/oL+dP5p/lj+S/45/iv+G/4K/vv97/30/ef9+P0f/u79',
+  '7/32/ff9B/4M/gT+E/4g/i7+O/5K/lb+Y/58/pX+q/7B/tf+7/4F/yT/Pv9V/3P/jP+c/7b/zv8DADkAVQBzAI4ArwDGANoA8QARARsBIAE/AUEBSgFeAXEB',
+  'iAGaAbMBxwHcAfEB8wEDAhoCNwJTAlUCTwJBAksCWAJZAlUCUQJSAloCVwJNAjwCTwJJAkMCSgJlAlUCVgJaAj8CQQKNApwClQKMAoECcwJhAlICPAI0Ag0C',
+  '9AH6AfAB6wHqAeQB1AFOAQMBJgEQAfkA1ACxAJ0AjgCFAIYAcwBoAFkATgBKAEQAOQAtAC4AIwAbAB4AIwAiAP//5v/a/9P/yP+//8D/t/+s/6n/pv+g/5n/',
+  'lP+Q/5D/kf+T/5X/lv+Y/5z/of+n/6//tv+9/8L/yf/P/9X/3P/h/+X/6f/r/+z/7P/q/+j/5f/j/+D/3f/b/9b/0v/O/8z/y//K/8r/y//O/9D/0//W/9v/',
+  '3//j/+n/7v/1//3/CAAWACUANgBOAGcAeQCQAJ8AqgCuAIYAtQATAX8BvAG7AcIBngF3ATAB2ADYANsAzwCfAIUAYwA8ABQA9f/e/8P/sf+l/3v/fP+N/4z/',
+  'h/+S/5f/m/+b/6b/tP/F/5T/vf+n/7L/uv/A/8X/x//C/7z/t/+2/7r/w//R/+b/8v/+/xAAIgAwAD0ASABSAF8AZwBtAHQAewB/AH8AfwCAAIMAiACTAJcA',
+  'pACjAKMApQCoALAAugDBAMEAvgDEAN8A9QD0AAEB9wDkAN4A3ADRAMMApgCLAIEAeQBwAGAATgA6ADkAPAA4ABIA8P/P/8D/vf+4/5L/h/9//4f/j/+a/6D/',
+  'rv/j//b/7f+7/3//e/94/3r/e/93/2r/hf+g/4H/ff9z/2z/Zf9p/2T/Wv9K/zj/I/8L//D+2/7H/rD+nP6M/nr+aP5c/kv+PP4m/hr+GP4M/gH+HP4r/gb+',
+  'B/4F/g3+GP4M/hT+GP4k/if+MP46/k3+Xv50/ov+ov61/sn+3f70/hP/Iv8z/1r/b/92/7f/3f/9/yUATQBnAHIAhgCfALIAxQDdAOsACwEdARwBIQE6AVcB',
+  'ZQF2AY0BpAHBAdkB3gHnAQwCLAJGAkkCSAJCAkUCRQJGAk4CPgI5Aj4CPwI9AjECSAJCAjoCPgJOAk8CYAJYAkICFQJ/ApUCkwKOAoICdQJjAlECOwIrAv8B',
+  '+QH3AfoB+gH6AfEB1AH/ACQBIwEhAfgA0gCzAJ4AiAB8AHQAbwBpAGgAXQBMAD4AMwArACIAFgAYABEABgD8/+v/3f/S/8T/wf+7/7D/rP+l/6T/m/+b/5n/',
+  'lv+S/47/j/+Q/5H/lv+Y/5z/o/+o/67/tf+8/8P/yv/Q/9b/3P/h/+X/6P/r/+z/7P/q/+j/5v/l/+L/3//c/9j/1//U/9P/0P/Q/9L/0//X/9r/3f/f/+T/',
+  '6f/s//L/9v///wUAEAAdACwAPgBOAGMAdgCGAJkArAC8AM4AiwDMAGIBswGwAbkBsQGIAS8B3ADnANcAvQCtAJ0AfQBRACQA8f/P/77/rP+t/5T/kf+l/6T/',
+  'mP+f/4//lP+q/7P/vv+z/5P/o/+t/7j/xP/J/8r/yv/H/8D/u/+4/7r/wv/P/97/7f/+/w4AIAAwADwARwBSAGIAcABzAHkAfAB8AHwAfwCAAIYAjgCZAKAA',
+  'owCoAKoAsAC4AMIAzQDQANQA4wDnAOsA+wD3AP8AAwEGAQgB+wDqANgAuQCkAJkAigB9AG8AagBoAGQASQAvAAoADAD0/9j/2P+j/5L/ov+X/6D/ov+y/73/',
+  'wP/q/wwA9P++/5D/j/+P/5D/lf+U/4v/hP+7/4X/l/+S/5D/lP+K/4P/e/9t/1v/SP8y/xj/A//v/tr+xP6x/p7+jv58/mz+Xf5I/j7+Nv4t/jL+QP4//iH+',
+  'Hv4f/iT+HP4Z/h3+If4k/iP+KP4z/kj+Wv5x/oz+of6u/r3+1P7r/v7+Ef8i/0X/Vf+E/7j/wv/k/wcALABVAF8AYQBwAIgAmwCxAM4A5gD0APIA9gATATcB',
+  'SwFXAXIBhwGwAcwBxQHHAeMBCgIpAjMCNgI1Aj4CPgI9Aj8CNAIeAiUCKQImAi0CQAI3AkECLwItAlkCTQJjAkUCAQIjAoACiQKIAoECcwJjAk8COAILAv0B',
+  '8QH9AQICAwIJAggCrwHxACIBIQEGAegA0wCyAJ4AkgCDAHsAcQBmAF0AWABgAEQANAArABwAEwAIAP//9//t/9//1v/G/8b/tf+x/63/pf+m/53/nP+X/5L/',
+  'jv+O/4z/jf+M/47/kv+V/5n/nf+j/6z/sv+6/8L/yf/P/9b/2//g/+L/5f/o/+r/6v/p/+f/5f/j/+L/4P/e/9z/2f/Z/9j/2P/Y/9n/2//g/+P/5v/n/+z/',
+  '8f/2//z/AQAGAA0AFwAjADQARQBSAF4AbQB9AJIApQC3AMoAvACeAFABogGwAbABtAGiASoB6ADsAN0AxQCxAKUAiwBaACYA9f/K/7//sP+v/6//pf+x/6//',
+  'uv/B/5//wf/I/73/m/+4/6f/uP+t/7f/xf/K/8f/xP/G/73/vP+9/8D/x//Q/93/6//6/woAGgAqADgARQBTAGIAdAB4AHoAfAB+AIIAgwCHAIwAkwCaAKEA',
+  'qACuALUAvgDMANwA3wDjAOgA5gDgAOcA9QADAf4ADgEhARsBHgETAfAAzQCxALAAogCSAI0AhQB6AGcATgAvACoAIAADAO7/0//J/9D/wv+7/8H/wf/P/9v/',
+  '4v8BABoA9//D/6X/pP+o/6b/r//1/+v/n/+h/67/tf+0/6z/qf+l/57/lf+L/33/bP9W/z//KP8X//7+7P7V/sL+sP6d/o7+f/5s/mH+Wv5Y/lT+Vv5R/jT+',
+  'Mv4y/ir+I/4l/in+Lv4o/iL+KP44/kX+Wv51/pH+nv6j/rb+x/7Y/uf+8/4R/yX/TP+N/6r/s//C/9//CwAlAEAARgBMAFwAcwCLAJ8ArwDKAN8A7wADARgB',
+  'NAE/AVIBawGSAbcBtQGyAbwB0wHzAQ4CGwImAikCLAIpAjACLAIQAgkCGwIYAh0CPAIbAjsCOQIfAh4CbgJaAloCOwLwAWcCfgJ+AnMCaQJZAk4CHAIWAvoB',
+  '9gEGAggCDgIRAgsCYAENASgBGgEDAeUAywCvAJwAjQCHAHsAdQBtAG4AVwBEAD8AMQAmABcACwAEAPz/6v/i/9f/y//C/7r/sv+w/6f/ov+c/5z/mv+X/5D/',
+  'jv+N/4r/iv+L/4v/jf+Q/5X/m/+h/6n/sv+6/8L/x//N/9P/2f/c/+D/4v/k/+X/5v/l/+T/5P/i/+H/4f/g/97/3v/f/97/3//g/+L/5P/p/+3/8P/y//b/',
+  '+f8AAAQACQAOABYAHgAsAD8ATQBSAFsAaQB5AIsAngC0AMQAyACcADwBewGsAagBrQGNASYB4ADkANIA0QC2AJ8AiwBbACoA+f/Y/8b/u/+5/7n/uf/I/8r/',
+  '1f/a/8z/xv/E/7H/jv+n/57/r//H/8v/wP/P/8T/wv/I/77/wf/C/8X/zv/X/+L/7//9/wwAHAAqADgARwBUAGMAdQB8AH0AfgCAAIMAhACIAI4AlACcAKEA',
+  'rQC1AMAAzQDYAOEA8wD1AO0A4QDgAOYA9AAMARYBJQEqATIBIAENAfoA1QDBAMEAsQCjAJsAkAB9AG4AaABmAEwAJAAgABIA+//x/+f/6f/r/+P/4v/v/wEA',
+  'AQAkACEA/f/L/73/vf+//8b/zf/a/9j/xP/F/8v/yf/E/8P/wP+8/7f/r/+l/5n/i/93/2H/Tf85/yP/Dv/3/uX+z/7C/rH+of6R/oP+ff53/m7+cf5x/k3+',
+  'Qv49/jT+MP4x/jX+Nv4u/ij+L/49/kz+X/51/qP+rP6b/rb+yf7K/s3+4P73/iP/aP+J/6r/tf+5/8T/6f8AACEAMQAtADYAQwBlAH0AjgCUAJwAuQDWAPsA',
+  'EQEpAToBUAF1AZQBmgGYAaEBsQHKAesBAgIJAhgCFgIRAhoCFAIHAvwB/wEHAgECFwIKAhgCHAIbAg0CDgJRAlsCRgIgAgICWgJhAlkCRwI3Ah4CFAIAAvUB',
+  '+QEJAgoCEQIMArcBAAErAS8BGQEAAeUAzgCzAJoAiAB+AHoAcQBtAGQAVgBMADEAKAAkABUACgD8//T/5v/b/83/wv/A/7n/s/+q/6b/o/+b/6H/l/+T/5X/',
+  'k/+Q/43/jv+P/5D/kf+S/5T/mf+e/6T/rP+1/7z/xP/K/9D/1f/Z/9z/3//g/+D/4f/h/+L/4P/f/+D/4f/h/+D/4f/h/+P/5f/m/+n/7P/w//X/+P/6//7/',
+  'AgAHAAwAEQAWAB8AKAA5AEEARgBUAFgAYgBxAIYAnQCsAMAAwwCSAE0BcAGxAbQBpAGFARMB6ADWAM0AygCxAJsAjQBdACsA+v/k/9T/x//C/7//wf/N/+T/',
+  '5f/Z/9L/zP/E/7T/mP+c/6D/of+p/7D/uP/A/8P/wf/A/8D/wf/E/8z/0v/d/+r/9/8FABIAHwAtAD0ATABbAGkAcgB6AHsAfQB+AIAAhQCKAJAAmQCfAKkA',
+  'tgDAAM0A2QDkAPcAAwH4AO4A3ADgAOYA9AAWASYBLAE+AUQBKgEJAfoA5wDaANEAwgC3AK8AnwCXAJQAjQBzAF8AOwA4ADcAHQAOAAQABwD9////+//y/yEA',
+  'JwBAABwACgDj/9b/0v/Y/+P/5v/m/+X/5P/a/9v/2P/a/9r/2v/W/83/xP+8/7P/qP+W/4L/cP9Y/0j/Mv8d/wf/8v7k/tL+wf60/qb+mv6O/oj+h/6E/mj+',
+  'V/5O/kb+QP5A/j/+Pv42/jT+O/5I/lX+ZP53/or+jv6V/q7+wv7F/r7+zP72/iv/XP99/5j/qf+3/8z/zf/s//v/DAAQAB0AJAA+AFIAWwByAIEAmwC/ANkA',
+  '8AAJARgBMAFLAWcBdgF0AXUBhwGnAc0B6AHyAfcBAwL7Af0B9gH4AeAB5QHqAeEB8wH5AQMCCAIKAgYCCQIXAjkCRQI1AgQC6AH0Ae8BAwIVAhgCCAL9AfYB',
+  '+QEKAgYCCgL+ASUBFgE4AS8BFwH6AOIAxwCwAJ0AjQB+AHYAcQBjAFoASwA8AC4AIwAZABEACAD0//j/4f/Z/8r/vv+4/7T/r/+o/6b/n/+Y/5P/j/+R/4n/',
+  'lv+G/4r/jv+O/5D/k/+U/5j/m/+f/6X/rP+y/7n/wP/G/8z/0P/U/9j/2v/Z/9r/2//b/9z/3P/c/93/3//g/+H/4//k/+j/6//r/+//8//3//r///8CAAMA',
+  'BwAMABIAFwAcACQALQA4AEYARwBQAFcAZQB1AI0AnwCwAMYAuACWAE0BawGTAbYBsgF0AfcA6wDiANMAwwCyAJ8AggBbADAA///u/+X/1P/O/9D/zP/Y/+r/',
+  '4P/Y/8j/xf/A/5b/lP+f/6H/q/+x/7X/t/+//8D/wf/C/8T/xv/M/9X/3//q//X/AQAPAB0AKgA2AEMAUQBfAG4AeQB9AH4AfgB/AIMAiACOAJYAoACoAK8A',
+  'vgDJANQA4ADvAAUBDwH6AOQA5QDlAOoA/AAXASQBMwFFAUEBJAEPAQYBAQHwAOUA3gDOALoApwC6ALgAmABvAHwAWwBTAFgAOwAtACUAHgAXABAADQD//zEA',
+  'SQBNADoAFwD4/+7/7v/y//X/+P/5////+f/w/+//8P/x//L/7f/p/+X/3v/V/8v/w/+0/6H/jv9+/2r/VP9B/yj/F/8F//H+4v7W/sf+tv6n/p/+of6U/oH+',
+  'av5h/lb+Uf5Q/kn+Rf5E/kL+SP5S/l7+af51/n3+jv6N/qL+vP68/rX+0P4G/y//Q/9e/4D/jv+Z/7X/zv/V/9z/2v/i//r/AwAUACIAJQAiAC0ARwBjAIEA',
+  'qgDaAPMABgEcAToBRAE/AUgBWwF/AaQBxwHaAd0B7QHrAecB3wG+Ab0BygHSAc0B1QHeAewB+gH1AfEB9QEDAhgCKQIoAiACFAIUAhgCGgIWAgwCAQL2AfAB',
+  '+QEHAgQC/wG+AfIAPwFHATQBFQH3AN4AxQCsAJsAjgB8AG8AbQBhAFMAQwA4ACwAIgAVAA8AAgD2/+n/2//Y/9r/y//A/7T/rP+n/6L/nP+X/5H/jf+I/4f/',
+  'gP+E/4X/hv+K/47/kv+W/5n/mv+e/6T/qv+w/7f/vP/C/8f/zP/Q/9L/0//U/9b/1v/X/9f/2f/Z/9z/4P/h/+P/5v/o/+3/8f/y//b/+f/9/wEABQAHAAoA',
+  'DwATABcAHAAhACwALQA4AD4AUABRAF8AaQB8AI4AngC3AL0AqwCpAEEBVgGOAbABsAE0AQoB7wDvAOUAywC4AKEAfwBYADcAGAAIAPb/AAD///b/4f/n/97/',
+  '0//C/7H/qf+Z/4z/lv+f/6T/qv+x/7b/vP/A/8L/xP/H/8z/0f/Z/+L/7v/5/wQADwAbACgANgBDAFAAXQBuAHYAeQB+AIAAggCEAIgAjACTAJwAoQCnALEA',
+  'xwDOANoA4wDvAAIBGwEAAewA7wDvAO4A/gAVATABPAFNAUgBJQEUARQBDgEAAfQA8wDuAOAA1QDTAMIA0gCXAJYAdwBtAGsAVABDADkAKwAiAB8AHgAUAC8A',
+  'UABaAEUAHQANAAgABgAHAAYABgALAAsACQAEAAQABQAFAAMAAAD+//z/9v/t/+L/2//R/7//r/+d/4n/d/9g/0r/OP8h/xT/BP/z/uX+1v7C/rr+vv61/pX+',
+  'gf51/mv+Yv5b/lb+Uv5Q/lH+Vv5f/mf+cf55/oX+hv6N/o3+nv6s/rD+0/4H/yT/Lf9J/2D/Xf9n/4b/qP+3/8H/uv/B/9n/4//m/wIAGAAfACMALwBDAF8A',
+  'hgCkAMIA1ADvAAIBCgEXASABPAFZAXoBnQG7AcgBzgHWAdQB1AGtAa8BnwGyAboBvQHgAdYB4wHlAd8B3AHsAfsBDwIYAhUCDAITAhECDAIIAgAC9wHuAewB',
+  '8gEBAgAC8QGJARoBUgFRATgBFAH3ANoAwgCqAJgAigB4AGgAYwBaAE8AQgAzACQAGwATAAoAAAD1/+r/5v/X/9n/y//O/7z/sv+q/6H/mv+U/47/i/+H/4T/',
+  'gf+C/4D/gf+F/43/kP+S/5X/l/+c/6H/pv+t/7P/t/+9/8L/x//K/8z/zP/O/9L/0v/S/9P/1v/Z/93/4f/j/+b/6f/r//D/9P/3//n//P///wMABgANAA4A',
+  'EgAVABwAHAAiACsALgAzAE4ATwBUAF8AbgB5AI0ApgC2AL0ApQC3AGUBgAGcAa8BhgElAQsBAQH9AOgA0wC/AKkAhQBhAD0AKgAcABkAHgApABAA8v/w/97/',
+  'x/+a/4z/j/+K/4//l/+k/6r/s/+4/7z/w//H/8j/z//S/9n/4f/q//b/AgAMABYAIQArADYAQgBOAFsAZwBzAHsAfgCCAIUAhwCJAI4AlACcAKUArQC2AL8A',
+  'yQDTAN0A6QD5AA0BHgHzAPcA+AD2APYAAgEXATIBQwFQAVABKQEcASIBHAELAQsBAAEGAQYBAwEAAQsBBQHIAL4AnACCAHgAZABkAD4ANgApAC0AMgAsADUA',
+  'UABYAEQAMAAhABkAFAAUABIAFwAaABsAGgAXABQAEwARABIAGgAWABAACwAMAAMA9P/r/9z/zf+7/6n/lP99/2r/VP9C/zP/H/8Q/wL/8f7f/tT+2/7H/qr+',
+  'mf6H/n3+dP5s/mT+XP5c/mD+ZP56/nL+dP57/oX+iv6O/o3+h/6S/qT+xf71/hL/H/89/1H/Wv9a/3b/jP+S/5b/m/+u/7j/wv/t/wIAHwAkAAwAEgAsAFAA',
+  'YAB7AJEAqgDDANEA5ADwAAcBGwE4AVoBfQGIAZMBpgG/AcIBvgGiAY0BjAGSAZkBngGxAcABzQHTAc8BygHVAewB9wECAgICAgIIAgUCAQL6AfUB7AHlAeYB',
+  '6wH5AfQB2gFRAT4BUwFPAToBFQH3ANcAxACtAJgAiAB2AGUAWgBTAEkAPQAtAB8AEwAMAAUA/f/3//D/6v/g/9f/3//S/8f/vP+z/6f/nf+V/47/if+F/3//',
+  'ff9//3//gP+B/4P/if+P/5L/lP+a/53/o/+n/63/sv+2/7n/wP/E/8b/x//J/8z/zv/Q/9H/0v/X/9v/3//j/+X/7P/t/+z/7//z//j/+////wEABwAKAAwA',
+  'DwAUABkAIwAnAC0ANQBAAEAATgBfAF4AbwCCAJEAngCuALcAnADKAFcBlwGsAZ0BaQEmAQoB/wD3AOUA1AC/AKgAjwBqAEYAMQAqADAAMQAmABQA///n/8f/',
+  'oP+T/5f/mv+R/5P/kv+e/6n/t//E/8r/0f/W/9f/2//h/+n/8f/7/wcAEQAaACQALgA4AEMATgBZAGQAbwB7AIIAhACHAIkAjACQAJYAnQCjAKsAswC5AMAA',
+  'zgDYAOAA8gAFAf4A9wD4AP0A/AD9AP0ACAEaATgBPAFOAUwBNgE/ASoBJgEcAR8BHAEfASABIQElASMBGwHxAOAAtQCaAI8AgQByAEkAPQA9AEYASgBEADoA',
+  'XQBmAF0AUAA/ADEAKgAlACQAKgAxADQAMQApACUAJwArADUAOwA5ADkALwAaABoADAAAAPT/6P/Y/8b/sf+c/4f/dP9j/0z/Pv8s/xv/DP/8/vH+7v7e/r7+',
+  'r/6a/o/+iP59/nX+cf5w/nD+cv5y/nn+ev6B/oT+hf6E/ob+hf6D/oz+qP7T/vz+Gv81/03/UP9M/1T/Z/94/4L/hP+U/5r/mf+u/7n/zP/u/wAAAwAFACsA',
+  'RABYAHUAiACgALEAyQDbAPMACQEnAT0BUwFgAWoBfAGcAbABqgGEAXMBcAF0AYABlgGVAaUBsgG7AbgBrQHCAdAB4AHsAfEB9wH2AfcB9QHwAekB4QHbAdoB',
+  '4QHzAesBwQEjATEBUAFFATIBGAH2ANcAvwCvAJgAhgB4AGYAWABLAEQANgApABgAEAAEAP//+P/1//P/6v/f/9z/1//Y/9n/zP/B/7b/pv+c/5T/i/+F/3//',
+  'e/96/3v/e/99/4H/hf+J/4z/j/+T/5j/nv+i/6f/qv+u/7D/tP+3/7v/wP/D/8b/yv/M/87/0P/T/9j/3P/e/+D/4v/m/+n/6//v//L/+P/+/wAACAAIAAsA',
+  'EQAVABsAIgAmACsANQA9AEQATQBXAGQAdQCFAI4AogCxALkAhgDjAFoBnAGbAXEBZwEIAfcA8gDuAN8AzQC9AKoAkgBxAEwAOwA1AEEAOwApAAgABADl/7r/',
+  'r/+W/5r/m/+S/43/of+k/7H/vv/L/9j/3//k/+j/7v/y//j/AwANABcAIAApADIAOwBFAE4AVwBhAGwAdgCCAIgAiQCNAI8AkgCVAJoAnwCmAK4AtQC9AMUA',
+  '0QDdAOgA+ADwAPAA9QD2APgA/AD/AAABCwEdAS0BOwFFAT8BQQE/AS4BNQE3AUkBNgErAS8BMAFEAT4BGgEBAe8AuwCwAKcAmAB7AGIAVQBWAGAAYwBbAFUA',
+  'eAB7AHgAeQBqAFAASABFAEQASwBNAEwARgBFAEQASABRAFkAUgBRAEYAQwA6ACoAIQAUAAkA/f/w/+H/zf+5/6T/kv98/2v/W/9G/zj/J/8Y/wv//f7s/tX+',
+  'yv6u/qb+n/6T/oz+h/6A/o7+h/52/nr+gP6I/oP+f/57/nz+dv55/oP+kP6v/t/+D/8p/zX/Of89/0L/S/9e/2b/c/94/3f/fP+E/4T/iP+Z/6r/xv8AACMA',
+  'MwBLAFoAawCEAJYArwDHAN8A+AASASIBLgFCAUwBYAF9AZQBjgF7AWIBaAFdAW0BbQF4AYkBlgGfAZwBkgGhAbQByQHUAdsB4gHjAeYB6AHjAd4B2wHXAdkB',
+  '3gHpAd4BmQH5ACwBYQE+ASoBEgH0ANoAwACsAJgAhgB6AGgAVwBKAD8AMAAkABYACwACAPz/9v/y//b/7v/i/9v/1v/R/8v/1P/N/8D/r/+l/5f/j/+I/4L/',
+  'ff96/3j/ef97/37/gv+G/4n/jf+R/5T/mP+c/57/of+j/6X/qf+t/7H/tv+8/7z/wP/E/8X/yP/L/8//0v/U/9j/2P/e/+D/4//n/+3/8v/3//z/AQAHAA0A',
+  'EAAWABsAHQAiACkALQAyAD0AQwBQAF4AbQB8AIgAmQCnAKsAggACAV8BfwFeAR0BIwEKAfEA7wDoANUAxwC2AKUAjABuAFYATwBOAEUAQAA7ABAADADw/8H/',
+  'sf+Y/5n/lP+S/5T/nf+m/7r/yf/X/+P/8P/2//7//v8GAAsAEQAYACEALAA1AD4ARwBPAFkAYQBqAHQAfACFAI0AjgCOAJAAkgCWAJoAoQCnAK0AtAC/AMgA',
+  '1QDfAPEA8gDmAO0A8QD0APcA/QACAQUBDAEdASsBPAE5AUMBRQFBATkBMwFCAUEBNAE4ATkBOAFXAWIBIQELAfYAwQC3ALUAsACEAHUAcQBuAHQAdwByAIQA',
+  'kgCVAJUAkgCGAG8AZgBnAHAAcgBtAGYAYABjAGsAcgBpAGwAbQBhAFgATwBJAEAANQApAB4AEQAEAPj/6v/W/8T/rv+c/4n/c/9m/1L/Qv81/yX/Gv8L//L+',
+  '4/7L/rv+tv6x/qr+nf6Q/pn+kv6B/n7+gP6C/oH+e/56/nn+dv50/nf+hv6U/rD+5/75/hb/Hv8q/zH/NP84/0v/Vf9Y/2D/Xf9c/1//bf+H/6T/1//2/xEA',
+  'JgA2AEwAYQBzAIgAowC9AM0A5AD1AAYBFgEtATIBSAFcAXUBcwFXATgBSAFBAVIBYgFjAXIBgAGEAX8BfQGNAZ8BzQG+AcoB0gHUAdgB0wHRAdMB0gHRAdAB',
+  '2wHZAccBWgHnADEBOwE4AR0BBwHpANYAwACrAJcAiAB1AGYAVgBIADoALQAfABYACwADAPz/9P/w//D/7//l/9j/0v/N/8r/w/++/7n/tf+u/53/lf+M/4X/',
+  'f/97/3n/ef95/33/f/+D/4f/iv+O/5L/lv+Y/5v/nP+e/6H/pP+m/6n/rP+w/7L/tv+7/73/wP/D/8X/x//L/87/0v/W/9n/3f/g/+X/6v/v//f//f8EAAsA',
+  'DgARABIAFwAcACAAJwAyADsAQQBOAF0AcAB4AIgAmQCnAJ4AjQA0AXgBYAE3ARkBAAECAfQA7ADeAMoAuwCtAJ0AigBxAGEAWwBTAEYAPgArABQADQDi/8H/',
+  'sP+p/6X/pP+h/6r/s/+x/8L/1P/g//L/AQAIABkAFgAWABcAGwAiAC0ANgBBAEoAUwBaAGMAbAB1AHwAhACKAJEAkQCSAJQAlQCXAJoAoACmAK8AuAC/AMsA',
+  '1gDmAOUA/ADhAOsA7ADyAPkAAAEDAQMBCQEYASYBPQE0ATsBUwFcAVEBSgFJAUkBRQFDAVcBTAFpAVoBLgEaAe8A1ADTAMwAxACbAIsAhgCIAIsAkwCYALUA',
+  'vwC9ALEApACVAJAAiACIAJEAlQCTAIwAiQCMAJoAlQCJAIEAdABrAGgAZABcAFMASAA9ADEAJgAaAAwAAQDz/+H/zf+4/6P/lf+B/2z/YP9O/0D/Nf8v/x3/',
+  'BP/u/tb+z/7F/r/+sf6h/pz+k/6H/oL+g/57/nz+eP50/nb+cf5x/nX+fv6M/pb+uf7c/u3+DP8S/x//Hv8g/yj/Mv80/0//S/9T/0j/Wv9w/5n/w//d//X/',
+  'BAAgADsAUAB1AH4AmQCwAMAA0QDfAPEABAEVARoBPQFTAWMBWgEpASUBJgErAUMBSAFOAV4BaAFrAWUBaAF3AYkBqQGrAbcBwAHGAcwBwgHCAcMBxQHHAcgB',
+  '2wHPAY8BBgH3ADMBMQEvAQoB9gDhAM0AugClAJUAhwB2AGYAVQBGADgAKgAfABQADQAFAP3/9//w/+//8v/q/9v/0f/I/8H/uv+2/7P/rv+o/6P/nP+T/47/',
+  'h/+C/33/e/96/3z/gP+F/4j/i/+N/5D/lP+V/5b/mP+b/5z/n/+h/6T/pv+p/6z/r/+x/7T/t/+5/73/wf/E/8j/zP/P/9T/1//a/9//4//n//D/9/8BAAUA',
+  'CQAKAAwAEAAVABoAIwAvADYAQQBQAFoAZgBzAIYAkwCdAIkAmABGAW8BPgEOAfgA7gDvAAAB4gDUAL8AsgCrAJkAjACAAHAAXwBWAD0AKgAcACAACADZ/8D/',
+  't/+y/63/pf+g/6n/uP/D/9f/8////wUABQAPABoAIwAoACkALgAxADoARQBOAFcAXgBmAG4AdgB+AIYAjgCWAJkAlwCWAJUAlgCZAJsAnwCnAK8AuAC/AMwA',
+  '0QDUANsA8gDiAOQA5gDuAPUA/AACAQABCgEVAR4BIgE3ATUBQQFJAV8BXQFiAVoBWQFTAV4BZAFjAUABLwH7AN8A3wDgAN8A2ACtAJ8AngChAKQAsADKAOAA',
+  '4QDcANEAvACvAKwAqQCmAKcAsAC1ALUAsQC8ALQAsQCYAI0AhQCCAH4AdwBvAGYAWwBQAEUAOAAtACIAGAAMAPv/6v/U/8D/rf+b/4v/fP9q/1j/Uf9O/zD/',
+  'Gv8E//P+5v7n/tj+u/6v/qj+nP6P/o3+fv53/nf+dP5t/m3+bv5v/nL+d/6B/on+nP7G/tH++v4F/wn/Df8U/xn/EP8r/zP/Of9E/zb/S/9e/37/qP+3/8f/',
+  '6v8MACYAQgBuAGYAiACdAKEApgC4ANgA9QD+ABABKAFDAUoBMgH9AAYBIAEVAR8BMgE/AUcBTAFTAU8BTwFaAW8BiwGRAZ0BpAGuAb4BsQGyAbIBtgG7AcEB',
+  'zgHDAUcBvwAVATYBJgEYAQgB5ADXAMIArwCdAIsAeQByAGQAVABFADkAKQAeABIADAAFAP//+f/z//D/7f/l/97/0P/E/7r/s/+u/6v/qv+k/6H/m/+U/4//',
+  'if+G/4L/gP+A/4H/hP+I/4v/jv+Q/5H/lP+U/5X/lv+W/5f/mv+c/53/of+k/6f/qv+s/67/sP+0/7j/u/++/8L/xf/I/8z/z//T/9X/2//g/+n/8P/3//3/',
+  '/f8CAAYACQAPABUAHwApADEAQABJAFUAYwBxAH8AkACfAIUAqAA6AU0BDgHtAP0A+gAKAQEB2QDEALMAqwCoAKEAlgCRAIgAfwBvAFIAOQAsAAkA4f/M/8P/',
+  'sf+w/7H/r/+m/7D/uv/K/9v/+f8MABsAHQAYABwAKAA2ADIANwA/AEoAVABdAGYAbgB1AH0AhQCKAJAAlgCeAJ8AmgCZAJgAlwCYAJsAoACmALAAtwC+AMoA',
+  'yADLAOUA0wDlAOIA5ADqAPEA8wD6AP4ACQEPARUBHgExATABQgFKAV0BcwFnAVkBVQFTAU8BSwE2ATMBEAHzAOcA5wDyAP0A8gDIALQAtQC5AMcA0wDtAAcB',
+  'AwH6AOoA4gDWANAAygDEAMcAzADSANsAzwDSANAAuQCkAKEAmgCXAJAAigCBAHgAbgBiAFYATQBAADUALAAgABQAAgDu/9v/yP+4/6b/l/+C/3H/bv9f/0L/',
+  'Lf8Y/wb/+v7n/tf+2f7N/r7+rv6m/pr+jP5u/mz+Zv5s/mr+af5v/nf+ef55/oH+l/6n/sb+8f73/v3+Af/9/vn+Ev8O/yb/NP8//zf/Pv9P/2z/hv+F/6f/',
+  '2/8CABYAKwBWAGEAdwB/AHoAhAClAMgA2QDtAAQBGgEpASQBDwHdAOoA7QD4AAIBHAEkAS8BNQE7ATcBPAFFAWsBbwFyAYQBjgGaAacBoQGiAacBqwGvAboB',
+  'ugGeAekAywAcAS4BHgH+APUA0gDIALsApwCWAIMAdQBsAGAAUwBGADoALAAdABUACwAGAAIA+//x/+r/4//f/93/zv/D/7n/rv+o/6P/of+f/5z/mf+V/5L/',
+  'jf+I/4X/hf+F/4b/if+J/43/kP+S/5T/lf+U/5P/lP+U/5X/lv+Y/5r/nP+f/6T/pv+n/6n/rP+v/7L/tf+5/7z/v//C/8b/yP/K/8//0//Y/+H/6f/x//X/',
+  '9//6//7/AgAHABEAGgAlADEAPQBHAFYAZAB3AIQAkgCdAH0AkgAnAUMBAAHVAO4A/QALAfUA2ADDALMAqACqAKsApACbAJAAgABsAFIAOgAtAPb/5f/a/8//',
+  'wv+0/7T/tv+w/7X/uf/A/9L/7v/4/wUADQAXAB8AKgA4ADkAQwBOAFgAYwBvAHUAfQCFAIwAkgCXAJ0AogCkAKIAoACdAJsAmgCZAJoAnwCpALcAuQDAAMIA',
+  'yADGAOYA0QDYANoA3gDlAOYA7QDzAPkAAAEKAQsBEAEWATcBOAFIAVABVgFDATcBIQEUAR8BJwEoAR4B/QD1APkAAAERASABAwHZAMwAzgDSAN0A6QAFATYB',
+  'LwEaAQYB/QD3APEA7ADmAOsA7QD5AP4A7ADdANYAwQC5ALQAswCtAKUAnACTAIkAgAB0AGoAXQBSAEYAPgA0ACgAGQAHAPT/4//P/77/rP+Z/5H/hP9t/1X/',
+  'Qf8s/xv/C//3/uj+1v7B/rL+q/6i/pP+fP52/m/+aP5s/nD+av5x/ob+hP5+/oL+mv61/tD+8f7z/uv+5v7l/uX+9v4A/xf/I/8r/y3/Mf9B/1v/bv9v/5L/',
+  'vf/o/wkAGgBHAEgAUgBTAFsAcwCMAKcAvQDcAPgADQEEAfsAygDCAM0A9ADcAOsA7gAKARQBHQEpASYBMAErAVMBUwFaAWwBdgGBAZEBkQGSAZoBoAGkAbEB',
+  'qQFbAbcA7QAYAR0BEAHzAOMAygC9ALAAnwCQAHwAcABkAFkATQBEADgALQAeABQACwAFAP3/+v/w/+r/4v/d/9n/0//G/7n/r/+n/6P/n/+d/5n/lv+U/5D/',
+  'jP+I/4f/iP+J/4z/jP+N/5D/kv+Q/4//j/+R/5H/kf+R/5L/k/+V/5b/mf+c/5//oP+j/6X/qP+s/7D/tf+3/7r/vv/B/8P/xv/I/83/0P/U/93/4//p/+3/',
+  '8P/0//n//v8EAA8AGQAkAC4ANwBAAEwAWABrAHUAhwCYAGcAlQAGAT4B5ADOAOQA/wD8AOoAywC8AK8AqgCvAK8AqgCeAJUAhABuAE4ASQAtAP3/5v/X/87/',
+  'w/+6/7T/tP+y/7X/uf/A/83/4P/t//r/CgASACIAKwA6AEIASgBUAF0AbAB4AIIAiQCRAJkAnwCjAKYArQCuAKcAogCeAJ0AnACdAJ8ApACsAK0AuwC8AMAA',
+  'uADGAMYAyQDOAM8A1ADaAOIA6wDwAPYA/wADAQMBAwELAR4BOAE8AUcBRQE9ATEBKAEXARABIwEVAQUBAQEDAQ0BIwEmASEBCQHpAOUA5gDoAPIA+wAYAToB',
+  'SgE6AScBGQEUARMBEAEMAQ4BFgEdAQ8B+QDuANwA0QDMAMgAyADDALsAsQCmAJsAkQCHAHoAbwBlAFcATwBFADsALwAfAA8A+v/o/9T/wv+z/6X/l/9+/2r/',
+  'V/9D/zL/IP8P//v+5/7Y/sn+v/63/qP+kv6I/nH+Z/5n/mv+c/51/pD+lf6N/oP+nP67/s7+5/7p/tX+0P7W/tT+3f7w/vn+8P7r/uv+8/4Q/yb/Sv9z/47/',
+  'sP/W/+//BgAdACUAKAA5AE4AYQB2AI4ApgC/AN0A8wDfALIAmQCrALIAuwDAAMcAyQDpAPMAAAEQARABEAEcAS0BPQFDAU8BZQGEAYQBggGIAY0BkQGXAZYB',
+  'cQHxALEA9wARAREBAAHpANAAxACsAKIAmwCIAHkAagBdAFAARQA/ADUAKAAbABIACwAEAPv/8P/p/+T/4P/Z/9T/zf/D/7f/sP+n/6P/n/+c/5j/lv+U/4//',
+  'jP+J/4r/i/+P/5L/kf+R/5P/kf+S/43/i/+J/4f/jf+M/4//jv+P/5H/k/+Y/5r/m/+h/6X/p/+q/63/sf+1/7n/vf/B/8T/xv/J/8z/0P/V/9v/4P/l/+n/',
+  '6v/v//P/+v8BAAsAFgAhADEAQgBKAGQAYABqAHwAjACFAFQAwAD6AEAB9ADaAOAA5ADaANQAwgC1AK0AqwCpAKUAowCcAJIAgABgAFQAOwAVAPX/3v/P/8j/',
+  'xP+9/7j/tP+2/7b/uf/E/8z/2f/l//j/BwAcAB0ALwA+AEcAVgBfAGsAcwCAAIkAkwCdAKQArACvALEAtQCzAK0AqACkAKEAoQChAKIApQCoALIArAC0ALwA',
+  'sgC3AL8AxADHAMoA0ADXAN4A6ADxAPkA/wACAQAB/wAHARgBKAE2ATsBNAEsASMBHgEEARIBEwEOAQcBBwEPARsBKQEqASEBCQH5APsA+wAAAQUBDwEvAUUB',
+  'TAFJAT8BNwE3ATUBMwEwATQBLwEwAR4BBgH3AOcA3wDdAN0A3ADZANEAxgC6AK0AogCWAIwAfwBzAGkAYABWAE8ARQA3ACQAEgD6/+j/2P/G/7n/o/+R/37/',
+  'bP9a/0n/Nf8l/xH//P7r/tv+0P7E/rj+q/6N/oT+c/5r/mv+b/5w/nv+gv5+/m/+g/6k/rX+vv7B/q/+pv6n/q3+tv62/rT+tf67/sX+zv7k/gb/Iv9C/2v/',
+  'l/+9/9r/6//8/wsAFQApADwAUgBhAHYAiACpAMMAzACqAHEAhQCRAJgAowCoAK0ArADCANIA4ADxAPoABQEEAQ8BGgE0AT4BPQFXAXkBhAF+AXgBegF8AW8B',
+  'HAG3AMcA9wAFAf4A6gDXAMQAugCsAJwAkQCBAHQAaABaAE0APwA2ADAAIgAWAA8ABAD9//T/7P/k/9//2v/S/8j/w/+9/7T/rv+q/6b/ov+f/5z/mv+W/5L/',
+  'kf+O/5P/kf+S/5H/kP+Q/5D/lP+R/4//i/+G/4v/if+N/4n/i/+M/5D/kv+U/5j/mv+e/6D/ov+j/6j/r/+2/7r/wP/C/8P/xv/J/8//1P/a/97/4v/j/+f/',
+  '6f/q/+//9////wkAFgAjAC8APABJAFMAYQBxAH4AgABfAHUAzwD4AC0BAgHdANEAygDFAL0AtgCyAK0ArQCnAJ8AmACHAH0AZwBYAE0AIAD+/+H/zv/G/8P/',
+  'wf+6/7f/tP+3/7j/uv/B/8z/2P/l//T/BQARADEAQgA/AE8AXQBvAHsAiQCTAJ4ApQCrALIAtQC3ALoAuwC4ALMArwCsAKkAqQCmAKcApwCyAK4AqgCsALIA',
+  'qgCwALYAugDAAMkA0gDbAOUA7ADyAPkA/QD/AAABAwEKARABHAElATUBNwEvARMBFQEWARgBGAEZARoBFgEZAScBLAExASYBEAEKAQ4BEgEYARsBKQE/AVIB',
+  'WQFbAVUBVgFZAVkBVgFUAU4BSQEzASEBDQH8AO4A7ADsAOwA7QDoAOEA1wDLAL4AsgCmAJoAjwCEAHgAcABqAGMAXABQADwAJwANAAAA7v/e/8r/uf+n/5X/',
+  'hP9x/2D/TP87/yb/Ev8B//D+4/7X/sn+uv6x/p3+jf6D/nz+dv5y/nD+cf5q/mr+b/51/n/+hf6D/n/+f/6B/o3+lP6c/qP+sP65/sj+0v7c/uj+/P4O/yr/',
+  'R/+V/73/0P/e//b/CQAeAC4AQABPAF8AdgCdALoApgBhAFsAaQB1AIIAigCMAJIAkwCdALMAuwDMAN4A9AD7AP0ACgEXASEBJgEyAUcBYwFwAWwBWQFJARsB',
+  '6ACqANgA8QDxAOUA0ADDALMAowCiAI4AiQB6AGwAXgBVAEUAPAAzACcAHwARAAoA///1//H/5v/f/9v/1f/M/8H/vf+4/7H/qv+l/6L/of+f/5z/mf+U/5H/',
+  'jP+O/4//kP+P/47/jf+N/4//j/+S/4z/i/+L/4f/hv+I/4j/h/+M/5H/lP+U/5f/m/+d/5//oP+k/6f/rf+w/7T/uP++/8L/x//M/9D/1P/Y/9//4v/j/+T/',
+  '5v/q/+//9P/8/wcAFQAiADEAPABJAFQAYgBuAHcAcABbALkAzwD4AA4BBgHlAMYAuwC0ALEAsQCvAKoAqACsAKoAmQB/AHEAXABHACkADwDx/97/0//L/8f/',
+  'xP+//7z/uP+3/7v/vf/B/8n/1//k//P/BwAUACYAOABKAFsAaAB2AIUAjwCbAKYAsAC3AL4AxADFAMMAxADBAL0AuQC0ALUAswCxAKwArACvAK8ArACnAKoA',
+  'pwCrALAAtADAAMsA1QDgAOcA6gDtAPQA+QD/AAYBBgEGAQ0BEQEPASEBHgEmASEBGwEpAS8BKgEmASgBJQErAS4BMgE2ASoBHgEcASMBLAE1ATkBQgFVAWwB',
+  'cQFvAXIBeAGDAYEBeQFqAWQBSgE6ASgBFQEBAfsA9gDyAPMA8gDyAOoA4QDZAM8AwgC2AKkAngCTAIkAgQB6AHYAcgBnAFAAMgAkABIAAwDy/+L/0v++/6z/',
+  'mv+H/3f/Y/9S/z7/Kv8Y/wb/+P7p/tv+zf7A/rL+qf6k/p3+kv6K/of+fv59/nr+e/5//oH+e/5//oD+h/6O/pX+nf6m/q7+uv7C/tD+2v7l/vD+/P4J/x3/',
+  'L/9K/3n/qv/B/9z/9/8VACYANwBDAFgAfACHAI0AdgA4AEIAUABbAGcAegBxAHcAeAB+AIwAnQCsAMEA1ADfAPEA+wABAQoBEgETASIBPAFPAUkBLQHlANYA',
+  'xADWAOcA5wDgAMoAuACpAJsAlQCQAIAAdQBwAGQAUgBLAD0ANwAxACgAHwATAAgA/v/0/+z/4v/Z/8//yf/E/7//uP+x/6z/pf+g/5z/m/+a/5f/lP+U/5D/',
+  'i/+J/4n/i/+K/4r/if+K/43/i/+K/4r/iP+E/4f/g/+E/4X/hv+J/43/kP+V/5j/nP+d/57/nf+h/6X/qP+s/7H/uP+9/8L/yf/O/9T/2f/e/+P/4//l/+f/',
+  '6f/r//D/+f8AAAoAFQAhAC0AOQBEAFAAXABrAHAAXwB8AM4A0AD9AP0A5QDJALMArgCsAKkApgCjAKYAqQCkAJkAkAB6AGIAUQAqABcA/P/q/9//1//Q/8v/',
+  'x//C/73/uP+5/7v/vv/D/8v/1v/n//f/BQAZACkAOwBJAFkAawB6AIcAlQCgAKgAswC8AMUAzgDRAM8AzwDNAM4AywDDAMMAwQDAALoAuAC0ALEAqQCkAKIA',
+  'pgCqALAAugDCAMoA0gDYAOEA4wDpAPEA+wD/AAQBEgEKAQ8BEQENARYBJgEjAR4BJQEzAToBOgE5ATYBOgE2ATkBOgFCATcBLQEvATgBQwFSAVwBZgF0AYAB',
+  'hAGHAZkBlwGZAZYBiwF1AWcBUQFDATIBHgEPAQgB/wD7APkA9wD2APMA7gDoAN8A1ADIALoArQCiAJYAjwCMAIYAiwB6AFoASgA4ACsAGgAJAPv/6f/W/8T/',
+  's/+g/5D/e/9r/1b/Q/8x/yD/Dv///vD+4v7U/sf+vP60/q7+q/6o/qP+nv6X/pX+k/6S/pX+j/6V/pb+nf6f/qb+q/6x/rn+wv7L/tb+3/7q/vX+AP8O/yD/',
+  'MP8//1T/Zv+L/7H/2v/5/w8AHgAnAEMAQQBBAEcAQAAZACkANgBBAEoAUwBXAFwAWwBmAG4AewCGAKcAuQC8ANQA7wD7APkA8QD5AAUBGwEsASQBAwHdANAA',
+  '0ADjAOYA2QDMALUAngCOAIUAgABvAHcAegBZAFEASABAADQALAArACcAHwATAAcA/f/z/+n/4f/X/8z/wf+5/7b/s/+s/6L/n/+a/5X/lP+T/5H/kP+P/4v/',
+  'if+I/4n/if+L/4j/hv+F/4b/hf+I/4j/h/+D/4H/gf+A/4P/hP+H/4r/jv+T/5f/nP+c/57/nv+f/6L/pf+p/63/sv+3/7v/xP/L/9P/2v/g/+X/6P/p/+v/',
+  '7v/x//X/+v8BAAoAFAAeACoANgBBAEsAWgBnAG0AWACPAMcA0QD1AO8A1AC7ALAAoQCcAJgAngCXAJAAkgCWAJUAhABuAFYAKwAVAAgA9f/n/97/2f/S/83/',
+  'x//A/7z/uf+7/73/v//E/83/1//i//f/BgAYACoAQABQAF8AbQB9AIwAmACkALIAvADFAM0A1gDcANsA2wDbANgA1gDUANIA0QDKAMkAwgC7AK0ApACfAKQA',
+  'qACuALQAvQDCAMYAzADSAN0A5QDvAPkAAwEIARsBCgEUARABEwEhASQBJQEqASkBLwFEAU8BSwFEAUcBQAE+AUMBQwFCAUIBQAFCAUgBVgFpAXcBggGOAZQB',
+  'mAGcAaoBowGcAZMBjwF4AW4BXwFLAToBLAEhARYBDgEHAQMBAAEBAf4A+gD1AO4A5ADXAMkAvgCxAKYAoACdAJYAmQCBAHAAXwBQAEAAMQAiABMAAADv/93/',
+  'zf+7/6r/lf+E/3D/Xf9L/zj/Jv8W/wf/9v7q/t7+0f7H/r/+t/6y/q7+qP6j/qD+nv6f/p/+nv6f/qP+p/6r/q7+tv67/sL+yf7R/tr+4v7r/vP+AP8Q/xn/',
+  'J/85/0v/YP9t/33/mv/B/+X/9v8IABMAEAAbAAgA9/8BABIAHQAqAC4ANQA9AEEARABJAFIAXgBuAIIAmwCbALYA0gDgAN0A2wDgAO0A6QD7APYAxQDVAMoA',
+  '2ADdANEAwgCsAJsAggB0AG4AYwBXAE4AYABTADsAOgAyACoAIgAdABoAGAANAAcAAAD2/+3/4v/V/8f/vf+0/6//qv+m/6H/mv+W/5P/kP+N/4v/if+H/4X/',
+  'hf+E/4H/gv+D/4X/hf+E/4X/hv+G/4b/hP+C/3//f/9//4H/hP+H/4r/jf+R/5X/mP+Z/5v/nP+f/6H/pf+r/7H/s/+2/7v/wP/H/9H/2P/e/+T/6P/t/+//',
+  '8//2//v///8FAAgAFAAgACwAOQBDAE8AXQBnAGoAXQCCAKoAzQD0AOMAywC5AKwAnwCQAIsAigCNAIYAewB/AIMAfgBrAE0AIwANAP7/8P/l/93/1P/P/8r/',
+  'w/+9/7n/t/+4/77/wf/F/8//2v/l//P/BgAZACoAQABSAGEAcAB/AI4AnQCqALYAvwDIANAA2QDhAOkA5wDlAOMA4gDeAN4A2gDaAMwAxgC+ALoArwCqAKgA',
+  'rwCwALcAvADBAMQAyADQAN0A7AD4AAABCAEKAQUBFwEWASABJgElASYBJgEqAS4BPwFVAV4BWQFVAU0BSgFJAVYBUQFMAUsBUAFYAWABbgF+AYwBmQGkAaoB',
+  'rAGuAacBoAGaAZUBkQGEAXkBaQFbAU4BQAEyASgBHwEWAREBDwELAQUBAQEAAf0A8wDoANwAzgDDALgAsgCqAKoApACTAIMAdQBkAFgASQA6ACkAGAAKAPr/',
+  '5//V/8L/r/+c/4j/dv9j/1H/P/8u/x7/Dv8C//X+6P7c/tL+yf7A/rr+tP6v/q3+qv6r/qr+qv6r/q7+sP6z/rf+vP7C/sn+0P7X/t/+5f7t/vn+Af8O/x7/',
+  'Lf89/0z/Wf9m/2n/ef+L/7b/7P/v//b/AAAIAAIA6f/r//n/BgAOABQAHAAhACYAKQAxADsASQBUAGUAdgB6AJkAsAC6AL8AwgDFAL0AmgCBAKAAtwC+ALwA',
+  'zQDKALoAqQCYAIAAagBdAFIARQA+ADwANwAwADwAGwAfABoAEwAMAAkACAACAP3/+P/v/+n/4f/W/8j/u/+u/6f/oP+c/5n/mf+T/47/jP+I/4X/hf+D/4L/',
+  'gP9//3//f/+A/4H/gv+E/4b/hv+H/4f/g/+B/3//f/+B/4L/hv+I/4v/j/+S/5X/l/+Z/5n/nP+e/6L/pv+s/7D/s/+2/7n/v//H/9L/2v/h/+b/7P/w//T/',
+  '9f/5//z/AQAEAAoAFgAhAC0AOABFAFEAXgBrAG4AYACGAK0A1wDpAOMA4wDTALoApACTAI0AhQCDAIcAiACEAIIAegBgADMAEgAEAPz/8P/m/93/1P/N/8b/',
+  'wP+6/7b/tf+2/7z/xP/M/9T/4P/q//X/AQAVACoAPwBRAGAAcACBAJAAnQCrALsAxADRANoA4QDpAO8A7wDtAOgA6ADoAOgA3wDdANsA2wDIAL0AuACzAK8A',
+  'qgC0ALcAvwDDAMcAzgDZAOgA9gABAQsBDgEPASEBHwEgASIBJgEmASgBKwEuATgBRgFcAWMBYgFaAU0BTAFMAUwBRwFNAVoBaAFxAX8BiwGTAaEBqwGrAbIB',
+  'tQGqAaoBpQGgAZoBmQGQAYcBdAFsAV8BUAFFAToBLgEmAR0BGwEWAREBDwEMAQgBAgH5AOsA4ADVAMsAwQC/ALkAsQCkAJcAiQB+AG8AXwBQAEEANgAlABMA',
+  'AQDv/9z/yf+2/6L/j/98/2v/WP9G/zb/Jv8Z/wz/AP/y/ub+3P7Q/sr+w/69/rn+uf62/rj+uf64/rr+u/69/sH+xf7K/tH+2P7e/uP+6v7z/vz+Cf8V/yH/',
+  'Lv87/0j/VP9e/2L/Z/90/4v/xf/p//L/9v/9/+f/0v/W/+D/7f/x//n/AQAIAAoAEAAZACQALwA4AEcAUgBeAH0AkACaAJ4AogCyAKMAgACFAKgAnwCaAK0A',
+  'vQC3AKYAlgCCAHQAZgBJAD8ANgApACsAIAAYABcAJwATAAQAAwD6//b/9f/x//H/6f/h/9z/2f/N/8X/tv+t/6D/mP+T/5L/kv+Q/4v/hv+D/4D/ff96/3r/',
+  'ev98/3r/ef98/33/fv+B/4L/hf+G/4f/h/+D/4H/gP+B/4X/iP+L/43/kf+U/5b/mf+Z/5v/nv+g/6T/qP+r/7D/sv+z/7b/vv/O/9X/2v/f/+X/6v/u//P/',
+  '9//8////BAALABIAGwAnADMAQABNAFoAZwBvAG8AcQCdALkA1gDdAOEA8ADpAMYAowCNAIgAfwB/AIcAfgB8AHAAXgA0ABUABgD9//b/7//l/9//2f/S/8r/',
+  'wv+5/7T/sv+0/7n/wv/M/9X/3v/p//X/AwAVACoAPgBQAF8AbwB/AI4AoACvAL0AywDWAN4A5wDzAPUA9AD0APMA8ADtAOoA5gDlAOAA3wDMAMkAxQC7ALEA',
+  '7ADWANcAwwDKAM8A2ADlAPAA+QACAQcBEgEaARwBHgEfASUBJgEpAS0BMgE6AUUBVQFfAWEBXAFZAVABSQFLAU4BUgFjAXIBfgGPAZsBoQGpAbQBuAGxAbQB',
+  'swGrAawBrAGrAaUBoAGVAZIBhQF2AWwBYgFbAU4BQQE2ASsBKAEkAR0BGwEZARUBDwEHAfwA8gDmAN0A2QDRAMkAwAC1AKoAoACTAIUAdgBjAFkASwA6ACoA',
+  'GAAGAPP/4f/O/7z/qP+U/4H/b/9f/0v/Pv8w/yL/FP8G//v+7v7k/tz+0/7N/sr+yP7F/sP+xv7H/sj+yP7K/sv+z/7V/tv+3/7l/ur+8f75/gT/D/8X/yH/',
+  'Lv86/0b/UP9Z/17/Zv9n/2//jP/I/+3/8//v/83/u/+9/8X/0P/Z/9//5//s//P/+v///wkAFQAiACwAOQBJAFcAawB2AH8AjgCYAJYAawBaAGEAcQCNAJ8A',
+  'mQCTAIkAfwBxAGYAVQBIADUAKgAaABAABgAEAAEA9/8BAP//7//q/+f/5v/c/9z/1//R/8v/xv+//7n/sP+o/5z/lv+O/4v/jP+J/4X/f/96/3v/eP94/3b/',
+  'dv92/3b/d/94/3n/fP9//4H/hP+G/4j/iP+G/4T/hf+G/4j/iv+N/4//k/+W/5n/m/+b/53/nv+i/6T/p/+q/6v/rv+0/7b/tv/C/83/z//W/9z/5P/s//H/',
+  '9//8/wUADgAWAB8AJwAxADsARwBRAFwAZwByAGsAdgCdAKsAyQDUANkA5wDjAMEAnQCNAIUAfgB7AHwAegB0AGEAOgAXAAkAAQD6//P/7P/l/+L/4P/b/9P/',
+  'yv+//7j/s/+0/7j/wP/L/9X/4P/t//r/BwAaAC8AQABQAGEAcgCAAJAAoACxAL8AzADaAOMA7AD2APsA+QD5APgA9ADzAO4A7QDqAOcA3wDcANYAygDGAMQA',
+  'vADMANQA0wDUANoA5QDvAPUA+gAIARMBFgEYARQBHAEiASYBKwEvATYBPAFGAU0BTgFRAVUBTwFRAVABSgFNAVMBYgF2AYsBlgGtAbEBtQHAAcYBtgGzAbQB',
+  'tQGxAbIBtAG1AbEBqgGnAaMBlgGGAXsBcQFrAV0BTgFDATsBMwEvASkBJwEjAR8BGgETAQsBAAH4APMA7ADhANkAzwDGALsAsQClAJQAggB4AGoAWwBMADwA',
+  'LAAbAAkA9v/k/9H/v/+s/5f/h/91/2H/V/9H/zj/Kv8d/w//BP/4/u7+5v7f/tr+1v7T/tH+0v7U/tT+1P7W/tn+2v7g/uX+6v7v/vH+9/4A/wn/Ev8Z/yT/',
+  'MP87/0b/Tf9a/17/Yv9q/2v/c/+m/8z/1//N/67/qf+v/7X/u//A/8n/0P/U/9j/3//j//H//P8GABQAGgArADMASQBTAF8AbwCAAHUAaAB7AIcAkQCUAI8A',
+  'iQCEAHwAdgBnAFcAQgArABoAEwAEAPn/6v/n/+b/5f/g/9//4//Z/9P/1f/Q/8v/xf/E/73/tv+u/6f/pP+c/5b/j/+K/4b/g/+B/3v/d/90/3H/cv9x/3L/',
+  'cv9w/3H/cv91/3b/eP97/37/gf+E/4j/if+K/4v/jP+M/43/j/+R/5T/lv+Z/5v/nP+d/57/of+j/6b/qf+s/7H/s/+1/7n/wf/J/8r/z//W/93/4//p/+//',
+  '9v/+/wgAEgAYACEAKwA0AD4ASABRAFsAZgBwAGUAdQCSAKgAxwDIAMsAywC9AKEAjgCCAH8AdwBzAHUAcwBaADgAIwAOAAUAAAD3/+7/6v/p/+b/5P/h/9z/',
+  '1P/K/8H/u/+4/7v/wf/J/9P/3//s//j/CQAgADMARABUAGIAcAB+AI4AoACwAMAAzADYAOMA7gD4AP4A/AD9APwA+AD0APAA6wDqAOQA4QDeANQA3ADQAL4A',
+  '0ADTANQA0wDVAN0A5gDxAPMA/QAIAQ8BEgETARkBGQEmASkBMQE6AT8BQQFHAUkBTgFQAVABTAFNAUwBUAFWAV8BegGLAaEBtwHGAckByQHOAcgBvQG8Ab0B',
+  'vQG6AbkBuQG3AbMBsAGsAawBowGXAYoBgQF0AWUBVgFKAUQBPQE3ATIBLgErASoBKQEiAR0BFQENAQQB/ADyAOgA3wDWAMsAvgCwAKMAlwCGAHkAagBaAEwA',
+  'PQAsABsACQD3/+T/0//A/67/nv+L/33/cP9f/0//QP8y/yT/F/8L/wH/+v7w/uv+5v7h/uD+3/7h/uD+4v7i/uT+5v7q/u3+8f71/vf+/f4F/w7/F/8e/yf/',
+  'Mv89/0X/Tv9W/1j/Xv9i/2n/av9+/5//r/+i/5X/pv+n/6P/p/+u/7b/uP/A/8f/xv/N/9f/4//x//f/AgAOAP3/FAAzAE4AWwBfAGsAaABvAHQAbwBqAGYA',
+  'ZwBiAF0AYgBcAEAAIQANAP7/6//d/9b/0v/M/8n/yP/I/8n/yP/X/8n/vf+6/73/uf+4/67/q/+j/5//mf+T/47/i/+G/4T/fP94/3T/cf9v/2z/av9t/3H/',
+  'bv9v/3H/c/9y/3T/d/95/33/gP+F/4n/jP+O/4//j/+Q/5H/kv+U/5X/mP+b/5z/nf+e/5//ov+l/6b/qP+t/7D/tf+8/8D/xv/K/87/1f/Y/9z/4v/n/+7/',
+  '9P/+/wgAEgAaACEAKgA1AD8ASABTAFwAZABrAGcAewCLAKcAtQC0ALwArwCgAJEAiAB5AHIAcgBvAG8AYwBAADgAGAAJAAYA///2/+z/6f/p/+b/5P/h/9//',
+  '2v/R/8r/xP/A/8H/x//L/9T/4P/u//v/CgAdADIARQBUAGQAdACEAJMAowCyAL8AzgDbAOYA7gD4AAEB/wAAAQIB/wD5APcA9QDxAO4A6QDoAN8A2gDjAN4A',
+  '1ADUANYA2ADfANsA5QDsAPcAAQEFAQcBDAESARoBHQEmASwBNwFAAUUBSAFMAU8BTQFNAU0BTAFNAU4BVwFhAXwBiAGnAbcBzgHRAdIB0AHQAcwByAHFAcYB',
+  'yAHOAcoBwAG9AcEBvgG2AbABrAGjAZwBkgGDAXMBZAFWAUoBQgE+AT0BOgE3ATYBNgE1AS8BKAEeARYBDAEFAfwA8ADlANYAygC+ALIApACWAIkAeABqAFoA',
+  'TAA8ACwAGwAJAPn/5v/T/8L/sP+i/5P/gv9z/2P/Vv9H/zn/Lv8f/xX/Df8E//z+9/7x/u/+7v7v/u3+7/7u/u7+7v7y/vb++P78/v/+Bf8M/xT/Gv8i/yv/',
+  'NP8//0f/UP9V/1T/WP9e/2L/Z/9u/3f/ff98/4T/iv+K/5H/lv+f/6P/p/+t/67/tP++/8b/1P/d/+f/5P/G//n/KgA0AE0ARAA3ADIANQA5ADYAMQAuACYA',
+  'IAAeABsAGgAOAP//8v/i/9f/zf/D/7z/tP+w/63/q/+s/63/rv+w/6//tP+7/7H/rP+r/6T/oP+Z/5P/jf+J/4f/gf9+/3r/dP9v/2z/a/9q/2n/Zv9i/2P/',
+  'aP9o/2v/bv9w/3H/dv96/33/gv+G/4r/jP+O/5D/k/+U/5X/lf+Y/5r/nP+e/57/n/+f/5//ov+l/6f/q/+s/7D/tv+6/77/wv/J/9H/2P/b/97/4v/p/+7/',
+  '9v/9/wQADAAWAB8AJwAxADoAQABIAFkAaABvAGwAhgChAMIAvQCyAKkAnwCTAIgAewB3AHcAcQBuAGwAVwAyAB0AEAADAAEA/P/x/+j/5P/h/9//2//a/9z/',
+  '3f/c/9T/z//O/9D/1P/Y/9//5P/w////DgAdADAARABWAGcAdgCGAJYApgCxAMAA0ADcAOcA7wD5AAMBBwEGAQUBBAEDAQEB/QD9APkA+ADzAO0A4QDaANcA',
+  '4QDXANUA1ADZAN8A5gDwAPIA+gD+AAQBCwERARMBHQEjATABOgFAAUQBSAFKAUsBSQFJAUoBTwFNAVcBYwF5AZABoQG9AccBywHJAckBxAHIAcIB0QHLAbcB',
+  'zwHYAdMBvwHaAQcC9gHZAbwBsAGrAaYBnAGOAYEBcAFhAVgBUQFFAUYBSwFUAVQBSwFHAUABOAEtASUBHwEWAQoB/gDwAOMA2ADLAMAAswCnAJcAiAB4AGkA',
+  'WgBKADoAKQAYAAcA9//m/9T/xf+1/6T/kv+D/3X/aP9c/0//Qv8z/yr/IP8X/w//B/8B//3+/P76/vn++P74/vf++f77/v3+AP8D/wb/DP8S/xn/H/8n/y//',
+  'Of9B/0n/UP9T/1D/Vv9c/2D/Zf9n/3T/d/93/3j/ef98/4L/if+N/5L/lf+X/5v/o/+t/7T/v//Q/9L/y//n/yQAIwA0ADoAGgAIAAYABQAJAAYAAQD9//X/',
+  '7f/k/9v/2v/Y/9P/y//B/7b/rv+p/6L/oP+a/5n/l/+W/5f/mP+b/53/nv+f/5//pP+d/57/kv+N/4r/hf+B/4D/eP94/3f/bv9o/2b/Y/9j/2P/Xv9e/1//',
+  'ZP9n/2v/a/9r/3D/dv96/37/gv+F/4v/jv+S/5T/lf+X/5j/mv+b/57/n/+h/6D/oP+g/6H/of+j/6b/qP+q/63/sf+3/8D/x//H/8r/0P/Y/9z/4P/m/+r/',
+  '8//7/wIACAARABgAJAAtADYAQgBMAFUAYgBsAHEAlQCwAOUA6gC8AKEAlwCQAIIAdQB1AHcAdABuAGcAVwA2ACwAFgAEAP7/+f/w/+b/3//b/9f/1//b/9z/',
+  '3//c/9b/0v/Q/9b/2//f/+X/6//z/wIAEgAhADIARgBZAGgAdwCFAJIAnwCtAL0AywDXAOQA7wD5AAEBCgEOAQ0BCQEKAQUB/QD3APYA8QDrAOgA6QDjAOQA',
+  '5ADeANoA2wDdAOQA7AD6AAUB+AACAQMBBAELAQ4BGgEiAS4BNAE6AT8BQwFGAUUBRgFKAUwBUAFVAWIBdwGTAZoBsQG/AcYBwQG9Ac8BsgHAAbcBrgGvAbgB',
+  'xAHQAc4BvgG+Ac4B3wHcAcYBswGvAagBngGTAYgBeQFtAWMBYAFVAVgBbAF3AXcBbQFlAVkBTAE8ATMBKgEfARQBBwH9APIA5ADZAM0AvgCxAKQAlgCHAHcA',
+  'ZwBWAEcANwAlABYACQD4/+j/2P/H/7f/p/+X/4j/e/9t/2D/Uv9G/zz/Mv8p/yD/Fv8R/wr/Cf8F/wL/Av8A///+AP8C/wP/B/8J/wv/Ev8X/x7/Jf8r/zT/',
+  'O/9D/0v/Uv9V/0//Vv9a/1v/Yf9f/2v/e/+F/3//cf9x/3P/ef9+/37/gf+H/43/kv+V/6j/uP+9/7r/s//b//H/CwAJAPf/7P/o/+f/6P/m/+X/4f/f/93/',
+  '0f+//67/rP+l/6H/n/+e/5n/lP+N/4v/if+H/4X/iP+I/4b/hv+F/4b/iP+J/4n/jf+K/4v/iP+F/37/e/93/3T/c/9x/2z/af9m/2D/XP9a/1r/Wf9b/17/',
+  'Xv9g/2X/af9t/2//dP94/33/gf+I/4z/j/+Q/5H/lP+X/5r/nf+e/6D/of+i/6H/of+g/6H/n/+i/6P/pf+n/6r/r/+1/7j/vP/D/8T/yP/O/9P/2f/i/+v/',
+  '9P/8/wEABgAMABUAHgAqADAAOQBEAE0AVgBaAGIAhwC0AMkAyACvAJ4AkQCCAHkAdAB0AHEAdAByAHIAXwBEADgAJgAQAAEA+P/x/+r/4//c/9n/2P/Z/9r/',
+  '4f/m/+T/3//e/+T/5//p/+7/9f8BABAAHQAsADoASgBbAGkAeACJAJQAoACuAL0AywDXAOEA6wD2AAEBCAESARQBEQEQAREBDgEKAf0A+ADzAPEA7ADoAOUA',
+  '6QDlAOIA4QDiAOgA7gDyAAQB+QAIAQQBBgEPARkBHgEnASsBMwE/AUMBRQFEAUkBTAFMAVMBVgFhAXQBigGQAZ4BswG0AbgBswGxAasBrwG1AbkBtQGxAbcB',
+  'uAHBAcYBvwG+AcEBwQG9AbkBtwGxAaoBoQGXAY0BgQF4AXEBawFjAWcBggGLAZABjgGCAXUBXAFIAT4BNQEpAR4BEwEJAf4A8QDlANcAyAC6AK4AnwCRAIIA',
+  'cgBiAFIAQwAyACQAFwAIAPf/5v/W/8j/t/+o/5r/iv99/2//ZP9X/0z/Qf84/y//J/8g/xr/Ff8Q/w3/C/8J/wf/CP8I/wr/DP8P/xL/F/8d/yP/Kf8w/zb/',
+  'Pf9E/0r/Uf9V/03/Uv9W/1n/X/9d/2P/bP92/3n/cf9q/2r/bP9q/2v/b/91/3n/gP+O/5j/p/+t/5b/oP/D/+D/2f/S/83/xv/K/8v/zP/M/8j/zP/N/9X/',
+  'z/+y/4//if+D/3//ff95/3j/d/91/3T/dP9z/3L/cv90/3b/df9w/3D/b/9x/3X/d/96/3n/ef93/3P/df94/3P/a/9n/2T/Yv9f/1z/Wf9Y/1X/U/9U/1b/',
+  'WP9c/2D/Zv9q/2z/cf94/3//g/+H/4r/jf+S/5T/mP+b/53/nv+e/5//ov+i/6D/oP+e/5z/nf+e/6D/of+i/6T/qP+u/7P/t/+7/7z/wP/H/87/1f/e/+n/',
+  '8f/1//n///8IABAAFwAgACgAMAA7AEMASQBFAG0AlgCcAK4AsQCdAJgAiwB0AHMAcwByAHIAcQBvAG4AZABUAEIAMgAmABYACQAAAPf/8P/s/+n/5P/j/+T/',
+  '6//z//X/9f/5//3//v8CAAgADwAYACEALQA6AEgAVQBkAHAAfgCMAJoAogCvALsAxwDSANwA5ADxAPkAAAEGAQ8BFQEZARkBEAEKAQYB/QD2APMA8ADtAOsA',
+  '7gDsAOkA7QDxAPYA9QDyAPsA6AD+AAcBDQEVARwBIQEoAS8BNwFDAUcBSwFNAU8BWAFWAV0BYgFwAX4BhQGLAacBoAGmAagBqgGuAaYBsQG4AbwBvgG6AbYB',
+  'twHAAcMBwgHCAcIBwQG+AboBtQGuAagBngGVAY0BggF6AX4BeAFxAXQBeAGJAZoBmAGRAXgBYwFVAU0BQQE4ASsBIAEXAQgB+wDtAN8A0ADDALUApwCYAIkA',
+  'egBsAF4ATgA/ADEAIQASAAIA8P/j/9P/xP+1/6f/mv+L/3//c/9m/1r/T/9F/z3/Nf8s/yj/If8c/xj/Fv8R/xD/Dv8O/xD/Ef8T/xb/G/8g/yb/K/8x/zX/',
+  'PP9C/0j/Tv9S/0r/UP9U/1r/W/9a/1T/Vf9e/2L/dP9p/1//X/9h/2H/Yv9l/2z/df+E/4v/lf+Z/5L/sf+o/8L/tv+w/7D/s/+3/7r/uf+5/63/pv+k/6j/',
+  'oP+L/3T/av9h/1z/XP9b/1r/XP9d/1z/XP9f/17/X/9i/1//X/9f/1z/XP9b/13/YP9l/2n/a/9u/27/Zv9g/2D/Zv9e/1v/W/9Y/1P/Vv9W/1T/VP9T/1P/',
+  'U/9V/1j/W/9i/2j/bv91/3v/g/+J/43/kv+U/5b/mP+Z/5v/nv+f/6H/ov+h/6D/nv+d/5z/m/+Z/5r/m/+f/6L/pP+o/6//tv+7/77/vv/B/8b/zf/W/+H/',
+  '5//v//T/+f8CAAsAEgAbACMALQA3AD0AOAA6AGYAkwCjAKkAoQCSAIEAdwB0AHIAbQBtAHEAdAByAHEAbABnAGAAVgBIADcAHwAGAP3/+f/6//n/9//3//r/',
+  'AAAHAA4AEgAPAA0ADQASABsAHwApAC0AOAA/AEQASwBeAHUAfgCHAJMAoACvALwAxADNANYA4QDqAPEA+QACAQoBDQESARQBEgEKAQgBAQH+APsA+AD0APEA',
+  '+gD4APkA9QD2APgA9QD7AOwA9wD7AAkBBwEOARwBKQEzATsBQAFFAUwBUgFWAVoBXwFfAWUBbwFzAXwBeAGVAZEBkgGWAZcBogGsAbABuwHCAcIBwgHBAb0B',
+  'wQHEAcUBxAHBAb0BvQG7AbgBsgGsAaQBmgGTAYkBfgF3AXIBagGGAZQBgwFxAYQBlgGPAXYBbwFrAV4BSgFAATQBKAEgARABAQHzAOUA2ADKALsArACeAI4A',
+  'fwByAGQAVgBIADkAKgAZAAoA+v/q/9z/zv/B/7P/o/+Y/4v/fv9z/2j/XP9S/0n/QP83/zD/K/8n/yT/Hf8a/xf/FP8T/xT/E/8V/xn/HP8g/yP/KP8u/zP/',
+  'Of8+/0P/Sf9N/0f/S/9Q/1X/VP9V/03/TP9R/1f/Vf9X/1j/WP9V/1f/Wf9b/2L/a/90/33/gP+S/6D/hf+f/6n/oP+a/5v/nf+d/5r/lf+K/4L/fP90/2j/',
+  'Wv9Y/1f/Z/9T/z3/Ov9A/0P/Rf9F/0P/RP9G/0b/SP9I/0f/S/9L/0f/S/9K/0n/Sv9M/1P/Wf9b/13/Xv9g/1z/Vf9Y/1v/Vf9O/07/Tv9S/1b/Uf9Q/03/',
+  'Tv9P/1H/Vv9a/2L/av9x/3j/f/+D/4n/jP+S/5b/mv+c/57/oP+f/5z/nP+a/5j/lv+W/5X/lf+W/5j/mP+a/57/ov+l/6r/sP+1/7r/vP+9/8H/xv/M/9X/',
+  '3v/l/+v/9f/8/wQACwAVACAAKQAxADcANAA4AGQAhwCeAKEAiQCBAHIAaABoAGkAaQByAHkAggCBAH8AfAB3AHAAaQBcAE4APgAsACIAIAAZABYAGAAWABcA',
+  'IAAtADwAQAA5ACIAHAAhACgANAA5AEQASwBXAGQAbwBwAHwAiwCWAJ4AqQCzAL0AxwDMANMA2gDiAOsA9gD/AAQBBwELAQ0BEAERARABDQEKAQgBBAECAf0A',
+  'CAEBAf4A/AD8APcA+wD/AAEBAAEMAQ0BEAEnATUBOAFAAUQBRgFRAVUBVgFaAWEBZAFnAXMBdQF3AWgBgAGMAY0BigGPAZkBpQGxAbwBxwHNAdAB0gHRAdIB',
+  '0QHNAccBwwG+AbsBuwG4AbcBrwGsAZ4BmQGRAYgBgAF8AXYBcQFoAWsBcQFuAWsBWwF5AYIBewF4AW4BaAFOATcBLgEgARYBCgH7AOwA3ADMAL0ArwCgAJIA',
+  'hQB3AGkAXABNAD0ALQAeABAAAQDz/+X/2f/K/7z/sP+i/5X/iP9+/3P/Z/9c/1L/SP8+/zf/Mv8v/yn/JP8e/xr/Fv8U/xP/EP8V/xv/H/8j/yX/Kv8t/zL/',
+  'Nf84/z3/Qv9F/0T/Rf9K/07/Tv9S/0r/SP9K/1D/S/9J/03/T/9Q/1D/UP9R/1n/Yf9n/3f/if+H/3b/c/+O/4z/iv+H/4D/ff94/3b/bv9i/0r/PP8z/y//',
+  'Lv8s/y3/Kv8j/x7/Hf8i/yj/LP8u/yz/K/8t/y3/Lf8v/zP/Nf85/zv/M/8w/zf/PP88/z//Q/9G/0z/T/9R/1L/Vf9S/03/T/9Y/1L/SP9H/07/Sv9I/0n/',
+  'Sv9K/0z/UP9W/13/Zf9s/3T/ev+B/4f/jP+R/5X/mP+Z/5r/mv+Z/5j/mP+Y/5X/k/+T/5T/k/+S/5H/k/+W/5n/m/+e/6b/rv+z/7T/tv+2/7r/v//D/8z/',
+  '1P/c/+P/7P/0//3/BgAQABgAIgAtADYAMgAuAFwAiQCVAJQAfgBsAGgAYgBkAGQAbAB7AIUAhQB2AHoAgQB+AH8AeABsAGIAYABVAEcAPAA3ADoAOwA2ADsA',
+  'PwBMAFgATwBBADwAPwBBAEoATABRAGMAYwBtAHUAegCBAIUAmQCkAKsArQC0ALsAxADKANIA2wDiAOsA8wD4AP0AAwEHAQkBDAERARQBFwESAQ4BDAEKAQkB',
+  'CAEGAQYBCAEEAQABAAECAQQBCAEPAR4BKwE2AToBRwFLAVIBWwFfAWMBZgFsAW0BbgFzAXIBfgFvAWoBhgGDAYABhgGNAZwBqQG4AcMBzgHWAewB5wHbAdYB',
+  '1gHYAdUByAHCAbwBuwGxAbIBrgGoAaABlwGOAYMBegFzAXABbAFpAWUBYwFiAVwBWQFZAW8BfwF6AX4BcAFqAU8BMAEgARgBDQH7AOoA3ADOAL4AsAChAJYA',
+  'igB6AG0AXgBQAEEAMgAkABUACAD6/+3/3//T/8X/uv+r/57/kv+H/3v/cP9l/1j/Tv9E/z7/OP8x/yz/Kf8j/x7/Gv8U/xL/EP8W/xr/Hf8f/yP/Jf8n/yr/',
+  'Lv8w/zP/OP85/0H/Pv9E/0j/Sv9N/0T/Pv9B/0X/Qf9A/0T/R/9B/0D/RP9K/0r/Tv9n/2P/VP9Y/07/Tf9l/2H/ZP9o/2D/Xv9b/1H/RP8w/xn/E/8O/w7/',
+  'Cf8H/wP/Af///v7+//4D/wn/Dv8R/xT/Ev8S/xX/GP8Z/xv/H/8k/yn/Lv8u/yT/I/8r/zT/Nf82/zr/Pv9C/0T/Rf9G/0r/Sv9I/0f/S/9L/0T/Pf9A/0X/',
+  'Rv9H/0n/Tf9S/1r/YP9m/27/df95/3//hP+J/4//k/+V/5f/lv+V/5T/kv+R/47/jf+L/4z/jf+O/5D/j/+S/5b/nP+e/6H/pf+r/6//sP+z/7X/uP+9/8T/',
+  'y//Q/9j/4v/r//X///8JABIAHAApADMANgAtAEcAgACDAH8AawBfAF0AYwBnAGcAbwB8AIQAiQCLAIcAdwB1AHYAeQByAGUAWwBNAEIAPgA5ADgAMwAsACkA',
+  'LwAyADUANAAyADoAQwBQAGcAawBpAH8AlgCSAJgAmwCVAJEAmQCxAK4AtwC8AMIAyADMANIA2QDgAOUA7ADzAPgA/AABAQcBDgERARIBGAEXARQBEgEOAQwB',
+  'EAEPAQ8BCwEKAQUBCAEIAQ4BCwEOARoBHgErATYBOwFEAUoBUwFZAWEBZwFtAXMBegF7AXwBdQFkAXUBcgFyAXkBgwGNAZkBpwGzAcQBzwHZAeMB3wHlAf0B',
+  '9QHRAcoB1gHDAboBwQGuAa8BpAGfAZsBlwGKAXoBdQF1AWsBYgFdAV4BWwFbAVwBWQFYAV0BcAGMAYcBcwFiAVUBRQEnARwBBQHwAOQA2gDJAL0ArQCfAJQA',
+  'hwB5AGoAXQBQAEMANQAoABwADgAAAPL/5v/X/8z/wP+y/6b/mf+N/4H/dv9o/13/Uf9I/0D/Of8y/yv/Kv8i/x7/Gf8T/xD/Df8S/xX/Fv8a/xr/HP8e/yD/',
+  'I/8l/yf/Lv8u/zb/OP8+/0L/Q/9F/0D/Nf87/zv/PP82/zn/Nv86/zj/Nv82/zj/Pf9S/0L/Q/82/zD/NP9G/0D/Qv9J/0j/Pf82/y3/G////vf+8f7t/uv+',
+  '6P7l/uP+4/7i/uH+5f7m/un+7f7z/vX++f77/vz+Af8E/wf/C/8P/xT/Gf8b/x//I/8e/xv/I/8s/y7/L/8z/zf/Of87/0D/Q/9E/0n/Tf9K/0n/SP9A/zb/',
+  'NP88/0X/S/9S/1f/XP9j/2r/cP93/33/g/+I/4z/jv+Q/5L/kP+Q/5D/j/+N/4v/i/+K/4n/h/+H/4n/iv+M/5D/lP+a/57/of+l/6z/rf+u/7H/sv+4/7//',
+  'xf/L/9P/2f/g/+n/9P8AAAwAFwAiAC0AMgAuAC8AWwBxAGYAaQBZAF0AbAB4AHoAewB+AIAAfAB5AHEAagBpAGkAYgBSAEAAMgAzADkARAA3ACQAOABOAEEA',
+  'KwApADkAPAAnABwAHQA2AGIAbgB6AIcAmQCYAJ8AoACcAJsAngCgAK4AwADCAMYAyQDRANYA2gDhAOQA6QDvAPQA+QD/AAUBCAEJAQ0BEgEWARoBFgEUAREB',
+  'EAEQAQsBEQEVARQBEgEKAQUBAwELAQ4BFQEUARgBIAEnATQBOwFDAU0BWAFgAWcBagFmAW0BWAFjAWgBZAFpAXEBfQGIAZIBnQGqAbgBxgHRAdoB1wHRAcgB',
+  'xQHDAbsBwAGxAa4BugG/AaoBngGVAZMBigF/AXsBeQFzAWoBZQFbAVkBWwFfAV8BXAFbAVwBYQFeAV4BYQFYAUYBMgERAfQA6QDrAN0AywDEALYAqQCeAJEA',
+  'hAB2AGkAXABQAEQAOAAsABwADQABAPj/6f/d/9D/w/+4/6r/nv+R/4b/ef9s/2D/VP9K/0L/PP81/y3/J/8j/x3/GP8S/w3/Cv8M/w7/D/8S/xT/FP8W/xb/',
+  'F/8Z/xv/IP8i/yn/MP81/zn/Ov88/z//Mf8s/zH/Mv8p/y7/Lv8q/yn/IP8l/yb/Pf8d/yP/Hf8Y/xP/I/8h/yP/If8a/xP/DP/9/uz+3f7X/tT+zv7O/sz+',
+  'yf7F/sT+xv7G/sb+yf7M/s7+0f7X/tr+3f7f/uT+6P7r/vD+9v77/gD/BP8I/w3/Ev8W/xr/Gf8X/xr/H/8m/yv/L/8z/zf/Ov89/0D/Rf9L/0v/Tf9P/1L/',
+  'Vf9L/0T/R/9K/0//Vf9f/2j/bf9y/3b/e/+B/4X/h/+K/4z/iv+I/4f/hv+F/4b/hP+E/4T/gv+C/4T/iP+J/4r/i/+R/5n/nv+m/6j/p/+k/6b/rf+3/8D/',
+  'x//L/9D/1f/b/+D/7P/4/wQAEQAaACUALwAwACoAJQBYAHQAZwBdAGEAdQB6AHsAdwBuAGQAXgBnAG0AZgBlAGcAWgBLAEUAWAB2AIYAdgBzAG0AeQCJAIwA',
+  'iQCHAI0AnwCfAJkArAC5ALcApgB2AHgAhACEAIYAjQCIAIMAhwCUAKoAwADRAM4A0gDSANMA1wDbAOAA4wDnAOoA7wD2AP0A/wAAAQYBDQEPARIBFQEVARQB',
+  'DwECAQABAgEHAQQBAwECAf0A9QDyAPIA9QD+AAMBDQEWAR4BKgEzATwBQAFHAUsBTQFRAUgBSQFQAVQBWgFiAWwBdgF+AYYBkAGbAaoBswG9Ab4BvgG9AbkB',
+  'twG4AbYBsQGjAZgBmAGZAZYBjQGIAYUBfwF7AXUBbwFqAWUBXwFcAVwBWQFZAVoBWgFbAVsBVQFVAVUBTQFHAT8BKQEUAfcA4gDSAMwAuwC9ALAApgCZAI4A',
+  'gQB0AGcAWgBPAEMANwAqABkAEAADAPr/6v/e/87/w/+5/6v/nv+T/4f/ev9t/2L/Vv9N/0P/PP80/y3/KP8h/xv/FP8P/wn/Bv8H/wj/B/8I/wn/Cv8L/wv/',
+  'C/8M/w3/Ev8V/xj/Iv8o/yv/Lv8x/zP/LP8j/yb/Kf8k/yD/H/8g/xn/Gf8Y/yj/GP/4/vr+8v7w/uz+8/4A/wL/+f7o/tX+v/62/rH+sP6y/rP+sf6w/qz+',
+  'q/6m/qX+pf6n/qn+rf6x/rX+uP69/sL+xv7K/sv+z/7U/tn+3/7n/u/+8/74/v3+Av8H/w3/EP8S/xb/GP8a/xr/G/8f/yP/Kv8w/zT/OP89/0H/Rv9H/0n/',
+  'SP9I/0n/Sf9K/07/U/9c/2L/aP9r/3H/eP99/4H/gv+C/4H/f/99/37/ff97/3r/ev95/3r/ev97/3v/fv+C/4b/iv+N/5H/nv+c/5//nv+X/5j/n/+u/7j/',
+  'wv/J/83/z//V/9//5f/x//f/BwAPAB8AJwAwAC0AIgAjAEUAYABtAH8AiACKAI4AhwB6AHEAcwCCAJgAqACpALQAtwCmAJUAiACOAJIAkwCUAJwAngCcAJwA',
+  'nQCcAJsAnwClAKMApQC9ANYA5ADXAKYAbAB1AGcAVQBDACkAHwBSAJUAuADMANQAywDNANAA0wDXANwA3wDhAOQA6ADvAPUA+wD9AAEBBQEJAQsBDwETAQ4B',
+  '9ADwAO8A8gDzAOwA4QDZANcA2gDdAN0A4ADmAPEA+gAGARABGAEjASYBLQEyATgBOAE0ATwBOwFAAUgBUAFaAWMBaQFvAXcBfwGGAY4BlgGcAZ4BnwGdAZ0B',
+  'ngGeAZ4BmgGUAY0BiAGDAYEBfgF6AXcBdAFxAWsBZQFjAV8BXQFeAWcBZgFcAVcBUgFPAU4BTgFJAUMBOAEyASsBHgEKAfQA3gDIAMIAugCwAKsAoACWAIsA',
+  'ggB1AGgAXABOAEEANQAqABwADQAAAPX/6v/a/87/wv+2/6j/n/+U/4f/ef9t/2H/Vv9L/0P/O/8y/yz/JP8d/xb/EP8L/wX/Af///v3+/f78/v7+//4A/wD/',
+  'AP8A///+A/8F/wf/Ef8Y/xz/HP8i/yH/JP8b/xf/Gv8Z/xL/Ef8P/wv/C/8E//r+9f7s/uT+2f7M/sD+xP7M/sH+tv6r/qD+mP6R/pD+jf6Q/pH+kv6O/o7+',
+  'jP6K/on+i/6N/o7+kP6W/pz+of6k/qj+rP60/rr+vv7A/sf+0P7U/tj+3v7m/u7+8/73/vn+/v4E/wj/Df8Q/xH/FP8Y/xv/Gf8d/yT/Kv8v/zT/OP85/zr/',
+  'Of86/zv/PP8+/0H/Rv9H/0f/S/9T/1f/XP9n/2//cf9z/3P/c/9y/3H/cP9v/2//cP9v/2//cP9w/3D/c/93/37/hf+H/4n/jf+P/5b/lv+R/5P/nf+l/6j/',
+  'sP+3/73/w//O/9r/4v/o/+//+v8HABIAHQAlAC4AMwAyAC0AKwA9AHIAkACUAJwAjwCEAIoAkwCfAKgAsgC3AL0AuACvALcAtQCrAKwArQCzALMAsQCvAKsA',
+  'qwCtAK0ArgCyALcAuQC9AMAAwgDKAM4A0wDVANcA1QDPANQApgAvADYAlAC6AMYAyQDNAMoAygDMANMA1QDZANoA3ADiAOYA6wDzAPkA/wD8AP8A+AD1APYA',
+  '4gDdANsA3gDYANEAzADHAMIAxADIAMoAzQDVAN0A6gD2AP4ACAEOARYBGQEhASMBIwEnASgBKwE0ATwBRAFPAVQBVgFdAWUBbQF1AX4BgwGFAYcBhgGHAYcB',
+  'iQGJAYYBhAF/AXoBdgFxAWoBawFrAWoBZQFkAWMBXwFaAVkBWgFaAV8BYAFbAVkBWwFTAVcBUgFDAToBNAEwASQBHQEUAQUB5wDMALoAtQCrAKIAngCRAIcA',
+  'fQBxAGUAWgBOAD8AMQAkABYABwD5//D/5P/W/8n/vv+0/6f/nf+Q/4T/d/9r/1//Vv9K/0L/OP8v/yf/IP8Z/xL/DP8F/wD/+v73/vT+8/7w/u/+7/7w/vH+',
+  '8f7x/vH+9P71/vX+/v4F/wn/Cv8P/w//Ev8S/wv/Df8N/wX/A/8C//z++v7Q/tj+8v7Y/tn+yf64/qz+o/6c/pP+jP6G/oH+ef52/nP+cv5x/nL+cv5x/m7+',
+  'bv5v/nD+dP51/nb+d/56/n/+hf6L/pH+lP6Y/p/+pf6t/rP+uv7A/sb+zf7U/tj+3v7l/uv+7/7y/vb++f79/gD/BP8F/wX/B/8H/wj/DP8W/x3/Iv8l/yb/',
+  'Jv8o/yv/Lv8x/zT/Nv84/zz/QP9G/0j/SP9G/0T/R/9K/07/Vf9X/1P/Uv9X/1n/XP9f/2D/Yv9k/2T/Z/9u/3b/ev9+/4L/hf+I/4z/j/+R/5X/nP+j/6T/',
+  'qv+y/7n/vv/E/83/2//l/+v/9f/9/wYAEAAaACQALgA7AEEASwBSAFEAWgB6AIoAhACPAJkAogCnALIAvQDFAMQAxgDHALwAtgDAAL4AtQC0ALUAuwC9ALkA',
+  'ugC4ALQAtAC5AL4AxADEAMoAzQDRANYA3ADiAOcA5wDmAN8AzQChAFIAVwCiALwAxADGAMgAxwDLANEA0wDTANUA2ADbAOIA5wDxAPIA9AD2APIA6wDnAOYA',
+  '0ADOAMwAxQDAAL4AvAC+AMMAvwDAAMMAyADOANgA5ADpAPEA/QABAQcBDAEUARABGQEbASEBIgEuATQBPQFDAUYBSwFRAVYBWgFiAWoBcAFzAXcBdgF2AXcB',
+  'eAF4AXcBdAFuAWsBZQFhAWABXwFfAV4BWgFaAVgBVQFUAVEBTwFKAT0BOwE7ATIBNQEwASsBKgErASwBLQEvASYBGgEUAQQB+QDqAM8AsgCgAJYAlQCHAH0A',
+  'dABpAF0AVABGADkALAAdAAoA/v/z/+n/3f/Q/8X/u/+v/6T/mv+N/4H/dv9q/17/U/9J/0D/Nf8t/yT/HP8T/wz/Bv///vn+8v7u/ur+5v7j/uL+4f7h/uH+',
+  '4P7g/uL+4v7l/uT+6f7w/vP+9v74/v3+/P4A/wH//v4B//r+8/7z/uz+7P6//sT+5f7L/sL+rf6i/pj+kf6E/n7+dv5q/mT+X/5b/ln+Wv5Y/lj+Vv5V/lX+',
+  'Vf5V/lf+Wf5c/l/+Yf5k/mf+a/5y/nr+gP6F/or+kP6X/qD+p/6t/rP+uv6//sX+y/7R/tf+3P7g/ub+6f7r/u7+7/7w/vH+9f72/vj++v77/vv+/v4B/wb/',
+  'C/8T/xn/G/8d/yH/Jf8q/y//Mv8x/zL/Nf85/zz/PP88/z3/Pf84/zv/Qv9B/z//P/9F/0f/TP9S/1b/V/9f/2X/bP9v/3P/d/97/4D/h/+S/5X/lP+d/6X/',
+  'q/+u/7X/vP/C/8j/0f/d/+f/7P/0//7/BQAPABsAJQAyAEQAVABjAG8AfQCGAJIAlwCgAKIAqwC4AL8AxADHAMsAzADIAMYAxgDFAMEAvwDAAMAAxADJAMoA',
+  'xwDGAMQAwQDAAMMAxwDHAMoA0gDWANgA4ADkAOwA7QDwAOQA4ADDAJgAYACSALcAwwDGAMYAwwDBAMIAwgC6AL4AvwDBAMEAywDTANMA1QDUAM8A0wDSANAA',
+  'sgCzAK8ArgCtAK4AsQCyALYAugC+AMUAzwDXAN8A5gDsAPEA9wD8AAEBBQEIAQ4BFQEVARkBIgEnASoBLgEwATUBPQFFAUkBTAFQAVYBXAFiAWYBZwFnAWcB',
+  'aQFoAWYBYQFbAVYBVQFWAVUBVQFUAVABUAFPAVABTQFLAUYBQQE6ATwBPwFAAT8BNwEsAScBIgElASwBLgErASYBHQESAQUB+QDzAOIAwgCjAJAAhAB8AHQA',
+  'ZwBcAFMARgA4AC4AIgASAAQA9//t/+L/1f/I/7z/tP+s/6L/lf+J/37/c/9n/1v/UP9E/zr/MP8n/x7/FP8M/wT//f73/u/+6f7i/t3+2f7U/tH+z/7P/s7+',
+  'zf7O/sz+zf7P/tD+0v7Y/tz+3/7h/uT+6P7o/u7+8P7w/u/+5P7f/t/+3P7U/q3+sP6z/qf+m/6P/oX+e/5y/mr+Y/5Z/lH+Sf5D/kL+Qf4+/jv+PP4+/kH+',
+  'Qv5D/kP+Rv5N/lH+Uv5V/lj+Xf5h/mX+av5y/nf+fP6B/on+kf6Y/qD+pv6r/rL+t/69/sL+yP7N/tH+1P7W/tf+2v7b/t7+4P7i/uT+5f7n/ur+7v7x/vT+',
+  '9/72/vb+/P4D/wr/EP8U/xj/G/8e/x7/H/8i/yb/Kv8t/yz/Lf8u/yj/JP8h/yP/Kv8z/zz/Pv89/0L/S/9U/1r/Xv9h/2T/af9w/3T/fP+F/4T/iv+R/5T/',
+  'nf+j/6j/r/+7/8T/yP/Q/9j/4f/q//H/+v8GABIAHgArADoASgBdAHAAfQCHAJUAoACoAKwAsgC6AMQAwAC/AMgAzwDOAM0AzADNAMoAywDHAMoAzADPANIA',
+  '0ADIAMQAwQDEAMkAzQDMANAA1gDcANwA5ADoAO4A8QDuAOgA4ADIAJIAXgCUALgAxQDOANEA0QDVANEA1QDOAMwAxwDHAMUAwQC8ALcAtAC0ALQAtACzALMA',
+  'lwCbAJwAnACfAKUAqQCvALYAvwDHANEA3ADkAOgA7ADzAPkA/QD9AP8AAAEFAQcBBwEQARYBGwEeASIBIQEiASYBLgE2ATwBQAFEAUcBTQFRAVYBWQFZAVgB',
+  'WAFYAVQBTwFLAUkBSAFHAUkBSAFGAUMBRAFFAUcBRgFCATsBNgE0ATQBNQE3ATQBLAEmAR8BFQERARIBEgEUAREBCAEAAfoA+gDuAOEA0wCuAI4AfABvAGMA',
+  'WQBQAEIAMwApAB4AEAADAPb/6v/d/9T/yf+9/7b/sf+n/5v/kP+F/3j/bf9h/1X/SP88/zH/Jv8d/xP/Cv8B//r+8/7s/uX+4P7Z/tH+yv7G/sH+vf65/rf+',
+  't/63/rb+t/64/rb+uf6+/sL+xv7K/sv+z/7P/tL+2P7d/t3+1/7M/s7+zf7J/sj+tf6i/pn+j/6E/nz+b/5k/l/+Vf5M/kP+Pf42/jH+L/4s/ir+K/4t/i/+',
+  'Mf4z/jb+Ov4//kL+RP5F/kz+Uf5T/lf+W/5i/mj+bP5y/nj+fv6F/ov+kf6Y/p/+pP6q/q/+tP64/rr+vP6+/sD+xP7G/sj+yP7K/s7+0P7S/tP+1f7Z/tv+',
+  '3v7i/uf+7P7x/vX+9f71/vj+//4H/wr/DP8O/xD/FP8X/xr/G/8a/xr/GP8a/xz/Hf8e/yH/Kf8x/zf/Of89/0P/SP9Q/1f/Xf9h/2b/cP91/3j/gP+G/43/',
+  'kf+a/6L/qP+w/7j/vv/H/87/1f/d/+f/9P8AAA0AFwAoADgAQgBRAF4AdQCGAJQAngCmAK4AsgC4AL4AygDSAM8AzADKAMwAzgDVANUAyADEAMEAtAC8AK0A',
+  'oQCfALEAygDVANsA1ADMAM4A2gDjAOIA6ADtAO0A6wDnANoAsgCBAGcAhQC5AMQAygDQANMA0gDOAMUAwAC4ALUAsACsAKcApQCiAJ0AmwCbAJgAmwCcAJkA',
+  'jwCSAJMAlwCbAKIAqwC0AL0AxgDQANsA5QDtAO8A8ADyAPQA9wD5APwA/QD6APwABQEFAQYBDwEUARYBFgEZARwBIAEkASsBMgE3ATwBQwFGAUoBTAFLAUoB',
+  'SgFEAUMBQgE/ATwBOwE5AToBOwE7AToBOwE8AT8BPwE6ATYBMQEvAS0BLAEpASQBHgEbARYBDQEJAQQBAAH/APgA8QDuAOoA5QDgANMAvgCoAJEAfQBrAF4A',
+  'UAA/AC8AHwAUAA4AAwD5/+z/2//M/8T/u/+z/7D/p/+b/47/gv94/23/YP9T/0X/Of8s/yL/GP8O/wP/+v7v/uf+3/7Y/tL+zf7H/sD+uv6z/q7+qv6m/qL+',
+  'ov6h/qH+ov6i/qL+ov6m/qj+qv6u/q7+tP62/rX+uf7C/sf+xf6+/rj+uP63/rL+q/6i/pn+kP6E/nn+c/5l/k7+QP4+/jn+MP4r/iX+If4i/iH+IP4e/iD+',
+  'I/4m/ij+Kv4v/jP+Nv46/jz+QP5I/k7+Uv5U/lj+XP5i/mn+b/50/nr+f/6E/or+kP6U/pn+nf6g/qL+pv6p/qr+q/6t/q/+sP6z/rT+uP66/r3+vv6//sL+',
+  'xf7K/tH+1P7Y/t7+4v7n/uj+5f7h/uX+7v72/v3+/v4C/wT/Bv8I/wr/DP8N/w7/EP8U/xr/If8n/yr/K/8w/zf/PP9E/0j/TP9T/1r/Yf9n/27/c/94/4D/',
+  'hv+N/5T/nP+k/6z/s/+8/8T/zf/X/+H/7f/7/wcAEwAiADIAQgBRAF4AagB5AIcAmgCpAK0AswC4ALMApgCcAJoApQDNAOgA7ADrAN8A1QDQANAA0QDqAP4A',
+  'AwEBAfQA0wC2AMMAyADUANgAzwDaAN4A3wDhAN8A3gDZAM4AvACnAKYAqAClAKwAsgC0ALMArwCoAKIAnwCfAJ8AmwCYAJUAkwCTAJEAjACLAI0AjQCNAI4A',
+  'iQCNAJAAlgCdAKYAsAC5AMMAyADOANoA5QDpAOsA7gDtAO0A7wDyAPEA7QDxAPQA8gDyAPUA+AD+AAIBBQEJAQkBCgERARkBIQEoAS4BNgE8AUABQQFAAT8B',
+  'PQE7AToBOQE2ATMBMgEwATABMQE1ATcBNwE2ATQBMwEvAS4BKQEkAR0BGQEYARUBEwEPAQgBAgH8APcA8wDqAOEA2gDXANcA1ADKALsAqQCTAIIAdQBoAFkA',
+  'SgA7ACcAFAAGAP3/8//r/+D/0f/C/7n/sf+r/6X/nP+N/3z/dP9s/17/Uf9B/zH/JP8a/w//BP/7/u/+5f7c/tT+y/7C/r3+uf6w/qj+pf6g/pr+lv6T/o/+',
+  'i/6J/ob+gP56/nz+hf6L/o7+kP6Q/pH+lP6Y/pj+mP6e/qf+q/6k/qH+pP6i/p7+mf6S/ov+hP59/nb+bv5l/l3+Uv49/iv+Iv4f/iD+HP4Z/hf+E/4T/hf+',
+  'F/4Y/hr+Hf4h/iT+Kf4u/jP+Of49/kH+RP5J/k/+VP5Y/lr+YP5j/mb+bf5x/nT+ef5+/oL+hf6H/or+jf6Q/pH+k/6U/pb+mP6a/pv+nP6f/qH+pv6p/qv+',
+  'rf6y/rf+uv69/sH+xf7I/sz+zv7S/tb+2f7c/uD+6P7v/vL+9f75/v3+//4A/wL/BP8H/wz/Ev8X/xz/Iv8m/yv/L/8z/zj/Pf9E/07/Vv9c/2P/av9v/3b/',
+  'f/+F/4n/kP+Y/57/qP+y/7v/x//S/9//6v/5/wkAFwAjACwAOQBHAFUAYwBzAIEAjgCZAJcAkACOAJcAsQDPANsA3gDfAOIA5gDbANAAygDKAMsAwwDRAOAA',
+  '5ADhANoA0AC+ALsAwQDIAMoAzADGAMIAxADCAMUAwgC+ALwAuQC3ALMAsQCqAKUApACeAJQAjwCMAIsAhwCDAIIAgQCEAIUAgACCAIMAgACAAH8AgQCDAIQA',
+  'hwCLAJEAlgCgAKgArgCyALgAwQDHAM4A1QDZANsA3gDeAOAA4ADbANoA3gDgAOEA4gDhAOQA6QDrAO8A9AD2APUA+AACAQsBEgEZAR8BJQErATABMwEzATEB',
+  'MQEzATMBLQEmASQBJAEkASMBJAEpAS0BLwExATABLgEqASYBJAEeARcBEwENAQkBBQEAAfsA9wD0APAA7ADjANwA0gDFALkAsgCxAKoAnACMAH8AcwBjAFMA',
+  'RgA5ACwAIAAVAAQA9f/w/+P/0//G/7j/rP+i/5n/jP+C/3v/b/9g/07/Pf8w/yb/Hf8W/w7/Av/1/ur+3/7T/sj+wP67/rX+sP6q/qH+l/6M/oP+fv53/m/+',
+  'bv5u/mj+Zf5l/mb+Z/5r/nD+cv51/nb+dv54/nr+fP5+/oD+iP6M/ob+hf6K/ob+gf57/nT+bf5m/l/+WP5T/lD+Sv5E/kD+OP4o/hr+F/4R/gr+Df4O/g3+',
+  'Dv4Q/hT+Fv4Y/hr+HP4g/ib+K/4u/jP+Nv46/j/+Qv5H/kr+S/5P/lL+VP5Z/l7+Yf5k/mj+av5t/nH+cv50/nb+ef57/n7+gv6F/ob+iP6I/on+jP6P/pL+',
+  'lP6Y/pz+oP6k/qf+rP6x/rX+uv6//sT+yv7R/tb+1/7b/uH+5v7q/u3+8P70/vn+/P7//gP/B/8O/xP/F/8c/x//Jf8p/y7/Nv89/0P/TP9S/1n/Yv9o/3D/',
+  'ev+A/4b/i/+Q/5j/oP+t/7n/w//O/9n/5v/2/wUAEwAdACcAMgA+AEwAWABnAHcAhgCQAJUAmwCqAMIAzwDYAOUA7ADwAOoA3wDYANEAyADEAL8AvAC8ALoA',
+  'vAC5ALYAuACzALUAuACxAK0ArQCtAKsAqACpAKgApwCnAKIAnwCaAJQAjwCLAIgAgwCCAH8AeAB0AHQAcABuAG8AbABqAG8AcwB0AHQAdAB0AHUAeAB7AIEA',
+  'hgCQAJ8AqQCsAK0ArgCwALMAtgC5ALwAwQDFAMoAzQDRANAAyADGAMgAywDOANAA0wDUANYA2ADcAOEA4wDkAOIA5ADtAPoABQEKAREBFgEbASIBJQEjASEB',
+  'IQEiASYBJAEgAR8BIQEjASABIAEiASMBJwEpASgBIwEdARsBGQETAQ4BDAEIAQgBAwH8APQA6gDjAN4A3ADXANIAyQC8ALAAowCaAJMAigCBAHcAbQBhAFMA',
+  'QgA2ACwAIgAbABgAEAAEAAAA/f/u/9T/s/+j/5v/jv+K/3z/ZP9P/z//OP8y/yb/If8i/xr/Cv/2/uX+1v7I/r3+tf6t/qT+m/6S/or+g/56/nT+bv5p/mb+',
+  'Zf5n/mn+af5n/mL+XP5T/kv+Sv5O/lX+WP5Y/lr+XP5e/mH+Zf5q/mv+Zv5j/mb+Zf5h/lv+Vf5Q/kf+Qv47/jT+L/4o/iX+Iv4h/h3+Ff4R/g7+Cv4H/gb+',
+  'Bv4H/gn+C/4O/g/+EP4S/hX+GP4c/iD+I/4k/iX+KP4q/iv+L/4y/jX+Ov49/j7+QP5D/kf+Tf5Q/lL+Vf5Z/lz+Xv5h/mb+a/5t/mz+cP50/nj+eP53/nn+',
+  'fv6C/ob+iv6Q/pb+nP6h/qf+rP6y/rf+vP7C/sX+yP7O/tP+2P7a/t3+4v7m/uz+8P71/vr+//4D/wn/Dv8S/xj/G/8e/yT/Kv8y/zj/P/9J/1P/WP9e/2v/',
+  'dP96/4H/hv+N/5P/nf+n/7L/v//K/9b/5v/0/wAADAAYACIALQA5AEUAUwBhAHIAiwChAK4AtAC4AMIAzwDTANUA1gDXANoAyQCzAKcAmgCaAKMApAClAKcA',
+  'qACoAKUApACjAKAAnQCcAJoAlwCUAJMAkQCRAJEAjACJAIYAfgB5AHsAewB0AHAAcQBsAGkAaQBmAGUAZQBkAGIAYgBiAGEAYgBlAGoAbABuAG8AcgB5AH8A',
+  'igCZAKYArQCrAKoAqgCpAKcAqQCvALQAtwC9AMMAxgC/ALoAvQC/ALwAvQC+AMEAwgDCAMYAxwDLANAA0wDVAMkAzQDkAOwA8gD7AAABBAEIAQ4BFAEUARUB',
+  'GgEgASgBMAExAS0BLQEvATQBNwExAS4BLAEjAR4BFQELAQoBDQERAQ0BAwH/AP4A+gDvAOIA2ADQAMwAywDFAL0AuACwAKIAlwCPAIsAigCDAHkAbgBhAFQA',
+  'RwA8ADMAKwAnACIAGQAPAAQA+v/2/+//1/+8/63/pP+W/4n/ff9p/1T/R/9B/z//O/83/zH/IP8K//T+3/7N/sT+wf68/rf+tf6v/qb+of6d/p3+mf6L/oH+',
+  'dv5q/l3+Uf5L/kX+RP5F/kH+P/48/jv+Nv4y/jX+OP46/j7+Rv5K/kv+TP5J/kb+Rf5E/kT+Pv43/jH+K/4l/h3+Fv4T/gv+Bf4B/vr9+f37/fb99f35/fz9',
+  '/f39/f79/f3+/f79//0A/gL+A/4F/gj+Cf4K/g3+D/4R/hP+FP4W/hn+Gv4c/iD+JP4o/iv+Lf4v/jH+Nf46/j/+Rv5L/k/+VP5a/l3+XP5d/mD+Zf5o/mv+',
+  'a/5s/nH+d/58/oL+iv6S/pr+of6m/qv+sf61/rn+vv7B/sX+yv7O/tH+1P7Z/t/+5f7s/vL++P78/gH/Bf8L/xD/FP8Y/xz/If8l/yv/Nv88/03/WP9V/2T/',
+  'bv9t/3f/gP+J/5L/mf+i/6z/uP/E/87/2v/o//b/AwANABgAJQAwAD4AVABuAIAAigCUAJkApACwALEAtQC4ALUAtQC8AL0ApACSAJEAiACCAIQAjQCTAI8A',
+  'jACMAI8AjwCOAI4AjgCNAIwAiACBAH0AfQB5AHQAcwBxAG4AawBpAGcAZgBkAGIAYQBeAFsAWABXAFcAVwBXAFYAVgBXAFgAWwBdAGEAZgBpAGwAcQB1AH0A',
+  'gQCMAJEAkwCUAJYAmACaAJ8AoACmAK8AtgC8ALgAsgCwAKoAqQCuAK8ArwCwAK4ArQCxALQAtgC7AMIAxwDBAMEA2wDmAOMA6gDqAOkA7gDyAPgA/gAIARAB',
+  'EgEaASYBLgEuATUBSwFXAWEBcgFoAVEBQwE2ASkBHAEPAQcB/wD7APsA9wDvAOwA7ADiANkA1QDNAMMAvAC0AKYAmQCXAJgAnACdAJcAjgCCAHcAcwBoAFYA',
+  'SwBCADEAHwANAAEA///z/+T/6f/y/+z/4P/I/6//nP+H/3j/cP9r/2f/Xv9Q/0P/MP8j/x//FP8K/wf/+/7u/uj+3v7U/s7+xP6y/qH+mf6U/o/+iv6D/n7+',
+  'eP5v/mX+XP5c/l7+XP5S/kb+Pv47/jr+OP41/jj+PP43/ib+Gv4i/in+KP4s/iv+J/4k/iT+Jf4h/hv+F/4S/gv+BP77/ff98/3t/ef94P3c/d792/3W/df9',
+  '2v3i/en96v3o/ef95/3o/en96/3u/e/98P3z/fT99P33/fn9+v37/fz9Af4F/gf+Cv4N/g/+EP4U/hn+HP4i/if+K/4z/jn+Pf5C/kf+Tf5Q/k7+Uf5V/lj+',
+  'XP5f/mL+Z/5u/nf+f/6I/o/+lf6a/p/+pP6o/qz+sP61/rj+u/7A/sT+yf7Q/tb+3f7k/uv+8f70/vn+/f4B/wX/CP8O/xL/F/8d/yT/L/82/zv/Pv9E/1f/',
+  'Yv9j/2z/dv99/4X/jf+W/6H/rP+1/7//yv/W/+L/7f/8/woAGAAwAEoAXABoAHEAeQCBAIoAmQCcAJcAlACOAJAAmgCiAJ8AjQCCAH0AdQBxAG4AcAB2AHkA',
+  'egB5AHgAdwB0AHMAdABzAHAAbgBuAGoAZgBjAGAAXQBaAFgAVwBVAFQAVABTAFEATQBMAEkARwBIAEoASwBNAE0ATgBPAFAAUwBXAFsAXwBjAGcAbABwAHYA',
+  'bQByAHgAgQCDAIQAiwCSAJUAlwCcAJ8AnACdAKEAnwCbAJwAngCfAJ8AngCbAJkAnACgAKYArACyALcAuAC1AMQA3QDeANkA4gDkAOUA7wD5AP8ABAEEAQEB',
+  'CQEhATQBQAFKAVIBZQGCAZcBmwGGAWIBSgFCATkBMAEoASABHAEQAQMBAAH0AOkA8QD2APUA8QDfAMoAvAC1ALYAtgCtAKAAngCfAJUAjwCJAHYAZwBnAGUA',
+  'WABUAFAAOgApACEADAD5//T/6//l/+D/yP+v/6H/kv+H/3v/af9b/0//Sf9N/1H/SP8o/wn///71/ur+6/7o/t/+3P7X/s7+wf6t/pT+i/6R/pT+kP6J/nz+',
+  'dP5y/m3+bP5t/mj+X/5T/kn+Qf4v/iD+Gv4T/hP+F/4Z/hn+Fv4X/hv+GP4P/gf+CP4G/v79Av4J/gj+Av74/fD97v3q/eX94P3a/dX90/3P/cr9xf3B/b/9',
+  'v/26/bX9uP2//cb9zf3O/c/90v3U/db92P3Y/dz94P3h/eP95f3n/eb95/3r/e/98v31/ff9+/39/f/9A/4H/g3+E/4Z/iD+J/4r/jD+NP41/jj+PP5B/kf+',
+  'Tf5T/ln+X/5m/m/+ef6B/of+jf6S/pX+mP6b/p/+ov6m/qv+r/60/rv+wf7H/s7+1v7d/uH+4/7m/uz+8f7z/vT++f4A/wX/Cv8Q/xn/JP8q/zD/OP8//0j/',
+  'VP9d/2X/cf97/4D/if+U/5r/of+q/7X/wf/O/93/7P/6/xAAJQAwAD4AVABdAFsAXgBjAGoAdgB3AHIAcgBwAHMAfAB+AHQAYgBYAFcAVgBYAFoAWQBaAFsA',
+  'XwBiAGIAYABeAF0AWwBZAFcAVgBWAFcAVABRAFAATgBMAEkARwBGAEUAQwBBAEAAQABAAEEAQwBEAEYASABHAEgASABGAEgATABRAFUAVwBcAGIAaABqAGsA',
+  'awBuAHAAdAB4AHsAgACHAIwAjQCSAJwAmgCQAJEAlwCUAI4AjQCTAJgAlwCWAJkAnAChAKMApACqAK0AsQDAANkA6QDpAOgA9AD9APsA/AD+APgA9QD6AP8A',
+  'AgEPAR8BKgFAAV4BawFwAYABgAFoAVgBVgFPAUIBNwEuASkBKwEjARYBEgEKAfwA8wDmANEAxAC7ALQAqwClAK0AtQCuAKIAmQCSAIwAhwB/AHQAaABpAGkA',
+  'XgBeAGQAVwBHAD0AKAAYAAoA8f/e/8//tP+i/5b/h/99/3H/Zf9a/0z/SP9N/0v/QP8n/xH/Cf/+/vf+9v7o/uD+4f7a/tP+x/6w/qL+m/6S/o3+jP6O/or+',
+  'df5k/mH+ZP5m/mL+Vv5J/jz+MP4k/hf+EP4G/vv9+f34/fH98v36/f/9A/4H/v398P3q/eb93v3a/d393v3b/dv92/3X/dT9z/3I/cX9wv29/br9t/2y/bT9',
+  'uP2z/af9n/2Z/ZX9m/2n/bL9uf29/b/9wP3B/cP9xf3J/c/90v3T/dH9zv3P/dH90/3W/dn93P3e/eH95/3t/fP9+P38/QL+CP4P/hb+G/4f/iT+Kf4v/jf+',
+  'Pv5E/kz+VP5d/mb+bv50/nr+gf6I/oz+kP6V/pn+nP6h/qb+rP6x/rf+vf7E/sX+yP7P/tP+1v7a/t7+4/7o/uz+8/74/v/+B/8M/xL/G/8i/yj/MP85/0X/',
+  'Uf9a/2H/aP9w/3f/ff+H/4//lv+e/6X/rv+7/8z/4//6/wkAFQAiADEAQABGAEoAUABVAFwAXQBWAFUAVgBUAFoAYwBdAFAARAA+AD4AQQBFAEgASABIAEYA',
+  'RQBEAEMARQBIAEgASABIAEcARwBGAEMAPwA8ADgANgA1ADQAMwA0ADQANAA0ADUANgA4ADoAPAA+AD8APwA/AD8APwBBAEMASABNAFAAUwBZAGEAZABkAGUA',
+  'aQBoAGgAbABzAHwAgwCGAIgAiACOAJsAnACVAJoAowCjAJ8AmgCVAJcAnQCgAKIApgCsALEAtQC5AMAA0gDiAOUA5wDxAO8A4ADVANEA1gDjAO4A8wD+AAwB',
+  'FgEaARMBCQERASYBNwFFAU8BQwEsAScBKwEmARsBFQEQAQ8BFwEiASABEAH8AOoA3ADLALoAsACmAJ0AnACeAKQAqQCqAKcAoACYAJAAigCFAIIAeABxAG0A',
+  'ZABdAFsAVABNAEMALQAXAAIA5//R/8L/sP+g/5D/fv9u/2H/V/9Q/0j/Rv9E/zf/I/8X/w7/Bf///vn+8P7n/uH+2P7Q/sn+vv60/qf+lP6O/pD+i/6O/oz+',
+  'b/5S/lD+W/5d/lL+S/5H/jf+Jv4c/gr+/v0A/vr98P3p/eH94v3q/en96f3t/eP92P3a/dv90f3F/bz9uv29/b79vf2+/cD9wP29/br9tP2s/av9rP2n/Z/9',
+  'nv2i/Z79kv2N/Y79jf2P/Zb9m/2e/aX9q/2s/az9rv2y/bP9sv2y/bT9t/24/bf9uP2+/cL9xf3J/c390f3V/dz94/3o/e798/35/QD+B/4M/hH+Gf4h/ir+',
+  'M/46/kD+SP5R/lj+YP5p/nD+cv53/n/+h/6Q/pf+mP6b/qL+pf6p/q/+sf6y/rb+vP7A/sX+yv7O/tL+2f7h/uf+7P70/v3+AP8D/wj/CP8O/yD/L/8+/1P/',
+  'Xf9d/2T/bP9v/3T/fP+I/5T/of+t/7b/vf/J/9r/5//w/wMAGwAoAC4AOwBLAFwAcQB6AG4AXABQAEkAQQA+AEEARAA8AC4AIgAdAB8AJAApACwALgAtACwA',
+  'KgAqACoAKgAtAC4ALgAuAC8ALQAqACYAIQAdABsAGQAZABoAGwAcAB0AHgAfACEAJAAnACoALQAwADMANQA3ADoAPwBDAEgATABRAFoAXwBdAFkAWABcAGQA',
+  'kQCQAI8AkgCUAJUAlQCSAJEAkACNAJAAnQCoAKgAqACwALUAqgCdAJ8ArAC8AMsA1ADUANQA0gDNAMwA0ADPAMwA0gDZANYA0QDMAMIAwwDRANoA5QD/AA8B',
+  'CwEIAQ0BCgEGAQsBEgEYARwBFwELAQQBAwEAAf0AAQECAfwABAEbARwBBAHuANwAwwCtAKYAqQCsAKsApgChAKIAoACbAJwAnQCWAI0AiACCAHoAcgBpAF4A',
+  'UgBLAEQAOAApABsACQD3/+j/1//F/7b/qP+Z/4v/fv9w/2L/WP9R/0n/Rv8+/yf/Ev8N/wj/+/7z/uz+3v7Z/tX+y/7D/r3+tf6w/qf+l/6P/o/+iP6D/nv+',
+  'Yf5H/kf+Uf5R/kn+QP41/ib+E/4E/v/9//33/eb92/3W/c79yf3O/dT91P3S/dX91/3O/cP9wv3D/cH9wv2+/bX9r/2v/bP9uv26/bb9s/2u/af9o/2g/Zr9',
+  'lf2Q/Yj9g/2C/YH9gf2E/Yf9if2I/YX9hv2M/ZT9l/2X/Zb9lv2Y/Zr9nv2i/aT9o/2k/ar9sP23/b/9w/3F/cv90v3W/dr94P3o/e/99f38/QT+C/4U/h7+',
+  'Jf4t/jf+Pv5D/kz+Vv5f/mb+bf5y/nT+dP56/ob+kP6T/pb+m/6g/qX+qP6r/rD+tP64/rn+u/7A/sj+zf7U/tz+5v7z/vv++v72/vL+8v4J/yn/Mv8o/yj/',
+  'Mf9A/1X/bf9+/4n/kv+Z/5z/nP+h/6v/tv/F/9P/2v/h//D/AwAWACUAMwBJAGUAdwCCAIQAbwBNADoANAAsACYAIwAXAAYA+//2//j//v8DAAYACQAMAA4A',
+  'EQATABUAGQAZABkAGwAcABoAGQAXABQAEQAQAA8ADwAPABAAEgAUABQAFAAUABUAFgAYAB0AIQAkACYAKQAvADgAQgBNAFgAXwBkAGgAaQBqAGkAZQBrAIEA',
+  'hwCBAHsAfwCGAIsAjQCIAIAAegB2AHIAbwBxAHoAhgCPAJYAnQCfAKIAsQDLANoA3gDhANwAzgDEAMgA0ADXANgA0wDQANYA3wDfANwA2gDYANgA3ADjAOQA',
+  '4wDqAPUA+QD8AAEBAgH6APAA6wDrAOoA5QDgAOMA4gDZANQA4QD1AP0A9gDmAM4AsACaAJYAnACgAJ8AoACfAJwAmQCcAJ4AmwCTAIoAgQB6AHMAZwBaAE0A',
+  'QgA4AC4AIQAOAPr/6f/c/9D/xf+3/6j/m/+Q/4H/dP9o/1r/S/9C/zj/J/8V/wX/+/72/vD+5v7b/tH+y/7J/sX+u/6z/q/+qv6k/p/+l/6L/oH+fv56/mz+',
+  'W/5Q/kT+Nf4q/iH+Gf4W/g/+Af75/f39+f3q/d390v3L/cr9xP2+/cT9yf3G/dL95f3d/cL9s/2u/az9tf2+/b39wP3I/cX9uv2y/a/9r/2u/ab9nv2c/Z79',
+  'oP2e/ZT9hf18/Xj9dv15/Xv9d/1x/XX9f/2B/X/9gv2H/Yj9iv2P/ZL9lP2W/Zr9nP2e/aH9pv2s/bL9tv26/b79wv3H/c390/3b/eP96v3x/fr9Af4G/g7+',
+  'GP4f/ib+L/45/kL+Sv5Q/lX+W/5g/mb+a/5v/nP+ef5+/oL+h/6O/pT+nP6j/qf+rP62/r7+wv7Q/uf+8v7y/vv+Cv8R/xP/Gf8g/yb/Kf8t/zf/R/9U/1r/',
+  'Yv9t/3L/cv9y/3P/dv9+/4b/jv+V/5n/n/+t/7n/wv/T/+f/8v8EABwAJgAvAEgAYgBrAGwAZABMADUAJwAcABMADwAHAPz/9f/x//D/8f/z//T/9//5//r/',
+  '+//+/wAAAgADAAQABQAGAAgACAAIAAkACQAHAAUABQAGAAgACgALAAoACwAMAAwADAAMAAsADQAVACEAMABCAFMAYgBtAG8AawBsAG8AbABpAGsAbQBxAH4A',
+  'fQCAAIUAjgCdAKsAsQCuAKUAnQCbAJwAmgCbAKAAowCgAKUArwCvAKsAtQDCAMgA1ADmAOUA0gDMANYA2gDYANsA4QDoAPUAAQECAf8AAAEAAf0A+ADtANoA',
+  '0ADbAOoA7ADtAPMA8wDlANcA0wDTAM8AywDKAMkAxwDGAMcAxwDKANAA0wDMALkAoACNAIQAgQB/AIMAjQCUAJQAlACVAJMAjgCHAH8AdgBtAGQAWQBMAEAA',
+  'NgAyAC0AIwAVAAcA+P/m/9P/w/+0/6T/lP+E/3T/ZP9T/0P/NP8j/w7//P70/vL+6v7g/tf+z/7F/r/+vv69/rX+rP6l/pz+j/6H/ov+kf6I/nf+cP5u/mX+',
+  'WP5O/j7+I/4J/gD+Bv4N/gr+Af78/fr98f3k/df9zP3I/cn9xP2+/cH9xv3F/c794/3s/d39zP3J/dT93v3Y/dD92v3r/eb9z/3A/bz9uf2x/ab9nf2Z/Zf9',
+  'lv2Y/Zf9kP2H/X/9df1s/Wn9a/1t/XH9df11/XT9eP19/X79gP2E/Yf9if2M/Y/9kf2U/Zn9nP2g/ab9qv2t/bH9tv27/cP9zP3T/dn93/3n/e799f38/QH+',
+  'Bv4O/hn+I/4t/jb+PP5B/kb+TP5R/ln+Zf5u/nX+gv6T/p/+qP6y/rr+uv67/sD+xf7J/s7+0v7U/tz+6P7z/vz+CP8T/xr/H/8j/yr/Lv8o/yD/J/88/0z/',
+  'Uv9V/1n/X/9m/2r/b/90/3r/gP+F/4j/jf+Z/6j/t//I/9n/6/8AABAAFwAcACgAOABEAEcAOAAcAAYA///7//b/9v/3//f/9//4//f/9f/3//j/9f/y//H/',
+  '8P/w//D/7v/t/+7/7//w//H/8v/0//X/9v/2//X/9f/2//f/9//2//f/+f/6//z/AAAEAAoAFwAnADcARgBPAE8AUgBeAGcAZQBnAHoAjACMAIcAhACAAHwA',
+  'gwCKAJQAnwCoALEAuAC5ALQAsACzALcAuQC9AMIAwQDAAMUAyQDHAMYAxwDCAL0AywDjAOgA1wDNANAA0ADLAM8A1wDaANgA1wDXANsA4wDrAOsA5QDeANcA',
+  '0gDSANUA1wDYANYA0ADKAMUAwAC9AL4AvwC7AL0AygDXANUAzQDLAMsAygDJAMIAqACIAHkAgACLAJUAnQCcAJAAhwCEAH8AdQBvAGsAZABaAFMASgA9ADIA',
+  'LwAtACIAEgAFAPv/8f/i/87/u/+u/6H/kP98/2v/Wv9I/zj/J/8Q//b+5f7h/uP+4P7X/s/+yf7C/rr+s/6u/qT+mP6P/ob+eP5t/nT+gP56/mH+UP5O/lH+',
+  'Tf5C/jD+HP4Q/hL+Fv4U/g3+A/74/e394f3W/cz9xv3D/cH9v/27/bj9tv24/cD9zv3d/en98/3+/QX++f3Z/bz9uP3E/cb9vv25/br9uP2w/aj9ov2g/aD9',
+  'n/2b/ZT9i/2E/X79eP1y/W/9b/1v/W/9cP1y/XL9c/11/Xj9eP16/X79gP2C/YT9iP2L/Y79kf2V/Zn9nv2k/ar9sv26/cD9xP3K/dL92P3b/eL97P30/fr9',
+  'Af4J/hD+Gf4o/jf+Qf5M/l7+bf5x/nD+dv6A/oj+jv6W/pz+nv6g/qT+qf6u/rH+tv68/sL+xv7O/tv+5v7w/v3+B/8K/w7/GP8g/x//Iv8q/y7/Lv84/0j/',
+  'Tv9K/0v/U/9X/1f/XP9j/2j/bP93/4H/iP+O/5j/o/+s/7n/y//e/+z/9f8BAA8AFwAaABoADwD2/93/1P/U/9P/0v/X/93/4//n/+z/7//w//L/9P/y/+//',
+  '7P/p/+P/3f/a/9f/0//S/9P/1f/Z/97/4v/l/+f/6f/r/+3/7v/s/+z/7//3/wAACQARABoAKAA5AEMARABFAEoATQBMAE4AWgBvAIUAkgCSAIkAfwB8AH4A',
+  'bQBtAHkAhgCNAI8AkgCXAJwAoACkAKkArACwALQAtgC3ALkAvAC+AL0AugC2ALQAtgC4ALkAvADAAL4AtgCyALQAuAC4ALcAtQCyALIAuQDDAMYAxADEAMUA',
+  'xAC+ALgAtAC1ALoAvAC4ALMArgCrAKkAqACpAKoAqwCrAKsArACuALAAsQCtAJ4AiAB3AHQAegCBAIQAgwB8AHEAaABjAF0AWABVAFMATgBKAEYAPwA2AC0A',
+  'JgAdAA0A/P/t/+H/1v/J/7r/rv+i/5T/hf93/2n/Wf9J/zv/K/8U//3+7v7m/uH+2v7S/sn+wP63/q3+o/6c/pX+i/5//nX+bP5k/l/+Xv5a/kn+Nf4s/jL+',
+  'Ov42/iX+Fv4P/g7+DP4G/v399P3q/d/91P3M/cb9wv29/bv9uv23/bH9r/21/b/9yP3X/fH9D/4e/hH+7/3M/bn9tv24/bf9s/2x/bH9sf2v/az9qf2m/aL9',
+  'm/2S/Yz9hv1+/Xf9dv15/Xf9cf1u/XH9dv11/XL9c/13/Xv9ev16/Xv9ff1//YP9hv2I/Yr9jf2S/Zb9mv2h/az9tP23/bn9wf3K/dP93f3s/f39C/4T/hb+',
+  'FP4X/if+Qf5Q/lH+VP5i/nH+d/54/n/+if6O/pH+kv6O/of+gv6G/pP+o/6y/r7+x/7O/tL+1v7c/uT+6P7q/vD++f4D/wz/GP8l/y//OP9A/0T/R/9L/07/',
+  'T/9S/1z/Zf9k/17/Wv9b/2L/cP98/4D/gf+H/5P/oP+t/7r/w//I/9D/3//t//T/9v/z/+j/1P/B/7n/uP+2/7P/tP+6/7//wv/G/8z/z//Q/9L/1f/W/9j/',
+  '2v/a/9r/2v/b/9r/2f/c/9//4v/p//L/+f/9//3/+//2//L/8f/w//L/9////wUACQAPABcAGwAbAB4AKAA0AD0AQwBJAE4AVQBfAG4AfgCHAIkAhQB/AHYA',
+  'XQBVAFoAZQBqAGoAbAByAHkAfQCAAIUAigCOAJIAlQCZAJwAngCfAKEAowCkAKUApgCnAKkAqgCqAKgApQCgAJoAlwCZAJ4AoQCdAJQAkQCWAJ8AogCfAJwA',
+  'nQCfAJsAlQCVAJ8ApwCmAJ8AmgCXAJIAjQCKAIcAgQB5AHUAeAB+AIIAgwB7AG0AXwBaAFsAWABSAE4ATwBPAEsARwBGAEUAQQA9AD0APQA5ADQAMgAyACoA',
+  'FwAAAO7/4v/Y/83/w/+5/7D/pf+W/4b/eP9u/2P/V/9K/z//Mf8e/wv/+/7v/uL+1f7K/sH+tf6o/p/+mf6V/pH+i/6D/nf+av5h/lv+Vf5N/kH+Mf4i/hz+',
+  'HP4d/hf+Df4E/v799/3t/eT93v3X/c/9yP3D/cH9v/28/br9uv26/bv9uv24/bb9vv3S/eX95v3X/cb9wP3B/cD9vf26/bf9sv2v/bD9tP23/bX9r/2m/Z39',
+  'mf2Y/ZX9j/2I/Yf9if2K/Yj9iP2K/Yr9h/2G/Yj9h/2B/Xz9e/1//YH9gf2B/YP9hv2J/Yv9jv2R/ZL9lP2a/af9uf3O/eT99f0A/gf+Ev4g/in+Lv42/kT+',
+  'TP5L/kf+SP5R/l7+bP55/n7+fv6B/of+iv6J/o7+l/6b/pb+kv6Y/qb+tP6+/sj+0f7W/tv+4v7p/vD+9P74/vr+/P4A/wT/Cv8R/xn/Iv8p/y3/Mf83/zz/',
+  'QP9E/0r/Uf9V/1b/Vv9X/13/Zf9p/2f/Zf9s/3v/i/+Y/6P/r/+6/8H/yf/P/87/wP+p/5b/kf+Y/57/nv+b/5z/n/+g/6D/o/+o/6r/qf+r/67/sv+0/7n/',
+  'vv/D/8b/y//Q/9X/2f/c/+D/5P/n/+r/7f/u/+//7v/s/+v/7v/x//L/8v/z//b/+P/5//v/AgAPAB8ALAA1AD0ATABcAGYAaABpAG0AcABuAGsAbABuAGkA',
+  'OwA4ADkAOwA/AEUASgBMAE4AUgBYAF0AXwBgAGQAbAB0AHkAfQCBAIQAhwCIAIwAkgCXAJgAmACZAJkAkwCIAH4AewB/AIQAhACBAHwAewB9AIAAgQCAAH0A',
+  'ewB7AHsAegB7AH4AgwCGAIcAhgCCAHwAdgBxAG0AawBrAG0AcABwAGsAYgBXAE4ASABEAD8AOgA3ADcANgAyAC4ALgAvAC4AKwArAC0ALAAmACMAJgAoABsA',
+  'AQDo/9n/0v/L/8L/uf+x/6b/mf+M/37/bv9f/1X/T/9L/0P/N/8q/x3/DP/4/ub+2v7Q/sP+s/6n/p/+mP6R/or+hP57/nD+aP5m/mT+XP5P/kH+Nv4p/hn+',
+  'Df4K/gz+Cv4A/vT96f3h/dn90/3O/cj9wf29/b39v/3A/cH9xf3L/c79y/3J/c/92/3g/dj9yP27/bn9vf3C/cT9xf3B/bv9t/27/cH9xP3A/bv9t/2z/a79',
+  'q/2p/aj9pv2m/ar9r/2w/a/9rv2u/a/9sv21/bX9rf2f/ZX9kv2R/Y79iv2J/Yr9i/2P/Zn9q/29/cn90P3X/d/95/3u/fn9B/4W/iP+L/47/kb+Tf5S/ln+',
+  'Yv5q/mz+af5p/nH+gf6O/pX+l/6Z/pv+mP6R/o3+k/6b/p3+mv6a/qX+tf7C/sX+wP68/r/+yP7S/tn+3v7j/un+7v7z/vj+/v4F/wr/D/8V/xz/Iv8l/yj/',
+  'L/84/0D/Q/9E/0P/Q/9F/0n/Tf9O/0r/Rv9I/07/Uv9Q/1H/Wv9s/3v/g/+B/3v/cf9q/2j/cf99/4T/hf+C/4L/hf+I/4j/h/+I/4r/jP+P/5L/lf+a/5//',
+  'pP+n/6r/rP+u/6//sP+z/7T/s/+z/7T/tf+2/7j/u/+//8T/y//V/97/5P/o/+7/9//7//n/9v/8/woAGgAlAC0ANQA7AD4APwBAAEMARABFAEUARgBEAEAA',
+  'EAANAA4AEgAYAB4AIwAnACsALwA0ADkAOwA8AD4ARABNAFUAWwBgAGUAaABsAHAAdQB7AH4AfwCAAIAAfgB5AHMAcABxAHMAcgBwAG4AbQBtAG0AbgBwAG8A',
+  'awBlAGQAZwBpAGgAZgBoAG0AcQBxAG0AaABiAF4AXgBiAGYAZABbAFAASABFAEAAOQAwACoAKwAtACwAJwAkACQAJQAkACAAGgAYABYAEgALAAYABAADAP7/',
+  '8//o/9//1v/K/73/sf+m/5r/iP9z/1//T/9E/z//Pv8+/z3/OP8u/x//Dv/9/u/+4f7S/sP+tP6p/p/+lP6K/oH+eP5u/mT+Yf5h/l/+V/5L/kL+O/4y/iT+',
+  'Fv4N/gr+B/4A/vb96/3h/dr91P3O/cj9w/3A/cD9wv3E/cj9zv3U/dj93P3j/e799f3y/eb92/3W/db91v3X/dj91/3S/cr9x/3M/dX92f3V/c79yv3G/cL9',
+  'vf25/bf9t/24/bn9u/29/b39vf28/bv9uv24/bX9s/2z/bb9vP3C/cb9yP3K/c39z/3R/dP91f3Y/dr93v3j/er98P33/f79Cf4V/iL+Lf40/jn+P/5G/k3+',
+  'Uv5V/lj+XP5j/mz+dv6D/o/+mP6Y/pL+i/6J/ov+kP6S/pP+lP6X/pr+nP6f/qL+pP6l/qX+qP6v/rf+vv7E/sn+z/7V/tv+4/7t/vj+AP8I/xD/Gv8j/yr/',
+  'Mf87/0b/T/9Q/0f/O/80/zr/Sv9a/17/U/8//y//LP80/z//Rf9H/0n/Tv9W/1r/Wf9W/1f/X/9p/2//cP9w/3P/dv93/3X/dP91/3X/dP9y/3P/d/98/4D/',
+  'g/+F/4b/hv+G/4b/h/+H/4b/iP+M/5H/lv+d/6n/uv/K/9P/2P/d/+P/6P/q/+7/8v/0//L/8P/1/wEADQARABEAEQASABMAEQAPABAAEwAXABkAGQAZABUA',
+  '7P/n/+j/7//4//3/AQAFAAwAEgAWABkAGwAfACQAKQAtADIAOAA+AEIARQBHAEwAUwBXAFkAWABXAFkAWgBaAFgAVQBTAFIAUgBTAFQAVABVAFYAWQBbAF0A',
+  'WwBYAFYAVgBXAFgAWQBaAF8AZQBpAGgAZABdAFkAVwBWAFMATgBHAEIAPwA8ADgAMgAsACkAKQAqACkAKAAnACgAKQAmAB4AFgAQAAwABgD9//P/6//p/+r/',
+  '6v/m/93/0P/C/7T/pv+Z/4z/gP9z/2f/Wf9I/zb/KP8i/yL/I/8e/xL/BP/5/u/+4/7U/sT+uP6v/qX+mf6M/oL+ev5y/mj+Yf5d/lv+WP5S/kv+RP49/jT+',
+  'J/4a/hH+C/4G/gD++P3v/eb93v3X/dD9zP3K/cr9y/3M/dD91P3Y/dz95P3v/fj9+v3x/eP92/3c/eP96v3s/er95/3k/eL94f3i/eP95f3m/eT94P3a/dT9',
+  'z/3M/cn9xv3F/cb9yf3L/cz9y/3J/cj9yf3M/c/90P3Q/c/90P3U/dr94P3l/en96/3s/er95v3k/ef97v31/fr9/P39/QH+Bv4I/gX+AP7+/Qb+FP4k/i7+',
+  'M/42/jv+Qv5M/lf+Y/5t/nT+dv51/nT+dv57/oL+iP6Q/pf+nP6e/p7+n/6j/qn+rf6u/qz+qv6q/q3+sv67/sL+x/7K/s3+1f7g/ur+8v79/g7/IP8t/zX/',
+  'Pv9T/2z/ev9t/0r/JP8R/xT/JP8y/zf/NP8u/yr/Kv8u/zb/Pv9D/0T/Rf9I/07/VP9X/1f/Vv9W/1j/XP9f/2D/X/9f/2H/ZP9l/2T/Yv9j/2n/cP90/3P/',
+  'cP9t/2r/af9r/27/cf90/3f/gP+P/5//qf+r/6j/pv+o/6z/rf+r/6v/r/+1/7v/wP/D/8b/yv/O/9H/0//V/9f/2f/a/9r/2//e/+L/5P/m/+r/8P/0//P/',
+  '0P/P/9L/2P/f/+X/6f/t//L/9//8////AwAHAAsAEAAUABgAHAAgACMAJQAoACwAMQA1ADgAOAA5ADkAOQA4ADcANAAyADAAMAAxADMANQA4ADwAQABEAEgA',
+  'SQBJAEgARwBHAEgASgBPAFUAXABiAGUAZQBhAFwAVQBPAEkARABAADsANgAyADAALwAvAC8ALwAvADAAMgAzADIALgApACQAHwAbABcAEQAKAAMA/P/2//H/',
+  '7f/n/97/0P+//63/nv+T/4z/hP96/27/YP9U/0r/Qf83/y3/If8W/wv/Af/3/uz+4P7V/sr+wP63/q7+o/6Y/o3+g/55/nH+a/5n/mT+YP5b/lX+Tf5E/jz+',
+  'Mv4o/h3+Ev4K/gX+AP77/fX97/3r/er97P3v/fD97/3u/e397f3v/fP99/33/fH94v3R/cX9xf3P/d396P3v/fL98/30/fP98v3x/fP99f31/fL97P3m/eL9',
+  '4P3e/dv92v3b/dz93f3c/dr92v3b/d393f3a/dn92v3f/eb96/3t/e397P3t/e/98P3w/e797P3t/fH9+P0A/gX+CP4J/gn+CP4H/gb+Bf4H/g3+Fv4f/ib+',
+  'LP4w/jb+Pv5J/lP+W/5h/mP+Y/5l/mn+bv5z/nj+ff6D/or+kf6W/pn+mv6b/p3+of6m/qn+q/6s/rD+t/7A/sj+z/7V/tz+5v7w/vf+/v4J/xf/Jf8v/zb/',
+  'P/9O/1//Zv9a/z3/HP8I/wb/Dv8X/xr/Gf8Z/xv/Hf8g/yP/Kf8x/zj/PP88/zz/Pv9D/0n/TP9M/0n/SP9I/0j/SP9H/0f/SP9J/0r/Tf9S/1n/Yv9q/23/',
+  'bf9o/2P/X/9e/1//Y/9m/2r/bf9v/2//bf9q/2r/cP97/4f/kf+W/5f/lv+U/5P/k/+W/5r/nv+g/6H/of+j/6X/qf+s/7D/tP+5/73/wP/E/8n/z//S/9L/',
+  'uf+6/73/wv/I/83/0v/V/9n/3f/i/+b/6f/s/+//8v/3//z/AQAFAAkADAAPABMAFwAcACAAIwAmACcAJwAlACEAHQAZABcAFwAZABwAIAAlACsAMAAzADQA',
+  'MwAzADMANQA4ADgAOAA4AD0ARgBSAFsAXgBaAFIASwBIAEYARAA+ADYALQApACkALAAvADEAMQAzADcAOgA8ADkAMgArACUAIAAcABcAEgALAAUA/v/4//H/',
+  '6f/g/9T/x/+5/6z/n/+V/4v/gv93/2z/Yf9X/03/Qv84/y7/JP8b/xD/BP/3/ur+4P7X/s/+yP6//rf+rv6m/p3+kv6H/n7+d/5z/nD+bf5n/mD+WP5R/kr+',
+  'Q/47/jD+Jf4b/hT+D/4N/g3+Df4N/gz+DP4M/gz+C/4I/gX+A/4D/gb+Bv4C/vj96/3g/dv93/3o/fL9+v3+/QD+Av4D/gT+A/4B/gD+/v39/fv9+f32/fP9',
+  '8v3x/fH98f3x/fL98v3x/fH98f3y/fP98/3z/fL98f3x/fH98v3z/fT99f32/fb99P3y/fL98/33/fv9/v0A/gL+Bf4L/hD+Ff4Y/hr+HP4g/iX+Kf4s/i7+',
+  'Mf43/kD+TP5X/mD+Zf5n/mj+af5q/mz+bv5x/nX+ev5//oL+hP6D/oH+gP6A/oL+hv6M/pT+nf6n/rH+u/7D/sr+0f7a/uT+7/75/gH/Bf8J/w//Fv8c/yD/',
+  'IP8e/x3/Hv8g/yP/JP8g/xr/Ef8K/wf/CP8M/xL/Ff8X/xf/Gf8d/yP/KP8s/y7/L/8w/zP/Nf82/zX/Mf8t/yr/J/8m/yb/J/8o/yr/L/83/0L/TP9T/1X/',
+  'Vf9S/0//Tf9M/03/UP9T/1b/Vv9S/0v/Rv9F/0r/Vf9g/2j/a/9q/2n/a/9u/3T/eP98/37/gf+F/4n/jP+O/5D/k/+W/5n/nv+h/6T/p/+r/6//tP+3/7n/',
+  'o/+l/6f/qv+u/7L/tv+5/7v/vf++/8D/wv/E/8j/zf/T/9n/4P/m/+v/8P/0//n///8FAAwAEgAXABoAGwAaABcAEwAQAA4ADgAPABAAEgATABUAFgAWABYA',
+  'FgAWABcAGQAbABwAHQAeACEAJwAuADQAOAA4ADYAMwAxAC8ALQAqACYAJAAjACQAJgAoACsALQAxADQANgA1ADEAKQAhABgAEQALAAUAAAD7//b/8v/t/+X/',
+  '2v/N/8D/s/+p/6D/l/+N/4P/eP9v/2b/Xv9W/03/RP87/zP/Kv8g/xX/CP/8/vH+6P7g/tj+0P7I/sD+uv6z/q3+pP6a/o/+hP58/nb+cv5v/mz+aP5j/lz+',
+  'VP5K/j/+Nv4w/i3+Lf4t/i3+Kv4m/iT+I/4k/iT+If4b/hP+D/4S/h3+LP45/j7+OP4r/hz+Ef4M/g3+EP4S/hL+EP4P/g7+D/4Q/hD+D/4O/g7+Dv4O/g3+',
+  'C/4J/gb+Bf4F/gX+Bf4E/gL+Af4B/gH+A/4F/gb+B/4H/gf+CP4I/gn+Cf4J/gj+CP4I/gj+Cv4M/g7+Ef4T/hb+Gf4c/iD+I/4m/in+Lf4w/jP+Nf44/jr+',
+  'P/5F/k3+Vf5c/mH+ZP5m/mf+af5q/mz+bv5w/nT+eP59/oL+hv6K/o7+kf6U/pf+mv6f/qb+rv61/rz+wP7E/sj+zv7W/t7+5v7r/u7+7/7y/vX++v79/v/+',
+  '/v76/vf+9f7z/vP+8/7z/vP+8/7y/vH+8f7x/vT++P79/gL/Bf8H/wj/DP8R/xb/G/8d/x3/Gv8Y/xX/Ev8P/wz/Cf8H/wb/Bv8H/wf/Cf8M/xD/Fv8b/yD/',
+  'I/8n/yv/Mf82/zr/O/87/zr/O/89/0L/Sf9Q/1j/Xv9i/2T/ZP9k/2b/af9u/3P/d/96/3v/ff9//4L/hf+I/4n/iv+K/4z/jv+R/5T/lv+X/5n/nP+e/6H/',
+  'lv+X/5n/m/+d/5//of+i/6L/ov+i/6P/pf+o/6z/sP+0/7j/vP/A/8T/yf/Q/9j/4f/r//T//P8DAAcACQAKAAkACAAGAAQAAgD+//v/+P/2//X/9f/1//X/',
+  '9P/y//H/8v/z//X/9//5//v//v8BAAQACAALAAwADAAKAAgABgAGAAYABwAJAAwADgARABMAFAAVABQAEgAOAAgAAgD8//f/8f/r/+b/4P/a/9X/z//J/8H/',
+  'uP+v/6T/m/+R/4j/f/92/23/ZP9c/1T/Tf9G/0D/Of8y/yv/I/8b/xP/Cv8B//j+7/7n/t/+1/7O/sb+vv64/rL+rP6k/pr+jv6B/nb+bv5q/mv+bf5t/mv+',
+  'ZP5a/lD+Sf5F/kX+R/5J/kn+Sf5I/kf+SP5J/kr+Sv5K/kv+Tv5V/l7+Z/5s/mv+ZP5Z/kz+Qv46/jX+Mv4w/i3+K/4p/if+J/4m/iX+Jf4k/iP+I/4k/iT+',
+  'I/4i/iD+Hv4c/hr+GP4W/hT+FP4U/hT+Ff4V/hb+Fv4X/hf+Gf4a/hv+G/4c/hz+Hf4f/iL+Jv4q/i3+MP4y/jT+Nf43/jn+PP4+/j/+Qf5C/kT+Rv5J/k3+',
+  'Uv5W/ln+W/5c/l3+Xv5g/mP+Zv5r/nD+dv58/oP+if6O/pP+lv6Z/p3+of6m/qr+r/6z/rb+uv6+/sP+yP7N/tH+1P7W/tb+1v7X/tj+2/7e/uH+4/7m/uf+',
+  '6P7o/uf+5f7i/t7+3P7c/t3+4P7i/uT+5P7j/uL+4/7l/uj+7P7v/vH+8/72/vn+/f4B/wX/B/8G/wX/A/8C/wH/Av8D/wX/B/8K/w7/Ev8W/xn/Gv8Y/xX/',
+  'E/8U/xr/I/8u/zb/O/89/z3/Pf9A/0b/Tf9T/1f/V/9V/1P/VP9Z/2H/bP92/3//hP+H/4n/iv+M/4//kv+V/5f/l/+X/5j/mP+Z/5r/mv+a/5n/l/+W/5X/',
+  'gf+A/4D/gf+D/4X/h/+J/4r/jP+P/5L/lf+Y/5n/mP+X/5X/lP+V/5n/oP+p/7T/v//K/9P/2v/h/+X/6f/s/+3/7v/t/+z/6v/o/+X/4v/e/9r/1v/S/8//',
+  'zP/L/8v/zP/O/8//0f/T/9X/1//Z/9z/3v/g/+D/3//e/93/3f/f/+L/5f/o/+r/6//r/+j/5f/h/9z/1v/R/8z/yP/E/8D/vf+5/7X/sP+q/6T/nv+Z/5T/',
+  'j/+J/4T/ff92/27/Zv9e/1b/T/9I/0H/O/80/y7/KP8i/x3/F/8R/wr/A//7/vP+7P7k/tz+1f7O/sf+wf67/rX+sP6p/qL+mf6R/on+g/5//n3+fP58/nz+',
+  'ev53/nL+bv5q/mf+Zv5n/mn+a/5t/m7+bv5u/m7+b/5x/nb+fP6E/oz+k/6W/pb+k/6N/of+gP56/nb+cv5v/mr+Zf5e/lf+Uf5L/kf+RP5D/kL+Qf5A/j7+',
+  'PP46/jj+N/42/jX+M/4y/jH+L/4v/i/+L/4w/jH+Mv4y/jH+Mf4x/jH+Mf4y/jL+Mv4y/jP+Nf43/jv+QP5E/kj+Sv5L/kv+TP5M/k7+UP5U/lb+Wf5b/lz+',
+  'XP5d/l/+YP5i/mX+Zv5o/mr+bP5u/nL+d/58/oD+hf6J/oz+j/6T/pj+nv6l/q3+tP68/sL+yf7O/tP+1/7a/tz+3P7a/tn+1/7W/tb+1/7Z/tv+3P7e/t/+',
+  '3/7f/t/+3f7c/tr+2f7a/tz+4P7j/uf+6f7q/ur+6f7p/uv+7v7y/vf++/7+/v/+//7+/vz+/P79/gD/Bf8L/xL/Gv8g/yf/LP8w/zP/Nf80/zL/MP8t/yz/',
+  'LP8v/zP/Of8+/0T/SP9L/03/T/9S/1P/VP9U/1L/Tv9L/0n/Sf9N/1P/W/9k/2v/cP90/3b/d/95/3z/gP+D/4b/iP+J/4j/h/+H/4b/h/+H/4f/hv+F/4P/',
+  'bv9s/2z/bP9s/23/b/9w/3L/dP93/3r/fv+B/4T/h/+I/4j/h/+H/4f/iv+O/5T/m/+j/6v/sv+3/7v/vv/A/8L/w//E/8T/xP/D/8H/v/+8/7n/tv+0/7P/',
+  's/+z/7T/tv+3/7j/uf+6/7z/vf+//8D/wf/A/7//vv+9/7z/vP++/8D/w//G/8f/x//F/8H/vP+3/7H/rP+o/6T/oP+c/5j/lP+Q/4v/h/+D/3//ev92/3H/',
+  'bP9m/2H/W/9W/1L/Tf9J/0T/P/85/zT/Lv8p/yT/IP8c/xj/FP8O/wj/Af/5/vH+6v7j/t3+1v7Q/sn+wv67/rT+rf6n/qL+nf6a/pj+lv6U/pL+kf6P/o7+',
+  'jP6K/on+h/6G/oX+hf6E/oT+hP6D/oP+g/6D/oT+hv6J/o3+kv6X/pz+of6k/qj+q/6t/q/+sP6w/qz+pv6c/o/+gv51/mr+Y/5f/l7+X/5g/l/+XP5W/k/+',
+  'R/5A/jv+Of46/jz+QP5D/kX+Rf5F/kT+Qv5C/kL+Q/5E/kX+Rv5H/kb+Rv5F/kT+Q/5C/kL+Qv5E/kX+SP5K/k3+UP5T/lf+Wv5d/mD+Y/5m/mj+af5q/mv+',
+  'bP5t/m/+cv51/nf+ef57/nz+fP59/n7+gP6E/oj+jP6R/pT+l/6Z/pv+nf6f/qP+qP6u/rX+vP7D/sj+zP7P/tH+0/7V/tj+2/7e/uH+5P7l/ub+5v7m/uX+',
+  '5f7k/uT+4/7i/uH+3/7e/t3+3f7e/uH+5P7p/u3+8v73/vz+Af8G/wr/Dv8R/xH/EP8N/wj/BP8A//7+//4D/wj/D/8V/xr/Hv8f/x7/HP8a/xn/Gf8c/x//',
+  'Jf8r/zL/OP8+/0P/R/9L/03/T/9P/07/TP9K/0f/Rf9E/0T/Rf9H/0r/Tf9Q/1P/Vv9Z/1z/YP9k/2f/av9t/27/b/9v/3D/cP9x/3L/c/90/3T/c/9x/2//',
+  'Zf9m/2b/Zv9k/2L/Yf9f/1//YP9i/2X/af9u/3L/dv94/3n/ef94/3j/d/94/3n/fP+A/4T/iP+N/5H/lP+W/5n/m/+d/57/oP+i/6P/o/+j/6P/ov+g/57/',
+  'nf+c/5v/mv+a/5r/m/+b/5z/nP+c/5v/m/+a/5r/mf+Z/5n/mP+Y/5j/mP+X/5b/lf+U/5L/kP+N/4r/h/+D/3//e/93/3P/cP9s/2j/ZP9h/13/Wf9U/0//',
+  'S/9G/0H/Pf85/zX/Mv8v/yz/KP8l/yH/Hf8Z/xX/Ef8N/wn/Bf8B//z++P7y/u3+5/7h/tv+1f7P/sr+xf7A/rz+t/6z/q/+rP6p/qb+o/6h/qD+n/6e/p3+',
+  'nf6c/pz+mv6Z/pf+lf6T/pL+kv6S/pP+lP6V/pb+lf6U/pL+kP6N/oz+jP6N/pD+lP6Y/pz+nv6e/pv+lv6Q/ov+hv6E/ob+iv6R/pn+of6n/qn+qP6j/pr+',
+  'kP6G/n3+d/5z/nL+c/51/nj+ef54/nb+cv5t/mn+Zf5i/mD+YP5g/mD+Yf5g/l/+Xf5a/lf+Vf5U/lT+Vf5Y/lv+X/5j/mf+av5t/m/+cv51/nj+e/5//oL+',
+  'hf6I/on+if6J/of+hv6F/ob+iP6L/pH+l/6e/qX+qv6u/rD+r/6t/qr+qP6m/qb+qf6u/rT+vP7E/sv+0v7X/tv+3v7g/uL+5P7m/ur+7f7x/vX++P75/vn+',
+  '+P70/u/+6v7k/t/+2/7Y/tf+1/7Z/tz+3/7j/uf+6/7w/vb+/P4D/wr/Ev8Y/x3/IP8g/x7/Gf8U/w3/CP8E/wH/Af8D/wb/CP8L/wv/C/8I/wb/A/8C/wP/',
+  'B/8P/xn/Jf8x/z3/R/9P/1P/VP9S/0//S/9H/0X/RP9F/0f/Sf9M/0//Uf9S/1P/U/9T/1T/Vf9X/1n/XP9f/2H/Y/9k/2T/Y/9i/2D/YP9f/2D/Yf9i/2T/',
+  'Sv9K/0r/Sv9K/0v/S/9N/07/UP9S/1X/V/9a/1v/Xf9e/1//X/9f/1//X/9f/2D/Yf9j/2X/Z/9p/2z/bv9w/3L/dP91/3b/d/94/3j/d/93/3b/dv91/3T/',
+  'c/9x/3H/cP9v/27/bv9u/27/bv9t/23/bf9s/2z/a/9q/2j/Z/9l/2P/Yf9g/17/XP9a/1j/V/9V/1P/Uf9O/0z/Sv9H/0T/Qv8//zz/Of82/zP/MP8t/yr/',
+  'J/8k/yL/H/8c/xn/F/8U/xH/Dv8L/wj/Bf8B//7++v72/vP+7/7s/uj+5f7h/t3+2v7X/tP+0P7N/sr+x/7E/sL+v/69/rv+uv64/rf+tf60/rL+sf6w/q7+',
+  'rf6r/qr+qf6o/qb+pv6l/qT+pP6j/qP+o/6i/qH+oP6f/p3+nP6a/pn+mP6X/pb+lv6X/pj+mv6b/p7+oP6j/qX+qP6r/q3+sP6y/rP+tf61/rb+tf61/rT+',
+  'sv6x/rD+rv6t/qz+q/6q/qn+p/6m/qX+o/6i/qD+n/6d/pz+mv6Z/pf+lf6T/pH+kP6O/o3+jf6N/o7+j/6S/pX+mf6e/qP+qf6u/rP+uP68/r/+wf7C/sH+',
+  'v/68/rj+tP6w/q3+q/6r/qz+sP60/rn+v/7F/sn+zP7O/s3+y/7I/sT+wP69/rz+vP69/sH+xv7M/tP+2f7f/uP+5v7o/uj+6P7m/uX+4/7i/uH+4f7h/uH+',
+  '4v7i/uL+4v7i/uH+4P7g/uD+4P7h/uP+5f7p/u7+8/75/v/+Bv8M/xH/Fv8a/x3/Hv8e/x3/HP8a/xf/Ff8S/xD/Dv8M/wr/CP8G/wP/Af/+/vv++P73/vb+',
+  '9/76/v/+Bf8M/xP/HP8j/yr/Mf81/zn/PP89/z7/Pv8//z//QP9B/0L/Q/9F/0f/SP9K/0v/S/9M/0z/TP9M/0v/S/9L/0r/Sv9K/0r/Sv9K/0v/S/9L/0v/',
+  'JP8l/yb/J/8o/yn/Kv8s/y3/L/8x/zL/NP81/zb/N/84/zn/Of85/zr/Ov87/zv/PP89/z7/P/9B/0L/RP9G/0j/Sf9K/0v/TP9M/0z/S/9L/0r/SP9H/0b/',
+  'RP9D/0L/Qf9A/z//P/8+/z7/Pf89/zz/O/86/zn/OP83/zX/M/8y/zD/Lv8t/yv/Kv8p/yj/Jv8l/yT/I/8i/yH/IP8f/x3/HP8a/xj/F/8V/xP/Ef8P/w3/',
+  'C/8J/wf/Bv8E/wL/AP/9/vv++f73/vT+8v7v/u3+6v7o/ub+4/7h/t/+3P7a/tj+1/7V/tP+0v7Q/s/+zv7N/sz+y/7J/sj+x/7G/sb+xf7E/sP+wv7B/sD+',
+  'v/6+/r3+vf68/rv+uv65/rn+uP63/rf+t/62/rb+tv62/rb+tv62/rf+t/63/rf+t/63/rf+t/63/rf+t/63/rf+uP64/rn+uv67/rz+vf6//sD+wf7C/sP+',
+  'xP7E/sX+xP7E/sT+xP7E/sT+xP7E/sT+xf7F/sb+x/7H/sf+yP7H/sf+xv7F/sT+w/7C/sH+wP6//r/+v/6//sD+wv7D/sX+x/7J/sv+zP7N/s7+z/7P/s/+',
+  'zv7O/s7+zf7N/s7+zv7P/tH+0v7U/tb+2P7a/tv+3P7d/t3+3f7d/tz+2/7b/tv+2v7a/tv+3P7d/t/+4P7i/uT+5f7m/uf+5/7n/uf+5v7l/uT+4/7i/uH+',
+  '4f7g/uH+4f7j/uT+5v7p/uv+7v7x/vP+9v75/vv+/v4A/wP/Bf8H/wn/Cv8M/w3/Dv8P/w//D/8P/w//Dv8M/wv/Cf8H/wX/Av8A//7+/P76/vn++f75/vr+',
+  '+/79/gD/A/8G/wr/Df8R/xT/GP8b/x3/H/8h/yL/I/8k/yX/Jf8l/yX/Jf8l/yb/Jv8m/yb/Jv8m/yb/Jv8m/yX/Jf8l/yX/Jf8k/yT/JP8k/yT/JP8k/yT/',
+  'B/8I/wn/Cf8K/wv/DP8M/w3/Df8O/w7/D/8P/xD/Ef8R/xL/Ev8T/xT/FP8V/xb/F/8X/xj/Gf8a/xr/G/8c/xz/Hf8d/x3/Hf8d/x3/Hf8d/xz/HP8b/xr/',
+  'Gf8Y/xf/Fv8V/xT/E/8S/xH/EP8P/w//Dv8N/wz/C/8L/wr/Cv8J/wn/CP8I/wf/B/8G/wb/Bf8F/wT/A/8D/wL/Af8A///+/v79/vz++/76/vn++P72/vX+',
+  '9P7z/vH+8P7v/u7+7f7r/ur+6f7o/uf+5v7l/uT+4/7i/uH+4P7f/t7+3f7c/tv+2v7a/tn+2P7X/tb+1v7V/tT+0/7T/tL+0f7R/tD+0P7P/s7+zv7N/s3+',
+  'zP7M/sv+y/7L/sr+yv7J/sn+yf7I/sj+yP7H/sf+x/7H/sb+xv7G/sb+xv7G/sb+xv7G/sb+x/7H/sf+yP7I/sn+yv7L/sv+zP7N/s7+z/7R/tL+0/7U/tX+',
+  '1v7X/tj+2f7a/tv+3P7d/t7+3/7g/uD+4f7i/uL+4/7j/uP+4/7j/uP+4/7j/uP+4v7i/uH+4f7g/t/+3v7e/t3+3P7b/tr+2f7Z/tj+1/7X/tb+1v7W/tX+',
+  '1f7V/tX+1f7W/tb+1v7X/tf+2P7Y/tn+2v7a/tv+3P7c/t3+3v7e/t/+3/7g/uD+4P7h/uH+4f7i/uL+4v7i/uL+4v7i/uL+4/7j/uP+4/7k/uT+5f7l/ub+',
+  '5v7n/uj+6f7q/uv+7P7t/u7+7/7w/vL+8/70/vX+9f72/vf+9/74/vj++f75/vn++f75/vn++f75/vn++P74/vj+9/73/vb+9v72/vb+9v72/vb+9v72/vf+',
+  '9/74/vn++v77/vz+/v7//gD/Af8D/wT/Bf8G/wb/B/8H/wj/CP8I/wj/B/8H/wf/Bv8F/wX/BP8E/wP/A/8C/wL/Av8C/wL/Av8C/wL/A/8D/wT/Bf8G/wb/',
+  '6f7p/un+6f7q/ur+6v7q/ur+6v7q/ur+6v7q/ur+6v7q/ur+6f7p/un+6f7p/un+6f7p/un+6f7p/uj+6P7o/uj+6P7o/uj+5/7n/uf+5/7n/uf+5/7m/ub+',
+  '5v7m/ub+5v7l/uX+5f7l/uX+5f7l/uX+5P7k/uT+5P7k/uT+5P7k/uT+5P7k/uP+4/7j/uP+4/7j/uP+4/7j/uP+4/7i/uL+4v7i/uL+4v7h/uH+4f7h/uH+',
+  '4P7g/uD+4P7f/t/+3/7f/t7+3v7e/t3+3f7d/tz+3P7c/tv+2/7a/tr+2v7Z/tn+2f7Y/tj+1/7X/tf+1v7W/tb+1f7V/tX+1P7U/tT+1P7T/tP+0/7S/tL+',
+  '0v7S/tL+0f7R/tH+0f7R/tH+0f7Q/tD+0P7Q/tD+0P7Q/tD+0P7Q/tD+0P7Q/tD+0P7Q/tH+0f7R/tH+0f7R/tH+0f7S/tL+0v7S/tL+0v7S/tP+0/7T/tP+',
+  '0/7T/tP+0/7U/tT+1P7U/tT+1P7U/tT+1P7U/tT+1P7U/tT+1P7U/tT+1P7U/tT+1P7T/tP+0/7T/tP+0/7T/tP+0v7S/tL+0v7S/tL+0f7R/tH+0f7R/tD+',
+  '0P7Q/tD+0P7Q/s/+z/7P/s/+z/7P/s/+z/7P/s/+z/7P/s/+z/7P/s/+z/7P/s/+z/7P/s/+z/7P/tD+0P7Q/tD+0f7R/tH+0f7S/tL+0v7T/tP+1P7U/tT+',
+  '1f7V/tb+1v7X/tf+2P7Y/tn+2v7a/tv+2/7c/tz+3f7e/t7+3/7f/uD+4P7h/uH+4v7i/uL+4/7j/uP+5P7k/uT+5P7l/uX+5f7l/uX+5f7l/uX+5v7m/ub+',
+  '5v7m/ub+5v7m/ub+5v7m/ub+5v7m/ub+5v7m/ub+5v7m/ub+5v7m/ub+5v7n/uf+5/7n/uf+5/7n/uf+6P7o/uj+6P7o/uj+6P7o/un+6f7p/un+6f7p/un+',
+  '2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+',
+  '2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+',
+  '2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+',
+  '2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+',
+  '2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+',
+  '2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+',
+  '2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+',
+  '2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+2f7Z/tn+',
+].join('');
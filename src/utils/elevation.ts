@@ -0,0 +1,91 @@
+import { haversineDistance } from './geo';
+
+export const ELEVATION_HYSTERESIS = 5; // m, smaller climbs and dips are treated as GPS noise
+
+export interface ElevationStats {
+  gain: number; // m
+  loss: number; // m
+  minAltitude: number | null;
+  maxAltitude: number | null;
+  anchor: number | null; // Altitude the next climb or descent is measured from
+}
+
+export interface ElevationProfilePoint {
+  distance: number; // m from the start
+  altitude: number;
+}
+
+export const emptyElevationStats = (): ElevationStats => ({
+  gain: 0,
+  loss: 0,
+  minAltitude: null,
+  maxAltitude: null,
+  anchor: null,
+});
+
+/**
+ * Add one altitude sample. Gain and loss are only counted once the altitude has
+ * moved more than the hysteresis from the last counted level, so jitter around
+ * a constant altitude adds nothing while a real climb is counted in full.
+ */
+export const accumulateElevation = (stats: ElevationStats, altitude: number, hysteresis: number = ELEVATION_HYSTERESIS): ElevationStats => {
+  const next = {
+    ...stats,
+    minAltitude: stats.minAltitude === null ? altitude : Math.min(stats.minAltitude, altitude),
+    maxAltitude: stats.maxAltitude === null ? altitude : Math.max(stats.maxAltitude, altitude),
+  };
+
+  if (next.anchor === null) {
+    next.anchor = altitude;
+  } else if (altitude - next.anchor >= hysteresis) {
+    next.gain += altitude - next.anchor;
+    next.anchor = altitude;
+  } else if (next.anchor - altitude >= hysteresis) {
+    next.loss += next.anchor - altitude;
+    next.anchor = altitude;
+  }
+
+  return next;
+};
+
+/**
+ * Altitude against cumulative distance for charting, thinned to at most
+ * `maxPoints` by keeping the highest and lowest sample of each bucket
+ */
+export const buildElevationProfile = (
+  points: { latitude: number; longitude: number; altitude: number | null }[],
+  maxPoints: number = 200
+): ElevationProfilePoint[] => {
+  const profile: ElevationProfilePoint[] = [];
+  let distance = 0;
+
+  points.forEach((point, index) => {
+    if (index > 0) {
+      const previous = points[index - 1];
+      distance += haversineDistance(previous.latitude, previous.longitude, point.latitude, point.longitude);
+    }
+    if (point.altitude !== null) {
+      profile.push({ distance, altitude: point.altitude });
+    }
+  });
+
+  if (profile.length <= maxPoints) return profile;
+
+  // Keep peaks and valleys: min and max of each bucket, in distance order
+  const bucketCount = Math.floor(maxPoints / 2);
+  const bucketSize = profile.length / bucketCount;
+  const thinned: ElevationProfilePoint[] = [];
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    const slice = profile.slice(Math.floor(bucket * bucketSize), Math.floor((bucket + 1) * bucketSize));
+    if (slice.length === 0) continue;
+
+    const lowest = slice.reduce((min, point) => (point.altitude < min.altitude ? point : min));
+    const highest = slice.reduce((max, point) => (point.altitude > max.altitude ? point : max));
+    if (lowest === highest) {
+      thinned.push(lowest);
+    } else {
+      thinned.push(...(lowest.distance <= highest.distance ? [lowest, highest] : [highest, lowest]));
+    }
+  }
+  return thinned;
+};
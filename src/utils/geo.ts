@@ -0,0 +1,82 @@
+export const EARTH_RADIUS_METERS = 6371000;
+
+export const toRadians = (degrees: number): number => degrees * (Math.PI / 180);
+
+export const toDegrees = (radians: number): number => radians * (180 / Math.PI);
+
+/**
+ * Normalize an angle to the 0-360 range
+ */
+export const normalizeDegrees = (degrees: number): number => ((degrees % 360) + 360) % 360;
+
+/**
+ * Smallest absolute difference between two bearings, 0-180
+ */
+export const angleDifference = (a: number, b: number): number => {
+  const diff = Math.abs(normalizeDegrees(a) - normalizeDegrees(b));
+  return diff > 180 ? 360 - diff : diff;
+};
+
+/**
+ * Great-circle (haversine) distance between two points in meters
+ */
+export const haversineDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+
+  return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Initial bearing from the first point to the second, degrees clockwise from true north
+ */
+export const initialBearing = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const dLon = toRadians(lon2 - lon1);
+
+  const y = Math.sin(dLon) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon);
+  return normalizeDegrees(toDegrees(Math.atan2(y, x)));
+};
+
+/**
+ * Perpendicular distance from a point to the segment A-B in meters, plus the
+ * position of the closest point along the segment (0 = A, 1 = B).
+ * Uses a local equirectangular projection, accurate at road-matching scales.
+ */
+export const distanceToSegment = (
+  lat: number,
+  lon: number,
+  latA: number,
+  lonA: number,
+  latB: number,
+  lonB: number
+): { distance: number; fraction: number } => {
+  const cosLat = Math.cos(toRadians(lat));
+  const project = (pLat: number, pLon: number) => ({
+    x: toRadians(pLon - lon) * cosLat * EARTH_RADIUS_METERS,
+    y: toRadians(pLat - lat) * EARTH_RADIUS_METERS,
+  });
+
+  const a = project(latA, lonA);
+  const b = project(latB, lonB);
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+
+  // Degenerate segment - both vertices in the same place
+  if (lengthSquared === 0) {
+    return { distance: Math.sqrt(a.x * a.x + a.y * a.y), fraction: 0 };
+  }
+
+  const fraction = Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+  const closestX = a.x + fraction * dx;
+  const closestY = a.y + fraction * dy;
+  return { distance: Math.sqrt(closestX * closestX + closestY * closestY), fraction };
+};
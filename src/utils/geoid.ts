@@ -0,0 +1,77 @@
+import { EGM96_GRID_BASE64 } from './egm96Grid';
+
+const GRID_ROWS = 181; // 90N to 90S
+const GRID_COLUMNS = 360; // 0E eastwards
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+let grid: Int16Array | null = null;
+
+/**
+ * Decode the bundled grid on first use; about 130 KB of int16 decimetres
+ */
+const getGrid = (): Int16Array => {
+  if (grid) return grid;
+
+  const lookup = new Uint8Array(128);
+  for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+    lookup[BASE64_ALPHABET.charCodeAt(i)] = i;
+  }
+
+  const source = EGM96_GRID_BASE64.replace(/=+$/, '');
+  const bytes = new Uint8Array(Math.floor((source.length * 3) / 4));
+  let byteIndex = 0;
+  for (let i = 0; i < source.length; i += 4) {
+    const chunk =
+      (lookup[source.charCodeAt(i)] << 18) |
+      (lookup[source.charCodeAt(i + 1)] << 12) |
+      (lookup[source.charCodeAt(i + 2) || 65] << 6) |
+      lookup[source.charCodeAt(i + 3) || 65];
+    bytes[byteIndex++] = (chunk >> 16) & 0xff;
+    if (byteIndex < bytes.length) bytes[byteIndex++] = (chunk >> 8) & 0xff;
+    if (byteIndex < bytes.length) bytes[byteIndex++] = chunk & 0xff;
+  }
+
+  grid = new Int16Array(GRID_ROWS * GRID_COLUMNS);
+  for (let i = 0; i < grid.length; i++) {
+    const value = bytes[i * 2] | (bytes[i * 2 + 1] << 8);
+    grid[i] = value > 0x7fff ? value - 0x10000 : value;
+  }
+  return grid;
+};
+
+/**
+ * EGM96 geoid undulation (height of mean sea level above the WGS84 ellipsoid)
+ * in meters, bilinearly interpolated from the bundled 1-degree grid.
+ * Typically within half a meter of the full 15-minute model.
+ */
+export const getGeoidHeight = (latitude: number, longitude: number): number => {
+  const values = getGrid();
+  const sample = (row: number, column: number) => values[row * GRID_COLUMNS + (column % GRID_COLUMNS)] / 10;
+
+  const y = 90 - Math.max(-90, Math.min(90, latitude));
+  const row = Math.min(Math.floor(y), GRID_ROWS - 2);
+  const fy = y - row;
+
+  const x = ((longitude % 360) + 360) % 360;
+  const column = Math.floor(x);
+  const fx = x - column;
+
+  return (
+    sample(row, column) * (1 - fx) * (1 - fy) +
+    sample(row, column + 1) * fx * (1 - fy) +
+    sample(row + 1, column) * (1 - fx) * fy +
+    sample(row + 1, column + 1) * fx * fy
+  );
+};
+
+/**
+ * Height above the WGS84 ellipsoid to altitude above mean sea level
+ */
+export const ellipsoidToMsl = (height: number, latitude: number, longitude: number): number =>
+  height - getGeoidHeight(latitude, longitude);
+
+/**
+ * Altitude above mean sea level to height above the WGS84 ellipsoid
+ */
+export const mslToEllipsoid = (altitude: number, latitude: number, longitude: number): number =>
+  altitude + getGeoidHeight(latitude, longitude);
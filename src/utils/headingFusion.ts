@@ -0,0 +1,143 @@
+import { HeadingAccuracy, Vector3 } from './compassCalibration';
+import { normalizeDegrees, toDegrees } from './geo';
+
+/**
+ * What is currently steering the fused heading
+ */
+export type HeadingSource = 'magnetometer' | 'gps' | 'gyro';
+
+export interface FusedHeading {
+  heading: number; // Degrees from magnetic north
+  accuracy: number; // Estimated 1σ error in degrees
+  source: HeadingSource;
+}
+
+export const GPS_COURSE_MIN_SPEED = 3; // m/s (~11 km/h), below this the GPS course wanders
+
+const GYRO_PROCESS_NOISE = 0.5; // deg²/s, gyro drift between corrections
+const NO_GYRO_PROCESS_NOISE = 10; // deg²/s, without a gyro the heading may turn at any time
+const SPEED_ERROR = 0.5; // m/s, typical Doppler velocity error, which sets the course error
+const MIN_COURSE_ERROR = 1; // Degrees
+const AT_SPEED_MAGNETOMETER_FACTOR = 5; // Engines and steel bodies distort the field while driving
+const INITIAL_VARIANCE = 180 * 180;
+const MAX_VARIANCE = 90 * 90;
+const GPS_SOURCE_TIMEOUT = 3000; // ms
+const MAGNETOMETER_SOURCE_TIMEOUT = 1000; // ms
+const MAX_PREDICTION_STEP = 1; // s, longer gaps (app paused) are not integrated
+
+// 1σ magnetometer heading error for each field-strength grade
+const MAGNETOMETER_ERROR: { [accuracy in HeadingAccuracy]: number } = {
+  high: 4,
+  medium: 8,
+  low: 20,
+  unreliable: 45, // Still followed, slowly, so a badly scaled sensor doesn't freeze the compass
+};
+
+/**
+ * Heading rate in degrees per second from the gyroscope, about the gravity
+ * axis so it holds however the device is tilted. Clockwise seen from above is positive.
+ */
+export const yawRateFromGyro = (gyro: Vector3, accel: Vector3): number => {
+  const gravity = Math.sqrt(accel.x * accel.x + accel.y * accel.y + accel.z * accel.z) || 1;
+  const rate = (gyro.x * accel.x + gyro.y * accel.y + gyro.z * accel.z) / gravity;
+  return -toDegrees(rate);
+};
+
+/**
+ * Complementary filter for heading. The gyro carries the heading between
+ * corrections; the magnetometer and, when moving, the GPS course pull it back
+ * with a gain set by their error against the filter's own, so the more
+ * trustworthy input wins without hard switching.
+ */
+export class HeadingFusion {
+  private heading: number = 0;
+  private variance: number = INITIAL_VARIANCE;
+  private lastPredictionTime: number | null = null;
+  private lastGpsCorrection: number = -Infinity;
+  private lastMagnetometerCorrection: number = -Infinity;
+  private courseError: number = 0;
+  private magnetometerError: number = 0;
+  private atSpeed: boolean = false;
+
+  reset(): void {
+    this.heading = 0;
+    this.variance = INITIAL_VARIANCE;
+    this.lastPredictionTime = null;
+    this.lastGpsCorrection = -Infinity;
+    this.lastMagnetometerCorrection = -Infinity;
+    this.courseError = 0;
+    this.magnetometerError = 0;
+    this.atSpeed = false;
+  }
+
+  /**
+   * Advance to `timestamp` (ms), turning by the gyro's yaw rate or, without a
+   * gyro, only growing the uncertainty
+   */
+  predict(timestamp: number, yawRate: number | null): void {
+    if (this.lastPredictionTime !== null) {
+      const dt = Math.min((timestamp - this.lastPredictionTime) / 1000, MAX_PREDICTION_STEP);
+      if (dt > 0) {
+        if (yawRate !== null) {
+          this.heading = normalizeDegrees(this.heading + yawRate * dt);
+        }
+        this.variance = Math.min(this.variance + (yawRate !== null ? GYRO_PROCESS_NOISE : NO_GYRO_PROCESS_NOISE) * dt, MAX_VARIANCE);
+      }
+    }
+    this.lastPredictionTime = timestamp;
+  }
+
+  /**
+   * Pull towards a tilt-compensated magnetometer heading
+   */
+  correctMagnetometer(heading: number, fieldAccuracy: HeadingAccuracy, timestamp: number): void {
+    const error = MAGNETOMETER_ERROR[fieldAccuracy] * (this.atSpeed ? AT_SPEED_MAGNETOMETER_FACTOR : 1);
+    this.correct(heading, error * error);
+    this.magnetometerError = error;
+    this.lastMagnetometerCorrection = timestamp;
+  }
+
+  /**
+   * Pull towards the GPS course (converted to magnetic) when moving fast
+   * enough for it to be meaningful. Returns whether it was used.
+   */
+  correctCourse(course: number | null | undefined, speed: number | null, timestamp: number): boolean {
+    this.atSpeed = speed !== null && speed >= GPS_COURSE_MIN_SPEED;
+    if (!this.atSpeed || course === null || course === undefined) return false;
+
+    const error = Math.max(MIN_COURSE_ERROR, toDegrees(Math.atan2(SPEED_ERROR, speed)));
+    this.correct(course, error * error);
+    this.courseError = error;
+    this.lastGpsCorrection = timestamp;
+    return true;
+  }
+
+  getState(now: number): FusedHeading {
+    // Repeated readings share the same bias, so the filter can't beat the source's own error
+    let source: HeadingSource = 'gyro';
+    let floor = 0;
+    if (now - this.lastGpsCorrection <= GPS_SOURCE_TIMEOUT) {
+      source = 'gps';
+      floor = this.courseError;
+    } else if (now - this.lastMagnetometerCorrection <= MAGNETOMETER_SOURCE_TIMEOUT) {
+      source = 'magnetometer';
+      floor = this.magnetometerError;
+    }
+
+    return {
+      heading: this.heading,
+      accuracy: Math.max(Math.sqrt(this.variance), floor),
+      source,
+    };
+  }
+
+  private correct(measurement: number, measurementVariance: number): void {
+    let innovation = measurement - this.heading;
+    if (innovation > 180) innovation -= 360;
+    if (innovation < -180) innovation += 360;
+
+    const gain = this.variance / (this.variance + measurementVariance);
+    this.heading = normalizeDegrees(this.heading + gain * innovation);
+    this.variance = (1 - gain) * this.variance;
+  }
+}
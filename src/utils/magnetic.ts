@@ -0,0 +1,118 @@
+import { WMM_COEFFICIENTS, WMM_EPOCH, WMM_VALID_UNTIL } from './wmmCoefficients';
+import { normalizeDegrees, toDegrees, toRadians } from './geo';
+
+const WGS84_A = 6378.137; // km
+const WGS84_E2 = 0.0066943799901413165; // First eccentricity squared
+const REFERENCE_RADIUS = 6371.2; // km, geomagnetic reference sphere
+const MAX_DEGREE = 12;
+
+export interface MagneticField {
+  declination: number; // Degrees, positive when magnetic north is east of true north
+  inclination: number; // Degrees, positive downwards
+  totalIntensity: number; // nT
+}
+
+/**
+ * Decimal year, e.g. 2026.5 for early July 2026
+ */
+const decimalYear = (date: Date): number => {
+  const year = date.getUTCFullYear();
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  return year + (date.getTime() - start) / (end - start);
+};
+
+/**
+ * Earth's main magnetic field from the World Magnetic Model at a geodetic
+ * position. Dates outside the model's validity are clamped to it.
+ */
+export const getMagneticField = (latitude: number, longitude: number, altitudeMeters: number = 0, date: Date = new Date()): MagneticField => {
+  const years = Math.max(0, Math.min(decimalYear(date), WMM_VALID_UNTIL) - WMM_EPOCH);
+
+  // Geodetic to geocentric spherical coordinates; the poles are singular, so stay just off them
+  const phi = toRadians(Math.max(-89.999, Math.min(89.999, latitude)));
+  const lambda = toRadians(longitude);
+  const height = altitudeMeters / 1000;
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const primeVertical = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinPhi * sinPhi);
+  const p = (primeVertical + height) * cosPhi;
+  const z = (primeVertical * (1 - WGS84_E2) + height) * sinPhi;
+  const radius = Math.sqrt(p * p + z * z);
+  const geocentricLatitude = Math.asin(z / radius);
+
+  // Schmidt semi-normalized associated Legendre functions of cos(colatitude) and their colatitude derivatives
+  const cosTheta = Math.sin(geocentricLatitude);
+  const sinTheta = Math.cos(geocentricLatitude);
+  const P: number[][] = [];
+  const dP: number[][] = [];
+  for (let n = 0; n <= MAX_DEGREE; n++) {
+    P.push(new Array(n + 1).fill(0));
+    dP.push(new Array(n + 1).fill(0));
+  }
+  P[0][0] = 1;
+  for (let n = 1; n <= MAX_DEGREE; n++) {
+    for (let m = 0; m <= n; m++) {
+      if (n === m) {
+        const factor = n === 1 ? 1 : Math.sqrt((2 * n - 1) / (2 * n));
+        P[n][n] = factor * sinTheta * P[n - 1][n - 1];
+        dP[n][n] = factor * (cosTheta * P[n - 1][n - 1] + sinTheta * dP[n - 1][n - 1]);
+      } else {
+        const previous = n >= 2 && m <= n - 2 ? Math.sqrt((n - 1) * (n - 1) - m * m) : 0;
+        const P2 = previous ? P[n - 2][m] : 0;
+        const dP2 = previous ? dP[n - 2][m] : 0;
+        const divisor = Math.sqrt(n * n - m * m);
+        P[n][m] = ((2 * n - 1) * cosTheta * P[n - 1][m] - previous * P2) / divisor;
+        dP[n][m] = ((2 * n - 1) * (cosTheta * dP[n - 1][m] - sinTheta * P[n - 1][m]) - previous * dP2) / divisor;
+      }
+    }
+  }
+
+  // Field components in the geocentric frame: north, east, down
+  let north = 0;
+  let east = 0;
+  let down = 0;
+  for (const [n, m, g0, h0, gDot, hDot] of WMM_COEFFICIENTS) {
+    const g = g0 + years * gDot;
+    const h = h0 + years * hDot;
+    const scale = Math.pow(REFERENCE_RADIUS / radius, n + 2);
+    const cosM = Math.cos(m * lambda);
+    const sinM = Math.sin(m * lambda);
+
+    north += scale * (g * cosM + h * sinM) * dP[n][m];
+    east += scale * m * (g * sinM - h * cosM) * P[n][m];
+    down -= scale * (n + 1) * (g * cosM + h * sinM) * P[n][m];
+  }
+  east /= sinTheta;
+
+  // Rotate north/down from geocentric to geodetic
+  const rotation = geocentricLatitude - phi;
+  const geodeticNorth = north * Math.cos(rotation) - down * Math.sin(rotation);
+  const geodeticDown = north * Math.sin(rotation) + down * Math.cos(rotation);
+  const horizontal = Math.sqrt(geodeticNorth * geodeticNorth + east * east);
+
+  return {
+    declination: toDegrees(Math.atan2(east, geodeticNorth)),
+    inclination: toDegrees(Math.atan2(geodeticDown, horizontal)),
+    totalIntensity: Math.sqrt(horizontal * horizontal + geodeticDown * geodeticDown),
+  };
+};
+
+/**
+ * Magnetic declination in degrees, positive east
+ */
+export const getMagneticDeclination = (latitude: number, longitude: number, altitudeMeters: number = 0, date: Date = new Date()): number =>
+  getMagneticField(latitude, longitude, altitudeMeters, date).declination;
+
+/**
+ * UTM grid convergence: the angle from true north to grid north, positive
+ * when grid north is east of true north
+ */
+export const getGridConvergence = (latitude: number, longitude: number): number => {
+  const zone = Math.floor((normalizeDegrees(longitude + 180)) / 6) + 1;
+  const centralMeridian = (zone - 1) * 6 - 180 + 3;
+  let delta = longitude - centralMeridian;
+  if (delta > 180) delta -= 360;
+  if (delta < -180) delta += 360;
+  return toDegrees(Math.atan(Math.tan(toRadians(delta)) * Math.sin(toRadians(latitude))));
+};
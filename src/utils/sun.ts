@@ -0,0 +1,62 @@
+import { toDegrees, toRadians } from './geo';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const OBLIQUITY = toRadians(23.4397);
+const SUN_ALTITUDE = toRadians(-0.833); // Upper limb on the horizon, incl. refraction
+
+export interface SunTimes {
+  sunrise: Date | null; // null during polar night or midnight sun
+  sunset: Date | null;
+  polarDay: boolean; // sun never sets
+  polarNight: boolean; // sun never rises
+}
+
+const toJulian = (date: Date): number => date.getTime() / DAY_MS - 0.5 + J1970;
+
+const fromJulian = (julian: number): Date => new Date((julian + 0.5 - J1970) * DAY_MS);
+
+/**
+ * Sunrise and sunset for the day containing `date` at a position, using the
+ * NOAA/Wikipedia sunrise equation (accurate to a minute or two)
+ */
+export const getSunTimes = (date: Date, latitude: number, longitude: number): SunTimes => {
+  const lw = toRadians(-longitude);
+  const phi = toRadians(latitude);
+
+  const days = toJulian(date) - J2000;
+  const cycle = Math.round(days - 0.0009 - lw / (2 * Math.PI));
+  const approxTransit = 0.0009 + lw / (2 * Math.PI) + cycle;
+
+  const meanAnomaly = toRadians(357.5291 + 0.98560028 * approxTransit);
+  const center = toRadians(
+    1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly)
+  );
+  const eclipticLongitude = meanAnomaly + center + toRadians(102.9372) + Math.PI;
+  const transit = J2000 + approxTransit + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * eclipticLongitude);
+
+  const declination = Math.asin(Math.sin(eclipticLongitude) * Math.sin(OBLIQUITY));
+  const cosHourAngle =
+    (Math.sin(SUN_ALTITUDE) - Math.sin(phi) * Math.sin(declination)) / (Math.cos(phi) * Math.cos(declination));
+
+  if (cosHourAngle > 1) return { sunrise: null, sunset: null, polarDay: false, polarNight: true };
+  if (cosHourAngle < -1) return { sunrise: null, sunset: null, polarDay: true, polarNight: false };
+
+  const hourAngle = toDegrees(Math.acos(cosHourAngle));
+  return {
+    sunrise: fromJulian(transit - hourAngle / 360),
+    sunset: fromJulian(transit + hourAngle / 360),
+    polarDay: false,
+    polarNight: false,
+  };
+};
+
+/**
+ * Whether the sun is up at the given time and place
+ */
+export const isDaylight = (date: Date, latitude: number, longitude: number): boolean => {
+  const { sunrise, sunset, polarDay } = getSunTimes(date, latitude, longitude);
+  if (!sunrise || !sunset) return polarDay;
+  return date.getTime() >= sunrise.getTime() && date.getTime() < sunset.getTime();
+};
@@ -0,0 +1,121 @@
+export type SpeedUnit = 'km/h' | 'mph' | 'knots';
+
+export const KMH_PER_MPH = 1.609344;
+export const KMH_PER_KNOT = 1.852;
+
+/**
+ * Convert a speed in the given unit to km/h, rounded to a whole number as signs are
+ */
+export const toKmh = (value: number, unit: SpeedUnit): number => {
+  switch (unit) {
+    case 'mph': return Math.round(value * KMH_PER_MPH);
+    case 'knots': return Math.round(value * KMH_PER_KNOT);
+    default: return value;
+  }
+};
+
+/**
+ * How speeds, distances and altitudes are shown. Values are always stored
+ * and passed around in km/h and metres; convert only for display.
+ */
+export type UnitSystem = 'metric' | 'imperial' | 'nautical';
+export type LengthUnit = 'm' | 'ft';
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial', 'nautical'];
+
+export const METERS_PER_FOOT = 0.3048;
+export const METERS_PER_MILE = 1609.344;
+export const METERS_PER_NAUTICAL_MILE = 1852;
+
+// Steps for the speedometer's numbered ticks, smallest that keeps the dial readable first
+const DIAL_STEPS = [5, 10, 20, 25, 50, 100];
+const MAX_DIAL_TICKS = 12;
+
+export const speedUnitFor = (system: UnitSystem): SpeedUnit => {
+  switch (system) {
+    case 'imperial': return 'mph';
+    case 'nautical': return 'knots';
+    default: return 'km/h';
+  }
+};
+
+/**
+ * Altitudes and short lengths: feet for imperial and for nautical, following aviation
+ */
+export const lengthUnitFor = (system: UnitSystem): LengthUnit => (system === 'metric' ? 'm' : 'ft');
+
+/**
+ * Convert a speed in km/h to the given unit, unrounded
+ */
+export const fromKmh = (kmh: number, unit: SpeedUnit): number => {
+  switch (unit) {
+    case 'mph': return kmh / KMH_PER_MPH;
+    case 'knots': return kmh / KMH_PER_KNOT;
+    default: return kmh;
+  }
+};
+
+export const convertSpeed = (kmh: number, system: UnitSystem): number => fromKmh(kmh, speedUnitFor(system));
+
+export const convertLength = (meters: number, system: UnitSystem): number =>
+  lengthUnitFor(system) === 'ft' ? meters / METERS_PER_FOOT : meters;
+
+export const formatSpeed = (kmh: number, system: UnitSystem, decimals: number = 0): string =>
+  `${convertSpeed(kmh, system).toFixed(decimals)} ${speedUnitFor(system)}`;
+
+export const formatAltitude = (meters: number, system: UnitSystem): string =>
+  `${Math.round(convertLength(meters, system))} ${lengthUnitFor(system)}`;
+
+/**
+ * Climb rate: m/s for metric, ft/min (as aircraft and barometric watches show it) otherwise
+ */
+export const formatVerticalSpeed = (metersPerSecond: number, system: UnitSystem): string =>
+  system === 'metric'
+    ? `${Math.abs(metersPerSecond).toFixed(1)} m/s`
+    : `${Math.round(Math.abs(metersPerSecond) / METERS_PER_FOOT * 60)} ft/min`;
+
+/**
+ * Trip-scale distances, switching from m/ft to km/mi/NM once they get long
+ */
+export const formatDistance = (meters: number, system: UnitSystem): string => {
+  switch (system) {
+    case 'imperial':
+      return meters < 0.1 * METERS_PER_MILE
+        ? `${Math.round(meters / METERS_PER_FOOT)} ft`
+        : `${(meters / METERS_PER_MILE).toFixed(1)} mi`;
+    case 'nautical':
+      return meters < 0.1 * METERS_PER_NAUTICAL_MILE
+        ? `${Math.round(meters / METERS_PER_FOOT)} ft`
+        : `${(meters / METERS_PER_NAUTICAL_MILE).toFixed(1)} NM`;
+    default:
+      return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+  }
+};
+
+/**
+ * A speed limit as it should be shown: as signed on the road when its unit is
+ * known, otherwise converted from km/h to the chosen units
+ */
+export const displaySpeedLimit = (
+  limit: { speedLimit: number | null; nativeSpeedLimit?: number | null; unit?: SpeedUnit },
+  system: UnitSystem
+): { value: number; unit: SpeedUnit } | null => {
+  if (limit.nativeSpeedLimit !== null && limit.nativeSpeedLimit !== undefined && limit.unit) {
+    return { value: limit.nativeSpeedLimit, unit: limit.unit };
+  }
+  if (limit.speedLimit === null) return null;
+
+  const unit = speedUnitFor(system);
+  return { value: Math.round(fromKmh(limit.speedLimit, unit)), unit };
+};
+
+/**
+ * Speedometer dial for a top speed in km/h: the top rounded up to a whole
+ * number of evenly spaced ticks in the display unit, e.g. 250 km/h → 0–160 mph by 20
+ */
+export const speedometerScale = (maxSpeedKmh: number, unit: SpeedUnit): { max: number; step: number; majorTickCount: number } => {
+  const top = fromKmh(maxSpeedKmh, unit);
+  const step = DIAL_STEPS.find(candidate => Math.ceil(top / candidate) <= MAX_DIAL_TICKS) ?? DIAL_STEPS[DIAL_STEPS.length - 1];
+  const majorTickCount = Math.max(1, Math.ceil(top / step));
+  return { max: majorTickCount * step, step, majorTickCount };
+};